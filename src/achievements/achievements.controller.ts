@@ -0,0 +1,23 @@
+import { Controller, Get } from '@nestjs/common';
+import { AchievementsService } from './achievements.service';
+
+/**
+ * 成就目录控制器
+ * 
+ * 路径前缀: /achievements
+ */
+@Controller('achievements')
+export class AchievementsController {
+  constructor(private readonly achievementsService: AchievementsService) {}
+
+  /**
+   * 获取成就目录
+   * GET /achievements
+   * 
+   * @returns 所有启用的成就，包含统计指标、目标值和奖励
+   */
+  @Get()
+  findAll() {
+    return this.achievementsService.findAll();
+  }
+}
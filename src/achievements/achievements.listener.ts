@@ -0,0 +1,70 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { AchievementsService } from './achievements.service';
+import { AchievementMetric } from './schemas/achievement.schema';
+import {
+  PET_EVENTS,
+  PetCreatedEvent,
+  PetEvolvedEvent,
+  PetInteractedEvent,
+  PetLeveledUpEvent,
+} from '../pets/events/pet.events';
+import { BATTLE_EVENTS, BattleFinishedEvent } from '../battles/events/battle.events';
+
+/** 计入成就的交互类型 */
+const INTERACTION_METRICS: Partial<Record<PetInteractedEvent['action'], AchievementMetric>> = {
+  feed: AchievementMetric.FEEDS,
+  play: AchievementMetric.PLAYS,
+};
+
+/**
+ * 成就事件监听
+ *
+ * 把宠物和对战的应用内事件转换为成就指标变化。
+ * 事件在业务请求完成后异步处理，处理失败只记录日志，不影响原请求
+ */
+@Injectable()
+export class AchievementsListener {
+  private readonly logger = new Logger(AchievementsListener.name);
+
+  constructor(private readonly achievementsService: AchievementsService) {}
+
+  @OnEvent(PET_EVENTS.CREATED)
+  async onPetCreated(event: PetCreatedEvent): Promise<void> {
+    await this.track(event.userId, AchievementMetric.PETS_ACQUIRED, 1);
+  }
+
+  @OnEvent(PET_EVENTS.INTERACTED)
+  async onPetInteracted(event: PetInteractedEvent): Promise<void> {
+    const metric = INTERACTION_METRICS[event.action];
+    if (metric) {
+      await this.track(event.userId, metric, 1);
+    }
+  }
+
+  @OnEvent(PET_EVENTS.LEVELED_UP)
+  async onPetLeveledUp(event: PetLeveledUpEvent): Promise<void> {
+    await this.track(event.userId, AchievementMetric.PET_LEVEL, event.to);
+  }
+
+  @OnEvent(PET_EVENTS.EVOLVED)
+  async onPetEvolved(event: PetEvolvedEvent): Promise<void> {
+    await this.track(event.userId, AchievementMetric.EVOLUTIONS, 1);
+  }
+
+  @OnEvent(BATTLE_EVENTS.FINISHED)
+  async onBattleFinished(event: BattleFinishedEvent): Promise<void> {
+    await this.track(event.winnerUserId, AchievementMetric.BATTLES_WON, 1);
+  }
+
+  private async track(userId: string, metric: AchievementMetric, value: number): Promise<void> {
+    try {
+      await this.achievementsService.record(userId, metric, value);
+    } catch (error) {
+      this.logger.error(
+        `Failed to record ${metric} for user ${userId}`,
+        error instanceof Error ? error.stack : error,
+      );
+    }
+  }
+}
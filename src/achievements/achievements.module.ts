@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Achievement, AchievementSchema } from './schemas/achievement.schema';
+import {
+  AchievementProgress,
+  AchievementProgressSchema,
+} from './schemas/achievement-progress.schema';
+import { UserAchievement, UserAchievementSchema } from './schemas/user-achievement.schema';
+import { AchievementsService } from './achievements.service';
+import { AchievementsListener } from './achievements.listener';
+import { AchievementsController } from './achievements.controller';
+import { UserAchievementsController } from './user-achievements.controller';
+import { UsersModule } from '../users/users.module';
+import { CoinsModule } from '../coins/coins.module';
+import { ItemsModule } from '../items/items.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Achievement.name, schema: AchievementSchema },
+      { name: AchievementProgress.name, schema: AchievementProgressSchema },
+      { name: UserAchievement.name, schema: UserAchievementSchema },
+    ]),
+    UsersModule,
+    CoinsModule,
+    ItemsModule,
+  ],
+  providers: [AchievementsService, AchievementsListener],
+  controllers: [AchievementsController, UserAchievementsController],
+  exports: [AchievementsService],
+})
+export class AchievementsModule {}
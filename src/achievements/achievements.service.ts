@@ -0,0 +1,289 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Achievement, AchievementDocument, AchievementMetric } from './schemas/achievement.schema';
+import {
+  AchievementProgress,
+  AchievementProgressDocument,
+} from './schemas/achievement-progress.schema';
+import { UserAchievement, UserAchievementDocument } from './schemas/user-achievement.schema';
+import { CreateAchievementDto } from './dto/create-achievement.dto';
+import { UpdateAchievementDto } from './dto/update-achievement.dto';
+import { DEFAULT_ACHIEVEMENTS } from './default-achievements';
+import { UsersService } from '../users/users.service';
+import { CoinsService } from '../coins/coins.service';
+import { CoinReason } from '../coins/schemas/coin-transaction.schema';
+import { InventoryService } from '../items/inventory.service';
+
+/**
+ * 指标的累计方式
+ * - count: 每次事件累加
+ * - max: 记录出现过的最大值
+ */
+const METRIC_MODES: Record<AchievementMetric, 'count' | 'max'> = {
+  [AchievementMetric.PETS_ACQUIRED]: 'count',
+  [AchievementMetric.PET_LEVEL]: 'max',
+  [AchievementMetric.FEEDS]: 'count',
+  [AchievementMetric.PLAYS]: 'count',
+  [AchievementMetric.BATTLES_WON]: 'count',
+  [AchievementMetric.EVOLUTIONS]: 'count',
+};
+
+/** MongoDB 唯一索引冲突的错误码 */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * 用户的一个成就及完成进度
+ */
+export interface UserAchievementProgress {
+  achievement: Achievement;
+  progress: number;
+  /** 完成百分比，0-100 */
+  percent: number;
+  unlocked: boolean;
+  unlockedAt?: Date;
+}
+
+/**
+ * 成就服务类
+ * 维护成就目录，累计用户的指标进度，达到目标时解锁成就并发放奖励
+ */
+@Injectable()
+export class AchievementsService implements OnModuleInit {
+  private readonly logger = new Logger(AchievementsService.name);
+
+  constructor(
+    @InjectModel(Achievement.name) private achievementModel: Model<AchievementDocument>,
+    @InjectModel(AchievementProgress.name)
+    private progressModel: Model<AchievementProgressDocument>,
+    @InjectModel(UserAchievement.name)
+    private userAchievementModel: Model<UserAchievementDocument>,
+    private readonly usersService: UsersService,
+    private readonly coinsService: CoinsService,
+    private readonly inventoryService: InventoryService,
+  ) {}
+
+  /**
+   * 启动时写入缺失的内置成就，已存在的成就不会被覆盖
+   */
+  async onModuleInit(): Promise<void> {
+    const result = await this.achievementModel.bulkWrite(
+      DEFAULT_ACHIEVEMENTS.map((achievement) => ({
+        updateOne: {
+          filter: { key: achievement.key },
+          update: { $setOnInsert: { ...achievement, isActive: true } },
+          upsert: true,
+        },
+      })),
+    );
+    if (result.upsertedCount > 0) {
+      this.logger.log(`Seeded ${result.upsertedCount} default achievements`);
+    }
+  }
+
+  /**
+   * 获取成就目录
+   *
+   * @param includeInactive 是否包含已停用的成就
+   * @returns 成就数组，按指标和目标值排序
+   */
+  async findAll(includeInactive = false): Promise<Achievement[]> {
+    const filter = includeInactive ? {} : { isActive: true };
+    return this.achievementModel.find(filter).sort({ metric: 1, target: 1 }).exec();
+  }
+
+  /**
+   * 新增成就
+   * 已达到目标的用户在该指标下一次变化时解锁
+   *
+   * @param createAchievementDto 成就定义
+   * @returns 创建的成就
+   * @throws ConflictException 当成就 key 已存在时
+   */
+  async create(createAchievementDto: CreateAchievementDto): Promise<Achievement> {
+    const existing = await this.achievementModel.exists({ key: createAchievementDto.key });
+    if (existing) {
+      throw new ConflictException(`Achievement ${createAchievementDto.key} already exists`);
+    }
+    return new this.achievementModel(createAchievementDto).save();
+  }
+
+  /**
+   * 修改成就定义，已解锁的用户不受影响
+   *
+   * @param key 成就标识
+   * @param updateAchievementDto 更新的字段
+   * @returns 更新后的成就
+   * @throws NotFoundException 当成就不存在时
+   */
+  async update(key: string, updateAchievementDto: UpdateAchievementDto): Promise<Achievement> {
+    const achievement = await this.achievementModel
+      .findOneAndUpdate({ key }, updateAchievementDto, { new: true })
+      .exec();
+    if (!achievement) {
+      throw new NotFoundException(`Achievement ${key} not found`);
+    }
+    return achievement;
+  }
+
+  /**
+   * 记录指标变化，并解锁达到目标的成就
+   *
+   * 计数类指标累加 value，最大值类指标保留较大的值。
+   * 解锁时先写入解锁记录（用户和成就唯一），写入成功的请求才发放奖励，并发事件不会重复解锁；
+   * 奖励的金币和每种道具分别记录发放状态，发放中断时保留解锁记录，下次指标变化时只补发未发放的部分
+   *
+   * @param userId 用户ID
+   * @param metric 指标
+   * @param value 计数类指标的增量，或最大值类指标的当前值
+   * @returns 本次解锁的成就
+   */
+  async record(userId: string, metric: AchievementMetric, value = 1): Promise<Achievement[]> {
+    const update = METRIC_MODES[metric] === 'max' ? { $max: { value } } : { $inc: { value } };
+    const progress = await this.progressModel
+      .findOneAndUpdate({ userId, metric }, update, { upsert: true, new: true })
+      .exec();
+
+    const reached = await this.achievementModel
+      .find({ metric, isActive: true, target: { $lte: progress.value } })
+      .exec();
+    if (reached.length === 0) {
+      return [];
+    }
+
+    const existing = await this.userAchievementModel
+      .find({ userId, achievementKey: { $in: reached.map((achievement) => achievement.key) } })
+      .exec();
+    const unlockedByKey = new Map(existing.map((entry) => [entry.achievementKey, entry]));
+    const unlocked: Achievement[] = [];
+    for (const achievement of reached) {
+      const entry = unlockedByKey.get(achievement.key);
+      if (!entry) {
+        if (await this.unlock(userId, achievement)) {
+          unlocked.push(achievement);
+        }
+      } else if (entry.rewardPending) {
+        await this.payReward(entry, achievement.name);
+      }
+    }
+    return unlocked;
+  }
+
+  /**
+   * 获取用户的成就和完成进度
+   *
+   * @param userId 用户ID
+   * @returns 所有启用的成就，以及用户已解锁的已停用成就
+   * @throws NotFoundException 当用户不存在时
+   */
+  async getUserAchievements(userId: string): Promise<UserAchievementProgress[]> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const [achievements, progress, unlocked] = await Promise.all([
+      this.findAll(true),
+      this.progressModel.find({ userId }).exec(),
+      this.userAchievementModel.find({ userId }).exec(),
+    ]);
+    const values = new Map(progress.map((entry) => [entry.metric, entry.value]));
+    const unlockedAt = new Map(unlocked.map((entry) => [entry.achievementKey, entry.unlockedAt]));
+
+    return achievements
+      .filter((achievement) => achievement.isActive || unlockedAt.has(achievement.key))
+      .map((achievement) => {
+        const value = values.get(achievement.metric) ?? 0;
+        const isUnlocked = unlockedAt.has(achievement.key);
+        return {
+          achievement,
+          progress: Math.min(value, achievement.target),
+          percent: isUnlocked ? 100 : Math.min(100, Math.floor((value / achievement.target) * 100)),
+          unlocked: isUnlocked,
+          unlockedAt: unlockedAt.get(achievement.key),
+        };
+      });
+  }
+
+  /**
+   * 解锁成就并发放奖励
+   *
+   * @returns 是否由本次调用解锁
+   */
+  private async unlock(userId: string, achievement: Achievement): Promise<boolean> {
+    let entry: UserAchievementDocument;
+    try {
+      entry = await this.userAchievementModel.create({
+        userId,
+        achievementKey: achievement.key,
+        unlockedAt: new Date(),
+        reward: achievement.reward,
+        rewardPending: true,
+      });
+    } catch (error) {
+      if ((error as { code?: number }).code === DUPLICATE_KEY_ERROR) {
+        return false;
+      }
+      throw error;
+    }
+
+    this.logger.log(`User ${userId} unlocked achievement ${achievement.key}`);
+    await this.payReward(entry, achievement.name);
+    return true;
+  }
+
+  /**
+   * 发放解锁记录中尚未发放的奖励
+   *
+   * 每一部分奖励先原子地记入 paidRewards 再发放，并发重试时每一部分只会发放一次；
+   * 发放失败时撤回这一部分的记录、重新标记为待发放并抛出异常，已发放的部分保留，解锁记录不会删除
+   */
+  private async payReward(entry: UserAchievementDocument, note: string): Promise<void> {
+    const { coins, items } = entry.reward;
+    const parts: { key: string; pay: () => Promise<unknown> }[] = items.map((item, index) => ({
+      key: `item:${index}`,
+      pay: () => this.inventoryService.grant(entry.userId, item.itemKey, item.quantity),
+    }));
+    if (coins > 0) {
+      parts.push({
+        key: 'coins',
+        pay: () =>
+          this.coinsService.credit(entry.userId, coins, CoinReason.ACHIEVEMENT_REWARD, {
+            type: 'achievement',
+            id: entry.achievementKey,
+            note,
+          }),
+      });
+    }
+
+    for (const part of parts) {
+      const claimed = await this.userAchievementModel
+        .updateOne({ _id: entry._id, paidRewards: { $ne: part.key } }, { $addToSet: { paidRewards: part.key } })
+        .exec();
+      if (claimed.modifiedCount === 0) {
+        continue;
+      }
+      try {
+        await part.pay();
+      } catch (error) {
+        await this.userAchievementModel
+          .updateOne({ _id: entry._id }, { $pull: { paidRewards: part.key }, $set: { rewardPending: true } })
+          .exec();
+        throw error;
+      }
+    }
+
+    await this.userAchievementModel
+      .updateOne(
+        { _id: entry._id, paidRewards: { $all: parts.map((part) => part.key) } },
+        { $set: { rewardPending: false } },
+      )
+      .exec();
+  }
+}
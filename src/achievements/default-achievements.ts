@@ -0,0 +1,80 @@
+import { Achievement, AchievementMetric } from './schemas/achievement.schema';
+
+/**
+ * 内置成就
+ * 应用启动时写入数据库中尚不存在的成就，已存在的成就以数据库为准
+ */
+export const DEFAULT_ACHIEVEMENTS: Omit<Achievement, 'isActive'>[] = [
+  {
+    key: 'first_pet',
+    name: '初次相遇',
+    description: '获得第一只宠物',
+    metric: AchievementMetric.PETS_ACQUIRED,
+    target: 1,
+    reward: { coins: 50, items: [{ itemKey: 'basic_kibble', quantity: 3 }] },
+  },
+  {
+    key: 'pet_collector',
+    name: '宠物收藏家',
+    description: '累计获得 5 只宠物',
+    metric: AchievementMetric.PETS_ACQUIRED,
+    target: 5,
+    reward: { coins: 200, items: [] },
+  },
+  {
+    key: 'level_10',
+    name: '茁壮成长',
+    description: '任意宠物达到 10 级',
+    metric: AchievementMetric.PET_LEVEL,
+    target: 10,
+    reward: { coins: 100, items: [{ itemKey: 'super_potion', quantity: 1 }] },
+  },
+  {
+    key: 'level_20',
+    name: '身经百炼',
+    description: '任意宠物达到 20 级',
+    metric: AchievementMetric.PET_LEVEL,
+    target: 20,
+    reward: { coins: 300, items: [] },
+  },
+  {
+    key: 'feeds_100',
+    name: '百餐之恩',
+    description: '累计喂食 100 次',
+    metric: AchievementMetric.FEEDS,
+    target: 100,
+    reward: { coins: 150, items: [{ itemKey: 'meat_bone', quantity: 5 }] },
+  },
+  {
+    key: 'plays_100',
+    name: '最佳玩伴',
+    description: '累计玩耍 100 次',
+    metric: AchievementMetric.PLAYS,
+    target: 100,
+    reward: { coins: 150, items: [{ itemKey: 'chew_toy', quantity: 3 }] },
+  },
+  {
+    key: 'first_win',
+    name: '初战告捷',
+    description: '赢得第一场对战',
+    metric: AchievementMetric.BATTLES_WON,
+    target: 1,
+    reward: { coins: 20, items: [] },
+  },
+  {
+    key: 'wins_50',
+    name: '常胜将军',
+    description: '累计赢得 50 场对战',
+    metric: AchievementMetric.BATTLES_WON,
+    target: 50,
+    reward: { coins: 500, items: [{ itemKey: 'super_potion', quantity: 3 }] },
+  },
+  {
+    key: 'first_evolution',
+    name: '破茧而出',
+    description: '宠物第一次进化',
+    metric: AchievementMetric.EVOLUTIONS,
+    target: 1,
+    reward: { coins: 100, items: [] },
+  },
+];
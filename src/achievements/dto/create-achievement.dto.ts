@@ -0,0 +1,62 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { AchievementMetric } from '../schemas/achievement.schema';
+
+export class AchievementItemRewardDto {
+  @IsString()
+  @IsNotEmpty()
+  itemKey: string;
+
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class AchievementRewardDto {
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  coins?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AchievementItemRewardDto)
+  items?: AchievementItemRewardDto[];
+}
+
+export class CreateAchievementDto {
+  @IsString()
+  @Matches(/^[a-z][a-z0-9_]*$/, { message: 'key must be lowercase letters, digits or underscores' })
+  key: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsEnum(AchievementMetric)
+  metric: AchievementMetric;
+
+  @IsInt()
+  @Min(1)
+  target: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AchievementRewardDto)
+  reward?: AchievementRewardDto;
+}
@@ -0,0 +1,36 @@
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { AchievementRewardDto } from './create-achievement.dto';
+
+export class UpdateAchievementDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  target?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AchievementRewardDto)
+  reward?: AchievementRewardDto;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
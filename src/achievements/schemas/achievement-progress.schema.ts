@@ -0,0 +1,24 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { AchievementMetric } from './achievement.schema';
+
+export type AchievementProgressDocument = AchievementProgress & Document;
+
+/**
+ * 用户在某个成就指标上的累计进度
+ */
+@Schema({ timestamps: true })
+export class AchievementProgress {
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop({ required: true, enum: AchievementMetric })
+  metric: AchievementMetric;
+
+  @Prop({ default: 0 })
+  value: number;
+}
+
+export const AchievementProgressSchema = SchemaFactory.createForClass(AchievementProgress);
+
+AchievementProgressSchema.index({ userId: 1, metric: 1 }, { unique: true });
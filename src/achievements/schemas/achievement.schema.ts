@@ -0,0 +1,75 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type AchievementDocument = Achievement & Document;
+
+/**
+ * 成就统计的指标
+ * - pets_acquired: 获得的宠物数量（创建和孵化）
+ * - pet_level: 拥有过的宠物的最高等级
+ * - feeds / plays: 喂食、玩耍次数
+ * - battles_won: 对战胜场
+ * - evolutions: 宠物进化次数
+ */
+export enum AchievementMetric {
+  PETS_ACQUIRED = 'pets_acquired',
+  PET_LEVEL = 'pet_level',
+  FEEDS = 'feeds',
+  PLAYS = 'plays',
+  BATTLES_WON = 'battles_won',
+  EVOLUTIONS = 'evolutions',
+}
+
+/**
+ * 成就奖励的道具
+ */
+@Schema({ _id: false })
+export class AchievementItemReward {
+  @Prop({ required: true })
+  itemKey: string;
+
+  @Prop({ required: true })
+  quantity: number;
+}
+
+/**
+ * 解锁成就时发放的奖励
+ */
+@Schema({ _id: false })
+export class AchievementReward {
+  @Prop({ default: 0 })
+  coins: number;
+
+  @Prop({ type: [AchievementItemReward], default: [] })
+  items: AchievementItemReward[];
+}
+
+/**
+ * 成就目录
+ * 指标达到 target 时解锁并发放奖励，每个用户只能解锁一次，由管理员维护
+ */
+@Schema({ timestamps: true })
+export class Achievement {
+  @Prop({ required: true, unique: true })
+  key: string;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  description?: string;
+
+  @Prop({ required: true, enum: AchievementMetric })
+  metric: AchievementMetric;
+
+  @Prop({ required: true })
+  target: number;
+
+  @Prop({ type: AchievementReward, default: () => ({}) })
+  reward: AchievementReward;
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const AchievementSchema = SchemaFactory.createForClass(Achievement);
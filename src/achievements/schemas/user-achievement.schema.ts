@@ -0,0 +1,37 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { AchievementReward } from './achievement.schema';
+
+export type UserAchievementDocument = UserAchievement & Document;
+
+/**
+ * 用户已解锁的成就
+ * (userId, achievementKey) 唯一，保证每个成就只解锁一次；奖励按部分记录发放状态，每一部分只发放一次
+ */
+@Schema({ timestamps: true })
+export class UserAchievement {
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop({ required: true })
+  achievementKey: string;
+
+  @Prop({ required: true })
+  unlockedAt: Date;
+
+  /** 解锁时发放的奖励 */
+  @Prop({ type: AchievementReward, required: true })
+  reward: AchievementReward;
+
+  /** 奖励还没有全部发放，发放中断时下次指标变化重试未发放的部分 */
+  @Prop({ default: false })
+  rewardPending: boolean;
+
+  /** 已发放的奖励部分：coins 为金币，item:<序号> 为 reward.items 中的道具 */
+  @Prop({ type: [String], default: [] })
+  paidRewards: string[];
+}
+
+export const UserAchievementSchema = SchemaFactory.createForClass(UserAchievement);
+
+UserAchievementSchema.index({ userId: 1, achievementKey: 1 }, { unique: true });
@@ -0,0 +1,24 @@
+import { Controller, Get, Param } from '@nestjs/common';
+import { AchievementsService } from './achievements.service';
+
+/**
+ * 用户成就控制器
+ * 
+ * 路径前缀: /users/:id/achievements
+ */
+@Controller('users/:id/achievements')
+export class UserAchievementsController {
+  constructor(private readonly achievementsService: AchievementsService) {}
+
+  /**
+   * 获取用户的成就
+   * GET /users/:id/achievements
+   * 
+   * @param id 用户ID，可以查询任意用户
+   * @returns 每个成就的解锁状态、当前进度和完成百分比
+   */
+  @Get()
+  findAll(@Param('id') id: string) {
+    return this.achievementsService.getUserAchievements(id);
+  }
+}
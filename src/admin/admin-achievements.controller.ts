@@ -0,0 +1,59 @@
+import { Controller, Get, Post, Param, Patch, Body } from '@nestjs/common';
+import { AchievementsService } from '../achievements/achievements.service';
+import { CreateAchievementDto } from '../achievements/dto/create-achievement.dto';
+import { UpdateAchievementDto } from '../achievements/dto/update-achievement.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../users/schemas/user.schema';
+
+/**
+ * 成就管理控制器（管理后台）
+ * 维护成就目录
+ * 
+ * 路径前缀: /admin/achievements
+ * 访问权限:
+ * - 查询接口: moderator, admin
+ * - 修改接口: admin
+ */
+@Roles(UserRole.MODERATOR, UserRole.ADMIN)
+@Controller('admin/achievements')
+export class AdminAchievementsController {
+  constructor(private readonly achievementsService: AchievementsService) {}
+
+  /**
+   * 获取全部成就（包含已停用的成就）
+   * GET /admin/achievements
+   * 
+   * @returns 成就数组
+   */
+  @Get()
+  findAll() {
+    return this.achievementsService.findAll(true);
+  }
+
+  /**
+   * 新增成就
+   * POST /admin/achievements
+   * 
+   * @param createAchievementDto 成就定义
+   * @returns 创建的成就
+   */
+  @Roles(UserRole.ADMIN)
+  @Post()
+  create(@Body() createAchievementDto: CreateAchievementDto) {
+    return this.achievementsService.create(createAchievementDto);
+  }
+
+  /**
+   * 修改成就定义
+   * PATCH /admin/achievements/:key
+   * 
+   * @param key 成就标识
+   * @param updateAchievementDto 更新的字段
+   * @returns 更新后的成就
+   */
+  @Roles(UserRole.ADMIN)
+  @Patch(':key')
+  update(@Param('key') key: string, @Body() updateAchievementDto: UpdateAchievementDto) {
+    return this.achievementsService.update(key, updateAchievementDto);
+  }
+}
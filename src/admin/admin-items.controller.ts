@@ -0,0 +1,78 @@
+import { Controller, Get, Post, Param, Patch, Body } from '@nestjs/common';
+import { ItemsService } from '../items/items.service';
+import { InventoryService } from '../items/inventory.service';
+import { CreateItemDto } from '../items/dto/create-item.dto';
+import { UpdateItemDto } from '../items/dto/update-item.dto';
+import { GrantItemDto } from '../items/dto/grant-item.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../users/schemas/user.schema';
+
+/**
+ * 道具管理控制器（管理后台）
+ * 维护道具目录并向用户发放道具
+ * 
+ * 路径前缀: /admin/items
+ * 访问权限:
+ * - 查询接口: moderator, admin
+ * - 修改接口: admin
+ */
+@Roles(UserRole.MODERATOR, UserRole.ADMIN)
+@Controller('admin/items')
+export class AdminItemsController {
+  constructor(
+    private readonly itemsService: ItemsService,
+    private readonly inventoryService: InventoryService,
+  ) {}
+
+  /**
+   * 获取全部道具（包含已停用的道具）
+   * GET /admin/items
+   * 
+   * @returns 道具数组
+   */
+  @Get()
+  findAll() {
+    return this.itemsService.findAll(true);
+  }
+
+  /**
+   * 新增道具
+   * POST /admin/items
+   * 
+   * @param createItemDto 道具定义
+   * @returns 创建的道具
+   */
+  @Roles(UserRole.ADMIN)
+  @Post()
+  create(@Body() createItemDto: CreateItemDto) {
+    return this.itemsService.create(createItemDto);
+  }
+
+  /**
+   * 修改道具定义
+   * PATCH /admin/items/:key
+   * 
+   * @param key 道具标识
+   * @param updateItemDto 更新的字段
+   * @returns 更新后的道具
+   */
+  @Roles(UserRole.ADMIN)
+  @Patch(':key')
+  update(@Param('key') key: string, @Body() updateItemDto: UpdateItemDto) {
+    return this.itemsService.update(key, updateItemDto);
+  }
+
+  /**
+   * 向用户发放道具
+   * POST /admin/items/:key/grant
+   * 
+   * @param key 道具标识
+   * @param grantItemDto 接收用户和数量
+   * @returns 发放后的背包记录
+   */
+  @Roles(UserRole.ADMIN)
+  @Post(':key/grant')
+  grant(@Param('key') key: string, @Body() grantItemDto: GrantItemDto) {
+    return this.inventoryService.grant(grantItemDto.userId, key, grantItemDto.quantity);
+  }
+}
@@ -1,20 +1,24 @@
 import { Controller, Get, Query, Param } from '@nestjs/common';
-import { LogsService } from './logs.service';
+import { LogsService } from '../logs/logs.service';
 import { ParseDatePipe } from '../common/pipes/date.pipe';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../users/schemas/user.schema';
 
 /**
- * 日志管理控制器
+ * 日志管理控制器（管理后台）
  * 提供系统日志查询和分析的RESTful API接口
  * 
- * 路径前缀: /logs
+ * 路径前缀: /admin/logs
+ * 访问权限: moderator, admin
  */
-@Controller('logs')
-export class LogsController {
+@Roles(UserRole.MODERATOR, UserRole.ADMIN)
+@Controller('admin/logs')
+export class AdminLogsController {
   constructor(private readonly logsService: LogsService) {}
 
   /**
    * 获取所有日志记录
-   * GET /logs
+   * GET /admin/logs
    * 
    * @returns 所有系统日志的数组，按创建时间倒序排列
    * 
@@ -35,7 +39,7 @@ export class LogsController {
 
   /**
    * 根据用户ID获取日志
-   * GET /logs/user/:userId
+   * GET /admin/logs/user/:userId
    * 
    * @param userId 用户ID，从URL路径参数获取
    * @returns 指定用户的所有日志记录，按创建时间倒序排列
@@ -52,14 +56,14 @@ export class LogsController {
 
   /**
    * 根据日期范围获取日志
-   * GET /logs/date-range?startDate=日期&endDate=日期
+   * GET /admin/logs/date-range?startDate=日期&endDate=日期
    * 
    * @param startDate 开始日期，通过ParseDatePipe自动转换为Date对象
    * @param endDate 结束日期，通过ParseDatePipe自动转换为Date对象
    * @returns 指定日期范围内的所有日志记录
    * 
    * 查询示例：
-   * GET /logs/date-range?startDate=2024-01-01&endDate=2024-01-31
+   * GET /admin/logs/date-range?startDate=2024-01-01&endDate=2024-01-31
    * 
    * 用途：
    * - 生成特定时期的系统报告
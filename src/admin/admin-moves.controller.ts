@@ -0,0 +1,59 @@
+import { Controller, Get, Post, Param, Patch, Body } from '@nestjs/common';
+import { SkillsService } from '../skills/skills.service';
+import { CreateMoveDto } from '../skills/dto/create-move.dto';
+import { UpdateMoveDto } from '../skills/dto/update-move.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../users/schemas/user.schema';
+
+/**
+ * 招式管理控制器（管理后台）
+ * 维护招式目录，物种招式池见 /admin/species
+ * 
+ * 路径前缀: /admin/moves
+ * 访问权限:
+ * - 查询接口: moderator, admin
+ * - 修改接口: admin
+ */
+@Roles(UserRole.MODERATOR, UserRole.ADMIN)
+@Controller('admin/moves')
+export class AdminMovesController {
+  constructor(private readonly skillsService: SkillsService) {}
+
+  /**
+   * 获取全部招式（包含已停用的招式）
+   * GET /admin/moves
+   * 
+   * @returns 招式数组
+   */
+  @Get()
+  findAll() {
+    return this.skillsService.findAll(true);
+  }
+
+  /**
+   * 新增招式
+   * POST /admin/moves
+   * 
+   * @param createMoveDto 招式定义
+   * @returns 创建的招式
+   */
+  @Roles(UserRole.ADMIN)
+  @Post()
+  create(@Body() createMoveDto: CreateMoveDto) {
+    return this.skillsService.create(createMoveDto);
+  }
+
+  /**
+   * 修改招式定义
+   * PATCH /admin/moves/:key
+   * 
+   * @param key 招式标识
+   * @param updateMoveDto 更新的字段
+   * @returns 更新后的招式
+   */
+  @Roles(UserRole.ADMIN)
+  @Patch(':key')
+  update(@Param('key') key: string, @Body() updateMoveDto: UpdateMoveDto) {
+    return this.skillsService.update(key, updateMoveDto);
+  }
+}
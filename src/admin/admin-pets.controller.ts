@@ -0,0 +1,46 @@
+import { Controller, Get, Param, Patch, Body } from '@nestjs/common';
+import { PetsService } from '../pets/pets.service';
+import { UpdatePetDto } from '../pets/dto/update-pet.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../users/schemas/user.schema';
+
+/**
+ * 宠物管理控制器（管理后台）
+ * 提供任意宠物的查询和数值修改等运营功能
+ * 
+ * 路径前缀: /admin/pets
+ * 访问权限:
+ * - 查询接口: moderator, admin
+ * - 修改接口: admin
+ */
+@Roles(UserRole.MODERATOR, UserRole.ADMIN)
+@Controller('admin/pets')
+export class AdminPetsController {
+  constructor(private readonly petsService: PetsService) {}
+
+  /**
+   * 根据ID获取任意宠物信息
+   * GET /admin/pets/:id
+   * 
+   * @param id 宠物ID
+   * @returns 指定ID的宠物详细信息
+   */
+  @Get(':id')
+  findOne(@Param('id') id: string) {
+    return this.petsService.findById(id);
+  }
+
+  /**
+   * 修改宠物信息（可直接设置各项数值）
+   * PATCH /admin/pets/:id
+   * 
+   * @param id 要更新的宠物ID
+   * @param updatePetDto 更新的宠物信息字段
+   * @returns 更新后的宠物信息
+   */
+  @Roles(UserRole.ADMIN)
+  @Patch(':id')
+  update(@Param('id') id: string, @Body() updatePetDto: UpdatePetDto) {
+    return this.petsService.update(id, updatePetDto);
+  }
+}
@@ -0,0 +1,44 @@
+import { Controller, Get, Post } from '@nestjs/common';
+import { RankedSeasonsService } from '../ranked/ranked-seasons.service';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../users/schemas/user.schema';
+
+/**
+ * 排位赛管理控制器（管理后台）
+ * 查看赛季和提前结束当前赛季
+ *
+ * 路径前缀: /admin/ranked
+ * 访问权限:
+ * - 查询接口: moderator, admin
+ * - 结束赛季: admin
+ */
+@Roles(UserRole.MODERATOR, UserRole.ADMIN)
+@Controller('admin/ranked')
+export class AdminRankedController {
+  constructor(private readonly seasonsService: RankedSeasonsService) {}
+
+  /**
+   * 获取全部赛季
+   * GET /admin/ranked/seasons
+   *
+   * @returns 按序号倒序排列的赛季
+   */
+  @Get('seasons')
+  findAll() {
+    return this.seasonsService.findAll();
+  }
+
+  /**
+   * 立即结束当前赛季
+   * POST /admin/ranked/seasons/rollover
+   *
+   * 按当前积分计算最终排名并发放奖励，然后开始下一个赛季
+   *
+   * @returns 结束的赛季，没有进行中的赛季时为 null
+   */
+  @Roles(UserRole.ADMIN)
+  @Post('seasons/rollover')
+  rollover() {
+    return this.seasonsService.rollover(new Date(), true);
+  }
+}
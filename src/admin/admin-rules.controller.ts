@@ -0,0 +1,73 @@
+import { Controller, Get, Post, Body } from '@nestjs/common';
+import { RulesService } from '../rules/rules.service';
+import { PublishGameRulesDto } from '../rules/dto/game-rules.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../users/schemas/user.schema';
+
+/**
+ * 游戏规则管理控制器（管理后台）
+ * 维护版本化的游戏平衡规则：交互效果、冷却时间、每日经验上限、状态阈值、忽视和找回规则
+ *
+ * 路径前缀: /admin/rules
+ * 访问权限:
+ * - 查询接口: moderator, admin
+ * - 发布和重新加载: admin
+ */
+@Roles(UserRole.MODERATOR, UserRole.ADMIN)
+@Controller('admin/rules')
+export class AdminRulesController {
+  constructor(private readonly rulesService: RulesService) {}
+
+  /**
+   * 获取当前生效的规则
+   * GET /admin/rules/active
+   *
+   * @returns 规则内容和版本号
+   */
+  @Get('active')
+  getActive() {
+    return this.rulesService.getActive();
+  }
+
+  /**
+   * 获取全部规则版本
+   * GET /admin/rules
+   *
+   * @returns 按版本号倒序排列的规则版本
+   */
+  @Get()
+  findAll() {
+    return this.rulesService.findAll();
+  }
+
+  /**
+   * 发布新的规则版本
+   * POST /admin/rules
+   *
+   * 需要提交完整的规则内容，校验通过后保存为新版本并立即生效
+   *
+   * @param adminId 当前管理员ID
+   * @param publishGameRulesDto 规则内容和发布说明
+   * @returns 新的规则版本
+   */
+  @Roles(UserRole.ADMIN)
+  @Post()
+  publish(@CurrentUser('id') adminId: string, @Body() publishGameRulesDto: PublishGameRulesDto) {
+    return this.rulesService.publish(adminId, publishGameRulesDto);
+  }
+
+  /**
+   * 从数据库重新加载最新的规则版本
+   * POST /admin/rules/reload
+   *
+   * 最新版本校验失败时返回 400，继续使用当前生效的规则
+   *
+   * @returns 重新加载后生效的规则
+   */
+  @Roles(UserRole.ADMIN)
+  @Post('reload')
+  reload() {
+    return this.rulesService.reload();
+  }
+}
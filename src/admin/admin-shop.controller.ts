@@ -0,0 +1,61 @@
+import { Controller, Get, Post, Param, Patch, Body } from '@nestjs/common';
+import { ShopService } from '../shop/shop.service';
+import { CreateShopProductDto } from '../shop/dto/create-shop-product.dto';
+import { UpdateShopProductDto } from '../shop/dto/update-shop-product.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../users/schemas/user.schema';
+
+/**
+ * 商店管理控制器（管理后台）
+ * 维护商品目录、价格、库存和限时折扣
+ * 
+ * 路径前缀: /admin/shop
+ * 访问权限:
+ * - 查询接口: moderator, admin
+ * - 修改接口: admin
+ */
+@Roles(UserRole.MODERATOR, UserRole.ADMIN)
+@Controller('admin/shop')
+export class AdminShopController {
+  constructor(private readonly shopService: ShopService) {}
+
+  /**
+   * 获取全部商品（包含已下架的商品）
+   * GET /admin/shop/products
+   * 
+   * @returns 商品数组
+   */
+  @Get('products')
+  findAll() {
+    return this.shopService.findAll();
+  }
+
+  /**
+   * 新增商品
+   * POST /admin/shop/products
+   * 
+   * @param createShopProductDto 商品定义
+   * @returns 创建的商品
+   */
+  @Roles(UserRole.ADMIN)
+  @Post('products')
+  create(@Body() createShopProductDto: CreateShopProductDto) {
+    return this.shopService.create(createShopProductDto);
+  }
+
+  /**
+   * 修改商品
+   * PATCH /admin/shop/products/:sku
+   * 
+   * 可修改价格、库存（null 为不限量）、限时折扣（null 为取消折扣）和上下架状态
+   * 
+   * @param sku 商品 sku
+   * @param updateShopProductDto 更新的字段
+   * @returns 更新后的商品
+   */
+  @Roles(UserRole.ADMIN)
+  @Patch('products/:sku')
+  update(@Param('sku') sku: string, @Body() updateShopProductDto: UpdateShopProductDto) {
+    return this.shopService.update(sku, updateShopProductDto);
+  }
+}
@@ -0,0 +1,74 @@
+import { Controller, Get, Post, Param, Patch, Delete, Body } from '@nestjs/common';
+import { SpeciesService } from '../species/species.service';
+import { CreateSpeciesDto } from '../species/dto/create-species.dto';
+import { UpdateSpeciesDto } from '../species/dto/update-species.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../users/schemas/user.schema';
+
+/**
+ * 物种管理控制器（管理后台）
+ * 维护物种注册表：初始数值、衰减速度、喜爱的食物和成长曲线
+ * 
+ * 路径前缀: /admin/species
+ * 访问权限:
+ * - 查询接口: moderator, admin
+ * - 修改接口: admin
+ */
+@Roles(UserRole.MODERATOR, UserRole.ADMIN)
+@Controller('admin/species')
+export class AdminSpeciesController {
+  constructor(private readonly speciesService: SpeciesService) {}
+
+  /**
+   * 获取全部物种（包含已停用的物种）
+   * GET /admin/species
+   * 
+   * @returns 物种数组
+   */
+  @Get()
+  findAll() {
+    return this.speciesService.findAll(true);
+  }
+
+  /**
+   * 新增物种
+   * POST /admin/species
+   * 
+   * @param createSpeciesDto 物种定义
+   * @returns 创建的物种
+   */
+  @Roles(UserRole.ADMIN)
+  @Post()
+  create(@Body() createSpeciesDto: CreateSpeciesDto) {
+    return this.speciesService.create(createSpeciesDto);
+  }
+
+  /**
+   * 修改物种定义
+   * PATCH /admin/species/:key
+   * 
+   * @param key 物种标识
+   * @param updateSpeciesDto 更新的字段
+   * @returns 更新后的物种
+   */
+  @Roles(UserRole.ADMIN)
+  @Patch(':key')
+  update(@Param('key') key: string, @Body() updateSpeciesDto: UpdateSpeciesDto) {
+    return this.speciesService.update(key, updateSpeciesDto);
+  }
+
+  /**
+   * 停用物种
+   * DELETE /admin/species/:key
+   * 
+   * 已有宠物不受影响，只是不能再创建该物种的新宠物
+   * 
+   * @param key 物种标识
+   * @returns 停用后的物种
+   */
+  @Roles(UserRole.ADMIN)
+  @Delete(':key')
+  deactivate(@Param('key') key: string) {
+    return this.speciesService.deactivate(key);
+  }
+}
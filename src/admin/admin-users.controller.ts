@@ -0,0 +1,145 @@
+import { Controller, Get, Param, Patch, Body, Query } from '@nestjs/common';
+import { UsersService } from '../users/users.service';
+import { CoinsService } from '../coins/coins.service';
+import { CoinReason } from '../coins/schemas/coin-transaction.schema';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { UpdateUserDto } from '../users/dto/update-user.dto';
+import { UpdateUserRoleDto } from '../users/dto/update-user-role.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../users/schemas/user.schema';
+
+/**
+ * 用户管理控制器（管理后台）
+ * 提供用户查询和数值修改等运营功能
+ * 
+ * 路径前缀: /admin/users
+ * 访问权限:
+ * - 查询接口: moderator, admin
+ * - 修改接口: admin
+ */
+@Roles(UserRole.MODERATOR, UserRole.ADMIN)
+@Controller('admin/users')
+export class AdminUsersController {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly coinsService: CoinsService,
+  ) {}
+
+  /**
+   * 获取所有用户列表
+   * GET /admin/users
+   * 
+   * @returns 所有用户信息的数组（不包含密码）
+   */
+  @Get()
+  findAll() {
+    return this.usersService.findAll();
+  }
+
+  /**
+   * 根据邮箱获取用户信息
+   * GET /admin/users/email/:email
+   * 
+   * @param email 用户邮箱
+   * @returns 匹配邮箱的用户信息（不包含密码）
+   */
+  @Get('email/:email')
+  findByEmail(@Param('email') email: string) {
+    return this.usersService.findByEmail(email);
+  }
+
+  /**
+   * 根据ID获取任意用户信息
+   * GET /admin/users/:id
+   * 
+   * @param id 用户ID
+   * @returns 指定ID的用户信息（不包含密码）
+   */
+  @Get(':id')
+  findOne(@Param('id') id: string) {
+    return this.usersService.findById(id);
+  }
+
+  /**
+   * 修改用户信息（包括等级、经验等数值，金币需通过金币接口调整）
+   * PATCH /admin/users/:id
+   * 
+   * @param id 要更新的用户ID
+   * @param updateUserDto 更新的用户信息字段
+   * @returns 更新后的用户信息（不包含密码）
+   */
+  @Roles(UserRole.ADMIN)
+  @Patch(':id')
+  update(@Param('id') id: string, @Body() updateUserDto: UpdateUserDto) {
+    return this.usersService.update(id, updateUserDto);
+  }
+
+  /**
+   * 修改用户角色
+   * PATCH /admin/users/:id/role
+   * 
+   * @param id 用户ID
+   * @param updateUserRoleDto 新角色
+   * @returns 更新后的用户信息（不包含密码）
+   */
+  @Roles(UserRole.ADMIN)
+  @Patch(':id/role')
+  updateRole(@Param('id') id: string, @Body() updateUserRoleDto: UpdateUserRoleDto) {
+    return this.usersService.update(id, { role: updateUserRoleDto.role });
+  }
+
+  /**
+   * 增加用户经验值
+   * PATCH /admin/users/:id/experience?experience=数值
+   * 
+   * @param id 用户ID
+   * @param experience 要增加的经验值数量
+   * @returns 更新后的用户信息（包含新的等级和经验值）
+   */
+  @Roles(UserRole.ADMIN)
+  @Patch(':id/experience')
+  addExperience(
+    @Param('id') id: string,
+    @Query('experience') experience: number,
+  ) {
+    return this.usersService.addExperience(id, experience);
+  }
+
+  /**
+   * 调整用户金币
+   * PATCH /admin/users/:id/coins?coins=数值
+   * 
+   * 调整会记录到金币流水中，扣除时余额不足会直接报错而不是截断为0
+   * 
+   * @param id 用户ID
+   * @param coins 要增加的金币数量（可为负数）
+   * @param adminId 执行调整的管理员ID，记录为流水关联对象
+   * @returns 生成的流水记录（包含变动后余额）
+   */
+  @Roles(UserRole.ADMIN)
+  @Patch(':id/coins')
+  addCoins(
+    @Param('id') id: string,
+    @Query('coins') coins: number,
+    @CurrentUser('id') adminId: string,
+  ) {
+    return this.coinsService.adjust(id, coins, CoinReason.ADMIN_ADJUSTMENT, {
+      type: 'admin',
+      id: adminId,
+    });
+  }
+
+  /**
+   * 分页查询任意用户的金币流水
+   * GET /admin/users/:id/coins/history?page=1&limit=20
+   * 
+   * @param id 用户ID
+   * @param query 分页参数
+   * @returns 按时间倒序排列的流水记录
+   */
+  @Get(':id/coins/history')
+  getCoinHistory(@Param('id') id: string, @Query() query: PaginationQueryDto) {
+    return this.coinsService.getHistory(id, query.page, query.limit);
+  }
+}
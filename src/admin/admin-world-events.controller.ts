@@ -0,0 +1,61 @@
+import { Controller, Get, Post, Delete, Param, Body, Query } from '@nestjs/common';
+import { WorldEventsService } from '../world-events/world-events.service';
+import { CreateWorldEventDto } from '../world-events/dto/create-world-event.dto';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../users/schemas/user.schema';
+
+/**
+ * 世界事件管理控制器（管理后台）
+ * 查看、安排和提前结束世界事件
+ *
+ * 路径前缀: /admin/world-events
+ * 访问权限:
+ * - 查询接口: moderator, admin
+ * - 安排和结束事件: admin
+ */
+@Roles(UserRole.MODERATOR, UserRole.ADMIN)
+@Controller('admin/world-events')
+export class AdminWorldEventsController {
+  constructor(private readonly worldEventsService: WorldEventsService) {}
+
+  /**
+   * 获取全部世界事件（包括已结束和随机触发的事件）
+   * GET /admin/world-events?page=1&limit=20
+   *
+   * @param query 分页参数
+   * @returns 按开始时间倒序排列的事件
+   */
+  @Get()
+  findAll(@Query() query: PaginationQueryDto) {
+    return this.worldEventsService.findAll(query.page, query.limit);
+  }
+
+  /**
+   * 安排世界事件
+   * POST /admin/world-events
+   *
+   * @param adminId 当前管理员ID
+   * @param createWorldEventDto 事件模板、范围、起止时间和可选的效果
+   * @returns 创建的事件
+   */
+  @Roles(UserRole.ADMIN)
+  @Post()
+  schedule(@CurrentUser('id') adminId: string, @Body() createWorldEventDto: CreateWorldEventDto) {
+    return this.worldEventsService.schedule(adminId, createWorldEventDto);
+  }
+
+  /**
+   * 提前结束世界事件
+   * DELETE /admin/world-events/:id
+   *
+   * @param id 事件ID
+   * @returns 结束后的事件
+   */
+  @Roles(UserRole.ADMIN)
+  @Delete(':id')
+  cancel(@Param('id') id: string) {
+    return this.worldEventsService.cancel(id);
+  }
+}
@@ -0,0 +1,61 @@
+import { Module } from '@nestjs/common';
+import { UsersModule } from '../users/users.module';
+import { PetsModule } from '../pets/pets.module';
+import { LogsModule } from '../logs/logs.module';
+import { CoinsModule } from '../coins/coins.module';
+import { SpeciesModule } from '../species/species.module';
+import { ItemsModule } from '../items/items.module';
+import { ShopModule } from '../shop/shop.module';
+import { RulesModule } from '../rules/rules.module';
+import { SkillsModule } from '../skills/skills.module';
+import { AchievementsModule } from '../achievements/achievements.module';
+import { WorldEventsModule } from '../world-events/world-events.module';
+import { RankedModule } from '../ranked/ranked.module';
+import { AdminUsersController } from './admin-users.controller';
+import { AdminPetsController } from './admin-pets.controller';
+import { AdminLogsController } from './admin-logs.controller';
+import { AdminSpeciesController } from './admin-species.controller';
+import { AdminItemsController } from './admin-items.controller';
+import { AdminShopController } from './admin-shop.controller';
+import { AdminRulesController } from './admin-rules.controller';
+import { AdminMovesController } from './admin-moves.controller';
+import { AdminAchievementsController } from './admin-achievements.controller';
+import { AdminWorldEventsController } from './admin-world-events.controller';
+import { AdminRankedController } from './admin-ranked.controller';
+
+/**
+ * 管理后台模块
+ *
+ * 汇总所有 /admin 路由，复用各功能模块导出的服务，
+ * 通过 @Roles() 限制只有运营人员（moderator、admin）可以访问
+ */
+@Module({
+  imports: [
+    UsersModule,
+    PetsModule,
+    LogsModule,
+    CoinsModule,
+    SpeciesModule,
+    ItemsModule,
+    ShopModule,
+    RulesModule,
+    SkillsModule,
+    AchievementsModule,
+    WorldEventsModule,
+    RankedModule,
+  ],
+  controllers: [
+    AdminUsersController,
+    AdminPetsController,
+    AdminLogsController,
+    AdminSpeciesController,
+    AdminItemsController,
+    AdminShopController,
+    AdminRulesController,
+    AdminMovesController,
+    AdminAchievementsController,
+    AdminWorldEventsController,
+    AdminRankedController,
+  ],
+})
+export class AdminModule {}
@@ -1,8 +1,26 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
+import { ScheduleModule } from '@nestjs/schedule';
+import { EventEmitterModule } from '@nestjs/event-emitter';
 import { UsersModule } from './users/users.module';
 import { PetsModule } from './pets/pets.module';
 import { LogsModule } from './logs/logs.module';
+import { AuthModule } from './auth/auth.module';
+import { AdminModule } from './admin/admin.module';
+import { CoinsModule } from './coins/coins.module';
+import { BattlesModule } from './battles/battles.module';
+import { RankedModule } from './ranked/ranked.module';
+import { ItemsModule } from './items/items.module';
+import { ShopModule } from './shop/shop.module';
+import { BreedingModule } from './breeding/breeding.module';
+import { MarketModule } from './market/market.module';
+import { SkillsModule } from './skills/skills.module';
+import { EquipmentModule } from './equipment/equipment.module';
+import { ExpeditionsModule } from './expeditions/expeditions.module';
+import { AchievementsModule } from './achievements/achievements.module';
+import { QuestsModule } from './quests/quests.module';
+import { LeaderboardsModule } from './leaderboards/leaderboards.module';
+import { WorldEventsModule } from './world-events/world-events.module';
 import { databaseConfig } from './config';
 
 /**
@@ -10,9 +28,27 @@ import { databaseConfig } from './config';
  * 
  * 模块结构：
  * - MongooseModule: MongoDB数据库连接
+ * - ScheduleModule: 定时任务（宠物状态定时结算、排行榜计算、世界事件检查、排位赛匹配）
+ * - EventEmitterModule: 应用内事件（宠物状态变化等）
+ * - AuthModule: 令牌认证与全局认证守卫
  * - UsersModule: 用户管理功能模块
  * - PetsModule: 宠物养成功能模块
+ * - SkillsModule: 宠物招式模块
+ * - EquipmentModule: 宠物装饰品与装备模块
+ * - ItemsModule: 道具目录与用户背包模块
+ * - ShopModule: 金币商店模块
+ * - BreedingModule: 宠物繁殖与孵化模块
+ * - MarketModule: 宠物交易市场模块
+ * - ExpeditionsModule: 宠物探险模块
+ * - BattlesModule: 宠物对战模块
+ * - RankedModule: 排位赛模块（Elo 积分、匹配队列与赛季）
+ * - AchievementsModule: 成就模块（监听应用内事件）
+ * - QuestsModule: 每日与每周任务模块
+ * - LeaderboardsModule: 宠物与玩家排行榜模块
+ * - WorldEventsModule: 世界事件模块（定时触发随机事件）
+ * - CoinsModule: 金币余额与流水记录模块
  * - LogsModule: 系统日志记录模块
+ * - AdminModule: 管理后台接口（/admin）
  * 
  * 模块职责：
  * - 组织应用程序的依赖关系
@@ -23,11 +59,31 @@ import { databaseConfig } from './config';
   imports: [
     // MongoDB数据库连接，使用配置文件中的URI
     MongooseModule.forRoot(databaseConfig.mongodb.uri),
+
+    // 定时任务与应用内事件
+    ScheduleModule.forRoot(),
+    EventEmitterModule.forRoot(),
     
     // 功能模块注册
+    AuthModule,     // 认证模块
     UsersModule,    // 用户管理模块
     PetsModule,     // 宠物养成模块
+    SkillsModule,   // 宠物招式模块
+    EquipmentModule, // 宠物装备模块
+    ItemsModule,    // 道具背包模块
+    ShopModule,     // 金币商店模块
+    BreedingModule, // 繁殖孵化模块
+    MarketModule,   // 交易市场模块
+    ExpeditionsModule, // 宠物探险模块
+    BattlesModule,  // 宠物对战模块
+    RankedModule,   // 排位赛模块
+    AchievementsModule, // 成就模块
+    QuestsModule,   // 每日任务模块
+    LeaderboardsModule, // 排行榜模块
+    WorldEventsModule, // 世界事件模块
+    CoinsModule,    // 金币流水模块
     LogsModule,     // 日志记录模块
+    AdminModule,    // 管理后台模块
   ],
   controllers: [],
   providers: [],
@@ -0,0 +1,108 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { Model } from 'mongoose';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import { authConfig } from '../config';
+import { AuthUser, TokenPair, TokenPayload } from './interfaces/auth-user.interface';
+
+/**
+ * 认证服务类
+ * 负责签发、校验访问令牌与刷新令牌，并解析出当前用户
+ */
+@Injectable()
+export class AuthService {
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly jwtService: JwtService,
+  ) {}
+
+  /**
+   * 为用户签发令牌对
+   *
+   * 令牌规则：
+   * - 访问令牌：短期有效，用于调用业务接口
+   * - 刷新令牌：长期有效，仅用于换取新的令牌对
+   * - 两者使用不同的密钥签名，互相不可替代
+   *
+   * @param userId 用户ID
+   * @returns 访问令牌与刷新令牌
+   */
+  async issueTokens(userId: string): Promise<TokenPair> {
+    const accessPayload: TokenPayload = { sub: userId, type: 'access' };
+    const refreshPayload: TokenPayload = { sub: userId, type: 'refresh' };
+
+    const [accessToken, refreshToken] = await Promise.all([
+      this.jwtService.signAsync(accessPayload, authConfig.accessToken),
+      this.jwtService.signAsync(refreshPayload, authConfig.refreshToken),
+    ]);
+
+    return {
+      tokenType: 'Bearer',
+      accessToken,
+      refreshToken,
+      expiresIn: authConfig.accessToken.expiresIn,
+    };
+  }
+
+  /**
+   * 使用刷新令牌换取新的令牌对
+   *
+   * @param refreshToken 刷新令牌
+   * @returns 新的令牌对
+   * @throws UnauthorizedException 当刷新令牌无效、过期或用户已停用时
+   */
+  async refresh(refreshToken: string): Promise<TokenPair> {
+    const payload = await this.verify(refreshToken, 'refresh');
+    const user = await this.resolveUser(payload.sub);
+    return this.issueTokens(user.id);
+  }
+
+  /**
+   * 校验访问令牌并解析当前用户
+   *
+   * @param accessToken 访问令牌
+   * @returns 当前认证用户
+   * @throws UnauthorizedException 当访问令牌无效、过期或用户已停用时
+   */
+  async authenticate(accessToken: string): Promise<AuthUser> {
+    const payload = await this.verify(accessToken, 'access');
+    return this.resolveUser(payload.sub);
+  }
+
+  /**
+   * 校验令牌签名、有效期和类型
+   */
+  private async verify(token: string, type: TokenPayload['type']): Promise<TokenPayload> {
+    const options = type === 'access' ? authConfig.accessToken : authConfig.refreshToken;
+
+    let payload: TokenPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<TokenPayload>(token, { secret: options.secret });
+    } catch {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    if (payload.type !== type) {
+      throw new UnauthorizedException('Invalid token type');
+    }
+    return payload;
+  }
+
+  /**
+   * 根据令牌中的用户ID加载用户，只接受仍处于启用状态的用户
+   */
+  private async resolveUser(userId: string): Promise<AuthUser> {
+    const user = await this.userModel.findById(userId).exec();
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('User not found or inactive');
+    }
+
+    return {
+      id: user._id.toString(),
+      username: user.username,
+      email: user.email,
+      role: user.role,
+    };
+  }
+}
@@ -0,0 +1,17 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthenticatedRequest, AuthUser } from '../interfaces/auth-user.interface';
+
+/**
+ * 获取当前认证用户
+ *
+ * 用法：
+ * - @CurrentUser() user: AuthUser
+ * - @CurrentUser('id') userId: string
+ */
+export const CurrentUser = createParamDecorator(
+  (field: keyof AuthUser | undefined, ctx: ExecutionContext) => {
+    const request = ctx.switchToHttp().getRequest<AuthenticatedRequest>();
+    const user = request.user;
+    return field ? user?.[field] : user;
+  },
+);
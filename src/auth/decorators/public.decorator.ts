@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+
+/**
+ * 标记无需认证即可访问的路由
+ * 全局认证守卫会跳过带有此装饰器的控制器或方法
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
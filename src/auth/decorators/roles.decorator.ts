@@ -0,0 +1,12 @@
+import { SetMetadata } from '@nestjs/common';
+import { UserRole } from '../../users/schemas/user.schema';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * 限制路由只允许指定角色访问
+ * 方法上的声明会覆盖控制器上的声明
+ *
+ * @param roles 允许访问的角色列表
+ */
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
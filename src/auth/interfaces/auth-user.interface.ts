@@ -0,0 +1,40 @@
+import { Request } from 'express';
+import { UserRole } from '../../users/schemas/user.schema';
+
+/**
+ * 已认证用户的身份信息
+ * 由全局认证守卫解析访问令牌后挂载到 request.user
+ */
+export interface AuthUser {
+  id: string;
+  username: string;
+  email: string;
+  role: UserRole;
+}
+
+/**
+ * 携带认证用户信息的请求对象
+ */
+export interface AuthenticatedRequest extends Request {
+  user?: AuthUser;
+}
+
+/**
+ * 令牌载荷
+ * - sub: 用户ID
+ * - type: 令牌类型，区分访问令牌与刷新令牌
+ */
+export interface TokenPayload {
+  sub: string;
+  type: 'access' | 'refresh';
+}
+
+/**
+ * 登录或刷新后签发的令牌对
+ */
+export interface TokenPair {
+  tokenType: 'Bearer';
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: string;
+}
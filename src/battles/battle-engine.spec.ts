@@ -0,0 +1,107 @@
+import {
+  Combatant,
+  CombatMove,
+  computeCombatStats,
+  MAX_BATTLE_ROUNDS,
+  resolveBattle,
+} from './battle-engine';
+import { MoveType } from '../skills/schemas/move.schema';
+
+const combatant = (overrides: Partial<Combatant> = {}): Combatant => ({
+  petId: 'pet',
+  level: 10,
+  health: 100,
+  energy: 100,
+  happiness: 100,
+  ...overrides,
+});
+
+const move = (overrides: Partial<CombatMove> = {}): CombatMove => ({
+  key: 'ember',
+  type: MoveType.FIRE,
+  power: 60,
+  energyCost: 10,
+  cooldown: 1,
+  ...overrides,
+});
+
+describe('computeCombatStats', () => {
+  it('derives stats from level and vitals', () => {
+    const stats = computeCombatStats(combatant());
+
+    expect(stats).toMatchObject({ maxHp: 150, attack: 40, defense: 25, speed: 30, dodgeChance: 0.05 });
+    expect(stats.critChance).toBeCloseTo(0.15);
+  });
+
+  it('adds bonuses before applying personality multipliers', () => {
+    const stats = computeCombatStats(
+      combatant({
+        bonuses: { maxHp: 10, attack: 10, defense: 5, speed: 0 },
+        multipliers: { maxHp: 1, attack: 1.5, defense: 1, speed: 0.5 },
+      }),
+    );
+
+    expect(stats).toMatchObject({ maxHp: 160, attack: 75, defense: 30, speed: 15 });
+  });
+});
+
+describe('resolveBattle', () => {
+  it('produces the same outcome for the same inputs and seed', () => {
+    const attacker = combatant({ petId: 'a', level: 12 });
+    const defender = combatant({ petId: 'd', level: 11, happiness: 60 });
+
+    expect(resolveBattle(attacker, defender, 'seed')).toEqual(resolveBattle(attacker, defender, 'seed'));
+  });
+
+  it('lets a much stronger pet win and ends when one side reaches zero hp', () => {
+    const outcome = resolveBattle(combatant({ level: 50 }), combatant({ level: 1 }), 'seed');
+    const last = outcome.turns[outcome.turns.length - 1];
+
+    expect(outcome.winner).toBe('attacker');
+    expect(last.defenderHp).toBe(0);
+  });
+
+  it('numbers the turns in order and never heals a side', () => {
+    const { turns } = resolveBattle(combatant({ level: 30 }), combatant({ level: 30 }), 'seed');
+
+    turns.forEach((turn, index) => {
+      expect(turn.turn).toBe(index + 1);
+      if (index > 0) {
+        expect(turn.attackerHp).toBeLessThanOrEqual(turns[index - 1].attackerHp);
+        expect(turn.defenderHp).toBeLessThanOrEqual(turns[index - 1].defenderHp);
+      }
+    });
+    expect(turns.length).toBeLessThanOrEqual(MAX_BATTLE_ROUNDS * 2);
+  });
+
+  it('lets the faster pet act first and the challenger act first on a speed tie', () => {
+    const faster = resolveBattle(combatant({ energy: 40 }), combatant({ energy: 100 }), 'seed');
+    const tied = resolveBattle(combatant(), combatant(), 'seed');
+
+    expect(faster.turns[0].actor).toBe('defender');
+    expect(tied.turns[0].actor).toBe('attacker');
+  });
+
+  it('picks the move with the highest expected damage and respects cooldowns', () => {
+    const attacker = combatant({
+      level: 100,
+      moves: [move(), move({ key: 'splash', type: MoveType.WATER, power: 80, cooldown: 0 })],
+    });
+    const defender = combatant({ level: 100, element: MoveType.GRASS });
+
+    const { turns } = resolveBattle(attacker, defender, 'seed');
+    const attackerTurns = turns.filter((turn) => turn.actor === 'attacker');
+
+    expect(attackerTurns.slice(0, 3).map((turn) => turn.move)).toEqual(['ember', 'splash', 'ember']);
+    expect(attackerTurns[0].effectiveness).toBe(1.5);
+    expect(attackerTurns[1].effectiveness).toBe(0.75);
+  });
+
+  it('falls back to a basic attack when no move is affordable', () => {
+    const attacker = combatant({ energy: 5, moves: [move()] });
+
+    const { turns } = resolveBattle(attacker, combatant(), 'seed');
+
+    expect(turns.find((turn) => turn.actor === 'attacker')?.move).toBeNull();
+  });
+});
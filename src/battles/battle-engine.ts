@@ -0,0 +1,263 @@
+import { createRandom, chance, RandomGenerator } from '../common/utils/random';
+import { MoveType } from '../skills/schemas/move.schema';
+import { typeEffectiveness } from '../skills/type-chart';
+
+/**
+ * 参与战斗的宠物数值快照
+ */
+export interface Combatant {
+  petId: string;
+  level: number;
+  health: number;
+  energy: number;
+  happiness: number;
+  /** 进化和装备获得的战斗属性加成 */
+  bonuses?: CombatBonuses;
+  /** 性格对战斗属性的倍率，作用于叠加加成后的属性 */
+  multipliers?: CombatBonuses;
+  /** 物种属性，决定受到招式伤害时的克制关系，未设置时视为一般属性 */
+  element?: MoveType;
+  /** 已装备的招式 */
+  moves?: CombatMove[];
+}
+
+/**
+ * 战斗中可使用的招式快照
+ */
+export interface CombatMove {
+  key: string;
+  type: MoveType;
+  power: number;
+  energyCost: number;
+  cooldown: number;
+}
+
+/**
+ * 直接叠加到战斗属性上的加成
+ */
+export interface CombatBonuses {
+  maxHp: number;
+  attack: number;
+  defense: number;
+  speed: number;
+}
+
+/**
+ * 由宠物数值换算出的战斗属性
+ */
+export interface CombatStats {
+  maxHp: number;
+  attack: number;
+  defense: number;
+  speed: number;
+  critChance: number;
+  dodgeChance: number;
+}
+
+export type BattleSide = 'attacker' | 'defender';
+
+/**
+ * 单次出手记录，前端按顺序播放即可还原整场战斗
+ */
+export interface BattleTurn {
+  turn: number;
+  actor: BattleSide;
+  /** 使用的招式，普通攻击为 null */
+  move: string | null;
+  /** 属性克制倍率 */
+  effectiveness: number;
+  damage: number;
+  critical: boolean;
+  dodged: boolean;
+  attackerHp: number;
+  defenderHp: number;
+}
+
+export interface BattleOutcome {
+  winner: BattleSide;
+  attackerStats: CombatStats;
+  defenderStats: CombatStats;
+  turns: BattleTurn[];
+}
+
+/** 最大回合数，超过后按剩余生命百分比判定胜负 */
+export const MAX_BATTLE_ROUNDS = 30;
+
+/** 普通攻击的威力，招式伤害按威力与它的比值缩放 */
+export const BASIC_ATTACK_POWER = 40;
+
+/**
+ * 单方在战斗中的招式状态
+ */
+interface MoveState {
+  /** 剩余的战斗能量，初始值为参战时的能量 */
+  energy: number;
+  /** 招式再次可用的回合 */
+  readyAt: Map<string, number>;
+}
+
+/**
+ * 计算战斗属性
+ *
+ * 换算规则：
+ * - 生命上限：由等级决定，健康度越低上限越低
+ * - 攻击：由等级决定，能量越低攻击越弱
+ * - 防御：由等级决定，快乐度越低防御越弱
+ * - 速度：等级 + 能量，决定出手顺序
+ * - 暴击率：5% 基础 + 快乐度加成（最高15%）
+ * - 进化和装备加成直接叠加到生命上限、攻击、防御和速度上
+ * - 性格倍率最后作用于生命上限、攻击、防御和速度
+ *
+ * @param combatant 宠物数值快照
+ * @returns 战斗属性
+ */
+export function computeCombatStats(combatant: Combatant): CombatStats {
+  const { level, health, energy, happiness } = combatant;
+  const bonuses = combatant.bonuses ?? { maxHp: 0, attack: 0, defense: 0, speed: 0 };
+  const multipliers = combatant.multipliers ?? { maxHp: 1, attack: 1, defense: 1, speed: 1 };
+  const maxHp = Math.round((50 + level * 10) * (0.5 + health / 200)) + bonuses.maxHp;
+  const attack = Math.round((10 + level * 3) * (0.5 + energy / 200)) + bonuses.attack;
+  const defense = Math.round((5 + level * 2) * (0.5 + happiness / 200)) + bonuses.defense;
+  const speed = 10 + level + Math.floor(energy / 10) + bonuses.speed;
+  return {
+    maxHp: Math.max(1, Math.round(maxHp * multipliers.maxHp)),
+    attack: Math.round(attack * multipliers.attack),
+    defense: Math.round(defense * multipliers.defense),
+    speed: Math.round(speed * multipliers.speed),
+    critChance: 0.05 + happiness / 1000,
+    dodgeChance: 0.05,
+  };
+}
+
+/**
+ * 结算一场战斗
+ *
+ * 战斗流程：
+ * - 每回合双方各出手一次，速度高的先手，速度相同时挑战方先手
+ * - 出手时从已装备的招式中选择冷却完毕、能量足够且预期伤害（威力 × 克制倍率）最高的招式，
+ *   没有可用招式时使用威力 40 的普通攻击；招式即使被闪避也会消耗能量并进入冷却
+ * - 伤害 = 攻击 × 随机浮动(0.85~1.15) × 威力 / 40 × 克制倍率 - 防御 × 0.5，至少为1
+ * - 暴击伤害 ×1.5，闪避则本次伤害为0
+ * - 任意一方生命归零即结束；达到最大回合数时剩余生命百分比高者获胜，相同则防守方获胜
+ *
+ * 相同的输入和种子总是得到完全相同的结果，可用于回放
+ *
+ * @param attacker 挑战方
+ * @param defender 防守方
+ * @param seed 随机种子
+ * @returns 胜负结果和逐次出手记录
+ */
+export function resolveBattle(attacker: Combatant, defender: Combatant, seed: string): BattleOutcome {
+  const random = createRandom(seed);
+  const stats: Record<BattleSide, CombatStats> = {
+    attacker: computeCombatStats(attacker),
+    defender: computeCombatStats(defender),
+  };
+  const hp: Record<BattleSide, number> = {
+    attacker: stats.attacker.maxHp,
+    defender: stats.defender.maxHp,
+  };
+  const moveStates: Record<BattleSide, MoveState> = {
+    attacker: { energy: attacker.energy, readyAt: new Map() },
+    defender: { energy: defender.energy, readyAt: new Map() },
+  };
+  const combatants: Record<BattleSide, Combatant> = { attacker, defender };
+  const order: BattleSide[] =
+    stats.defender.speed > stats.attacker.speed ? ['defender', 'attacker'] : ['attacker', 'defender'];
+
+  const turns: BattleTurn[] = [];
+  let winner: BattleSide | null = null;
+
+  for (let round = 1; round <= MAX_BATTLE_ROUNDS && !winner; round++) {
+    for (const actor of order) {
+      const target: BattleSide = actor === 'attacker' ? 'defender' : 'attacker';
+      const move = chooseMove(combatants[actor], combatants[target], moveStates[actor], round);
+      const effectiveness = move ? effectivenessAgainst(move, combatants[target]) : 1;
+      if (move) {
+        moveStates[actor].energy -= move.energyCost;
+        moveStates[actor].readyAt.set(move.key, round + move.cooldown + 1);
+      }
+
+      const power = move?.power ?? BASIC_ATTACK_POWER;
+      const hit = strike(stats[actor], stats[target], power, effectiveness, random);
+      hp[target] = Math.max(0, hp[target] - hit.damage);
+
+      turns.push({
+        turn: turns.length + 1,
+        actor,
+        move: move?.key ?? null,
+        effectiveness,
+        ...hit,
+        attackerHp: hp.attacker,
+        defenderHp: hp.defender,
+      });
+
+      if (hp[target] === 0) {
+        winner = actor;
+        break;
+      }
+    }
+  }
+
+  if (!winner) {
+    const attackerRatio = hp.attacker / stats.attacker.maxHp;
+    const defenderRatio = hp.defender / stats.defender.maxHp;
+    winner = attackerRatio > defenderRatio ? 'attacker' : 'defender';
+  }
+
+  return {
+    winner,
+    attackerStats: stats.attacker,
+    defenderStats: stats.defender,
+    turns,
+  };
+}
+
+/**
+ * 选择本次出手使用的招式，不消耗随机数，保证旧战斗的回放结果不变
+ */
+function chooseMove(
+  actor: Combatant,
+  target: Combatant,
+  state: MoveState,
+  round: number,
+): CombatMove | null {
+  let best: CombatMove | null = null;
+  let bestPower = BASIC_ATTACK_POWER;
+  for (const move of actor.moves ?? []) {
+    if (move.energyCost > state.energy || (state.readyAt.get(move.key) ?? 0) > round) {
+      continue;
+    }
+    const expected = move.power * effectivenessAgainst(move, target);
+    if (expected > bestPower) {
+      best = move;
+      bestPower = expected;
+    }
+  }
+  return best;
+}
+
+function effectivenessAgainst(move: CombatMove, target: Combatant): number {
+  return typeEffectiveness(move.type, target.element ?? MoveType.NORMAL);
+}
+
+function strike(
+  actor: CombatStats,
+  target: CombatStats,
+  power: number,
+  effectiveness: number,
+  random: RandomGenerator,
+): Pick<BattleTurn, 'damage' | 'critical' | 'dodged'> {
+  if (chance(random, target.dodgeChance)) {
+    return { damage: 0, critical: false, dodged: true };
+  }
+
+  const critical = chance(random, actor.critChance);
+  const variance = 0.85 + random() * 0.3;
+  const scaled = actor.attack * variance * (power / BASIC_ATTACK_POWER) * effectiveness;
+  let damage = Math.max(1, Math.round(scaled - target.defense * 0.5));
+  if (critical) {
+    damage = Math.round(damage * 1.5);
+  }
+  return { damage, critical, dodged: false };
+}
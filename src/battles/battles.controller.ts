@@ -0,0 +1,52 @@
+import { Controller, Get, Post, Param, Body } from '@nestjs/common';
+import { BattlesService } from './battles.service';
+import { CreateBattleDto } from './dto/create-battle.dto';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+/**
+ * 宠物战斗控制器
+ * 提供发起挑战、查询战绩和战斗回放的RESTful API接口
+ * 
+ * 路径前缀: /battles
+ */
+@Controller('battles')
+export class BattlesController {
+  constructor(private readonly battlesService: BattlesService) {}
+
+  /**
+   * 发起挑战
+   * POST /battles
+   * 
+   * @param userId 当前认证用户ID，必须是挑战方宠物的主人
+   * @param createBattleDto 挑战信息，包含己方宠物ID和对手宠物ID
+   * @returns 战斗记录，包含胜负结果和逐次出手记录
+   */
+  @Post()
+  challenge(@CurrentUser('id') userId: string, @Body() createBattleDto: CreateBattleDto) {
+    return this.battlesService.challenge(userId, createBattleDto);
+  }
+
+  /**
+   * 获取宠物的战斗记录
+   * GET /battles/pet/:petId
+   * 
+   * @param petId 宠物ID
+   * @returns 最近50场战斗的概要信息
+   */
+  @Get('pet/:petId')
+  findByPetId(@Param('petId') petId: string) {
+    return this.battlesService.findByPetId(petId);
+  }
+
+  /**
+   * 战斗回放
+   * GET /battles/:id
+   * 
+   * @param id 战斗ID
+   * @returns 完整战斗记录，前端可按 turns 顺序播放战斗动画
+   */
+  @Get(':id')
+  findOne(@Param('id') id: string) {
+    return this.battlesService.findById(id);
+  }
+}
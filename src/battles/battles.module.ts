@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Battle, BattleSchema } from './schemas/battle.schema';
+import { BattlesService } from './battles.service';
+import { BattlesController } from './battles.controller';
+import { PetsModule } from '../pets/pets.module';
+import { CoinsModule } from '../coins/coins.module';
+import { SpeciesModule } from '../species/species.module';
+import { SkillsModule } from '../skills/skills.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: Battle.name, schema: BattleSchema }]),
+    PetsModule,
+    CoinsModule,
+    SpeciesModule,
+    SkillsModule,
+  ],
+  providers: [BattlesService],
+  controllers: [BattlesController],
+  exports: [BattlesService],
+})
+export class BattlesModule {}
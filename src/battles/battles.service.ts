@@ -0,0 +1,272 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Model } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { Battle, BattleDocument, BattleMode } from './schemas/battle.schema';
+import { CreateBattleDto } from './dto/create-battle.dto';
+import { Combatant, CombatMove, resolveBattle } from './battle-engine';
+import { BATTLE_EVENTS, BattleFinishedEvent } from './events/battle.events';
+import { PetsService } from '../pets/pets.service';
+import { Pet, PetDocument } from '../pets/schemas/pet.schema';
+import { combineEquipment } from '../items/equipment';
+import { combineTraitModifiers } from '../pets/personality';
+import { SpeciesService } from '../species/species.service';
+import { SkillsService } from '../skills/skills.service';
+import { Move } from '../skills/schemas/move.schema';
+import { CoinsService } from '../coins/coins.service';
+import { CoinReason } from '../coins/schemas/coin-transaction.schema';
+
+/** 胜方获得的经验值 */
+const WINNER_EXPERIENCE = 30;
+/** 败方获得的经验值 */
+const LOSER_EXPERIENCE = 10;
+/** 胜方主人获得的金币 */
+const WINNER_COINS = 20;
+/** 每场战斗消耗的能量，也是参战所需的最低能量；普通挑战只由挑战方消耗 */
+const BATTLE_ENERGY_COST = 15;
+
+/**
+ * 结算战斗的选项
+ */
+export interface BattleOptions {
+  mode?: BattleMode;
+  /** 排位赛所属的赛季 */
+  season?: number;
+}
+
+/**
+ * 战斗服务类
+ * 处理宠物挑战、战斗结算、战绩更新和战斗回放
+ */
+@Injectable()
+export class BattlesService {
+  constructor(
+    @InjectModel(Battle.name) private battleModel: Model<BattleDocument>,
+    private readonly petsService: PetsService,
+    private readonly coinsService: CoinsService,
+    private readonly speciesService: SpeciesService,
+    private readonly skillsService: SkillsService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * 发起挑战
+   * 
+   * 校验挑战方宠物属于当前用户、对手宠物属于其他用户后按普通模式结算战斗
+   * 
+   * @param userId 当前用户ID
+   * @param createBattleDto 挑战信息，包含己方宠物和对手宠物
+   * @returns 战斗记录
+   * @throws NotFoundException 当宠物不存在时
+   * @throws ForbiddenException 当挑战方宠物不属于当前用户时
+   * @throws BadRequestException 当挑战自己的宠物或宠物无法参战时
+   */
+  async challenge(userId: string, createBattleDto: CreateBattleDto): Promise<Battle> {
+    const attacker = await this.findPet(createBattleDto.petId);
+    const defender = await this.findPet(createBattleDto.opponentPetId);
+
+    if (attacker.userId !== userId) {
+      throw new ForbiddenException('You do not own this pet');
+    }
+    if (defender.userId === userId) {
+      throw new BadRequestException('Cannot challenge your own pet');
+    }
+    return this.fight(attacker, defender);
+  }
+
+  /**
+   * 结算一场战斗
+   * 
+   * 结算流程：
+   * - 校验双方都处于活跃状态且能量充足，并原子地扣除参战消耗的能量。普通挑战的应战方没有同意参战，
+   *   不检查也不扣除能量，避免其他玩家反复挑战把宠物的能量耗尽；排位赛双方都主动排队，都消耗能量
+   * - 在服务端生成随机种子，根据双方数值快照（含物种属性和已装备的招式）确定性地结算战斗
+   *   （种子不由客户端指定，避免离线挑选必胜的种子，保存在战斗记录中只用于回放）
+   * - 保存战斗记录
+   * - 更新双方胜负场次和经验值，并向胜方主人发放金币奖励
+   * - 发出战斗结算事件
+   * 
+   * @param attacker 挑战方宠物
+   * @param defender 应战方宠物
+   * @param options 对战模式和排位赛赛季
+   * @returns 战斗记录
+   * @throws BadRequestException 当宠物无法参战时
+   */
+  async fight(attacker: PetDocument, defender: PetDocument, options: BattleOptions = {}): Promise<BattleDocument> {
+    const defenderEnergyCost = options.mode === BattleMode.RANKED ? BATTLE_ENERGY_COST : 0;
+    this.assertCanBattle(attacker);
+    this.assertCanBattle(defender, defenderEnergyCost);
+
+    const seed = randomUUID();
+    const attackerSnapshot = await this.toCombatant(String(attacker._id), attacker);
+    const defenderSnapshot = await this.toCombatant(String(defender._id), defender);
+    const outcome = resolveBattle(attackerSnapshot, defenderSnapshot, seed);
+
+    const attackerWon = outcome.winner === 'attacker';
+    const winner = attackerWon ? attacker : defender;
+
+    await this.petsService.claimBattleEnergy(attacker, BATTLE_ENERGY_COST);
+    try {
+      await this.petsService.claimBattleEnergy(defender, defenderEnergyCost);
+    } catch (error) {
+      await this.petsService.releaseBattleEnergy(attacker, BATTLE_ENERGY_COST);
+      throw error;
+    }
+
+    let battle: BattleDocument;
+    try {
+      battle = await new this.battleModel({
+        attackerPetId: attackerSnapshot.petId,
+        attackerUserId: attacker.userId,
+        defenderPetId: defenderSnapshot.petId,
+        defenderUserId: defender.userId,
+        seed,
+        mode: options.mode ?? BattleMode.CASUAL,
+        season: options.season,
+        winner: outcome.winner,
+        winnerPetId: attackerWon ? attackerSnapshot.petId : defenderSnapshot.petId,
+        loserPetId: attackerWon ? defenderSnapshot.petId : attackerSnapshot.petId,
+        attackerSnapshot,
+        defenderSnapshot,
+        attackerStats: outcome.attackerStats,
+        defenderStats: outcome.defenderStats,
+        turns: outcome.turns,
+        rewards: {
+          winnerExperience: WINNER_EXPERIENCE,
+          loserExperience: LOSER_EXPERIENCE,
+          winnerCoins: WINNER_COINS,
+          energyCost: BATTLE_ENERGY_COST,
+          defenderEnergyCost,
+        },
+      }).save();
+    } catch (error) {
+      await this.petsService.releaseBattleEnergy(attacker, BATTLE_ENERGY_COST);
+      await this.petsService.releaseBattleEnergy(defender, defenderEnergyCost);
+      throw error;
+    }
+
+    await Promise.all([
+      this.petsService.recordBattleResult(
+        attackerSnapshot.petId,
+        attackerWon,
+        attackerWon ? WINNER_EXPERIENCE : LOSER_EXPERIENCE,
+      ),
+      this.petsService.recordBattleResult(
+        defenderSnapshot.petId,
+        !attackerWon,
+        attackerWon ? LOSER_EXPERIENCE : WINNER_EXPERIENCE,
+      ),
+    ]);
+
+    await this.coinsService.credit(winner.userId, WINNER_COINS, CoinReason.BATTLE_REWARD, {
+      type: 'battle',
+      id: battle._id.toString(),
+    });
+
+    const loser = attackerWon ? defender : attacker;
+    this.eventEmitter.emit(
+      BATTLE_EVENTS.FINISHED,
+      new BattleFinishedEvent(
+        battle._id.toString(),
+        battle.winnerPetId,
+        winner.userId,
+        battle.loserPetId,
+        loser.userId,
+        new Date(),
+      ),
+    );
+
+    return battle;
+  }
+
+  /**
+   * 根据ID获取战斗记录（用于回放）
+   * 
+   * @param id 战斗ID
+   * @returns 战斗记录，包含双方数值快照和逐次出手记录
+   * @throws NotFoundException 当战斗记录不存在时
+   */
+  async findById(id: string): Promise<Battle> {
+    const battle = await this.battleModel.findById(id).exec();
+    if (!battle) {
+      throw new NotFoundException('Battle not found');
+    }
+    return battle;
+  }
+
+  /**
+   * 获取宠物最近的战斗记录
+   * 
+   * @param petId 宠物ID
+   * @returns 该宠物参与的战斗记录，按时间倒序，不包含逐次出手记录
+   */
+  async findByPetId(petId: string): Promise<Battle[]> {
+    return this.battleModel
+      .find({ $or: [{ attackerPetId: petId }, { defenderPetId: petId }] })
+      .select('-turns')
+      .sort({ createdAt: -1 })
+      .limit(50)
+      .exec();
+  }
+
+  /**
+   * 校验宠物可以参战
+   * 
+   * @param pet 已推算到当前时间的宠物
+   * @param energyCost 本场战斗该宠物需要消耗的能量
+   * @throws BadRequestException 当宠物不是活跃状态、正在托管、探险、睡觉或能量不足时
+   */
+  assertCanBattle(pet: Pet, energyCost = BATTLE_ENERGY_COST): void {
+    this.petsService.assertAvailable(pet);
+    if (pet.energy < energyCost) {
+      throw new BadRequestException(`Pet ${pet.name} does not have enough energy to battle`);
+    }
+  }
+
+  private async findPet(id: string): Promise<PetDocument> {
+    const pet = await this.petsService.findById(id);
+    if (!pet) {
+      throw new NotFoundException('Pet not found');
+    }
+    return pet;
+  }
+
+  private async toCombatant(petId: string, pet: Pet): Promise<Combatant> {
+    const species = await this.speciesService.findByKey(pet.type);
+    const moves = await this.skillsService.findByKeys(pet.equippedMoves ?? []);
+    const equipped: CombatMove[] = (pet.equippedMoves ?? [])
+      .map((key) => moves.get(key))
+      .filter((move): move is Move => Boolean(move?.isActive))
+      .map((move) => ({
+        key: move.key,
+        type: move.type,
+        power: move.power,
+        energyCost: move.energyCost,
+        cooldown: move.cooldown,
+      }));
+    const gear = combineEquipment((await this.petsService.resolveEquipment(pet)).map(({ item }) => item)).statBonuses;
+
+    return {
+      petId,
+      level: pet.level,
+      health: pet.health,
+      energy: pet.energy,
+      happiness: pet.happiness,
+      bonuses: {
+        maxHp: (pet.statBonuses?.maxHp ?? 0) + gear.maxHp,
+        attack: (pet.statBonuses?.attack ?? 0) + gear.attack,
+        defense: (pet.statBonuses?.defense ?? 0) + gear.defense,
+        speed: (pet.statBonuses?.speed ?? 0) + gear.speed,
+      },
+      multipliers: combineTraitModifiers(pet.traits ?? []).battle,
+      element: species.element,
+      moves: equipped,
+    };
+  }
+}
@@ -0,0 +1,11 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+export class CreateBattleDto {
+  @IsString()
+  @IsNotEmpty()
+  petId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  opponentPetId: string;
+}
@@ -0,0 +1,21 @@
+/**
+ * 对战相关的应用内事件名称
+ */
+export const BATTLE_EVENTS = {
+  /** 一场战斗结算完成 */
+  FINISHED: 'battle.finished',
+} as const;
+
+/**
+ * 战斗结算事件
+ */
+export class BattleFinishedEvent {
+  constructor(
+    public readonly battleId: string,
+    public readonly winnerPetId: string,
+    public readonly winnerUserId: string,
+    public readonly loserPetId: string,
+    public readonly loserUserId: string,
+    public readonly at: Date,
+  ) {}
+}
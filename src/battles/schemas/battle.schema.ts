@@ -0,0 +1,82 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { BattleSide, BattleTurn, Combatant, CombatStats } from '../battle-engine';
+
+export type BattleDocument = Battle & Document;
+
+/**
+ * 对战模式：普通挑战或排位赛
+ */
+export enum BattleMode {
+  CASUAL = 'casual',
+  RANKED = 'ranked',
+}
+
+/**
+ * 战斗记录
+ * 保存双方战前数值快照、随机种子和逐次出手记录，用于回放
+ */
+@Schema({ timestamps: true })
+export class Battle {
+  @Prop({ required: true })
+  attackerPetId: string;
+
+  @Prop({ required: true })
+  attackerUserId: string;
+
+  @Prop({ required: true })
+  defenderPetId: string;
+
+  @Prop({ required: true })
+  defenderUserId: string;
+
+  @Prop({ required: true })
+  seed: string;
+
+  @Prop({ default: BattleMode.CASUAL, enum: BattleMode })
+  mode: BattleMode;
+
+  /** 排位赛所属的赛季 */
+  @Prop()
+  season?: number;
+
+  @Prop({ required: true, enum: ['attacker', 'defender'] })
+  winner: BattleSide;
+
+  @Prop({ required: true })
+  winnerPetId: string;
+
+  @Prop({ required: true })
+  loserPetId: string;
+
+  @Prop({ type: MongooseSchema.Types.Mixed, required: true })
+  attackerSnapshot: Combatant;
+
+  @Prop({ type: MongooseSchema.Types.Mixed, required: true })
+  defenderSnapshot: Combatant;
+
+  @Prop({ type: MongooseSchema.Types.Mixed, required: true })
+  attackerStats: CombatStats;
+
+  @Prop({ type: MongooseSchema.Types.Mixed, required: true })
+  defenderStats: CombatStats;
+
+  @Prop({ type: [MongooseSchema.Types.Mixed], default: [] })
+  turns: BattleTurn[];
+
+  @Prop({ type: MongooseSchema.Types.Mixed, required: true })
+  rewards: {
+    winnerExperience: number;
+    loserExperience: number;
+    winnerCoins: number;
+    /** 挑战方消耗的能量 */
+    energyCost: number;
+    /** 应战方消耗的能量，普通挑战中应战方没有同意参战，不消耗能量 */
+    defenderEnergyCost: number;
+  };
+}
+
+export const BattleSchema = SchemaFactory.createForClass(Battle);
+
+BattleSchema.index({ attackerPetId: 1, createdAt: -1 });
+BattleSchema.index({ defenderPetId: 1, createdAt: -1 });
@@ -0,0 +1,124 @@
+import { Controller, Get, Post, Body, Param, Query } from '@nestjs/common';
+import { BreedingService } from './breeding.service';
+import { CreateBreedingRequestDto } from './dto/create-breeding-request.dto';
+import { HatchEggDto } from './dto/hatch-egg.dto';
+import { PetsService } from '../pets/pets.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+
+/**
+ * 繁殖控制器
+ * 提供繁殖请求、蛋孵化和家族树查询的RESTful API接口
+ * 
+ * 路径前缀: /breeding
+ */
+@Controller('breeding')
+export class BreedingController {
+  constructor(
+    private readonly breedingService: BreedingService,
+    private readonly petsService: PetsService,
+  ) {}
+
+  /**
+   * 发起繁殖请求
+   * POST /breeding/requests
+   * 
+   * @param userId 当前认证用户ID
+   * @param dto 己方宠物和配对宠物
+   * @returns 繁殖请求；两只宠物都属于自己时直接产蛋
+   */
+  @Post('requests')
+  requestBreeding(@CurrentUser('id') userId: string, @Body() dto: CreateBreedingRequestDto) {
+    return this.breedingService.requestBreeding(userId, dto);
+  }
+
+  /**
+   * 获取我发起和收到的繁殖请求
+   * GET /breeding/requests?page=1&limit=20
+   * 
+   * @param userId 当前认证用户ID
+   * @param query 分页参数
+   * @returns 按时间倒序排列的繁殖请求
+   */
+  @Get('requests')
+  getRequests(@CurrentUser('id') userId: string, @Query() query: PaginationQueryDto) {
+    return this.breedingService.getRequests(userId, query.page, query.limit);
+  }
+
+  /**
+   * 接受繁殖请求
+   * POST /breeding/requests/:id/accept
+   * 
+   * @param userId 当前认证用户ID，必须是配对宠物的主人
+   * @param id 繁殖请求ID
+   * @returns 已接受的繁殖请求，蛋归发起方所有
+   */
+  @Post('requests/:id/accept')
+  accept(@CurrentUser('id') userId: string, @Param('id') id: string) {
+    return this.breedingService.accept(userId, id);
+  }
+
+  /**
+   * 拒绝繁殖请求
+   * POST /breeding/requests/:id/decline
+   * 
+   * @param userId 当前认证用户ID，必须是配对宠物的主人
+   * @param id 繁殖请求ID
+   * @returns 已拒绝的繁殖请求
+   */
+  @Post('requests/:id/decline')
+  decline(@CurrentUser('id') userId: string, @Param('id') id: string) {
+    return this.breedingService.decline(userId, id);
+  }
+
+  /**
+   * 撤回繁殖请求
+   * POST /breeding/requests/:id/cancel
+   * 
+   * @param userId 当前认证用户ID，必须是请求的发起方
+   * @param id 繁殖请求ID
+   * @returns 已撤回的繁殖请求
+   */
+  @Post('requests/:id/cancel')
+  cancel(@CurrentUser('id') userId: string, @Param('id') id: string) {
+    return this.breedingService.cancel(userId, id);
+  }
+
+  /**
+   * 获取我尚未孵化的蛋
+   * GET /breeding/eggs
+   * 
+   * @param userId 当前认证用户ID
+   * @returns 按孵化时间排序的蛋
+   */
+  @Get('eggs')
+  getEggs(@CurrentUser('id') userId: string) {
+    return this.breedingService.getEggs(userId);
+  }
+
+  /**
+   * 孵化蛋
+   * POST /breeding/eggs/:id/hatch
+   * 
+   * @param userId 当前认证用户ID
+   * @param id 蛋ID
+   * @param hatchEggDto 后代宠物名称
+   * @returns 孵化出的宠物
+   */
+  @Post('eggs/:id/hatch')
+  hatch(@CurrentUser('id') userId: string, @Param('id') id: string, @Body() hatchEggDto: HatchEggDto) {
+    return this.breedingService.hatch(userId, id, hatchEggDto.name);
+  }
+
+  /**
+   * 获取宠物家族树
+   * GET /breeding/family/:petId
+   * 
+   * @param petId 宠物ID
+   * @returns 向上三代的祖先树和直接后代
+   */
+  @Get('family/:petId')
+  getFamilyTree(@Param('petId') petId: string) {
+    return this.petsService.getFamilyTree(petId);
+  }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { BreedingRequest, BreedingRequestSchema } from './schemas/breeding-request.schema';
+import { Egg, EggSchema } from './schemas/egg.schema';
+import { BreedingService } from './breeding.service';
+import { BreedingController } from './breeding.controller';
+import { PetsModule } from '../pets/pets.module';
+import { SpeciesModule } from '../species/species.module';
+import { RulesModule } from '../rules/rules.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: BreedingRequest.name, schema: BreedingRequestSchema },
+      { name: Egg.name, schema: EggSchema },
+    ]),
+    PetsModule,
+    SpeciesModule,
+    RulesModule,
+  ],
+  providers: [BreedingService],
+  controllers: [BreedingController],
+  exports: [BreedingService],
+})
+export class BreedingModule {}
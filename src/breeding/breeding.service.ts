@@ -0,0 +1,383 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  BreedingRequest,
+  BreedingRequestDocument,
+  BreedingRequestStatus,
+} from './schemas/breeding-request.schema';
+import { Egg, EggDocument } from './schemas/egg.schema';
+import { CreateBreedingRequestDto } from './dto/create-breeding-request.dto';
+import { PetsService } from '../pets/pets.service';
+import { Pet, PetDocument, PetStatBonuses } from '../pets/schemas/pet.schema';
+import { SpeciesService } from '../species/species.service';
+import { RulesService } from '../rules/rules.service';
+import { createRandom } from '../common/utils/random';
+import { PaginatedResult } from '../common/dto/pagination-query.dto';
+
+/** 后代继承父母平均战斗属性加成的比例 */
+const INHERITED_BONUS_RATIO = 0.25;
+
+/**
+ * 繁殖服务类
+ * 处理繁殖请求、产蛋和孵化流程
+ */
+@Injectable()
+export class BreedingService {
+  constructor(
+    @InjectModel(BreedingRequest.name) private requestModel: Model<BreedingRequestDocument>,
+    @InjectModel(Egg.name) private eggModel: Model<EggDocument>,
+    private readonly petsService: PetsService,
+    private readonly speciesService: SpeciesService,
+    private readonly rulesService: RulesService,
+  ) {}
+
+  /**
+   * 发起繁殖请求
+   *
+   * 处理流程：
+   * - 校验发起方宠物属于当前用户，两只宠物都满足繁殖条件且物种可以繁殖
+   * - 配对宠物也属于当前用户时直接接受并产蛋
+   * - 配对宠物属于其他用户时创建待确认的请求，由对方接受后产蛋
+   *
+   * @param userId 当前用户ID
+   * @param dto 双方宠物
+   * @returns 繁殖请求，直接接受时包含产下的蛋
+   * @throws NotFoundException 当宠物不存在时
+   * @throws ForbiddenException 当发起方宠物不属于当前用户时
+   * @throws BadRequestException 当宠物不满足繁殖条件或物种不能繁殖时
+   * @throws ConflictException 当两只宠物之间已有待确认的请求时
+   */
+  async requestBreeding(userId: string, dto: CreateBreedingRequestDto): Promise<BreedingRequest> {
+    if (dto.petId === dto.partnerPetId) {
+      throw new BadRequestException('A pet cannot breed with itself');
+    }
+
+    const pet = await this.findPet(dto.petId);
+    const partner = await this.findPet(dto.partnerPetId);
+    if (pet.userId !== userId) {
+      throw new ForbiddenException('You do not own this pet');
+    }
+    const now = new Date();
+    this.assertCanBreed(pet, now);
+    this.assertCanBreed(partner, now);
+    await this.assertCompatible(pet, partner);
+
+    const pending = await this.requestModel.exists({
+      status: BreedingRequestStatus.PENDING,
+      $or: [
+        { requesterPetId: dto.petId, partnerPetId: dto.partnerPetId },
+        { requesterPetId: dto.partnerPetId, partnerPetId: dto.petId },
+      ],
+    });
+    if (pending) {
+      throw new ConflictException('A breeding request between these pets is already pending');
+    }
+
+    const sameOwner = partner.userId === userId;
+    const request = await new this.requestModel({
+      requesterId: userId,
+      requesterPetId: dto.petId,
+      partnerUserId: partner.userId,
+      partnerPetId: dto.partnerPetId,
+      status: sameOwner ? BreedingRequestStatus.ACCEPTED : BreedingRequestStatus.PENDING,
+      respondedAt: sameOwner ? now : undefined,
+    }).save();
+
+    if (!sameOwner) {
+      return request;
+    }
+
+    try {
+      return await this.layEgg(request, now);
+    } catch (error) {
+      await this.requestModel.deleteOne({ _id: request._id }).exec();
+      throw error;
+    }
+  }
+
+  /**
+   * 接受繁殖请求并产蛋
+   *
+   * @param userId 当前用户ID，必须是配对宠物的主人
+   * @param requestId 繁殖请求ID
+   * @returns 已接受的繁殖请求，包含产下的蛋
+   * @throws NotFoundException 当请求不存在或不是发给当前用户时
+   * @throws BadRequestException 当请求已处理、宠物已易主（请求随之取消）或不再满足繁殖条件时
+   */
+  async accept(userId: string, requestId: string): Promise<BreedingRequest> {
+    const now = new Date();
+    const request = await this.respond(userId, requestId, 'partnerUserId', BreedingRequestStatus.ACCEPTED, now);
+
+    try {
+      return await this.layEgg(request, now);
+    } catch (error) {
+      await this.requestModel
+        .updateOne(
+          { _id: request._id, status: BreedingRequestStatus.ACCEPTED },
+          { $set: { status: BreedingRequestStatus.PENDING }, $unset: { respondedAt: 1 } },
+        )
+        .exec();
+      throw error;
+    }
+  }
+
+  /**
+   * 拒绝繁殖请求
+   *
+   * @param userId 当前用户ID，必须是配对宠物的主人
+   * @param requestId 繁殖请求ID
+   * @returns 已拒绝的繁殖请求
+   */
+  async decline(userId: string, requestId: string): Promise<BreedingRequest> {
+    return this.respond(userId, requestId, 'partnerUserId', BreedingRequestStatus.DECLINED, new Date());
+  }
+
+  /**
+   * 撤回繁殖请求
+   *
+   * @param userId 当前用户ID，必须是请求的发起方
+   * @param requestId 繁殖请求ID
+   * @returns 已撤回的繁殖请求
+   */
+  async cancel(userId: string, requestId: string): Promise<BreedingRequest> {
+    return this.respond(userId, requestId, 'requesterId', BreedingRequestStatus.CANCELLED, new Date());
+  }
+
+  /**
+   * 获取与当前用户相关的繁殖请求（发起的和收到的）
+   *
+   * @param userId 当前用户ID
+   * @param page 页码，从1开始
+   * @param limit 每页条数
+   * @returns 按时间倒序排列的繁殖请求
+   */
+  async getRequests(userId: string, page = 1, limit = 20): Promise<PaginatedResult<BreedingRequest>> {
+    const filter = { $or: [{ requesterId: userId }, { partnerUserId: userId }] };
+    const [items, total] = await Promise.all([
+      this.requestModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.requestModel.countDocuments(filter).exec(),
+    ]);
+    return { items, total, page, limit };
+  }
+
+  /**
+   * 获取当前用户尚未孵化的蛋
+   *
+   * @param userId 当前用户ID
+   * @returns 按孵化时间排序的蛋
+   */
+  async getEggs(userId: string): Promise<Egg[]> {
+    return this.eggModel.find({ userId, hatchedAt: null }).sort({ hatchesAt: 1 }).exec();
+  }
+
+  /**
+   * 孵化蛋
+   *
+   * 处理流程：
+   * - 校验蛋属于当前用户、尚未孵化且已到孵化时间
+   * - 原子地标记蛋已孵化，避免重复孵化
+   * - 创建继承父母物种、属性和血统的后代宠物，失败时恢复蛋的状态
+   *
+   * @param userId 当前用户ID
+   * @param eggId 蛋ID
+   * @param name 后代宠物名称
+   * @returns 孵化出的宠物
+   * @throws NotFoundException 当蛋不存在或不属于当前用户时
+   * @throws BadRequestException 当蛋已孵化、尚未到孵化时间或宠物栏位已满时
+   */
+  async hatch(userId: string, eggId: string, name: string): Promise<Pet> {
+    const egg = await this.eggModel.findOne({ _id: eggId, userId }).exec();
+    if (!egg) {
+      throw new NotFoundException('Egg not found');
+    }
+    if (egg.hatchedAt) {
+      throw new BadRequestException('Egg has already hatched');
+    }
+
+    const now = new Date();
+    if (egg.hatchesAt > now) {
+      throw new BadRequestException(`Egg will hatch at ${egg.hatchesAt.toISOString()}`);
+    }
+
+    const claimed = await this.eggModel
+      .findOneAndUpdate({ _id: egg._id, hatchedAt: null }, { $set: { hatchedAt: now } })
+      .exec();
+    if (!claimed) {
+      throw new BadRequestException('Egg has already hatched');
+    }
+
+    let pet: PetDocument;
+    try {
+      pet = await this.petsService.createOffspring(userId, {
+        name,
+        type: egg.type,
+        parentIds: egg.parentIds,
+        generation: egg.generation,
+        statBonuses: egg.statBonuses,
+      });
+    } catch (error) {
+      await this.eggModel.updateOne({ _id: egg._id }, { $unset: { hatchedAt: 1 } }).exec();
+      throw error;
+    }
+
+    await this.eggModel.updateOne({ _id: egg._id }, { $set: { petId: String(pet._id) } }).exec();
+    return pet;
+  }
+
+  /**
+   * 产蛋
+   *
+   * 处理流程：
+   * - 重新校验双方宠物仍属于请求中的用户，任意一方已易主（例如在市场上被卖出）时取消请求
+   * - 重新校验双方宠物满足繁殖条件且物种可以繁殖
+   * - 依次占用双方的繁殖冷却，任意一方失败时恢复已占用的冷却
+   * - 以请求ID为随机种子，从父母中选出后代的物种
+   * - 后代继承父母平均战斗属性加成的一部分，世代为父母中较高者加1
+   *
+   * @param request 已接受的繁殖请求
+   * @param now 产蛋时间
+   * @returns 记录了蛋ID的繁殖请求
+   */
+  private async layEgg(request: BreedingRequestDocument, now: Date): Promise<BreedingRequestDocument> {
+    const pet = await this.findPet(request.requesterPetId);
+    const partner = await this.findPet(request.partnerPetId);
+    if (pet.userId !== request.requesterId || partner.userId !== request.partnerUserId) {
+      await this.requestModel
+        .updateOne({ _id: request._id }, { $set: { status: BreedingRequestStatus.CANCELLED, respondedAt: now } })
+        .exec();
+      throw new BadRequestException('Breeding request was cancelled because a pet has changed owner');
+    }
+    this.assertCanBreed(pet, now);
+    this.assertCanBreed(partner, now);
+    await this.assertCompatible(pet, partner);
+
+    const petPrevious = await this.petsService.claimCooldown(pet, 'breed', now);
+    let partnerPrevious: Date | undefined;
+    try {
+      partnerPrevious = await this.petsService.claimCooldown(partner, 'breed', now);
+    } catch (error) {
+      await this.petsService.releaseCooldown(pet, 'breed', now, petPrevious);
+      throw error;
+    }
+
+    try {
+      const { eggHatchHours } = this.rulesService.getActive().rules.breeding;
+      const random = createRandom(String(request._id));
+      const egg = await new this.eggModel({
+        userId: request.requesterId,
+        type: random() < 0.5 ? pet.type : partner.type,
+        parentIds: [String(pet._id), String(partner._id)],
+        generation: Math.max(pet.generation ?? 1, partner.generation ?? 1) + 1,
+        statBonuses: this.inheritStatBonuses(pet.statBonuses, partner.statBonuses),
+        breedingRequestId: String(request._id),
+        hatchesAt: new Date(now.getTime() + eggHatchHours * 60 * 60 * 1000),
+      }).save();
+
+      request.eggId = String(egg._id);
+      return await request.save();
+    } catch (error) {
+      await this.petsService.releaseCooldown(pet, 'breed', now, petPrevious);
+      await this.petsService.releaseCooldown(partner, 'breed', now, partnerPrevious);
+      throw error;
+    }
+  }
+
+  /**
+   * 原子地把待确认的请求更新为新的状态
+   *
+   * @param userId 当前用户ID
+   * @param requestId 繁殖请求ID
+   * @param role 当前用户在请求中的身份字段
+   * @param status 新状态
+   * @param now 处理时间
+   * @returns 更新后的繁殖请求
+   */
+  private async respond(
+    userId: string,
+    requestId: string,
+    role: 'requesterId' | 'partnerUserId',
+    status: BreedingRequestStatus,
+    now: Date,
+  ): Promise<BreedingRequestDocument> {
+    const request = await this.requestModel
+      .findOneAndUpdate(
+        { _id: requestId, [role]: userId, status: BreedingRequestStatus.PENDING },
+        { $set: { status, respondedAt: now } },
+        { new: true },
+      )
+      .exec();
+    if (request) {
+      return request;
+    }
+
+    const existing = await this.requestModel.findOne({ _id: requestId, [role]: userId }).exec();
+    if (!existing) {
+      throw new NotFoundException('Breeding request not found');
+    }
+    throw new BadRequestException(`Breeding request is already ${existing.status}`);
+  }
+
+  private inheritStatBonuses(a?: PetStatBonuses, b?: PetStatBonuses): PetStatBonuses {
+    const inherit = (key: keyof PetStatBonuses) =>
+      Math.floor((((a?.[key] ?? 0) + (b?.[key] ?? 0)) / 2) * INHERITED_BONUS_RATIO);
+    return {
+      maxHp: inherit('maxHp'),
+      attack: inherit('attack'),
+      defense: inherit('defense'),
+      speed: inherit('speed'),
+    };
+  }
+
+  private async findPet(id: string): Promise<PetDocument> {
+    const pet = await this.petsService.findById(id);
+    if (!pet) {
+      throw new NotFoundException('Pet not found');
+    }
+    return pet;
+  }
+
+  private assertCanBreed(pet: Pet, now: Date): void {
+    this.petsService.assertAvailable(pet);
+    const { minLevel } = this.rulesService.getActive().rules.breeding;
+    if (pet.level < minLevel) {
+      throw new BadRequestException(`Pet ${pet.name} must be at least level ${minLevel} to breed`);
+    }
+    const cooldown = this.petsService.getCooldown(pet, 'breed', now);
+    if (cooldown.remainingSeconds > 0) {
+      throw new BadRequestException(
+        `Pet ${pet.name} can breed again at ${cooldown.availableAt.toISOString()}`,
+      );
+    }
+  }
+
+  /**
+   * 校验两只宠物的物种可以繁殖：同一物种，或物种有相同的蛋组
+   *
+   * @throws BadRequestException 当物种不能繁殖时
+   */
+  private async assertCompatible(pet: Pet, partner: Pet): Promise<void> {
+    if (pet.type === partner.type) {
+      return;
+    }
+    const [species, partnerSpecies] = await Promise.all([
+      this.speciesService.findByKey(pet.type),
+      this.speciesService.findByKey(partner.type),
+    ]);
+    const shared = (species.eggGroups ?? []).some((group) => (partnerSpecies.eggGroups ?? []).includes(group));
+    if (!shared) {
+      throw new BadRequestException(`${species.name} and ${partnerSpecies.name} cannot breed with each other`);
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+export class CreateBreedingRequestDto {
+  /** 发起方自己的宠物 */
+  @IsString()
+  @IsNotEmpty()
+  petId: string;
+
+  /** 配对的宠物，可以属于自己或其他用户 */
+  @IsString()
+  @IsNotEmpty()
+  partnerPetId: string;
+}
@@ -0,0 +1,8 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+export class HatchEggDto {
+  /** 孵化出的宠物名称 */
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+}
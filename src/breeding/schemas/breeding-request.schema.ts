@@ -0,0 +1,45 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type BreedingRequestDocument = BreedingRequest & Document;
+
+export enum BreedingRequestStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  DECLINED = 'declined',
+  CANCELLED = 'cancelled',
+}
+
+/**
+ * 繁殖请求
+ * 两只宠物属于同一用户时直接接受；属于不同用户时需要对方同意，蛋归发起方所有
+ */
+@Schema({ timestamps: true })
+export class BreedingRequest {
+  @Prop({ required: true })
+  requesterId: string;
+
+  @Prop({ required: true })
+  requesterPetId: string;
+
+  @Prop({ required: true })
+  partnerUserId: string;
+
+  @Prop({ required: true })
+  partnerPetId: string;
+
+  @Prop({ default: BreedingRequestStatus.PENDING, enum: BreedingRequestStatus })
+  status: BreedingRequestStatus;
+
+  /** 接受后产下的蛋 */
+  @Prop()
+  eggId?: string;
+
+  @Prop()
+  respondedAt?: Date;
+}
+
+export const BreedingRequestSchema = SchemaFactory.createForClass(BreedingRequest);
+
+BreedingRequestSchema.index({ requesterId: 1, createdAt: -1 });
+BreedingRequestSchema.index({ partnerUserId: 1, status: 1 });
@@ -0,0 +1,46 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { PetStatBonuses } from '../../pets/schemas/pet.schema';
+
+export type EggDocument = Egg & Document;
+
+/**
+ * 宠物蛋
+ * 产下时即确定后代的物种和继承的属性，到达孵化时间后由主人孵化为宠物
+ */
+@Schema({ timestamps: true })
+export class Egg {
+  @Prop({ required: true })
+  userId: string;
+
+  /** 后代的物种标识，从父母的物种中选出 */
+  @Prop({ required: true })
+  type: string;
+
+  @Prop({ type: [String], required: true })
+  parentIds: string[];
+
+  @Prop({ required: true })
+  generation: number;
+
+  /** 从父母继承的战斗属性加成 */
+  @Prop({ type: PetStatBonuses, default: () => ({}) })
+  statBonuses: PetStatBonuses;
+
+  @Prop({ required: true })
+  breedingRequestId: string;
+
+  @Prop({ required: true })
+  hatchesAt: Date;
+
+  @Prop()
+  hatchedAt?: Date;
+
+  /** 孵化出的宠物 */
+  @Prop()
+  petId?: string;
+}
+
+export const EggSchema = SchemaFactory.createForClass(Egg);
+
+EggSchema.index({ userId: 1, hatchedAt: 1 });
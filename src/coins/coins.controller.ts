@@ -0,0 +1,29 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import { CoinsService } from './coins.service';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { UserSelfGuard } from '../users/guards/user-self.guard';
+
+/**
+ * 金币流水控制器
+ * 提供用户查询自己金币收支记录的RESTful API接口
+ * 
+ * 路径前缀: /users/:id/coins
+ */
+@Controller('users/:id/coins')
+export class CoinsController {
+  constructor(private readonly coinsService: CoinsService) {}
+
+  /**
+   * 分页查询金币流水
+   * GET /users/:id/coins/history?page=1&limit=20
+   * 
+   * @param id 用户ID，只能查询本人
+   * @param query 分页参数
+   * @returns 按时间倒序排列的流水记录，每条包含变动数量、原因、关联对象和变动后余额
+   */
+  @UseGuards(UserSelfGuard)
+  @Get('history')
+  getHistory(@Param('id') id: string, @Query() query: PaginationQueryDto) {
+    return this.coinsService.getHistory(id, query.page, query.limit);
+  }
+}
@@ -0,0 +1,185 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import {
+  CoinReason,
+  CoinTransaction,
+  CoinTransactionDocument,
+} from './schemas/coin-transaction.schema';
+import { PaginatedResult } from '../common/dto/pagination-query.dto';
+
+/**
+ * 金币流水的关联对象，例如商店订单、战斗记录
+ */
+export interface CoinReference {
+  type: string;
+  id: string;
+  note?: string;
+}
+
+/**
+ * 金币服务类
+ * 游戏内所有金币变动的唯一入口，负责原子地修改余额并记录流水
+ */
+@Injectable()
+export class CoinsService {
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(CoinTransaction.name) private transactionModel: Model<CoinTransactionDocument>,
+  ) {}
+
+  /**
+   * 增加金币
+   * 
+   * @param userId 用户ID
+   * @param amount 增加的金币数量（必须为正数）
+   * @param reason 变动原因
+   * @param reference 关联对象（可选）
+   * @returns 生成的流水记录
+   * @throws NotFoundException 当用户不存在时
+   */
+  async credit(
+    userId: string,
+    amount: number,
+    reason: CoinReason,
+    reference?: CoinReference,
+  ): Promise<CoinTransaction> {
+    this.assertPositive(amount);
+
+    const user = await this.userModel
+      .findByIdAndUpdate(userId, { $inc: { coins: amount } }, { new: true })
+      .exec();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return this.record(userId, amount, reason, user.coins, reference);
+  }
+
+  /**
+   * 扣除金币
+   * 
+   * 使用带余额条件的原子更新，余额不足时不做任何修改，
+   * 并发扣款也不会出现余额为负或更新丢失的情况
+   * 
+   * @param userId 用户ID
+   * @param amount 扣除的金币数量（必须为正数）
+   * @param reason 变动原因
+   * @param reference 关联对象（可选）
+   * @returns 生成的流水记录
+   * @throws NotFoundException 当用户不存在时
+   * @throws BadRequestException 当余额不足时
+   */
+  async debit(
+    userId: string,
+    amount: number,
+    reason: CoinReason,
+    reference?: CoinReference,
+  ): Promise<CoinTransaction> {
+    this.assertPositive(amount);
+
+    const user = await this.userModel
+      .findOneAndUpdate(
+        { _id: userId, coins: { $gte: amount } },
+        { $inc: { coins: -amount } },
+        { new: true },
+      )
+      .exec();
+
+    if (!user) {
+      const balance = await this.getBalance(userId);
+      throw new BadRequestException(
+        `Insufficient coins: balance ${balance}, required ${amount}`,
+      );
+    }
+
+    return this.record(userId, -amount, reason, user.coins, reference);
+  }
+
+  /**
+   * 按正负号调整金币，正数增加、负数扣除
+   * 
+   * @param userId 用户ID
+   * @param delta 变动数量
+   * @param reason 变动原因
+   * @param reference 关联对象（可选）
+   * @returns 生成的流水记录
+   */
+  async adjust(
+    userId: string,
+    delta: number,
+    reason: CoinReason,
+    reference?: CoinReference,
+  ): Promise<CoinTransaction> {
+    return delta >= 0
+      ? this.credit(userId, delta, reason, reference)
+      : this.debit(userId, -delta, reason, reference);
+  }
+
+  /**
+   * 查询用户当前金币余额
+   * 
+   * @param userId 用户ID
+   * @returns 金币余额
+   * @throws NotFoundException 当用户不存在时
+   */
+  async getBalance(userId: string): Promise<number> {
+    const user = await this.userModel.findById(userId).select('coins').exec();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user.coins;
+  }
+
+  /**
+   * 分页查询用户金币流水，按时间倒序排列
+   * 
+   * @param userId 用户ID
+   * @param page 页码，从1开始
+   * @param limit 每页条数
+   * @returns 分页后的流水记录
+   */
+  async getHistory(
+    userId: string,
+    page: number,
+    limit: number,
+  ): Promise<PaginatedResult<CoinTransaction>> {
+    const [items, total] = await Promise.all([
+      this.transactionModel
+        .find({ userId })
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.transactionModel.countDocuments({ userId }).exec(),
+    ]);
+
+    return { items, total, page, limit };
+  }
+
+  private async record(
+    userId: string,
+    amount: number,
+    reason: CoinReason,
+    balanceAfter: number,
+    reference?: CoinReference,
+  ): Promise<CoinTransaction> {
+    const transaction = new this.transactionModel({
+      userId,
+      amount,
+      reason,
+      balanceAfter,
+      referenceType: reference?.type,
+      referenceId: reference?.id,
+      note: reference?.note,
+    });
+    return transaction.save();
+  }
+
+  private assertPositive(amount: number): void {
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new BadRequestException('Coin amount must be a positive number');
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type CoinTransactionDocument = CoinTransaction & Document;
+
+/**
+ * 金币变动原因
+ */
+export enum CoinReason {
+  ADMIN_ADJUSTMENT = 'admin_adjustment',
+  BATTLE_REWARD = 'battle_reward',
+  SHOP_PURCHASE = 'shop_purchase',
+  SHOP_REFUND = 'shop_refund',
+  PET_RECOVERY = 'pet_recovery',
+  MARKET_PURCHASE = 'market_purchase',
+  MARKET_SALE = 'market_sale',
+  MARKET_REFUND = 'market_refund',
+  EXPEDITION_REWARD = 'expedition_reward',
+  ACHIEVEMENT_REWARD = 'achievement_reward',
+  QUEST_REWARD = 'quest_reward',
+  RANKED_REWARD = 'ranked_reward',
+}
+
+/**
+ * 金币流水记录
+ * 每一次金币余额变化都对应一条记录，amount 为正表示收入，为负表示支出
+ */
+@Schema({ timestamps: true })
+export class CoinTransaction {
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop({ required: true })
+  amount: number;
+
+  @Prop({ required: true, enum: CoinReason })
+  reason: CoinReason;
+
+  @Prop()
+  referenceType?: string;
+
+  @Prop()
+  referenceId?: string;
+
+  @Prop({ required: true })
+  balanceAfter: number;
+
+  @Prop()
+  note?: string;
+
+  createdAt?: Date;
+}
+
+export const CoinTransactionSchema = SchemaFactory.createForClass(CoinTransaction);
+
+CoinTransactionSchema.index({ userId: 1, createdAt: -1 });
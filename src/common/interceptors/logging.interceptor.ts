@@ -7,8 +7,9 @@ import {
 } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { tap } from 'rxjs/operators';
-import { Request, Response } from 'express';
+import { Response } from 'express';
 import { LogsService } from '../../logs/logs.service';
+import { AuthenticatedRequest } from '../../auth/interfaces/auth-user.interface';
 
 /**
  * 日志拦截器
@@ -39,7 +40,7 @@ export class LoggingInterceptor implements NestInterceptor {
    * @returns 可观察的响应流
    */
   intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
-    const request = context.switchToHttp().getRequest<Request>();
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
     const response = context.switchToHttp().getResponse<Response>();
     const { method, url, ip } = request;
     const userAgent = request.get('User-Agent') || '';
@@ -78,11 +79,8 @@ export class LoggingInterceptor implements NestInterceptor {
   /**
    * 记录日志到数据库
    * 
-   * 用户ID获取策略：
-   * 1. 优先从查询参数获取（OAuth方式）
-   * 2. 其次从请求体获取
-   * 3. 从URL路径参数中推断（用户相关路径）
-   * 4. 默认使用'anonymous'
+   * 用户ID取自全局认证守卫挂载的 request.user，
+   * 未认证的请求（如注册、登录）记录为'anonymous'
    * 
    * @param request HTTP请求对象
    * @param statusCode HTTP状态码
@@ -92,7 +90,7 @@ export class LoggingInterceptor implements NestInterceptor {
    * @param errorMessage 错误信息（可选）
    */
   private async logToDatabase(
-    request: Request,
+    request: AuthenticatedRequest,
     statusCode: number,
     responseTime: number,
     userAgent: string,
@@ -100,23 +98,7 @@ export class LoggingInterceptor implements NestInterceptor {
     errorMessage?: string,
   ) {
     try {
-      // 从请求中获取用户ID，可能来自不同的来源
-      let userId = 'anonymous';
-      
-      // 从查询参数中获取userId (OAuth方式)
-      if (request.query.userId && typeof request.query.userId === 'string') {
-        userId = request.query.userId;
-      }
-      // 从请求体中获取userId
-      else if (request.body && request.body.userId) {
-        userId = request.body.userId;
-      }
-      // 从URL参数中获取userId
-      else if (request.params && request.params.id && 
-               (request.path.includes('/users/') || request.path.includes('/pets/user/'))) {
-        // 如果是用户相关的路径，尝试从路径中提取userId
-        userId = request.params.id;
-      }
+      const userId = request.user?.id ?? 'anonymous';
       
       await this.logsService.create({
         userId,
@@ -139,7 +121,7 @@ export class LoggingInterceptor implements NestInterceptor {
    * 
    * 安全特性：
    * - 脱敏敏感字段，防止密码等敏感信息泄露
-   * - 支持字段：password, token, secret, authorization
+   * - 支持字段：password, token, refreshToken, secret, authorization
    * - 脱敏后的值显示为'***'
    * 
    * @param body 原始请求体
@@ -149,7 +131,7 @@ export class LoggingInterceptor implements NestInterceptor {
     if (!body) return undefined;
     
     const sanitized = { ...body };
-    const sensitiveFields = ['password', 'token', 'secret', 'authorization'];
+    const sensitiveFields = ['password', 'token', 'refreshToken', 'secret', 'authorization'];
     
     sensitiveFields.forEach(field => {
       if (sanitized[field]) {
@@ -0,0 +1,78 @@
+import { periodWindow, ResetPeriod } from './period';
+
+describe('periodWindow', () => {
+  describe('daily', () => {
+    it('starts and ends at UTC midnight in UTC', () => {
+      expect(periodWindow(ResetPeriod.DAILY, new Date('2024-03-10T15:00:00Z'), 'UTC')).toEqual({
+        period: ResetPeriod.DAILY,
+        key: '2024-03-10',
+        startsAt: new Date('2024-03-10T00:00:00Z'),
+        endsAt: new Date('2024-03-11T00:00:00Z'),
+      });
+    });
+
+    it('uses the local date of the configured time zone', () => {
+      const window = periodWindow(ResetPeriod.DAILY, new Date('2024-03-10T20:00:00Z'), 'Asia/Shanghai');
+
+      expect(window.key).toBe('2024-03-11');
+      expect(window.startsAt).toEqual(new Date('2024-03-10T16:00:00Z'));
+      expect(window.endsAt).toEqual(new Date('2024-03-11T16:00:00Z'));
+    });
+
+    it('is 23 hours long on the day clocks move forward', () => {
+      const window = periodWindow(ResetPeriod.DAILY, new Date('2024-03-10T12:00:00Z'), 'America/New_York');
+
+      expect(window.key).toBe('2024-03-10');
+      expect(window.startsAt).toEqual(new Date('2024-03-10T05:00:00Z'));
+      expect(window.endsAt).toEqual(new Date('2024-03-11T04:00:00Z'));
+    });
+
+    it('is 25 hours long on the day clocks move back', () => {
+      const window = periodWindow(ResetPeriod.DAILY, new Date('2024-11-03T12:00:00Z'), 'America/New_York');
+
+      expect(window.key).toBe('2024-11-03');
+      expect(window.startsAt).toEqual(new Date('2024-11-03T04:00:00Z'));
+      expect(window.endsAt).toEqual(new Date('2024-11-04T05:00:00Z'));
+    });
+  });
+
+  describe('weekly', () => {
+    it('starts on the Monday of the week, even on a Sunday', () => {
+      expect(periodWindow(ResetPeriod.WEEKLY, new Date('2024-03-10T12:00:00Z'), 'UTC')).toEqual({
+        period: ResetPeriod.WEEKLY,
+        key: 'W2024-03-04',
+        startsAt: new Date('2024-03-04T00:00:00Z'),
+        endsAt: new Date('2024-03-11T00:00:00Z'),
+      });
+    });
+
+    it('rolls over exactly at Monday midnight', () => {
+      const monday = new Date('2024-03-11T00:00:00Z');
+
+      expect(periodWindow(ResetPeriod.WEEKLY, monday, 'UTC').key).toBe('W2024-03-11');
+      expect(periodWindow(ResetPeriod.WEEKLY, new Date(monday.getTime() - 1), 'UTC').key).toBe('W2024-03-04');
+    });
+
+    it('keys a week spanning the new year by its Monday', () => {
+      const window = periodWindow(ResetPeriod.WEEKLY, new Date('2025-01-01T12:00:00Z'), 'UTC');
+
+      expect(window.key).toBe('W2024-12-30');
+      expect(window.endsAt).toEqual(new Date('2025-01-06T00:00:00Z'));
+    });
+
+    it('follows the local Monday of the configured time zone', () => {
+      const window = periodWindow(ResetPeriod.WEEKLY, new Date('2024-03-10T17:00:00Z'), 'Asia/Shanghai');
+
+      expect(window.key).toBe('W2024-03-11');
+      expect(window.startsAt).toEqual(new Date('2024-03-10T16:00:00Z'));
+    });
+
+    it('uses the offsets on both ends of a week with a DST change', () => {
+      const window = periodWindow(ResetPeriod.WEEKLY, new Date('2024-03-10T12:00:00Z'), 'America/New_York');
+
+      expect(window.key).toBe('W2024-03-04');
+      expect(window.startsAt).toEqual(new Date('2024-03-04T05:00:00Z'));
+      expect(window.endsAt).toEqual(new Date('2024-03-11T04:00:00Z'));
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * 按时区重置的周期，用于每日任务、排行榜等
+ * - daily: 每天零点重置
+ * - weekly: 每周一零点重置
+ */
+export enum ResetPeriod {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+}
+
+/**
+ * 一个周期的时间窗口
+ */
+export interface PeriodWindow {
+  period: ResetPeriod;
+  /** 周期标识，每日为当天日期，每周为周一日期加 W 前缀，如 2024-01-01、W2024-01-01 */
+  key: string;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 获取某个时刻在指定时区的本地日期
+ */
+function localDate(at: Date, timeZone: string): { year: number; month: number; day: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(at);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day') };
+}
+
+/**
+ * 计算指定时区在某个时刻相对 UTC 的偏移（毫秒）
+ */
+function timeZoneOffset(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(at);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+/**
+ * 指定时区某个本地日期的零点对应的时刻
+ * 日期超出当月范围时自动进位，夏令时切换当天按切换后的偏移计算
+ */
+function zonedMidnight(year: number, month: number, day: number, timeZone: string): Date {
+  const guess = Date.UTC(year, month - 1, day);
+  const offset = timeZoneOffset(new Date(guess), timeZone);
+  const corrected = timeZoneOffset(new Date(guess - offset), timeZone);
+  return new Date(guess - corrected);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * 计算某个时刻所在的周期
+ *
+ * @param period 周期类型
+ * @param at 时刻
+ * @param timeZone 重置使用的时区（IANA 名称）
+ * @returns 周期标识和起止时间
+ */
+export function periodWindow(period: ResetPeriod, at: Date, timeZone: string): PeriodWindow {
+  const { year, month, day } = localDate(at, timeZone);
+
+  if (period === ResetPeriod.DAILY) {
+    return {
+      period,
+      key: formatDate(new Date(Date.UTC(year, month - 1, day))),
+      startsAt: zonedMidnight(year, month, day, timeZone),
+      endsAt: zonedMidnight(year, month, day + 1, timeZone),
+    };
+  }
+
+  // 本地日期的星期几，周一为 0
+  const weekday = (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+  const monday = new Date(Date.UTC(year, month - 1, day) - weekday * DAY_MS);
+  const mondayYear = monday.getUTCFullYear();
+  const mondayMonth = monday.getUTCMonth() + 1;
+  const mondayDay = monday.getUTCDate();
+  return {
+    period,
+    key: `W${formatDate(monday)}`,
+    startsAt: zonedMidnight(mondayYear, mondayMonth, mondayDay, timeZone),
+    endsAt: zonedMidnight(mondayYear, mondayMonth, mondayDay + 7, timeZone),
+  };
+}
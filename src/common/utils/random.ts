@@ -0,0 +1,52 @@
+/**
+ * 可复现的伪随机数生成器
+ *
+ * 相同的种子总是产生相同的随机序列，用于战斗回放、性格生成等
+ * 需要根据种子重现结果的场景。
+ */
+export type RandomGenerator = () => number;
+
+/**
+ * 将任意字符串种子散列为32位整数
+ */
+function hashSeed(seed: string): number {
+  let hash = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 3432918353);
+    hash = (hash << 13) | (hash >>> 19);
+  }
+  hash = Math.imul(hash ^ (hash >>> 16), 2246822507);
+  hash = Math.imul(hash ^ (hash >>> 13), 3266489909);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
+
+/**
+ * 根据种子创建随机数生成器（mulberry32 算法）
+ *
+ * @param seed 随机种子
+ * @returns 每次调用返回 [0, 1) 区间内的随机数
+ */
+export function createRandom(seed: string): RandomGenerator {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 生成 [min, max] 区间内的随机整数
+ */
+export function randomInt(random: RandomGenerator, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+/**
+ * 按概率判定是否命中
+ */
+export function chance(random: RandomGenerator, probability: number): boolean {
+  return random() < probability;
+}
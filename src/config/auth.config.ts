@@ -0,0 +1,17 @@
+export interface AuthConfig {
+  accessToken: {
+    secret: string;
+    expiresIn: string;
+  };
+  refreshToken: {
+    secret: string;
+    expiresIn: string;
+  };
+}
+
+import { getConfig } from './config-loader';
+
+export function getAuthConfig(): AuthConfig {
+  const config = getConfig();
+  return config.auth;
+}
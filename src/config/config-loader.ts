@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import type { GameConfig } from './game.config';
 
 interface ConfigFile {
   database: {
@@ -21,6 +22,18 @@ interface ConfigFile {
       forbidNonWhitelisted: boolean;
     };
   };
+  auth: {
+    accessToken: {
+      secret: string;
+      expiresIn: string;
+    };
+    refreshToken: {
+      secret: string;
+      expiresIn: string;
+    };
+  };
+  /** 可以省略，缺少的配置项使用 DEFAULT_GAME_CONFIG */
+  game?: { [K in keyof GameConfig]?: Partial<GameConfig[K]> };
 }
 
 let configCache: ConfigFile | null = null;
@@ -0,0 +1,74 @@
+export interface GameConfig {
+  timezone: string;
+  petStateSweep: {
+    enabled: boolean;
+    intervalMinutes: number;
+    staleAfterMinutes: number;
+    batchSize: number;
+  };
+  quests: {
+    dailyCount: number;
+    weeklyCount: number;
+  };
+  leaderboards: {
+    refreshMinutes: number;
+    size: number;
+    winRateMinBattles: number;
+  };
+  worldEvents: {
+    checkMinutes: number;
+    randomChance: number;
+    maxActiveRandom: number;
+  };
+  ranked: {
+    matchmakingIntervalSeconds: number;
+    ticketTtlMinutes: number;
+    seasonDays: number;
+  };
+}
+
+/**
+ * game 配置项的默认值，config.json 中缺少的配置项（包括早于该配置项创建的 config.json）使用默认值
+ */
+export const DEFAULT_GAME_CONFIG: GameConfig = {
+  timezone: 'UTC',
+  petStateSweep: {
+    enabled: true,
+    intervalMinutes: 10,
+    staleAfterMinutes: 60,
+    batchSize: 200,
+  },
+  quests: {
+    dailyCount: 3,
+    weeklyCount: 2,
+  },
+  leaderboards: {
+    refreshMinutes: 5,
+    size: 1000,
+    winRateMinBattles: 10,
+  },
+  worldEvents: {
+    checkMinutes: 10,
+    randomChance: 0.05,
+    maxActiveRandom: 1,
+  },
+  ranked: {
+    matchmakingIntervalSeconds: 15,
+    ticketTtlMinutes: 30,
+    seasonDays: 28,
+  },
+};
+
+import { getConfig } from './config-loader';
+
+export function getGameConfig(): GameConfig {
+  const config = getConfig().game ?? {};
+  return {
+    timezone: config.timezone ?? DEFAULT_GAME_CONFIG.timezone,
+    petStateSweep: { ...DEFAULT_GAME_CONFIG.petStateSweep, ...config.petStateSweep },
+    quests: { ...DEFAULT_GAME_CONFIG.quests, ...config.quests },
+    leaderboards: { ...DEFAULT_GAME_CONFIG.leaderboards, ...config.leaderboards },
+    worldEvents: { ...DEFAULT_GAME_CONFIG.worldEvents, ...config.worldEvents },
+    ranked: { ...DEFAULT_GAME_CONFIG.ranked, ...config.ranked },
+  };
+}
@@ -1,15 +1,23 @@
 import { getDatabaseConfig, type DatabaseConfig } from './database.config';
 import { getServerConfig, type ServerConfig } from './server.config';
+import { getAuthConfig, type AuthConfig } from './auth.config';
+import { getGameConfig, type GameConfig } from './game.config';
 
 export interface AppConfig {
   database: DatabaseConfig;
   server: ServerConfig;
+  auth: AuthConfig;
+  game: GameConfig;
 }
 
 export const databaseConfig = getDatabaseConfig();
 export const serverConfig = getServerConfig();
+export const authConfig = getAuthConfig();
+export const gameConfig = getGameConfig();
 
 export const appConfig: AppConfig = {
   database: databaseConfig,
   server: serverConfig,
+  auth: authConfig,
+  game: gameConfig,
 };
\ No newline at end of file
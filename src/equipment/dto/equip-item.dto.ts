@@ -0,0 +1,11 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * 装备道具
+ * - itemKey: 背包中的装饰品或装备，装备到道具对应的栏位
+ */
+export class EquipItemDto {
+  @IsString()
+  @IsNotEmpty()
+  itemKey: string;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { EquipmentService } from './equipment.service';
+import { PetEquipmentController } from './pet-equipment.controller';
+import { PetsModule } from '../pets/pets.module';
+import { ItemsModule } from '../items/items.module';
+
+@Module({
+  imports: [PetsModule, ItemsModule],
+  providers: [EquipmentService],
+  controllers: [PetEquipmentController],
+  exports: [EquipmentService],
+})
+export class EquipmentModule {}
@@ -0,0 +1,135 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { PetsService } from '../pets/pets.service';
+import { PetDocument } from '../pets/schemas/pet.schema';
+import { ItemsService } from '../items/items.service';
+import { InventoryService } from '../items/inventory.service';
+import { EquipmentSlot, Item, ItemCategory } from '../items/schemas/item.schema';
+import { EquipmentBonuses, PetAppearance, combineEquipment, composeAppearance } from '../items/equipment';
+
+/**
+ * 宠物的装备
+ */
+export interface PetEquipmentView {
+  petId: string;
+  slots: Record<EquipmentSlot, Item | null>;
+  bonuses: EquipmentBonuses;
+  appearance: PetAppearance;
+}
+
+/**
+ * 装备服务类
+ * 处理宠物装备和卸下装饰品、装备，装备期间道具从主人背包中移出，卸下或替换时放回
+ */
+@Injectable()
+export class EquipmentService {
+  constructor(
+    private readonly petsService: PetsService,
+    private readonly itemsService: ItemsService,
+    private readonly inventoryService: InventoryService,
+  ) {}
+
+  /**
+   * 获取宠物各栏位的装备、合计效果和外观
+   *
+   * @param petId 宠物ID
+   * @returns 宠物的装备
+   * @throws NotFoundException 当宠物不存在时
+   */
+  async getPetEquipment(petId: string): Promise<PetEquipmentView> {
+    const pet = await this.findPet(petId);
+    return this.toView(pet);
+  }
+
+  /**
+   * 装备道具
+   *
+   * 装备规则：
+   * - 只能装备带有装备属性的装饰品或装备，装到道具对应的栏位
+   * - 道具从主人背包中扣除一个，栏位上原有的道具放回背包
+   * - 托管、探险中的宠物不能更换装备，睡觉中的宠物可以
+   *
+   * @param petId 宠物ID
+   * @param itemKey 道具标识
+   * @returns 装备后的宠物装备
+   * @throws NotFoundException 当宠物或道具不存在时
+   * @throws BadRequestException 当道具不能装备、已装备在该栏位或背包中没有该道具时
+   * @throws ConflictException 当栏位已被其他请求修改时
+   */
+  async equip(petId: string, itemKey: string): Promise<PetEquipmentView> {
+    const pet = await this.findPet(petId);
+    this.petsService.assertAvailable(pet, true);
+
+    const item = await this.itemsService.findByKey(itemKey);
+    const equippable = item.category === ItemCategory.COSMETIC || item.category === ItemCategory.EQUIPMENT;
+    if (!equippable || !item.equipment) {
+      throw new BadRequestException(`Item ${itemKey} cannot be equipped`);
+    }
+    const { slot } = item.equipment;
+    const previous = pet.equipment?.[slot];
+    if (previous === itemKey) {
+      throw new BadRequestException(`Pet ${pet.name} already has ${item.name} equipped`);
+    }
+
+    await this.inventoryService.consume(pet.userId, itemKey);
+    let updated: PetDocument;
+    try {
+      updated = await this.petsService.updateEquipment(pet, slot, itemKey);
+    } catch (error) {
+      await this.inventoryService.grant(pet.userId, itemKey, 1);
+      throw error;
+    }
+    if (previous) {
+      await this.inventoryService.grant(pet.userId, previous, 1);
+    }
+    return this.toView(updated);
+  }
+
+  /**
+   * 卸下栏位上的道具并放回主人背包
+   *
+   * @param petId 宠物ID
+   * @param slot 装备栏位
+   * @returns 卸下后的宠物装备
+   * @throws BadRequestException 当栏位上没有道具时
+   * @throws ConflictException 当栏位已被其他请求修改时
+   */
+  async unequip(petId: string, slot: EquipmentSlot): Promise<PetEquipmentView> {
+    const pet = await this.findPet(petId);
+    this.petsService.assertAvailable(pet, true);
+
+    const previous = pet.equipment?.[slot];
+    if (!previous) {
+      throw new BadRequestException(`Pet ${pet.name} has nothing equipped in slot ${slot}`);
+    }
+
+    const updated = await this.petsService.updateEquipment(pet, slot);
+    await this.inventoryService.grant(pet.userId, previous, 1);
+    return this.toView(updated);
+  }
+
+  private async toView(pet: PetDocument): Promise<PetEquipmentView> {
+    const equipped = await this.petsService.resolveEquipment(pet);
+    const slots = Object.fromEntries(Object.values(EquipmentSlot).map((slot) => [slot, null])) as Record<
+      EquipmentSlot,
+      Item | null
+    >;
+    for (const { slot, item } of equipped) {
+      slots[slot] = item;
+    }
+
+    return {
+      petId: String(pet._id),
+      slots,
+      bonuses: combineEquipment(equipped.map(({ item }) => item)),
+      appearance: composeAppearance(pet, equipped),
+    };
+  }
+
+  private async findPet(id: string): Promise<PetDocument> {
+    const pet = await this.petsService.findById(id);
+    if (!pet) {
+      throw new NotFoundException('Pet not found');
+    }
+    return pet;
+  }
+}
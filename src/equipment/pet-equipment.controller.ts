@@ -0,0 +1,61 @@
+import { Controller, Get, Put, Delete, Param, Body, UseGuards, ParseEnumPipe } from '@nestjs/common';
+import { EquipmentService } from './equipment.service';
+import { EquipItemDto } from './dto/equip-item.dto';
+import { PetOwnerGuard } from '../pets/guards/pet-owner.guard';
+import { EquipmentSlot } from '../items/schemas/item.schema';
+
+/**
+ * 宠物装备控制器
+ * 
+ * 路径前缀: /pets/:id/equipment
+ * 
+ * 访问控制：
+ * - 查询接口需要登录
+ * - 装备和卸下道具只允许宠物主人操作
+ */
+@Controller('pets/:id/equipment')
+export class PetEquipmentController {
+  constructor(private readonly equipmentService: EquipmentService) {}
+
+  /**
+   * 获取宠物的装备
+   * GET /pets/:id/equipment
+   * 
+   * @param id 宠物ID
+   * @returns 各栏位的道具、合计效果和组合后的外观
+   */
+  @Get()
+  findAll(@Param('id') id: string) {
+    return this.equipmentService.getPetEquipment(id);
+  }
+
+  /**
+   * 装备道具
+   * PUT /pets/:id/equipment
+   * 
+   * 道具装到其对应的栏位，从背包中扣除，栏位上原有的道具放回背包
+   * 
+   * @param id 宠物ID
+   * @param equipItemDto 要装备的道具
+   * @returns 装备后的宠物装备
+   */
+  @UseGuards(PetOwnerGuard)
+  @Put()
+  equip(@Param('id') id: string, @Body() equipItemDto: EquipItemDto) {
+    return this.equipmentService.equip(id, equipItemDto.itemKey);
+  }
+
+  /**
+   * 卸下道具
+   * DELETE /pets/:id/equipment/:slot
+   * 
+   * @param id 宠物ID
+   * @param slot 装备栏位：hat、collar、toy
+   * @returns 卸下后的宠物装备
+   */
+  @UseGuards(PetOwnerGuard)
+  @Delete(':slot')
+  unequip(@Param('id') id: string, @Param('slot', new ParseEnumPipe(EquipmentSlot)) slot: EquipmentSlot) {
+    return this.equipmentService.unequip(id, slot);
+  }
+}
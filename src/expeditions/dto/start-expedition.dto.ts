@@ -0,0 +1,12 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+export class StartExpeditionDto {
+  @IsString()
+  @IsNotEmpty()
+  petId: string;
+
+  /** 探险时长，可选值为游戏规则中 expeditions.plans 的 duration，内置规则为 1h、4h 或 8h */
+  @IsString()
+  @IsNotEmpty()
+  duration: string;
+}
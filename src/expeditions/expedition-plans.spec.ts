@@ -0,0 +1,90 @@
+import { findExpeditionPlan, rollExpeditionRewards } from './expedition-plans';
+import { DEFAULT_GAME_RULES } from '../rules/default-rules';
+import { ExpeditionPlan } from '../rules/game-rules';
+import { createRandom } from '../common/utils/random';
+
+const always = () => 0;
+const never = () => 0.99;
+const rules = DEFAULT_GAME_RULES.expeditions;
+const plan = (duration: string): ExpeditionPlan => {
+  const found = findExpeditionPlan(rules, duration);
+  if (!found) {
+    throw new Error(`Missing built-in expedition plan ${duration}`);
+  }
+  return found;
+};
+
+describe('findExpeditionPlan', () => {
+  it('finds the plan of a duration and nothing for unknown durations', () => {
+    expect(plan('4h').hours).toBe(4);
+    expect(findExpeditionPlan(rules, '2h')).toBeUndefined();
+  });
+});
+
+describe('rollExpeditionRewards', () => {
+  it('pays the base rewards of the plan at level 1', () => {
+    const rewards = rollExpeditionRewards(plan('4h'), rules, 1, 1, [], never);
+
+    expect(rewards).toEqual({
+      coins: 35,
+      experience: 50,
+      items: [],
+      energyCost: plan('4h').energyCost,
+      injured: false,
+      healthLoss: 0,
+    });
+  });
+
+  it('scales coins and experience by level and species bonus', () => {
+    const rewards = rollExpeditionRewards(plan('8h'), rules, 11, 2, [], never);
+
+    expect(rewards.coins).toBe(180);
+    expect(rewards.experience).toBe(270);
+  });
+
+  it('rolls once per item roll and stacks repeated finds', () => {
+    const rewards = rollExpeditionRewards(plan('8h'), rules, 1, 1, ['fish'], always);
+
+    expect(rewards.items).toEqual([{ itemKey: 'basic_kibble', quantity: 3 }]);
+  });
+
+  it('deducts health when the pet comes back injured', () => {
+    const rewards = rollExpeditionRewards(plan('1h'), rules, 1, 1, [], always);
+
+    expect(rewards.injured).toBe(true);
+    expect(rewards.healthLoss).toBe(15);
+  });
+
+  it('only brings back common loot or favorite foods', () => {
+    const favoriteFoods = ['premium_fish'];
+    for (let i = 0; i < 50; i++) {
+      const rewards = rollExpeditionRewards(plan('8h'), rules, 1, 1, favoriteFoods, createRandom(`seed-${i}`));
+
+      for (const { itemKey } of rewards.items) {
+        expect(['basic_kibble', 'yarn_ball', 'bandage', ...favoriteFoods]).toContain(itemKey);
+      }
+      expect(rewards.healthLoss === 0 || (rewards.healthLoss >= 15 && rewards.healthLoss <= 30)).toBe(true);
+    }
+  });
+
+  it('uses the drop table and level bonus from the rules', () => {
+    const custom = { ...rules, commonLoot: ['golden_bone'], levelBonusPerLevel: 0.1, itemFindChance: 1 };
+    const rewards = rollExpeditionRewards(plan('4h'), custom, 11, 1, [], never);
+
+    expect(rewards.coins).toBe(70);
+    expect(rewards.items).toEqual([{ itemKey: 'golden_bone', quantity: 2 }]);
+  });
+
+  it('finds nothing when the loot pool is empty', () => {
+    const rewards = rollExpeditionRewards(plan('8h'), { ...rules, commonLoot: [] }, 1, 1, [], always);
+
+    expect(rewards.items).toEqual([]);
+  });
+
+  it('produces the same rewards for the same seed', () => {
+    const first = rollExpeditionRewards(plan('8h'), rules, 5, 1.2, ['fish'], createRandom('seed'));
+    const second = rollExpeditionRewards(plan('8h'), rules, 5, 1.2, ['fish'], createRandom('seed'));
+
+    expect(second).toEqual(first);
+  });
+});
@@ -0,0 +1,76 @@
+import { RandomGenerator, chance } from '../common/utils/random';
+import { ExpeditionPlan, ExpeditionRules } from '../rules/game-rules';
+
+/**
+ * 探险奖励结算结果
+ */
+export interface RolledExpeditionRewards {
+  coins: number;
+  experience: number;
+  items: { itemKey: string; quantity: number }[];
+  energyCost: number;
+  injured: boolean;
+  healthLoss: number;
+}
+
+/**
+ * 查找探险时长对应的探险计划
+ *
+ * @param rules 探险规则
+ * @param duration 探险时长标识
+ * @returns 探险计划，规则中没有该时长时为 undefined
+ */
+export function findExpeditionPlan(rules: ExpeditionRules, duration: string): ExpeditionPlan | undefined {
+  return rules.plans.find((plan) => plan.duration === duration);
+}
+
+/**
+ * 结算探险奖励
+ *
+ * 结算规则（括号内为内置规则的数值）：
+ * - 金币和经验 = 基础奖励 × (1 + (等级 - 1) × levelBonusPerLevel (5%)) × 物种探险倍率，向下取整
+ * - 每次寻找道具有 itemFindChance (50%) 的概率从道具池（commonLoot + 物种喜爱的食物）中带回一个
+ * - 按探险计划的概率受伤归来，扣除 injuryHealthLoss (15~30) 点健康度
+ *
+ * 相同的输入和随机数序列总是得到相同的结果
+ *
+ * @param plan 出发时选择的探险计划
+ * @param rules 探险规则
+ * @param level 出发时的宠物等级
+ * @param speciesBonus 物种探险倍率
+ * @param favoriteFoods 物种喜爱的食物
+ * @param random 随机数生成器
+ * @returns 奖励
+ */
+export function rollExpeditionRewards(
+  plan: Omit<ExpeditionPlan, 'duration'>,
+  rules: ExpeditionRules,
+  level: number,
+  speciesBonus: number,
+  favoriteFoods: string[],
+  random: RandomGenerator,
+): RolledExpeditionRewards {
+  const multiplier = (1 + (level - 1) * rules.levelBonusPerLevel) * speciesBonus;
+
+  const lootPool = [...new Set([...rules.commonLoot, ...favoriteFoods])];
+  const found = new Map<string, number>();
+  for (let roll = 0; roll < plan.itemRolls; roll++) {
+    if (chance(random, rules.itemFindChance) && lootPool.length > 0) {
+      const itemKey = lootPool[Math.floor(random() * lootPool.length)];
+      found.set(itemKey, (found.get(itemKey) ?? 0) + 1);
+    }
+  }
+
+  const { min, max } = rules.injuryHealthLoss;
+  const injured = chance(random, plan.injuryChance);
+  const healthLoss = injured ? min + Math.floor(random() * (Math.max(min, max) - min + 1)) : 0;
+
+  return {
+    coins: Math.floor(plan.coins * multiplier),
+    experience: Math.floor(plan.experience * multiplier),
+    items: [...found].map(([itemKey, quantity]) => ({ itemKey, quantity })),
+    energyCost: plan.energyCost,
+    injured,
+    healthLoss,
+  };
+}
@@ -0,0 +1,68 @@
+import { Controller, Get, Post, Body, Param, Query } from '@nestjs/common';
+import { ExpeditionsService } from './expeditions.service';
+import { StartExpeditionDto } from './dto/start-expedition.dto';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+
+/**
+ * 探险控制器
+ * 提供派遣宠物探险和领取探险奖励的RESTful API接口
+ * 
+ * 路径前缀: /expeditions
+ */
+@Controller('expeditions')
+export class ExpeditionsController {
+  constructor(private readonly expeditionsService: ExpeditionsService) {}
+
+  /**
+   * 派宠物去探险
+   * POST /expeditions
+   * 
+   * @param userId 当前认证用户ID，必须是宠物主人
+   * @param dto 宠物和探险时长（1h、4h、8h）
+   * @returns 探险记录，包含归来时间
+   */
+  @Post()
+  start(@CurrentUser('id') userId: string, @Body() dto: StartExpeditionDto) {
+    return this.expeditionsService.start(userId, dto);
+  }
+
+  /**
+   * 获取我的探险记录
+   * GET /expeditions?page=1&limit=20
+   * 
+   * @param userId 当前认证用户ID
+   * @param query 分页参数
+   * @returns 按出发时间倒序排列的探险记录
+   */
+  @Get()
+  findMine(@CurrentUser('id') userId: string, @Query() query: PaginationQueryDto) {
+    return this.expeditionsService.findByUser(userId, query.page, query.limit);
+  }
+
+  /**
+   * 获取探险详情
+   * GET /expeditions/:id
+   * 
+   * @param userId 当前认证用户ID
+   * @param id 探险ID
+   * @returns 探险记录，已领取的探险包含奖励
+   */
+  @Get(':id')
+  findOne(@CurrentUser('id') userId: string, @Param('id') id: string) {
+    return this.expeditionsService.findOwned(userId, id);
+  }
+
+  /**
+   * 领取探险奖励
+   * POST /expeditions/:id/claim
+   * 
+   * @param userId 当前认证用户ID
+   * @param id 探险ID
+   * @returns 已领取的探险记录，包含获得的金币、经验、道具和是否受伤
+   */
+  @Post(':id/claim')
+  claim(@CurrentUser('id') userId: string, @Param('id') id: string) {
+    return this.expeditionsService.claim(userId, id);
+  }
+}
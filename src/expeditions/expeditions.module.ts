@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Expedition, ExpeditionSchema } from './schemas/expedition.schema';
+import { ExpeditionsService } from './expeditions.service';
+import { ExpeditionsController } from './expeditions.controller';
+import { PetsModule } from '../pets/pets.module';
+import { SpeciesModule } from '../species/species.module';
+import { CoinsModule } from '../coins/coins.module';
+import { ItemsModule } from '../items/items.module';
+import { RulesModule } from '../rules/rules.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: Expedition.name, schema: ExpeditionSchema }]),
+    PetsModule,
+    SpeciesModule,
+    CoinsModule,
+    ItemsModule,
+    RulesModule,
+  ],
+  providers: [ExpeditionsService],
+  controllers: [ExpeditionsController],
+  exports: [ExpeditionsService],
+})
+export class ExpeditionsModule {}
@@ -0,0 +1,227 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { randomUUID } from 'crypto';
+import { Expedition, ExpeditionDocument, ExpeditionStatus } from './schemas/expedition.schema';
+import { StartExpeditionDto } from './dto/start-expedition.dto';
+import { findExpeditionPlan, rollExpeditionRewards } from './expedition-plans';
+import { PetsService } from '../pets/pets.service';
+import { PetDocument } from '../pets/schemas/pet.schema';
+import { SpeciesService } from '../species/species.service';
+import { CoinsService } from '../coins/coins.service';
+import { CoinReason } from '../coins/schemas/coin-transaction.schema';
+import { InventoryService } from '../items/inventory.service';
+import { RulesService } from '../rules/rules.service';
+import { ExpeditionPlan, ExpeditionRules } from '../rules/game-rules';
+import { DEFAULT_GAME_RULES } from '../rules/default-rules';
+import { createRandom } from '../common/utils/random';
+import { PaginatedResult } from '../common/dto/pagination-query.dto';
+
+/**
+ * 探险服务类
+ * 处理派遣宠物探险和领取探险奖励
+ *
+ * 探险状态全部保存在数据库中，服务重启不影响进行中的探险
+ */
+@Injectable()
+export class ExpeditionsService {
+  constructor(
+    @InjectModel(Expedition.name) private expeditionModel: Model<ExpeditionDocument>,
+    private readonly petsService: PetsService,
+    private readonly speciesService: SpeciesService,
+    private readonly coinsService: CoinsService,
+    private readonly inventoryService: InventoryService,
+    private readonly rulesService: RulesService,
+  ) {}
+
+  /**
+   * 派宠物去探险
+   *
+   * 处理流程：
+   * - 校验探险时长存在于当前游戏规则中
+   * - 校验宠物属于当前用户、处于活跃状态、未被托管或探险，且能量不低于本次探险的能量消耗
+   * - 记录出发时的等级、探险计划和随机种子
+   * - 原子地把宠物标记为探险中，失败时删除探险记录
+   *
+   * @param userId 当前用户ID
+   * @param dto 宠物和探险时长
+   * @returns 探险记录
+   * @throws NotFoundException 当宠物不存在时
+   * @throws ForbiddenException 当宠物不属于当前用户时
+   * @throws BadRequestException 当探险时长不存在或宠物无法出发时
+   */
+  async start(userId: string, dto: StartExpeditionDto): Promise<Expedition> {
+    const pet = await this.findPet(dto.petId);
+    if (pet.userId !== userId) {
+      throw new ForbiddenException('You do not own this pet');
+    }
+    this.petsService.assertAvailable(pet);
+
+    const plan = findExpeditionPlan(this.rulesService.getActive().rules.expeditions, dto.duration);
+    if (!plan) {
+      throw new BadRequestException(`Unknown expedition duration ${dto.duration}`);
+    }
+    if (pet.energy < plan.energyCost) {
+      throw new BadRequestException(`Pet ${pet.name} does not have enough energy for this expedition`);
+    }
+
+    const now = new Date();
+    const expedition = await new this.expeditionModel({
+      userId,
+      petId: dto.petId,
+      petType: pet.type,
+      level: pet.level,
+      duration: dto.duration,
+      plan,
+      seed: randomUUID(),
+      startedAt: now,
+      returnsAt: new Date(now.getTime() + plan.hours * 60 * 60 * 1000),
+    }).save();
+
+    try {
+      await this.petsService.startExpedition(pet, {
+        expeditionId: expedition._id.toString(),
+        returnsAt: expedition.returnsAt,
+      });
+    } catch (error) {
+      await this.expeditionModel.deleteOne({ _id: expedition._id }).exec();
+      throw error;
+    }
+    return expedition;
+  }
+
+  /**
+   * 领取探险奖励
+   *
+   * 处理流程：
+   * - 校验探险属于当前用户、尚未领取且已到归来时间
+   * - 根据出发时记录的等级、探险计划和随机种子，按当前游戏规则的道具池和受伤规则结算奖励，
+   *   原子地标记为已领取，避免重复领取
+   * - 宠物归来：获得经验（与喂食、玩耍相同，受世界事件经验倍率和每日经验上限影响）、消耗能量，受伤时扣除健康度
+   * - 发放金币和道具
+   *
+   * @param userId 当前用户ID
+   * @param expeditionId 探险ID
+   * @returns 已领取的探险记录，包含结算的奖励
+   * @throws NotFoundException 当探险不存在或不属于当前用户时
+   * @throws BadRequestException 当探险已领取或宠物尚未归来时
+   */
+  async claim(userId: string, expeditionId: string): Promise<Expedition> {
+    const expedition = await this.findOwned(userId, expeditionId);
+    if (expedition.status === ExpeditionStatus.CLAIMED) {
+      throw new BadRequestException('Expedition rewards have already been claimed');
+    }
+
+    const now = new Date();
+    if (expedition.returnsAt > now) {
+      throw new BadRequestException(`Pet will return at ${expedition.returnsAt.toISOString()}`);
+    }
+
+    const species = await this.speciesService.findByKey(expedition.petType);
+    const rules = this.rulesService.getActive().rules.expeditions;
+    const rewards = rollExpeditionRewards(
+      this.planFor(expedition, rules),
+      rules,
+      expedition.level,
+      species.expeditionBonus,
+      species.favoriteFoods,
+      createRandom(expedition.seed),
+    );
+
+    const claimed = await this.expeditionModel
+      .findOneAndUpdate(
+        { _id: expedition._id, status: ExpeditionStatus.ACTIVE },
+        { $set: { status: ExpeditionStatus.CLAIMED, claimedAt: now, rewards } },
+        { new: true },
+      )
+      .exec();
+    if (!claimed) {
+      throw new BadRequestException('Expedition rewards have already been claimed');
+    }
+
+    await this.petsService.returnFromExpedition(
+      expedition.petId,
+      expeditionId,
+      rewards.experience,
+      rewards.energyCost,
+      rewards.healthLoss,
+    );
+
+    const reference = { type: 'expedition', id: expeditionId };
+    if (rewards.coins > 0) {
+      await this.coinsService.credit(userId, rewards.coins, CoinReason.EXPEDITION_REWARD, reference);
+    }
+    for (const item of rewards.items) {
+      await this.inventoryService.grant(userId, item.itemKey, item.quantity);
+    }
+    return claimed;
+  }
+
+  /**
+   * 获取当前用户的探险记录
+   *
+   * @param userId 当前用户ID
+   * @param page 页码，从1开始
+   * @param limit 每页条数
+   * @returns 按出发时间倒序排列的探险记录
+   */
+  async findByUser(userId: string, page = 1, limit = 20): Promise<PaginatedResult<Expedition>> {
+    const [items, total] = await Promise.all([
+      this.expeditionModel
+        .find({ userId })
+        .sort({ startedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.expeditionModel.countDocuments({ userId }).exec(),
+    ]);
+    return { items, total, page, limit };
+  }
+
+  /**
+   * 根据ID获取探险记录
+   *
+   * @param userId 当前用户ID
+   * @param expeditionId 探险ID
+   * @returns 探险记录
+   * @throws NotFoundException 当探险不存在或不属于当前用户时
+   */
+  async findOwned(userId: string, expeditionId: string): Promise<ExpeditionDocument> {
+    const expedition = await this.expeditionModel.findOne({ _id: expeditionId, userId }).exec();
+    if (!expedition) {
+      throw new NotFoundException('Expedition not found');
+    }
+    return expedition;
+  }
+
+  /**
+   * 探险出发时的计划，早于探险规则创建的探险按当前规则（当前规则中没有时按内置规则）中同一时长的计划结算
+   *
+   * @throws BadRequestException 当规则中没有该探险时长时
+   */
+  private planFor(expedition: Expedition, rules: ExpeditionRules): Omit<ExpeditionPlan, 'duration'> {
+    if (expedition.plan) {
+      return expedition.plan;
+    }
+    const plan =
+      findExpeditionPlan(rules, expedition.duration) ??
+      findExpeditionPlan(DEFAULT_GAME_RULES.expeditions, expedition.duration);
+    if (!plan) {
+      throw new BadRequestException(`Unknown expedition duration ${expedition.duration}`);
+    }
+    return plan;
+  }
+
+  private async findPet(id: string): Promise<PetDocument> {
+    const pet = await this.petsService.findById(id);
+    if (!pet) {
+      throw new NotFoundException('Pet not found');
+    }
+    return pet;
+  }
+}
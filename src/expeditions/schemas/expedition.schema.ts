@@ -0,0 +1,129 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type ExpeditionDocument = Expedition & Document;
+
+/**
+ * 探险状态
+ */
+export enum ExpeditionStatus {
+  ACTIVE = 'active',
+  CLAIMED = 'claimed',
+}
+
+/**
+ * 探险带回的道具
+ */
+@Schema({ _id: false })
+export class ExpeditionItemReward {
+  @Prop({ required: true })
+  itemKey: string;
+
+  @Prop({ required: true })
+  quantity: number;
+}
+
+/**
+ * 探险奖励，领取时根据随机种子结算
+ */
+@Schema({ _id: false })
+export class ExpeditionRewards {
+  @Prop({ required: true })
+  coins: number;
+
+  @Prop({ required: true })
+  experience: number;
+
+  @Prop({ type: [ExpeditionItemReward], default: [] })
+  items: ExpeditionItemReward[];
+
+  @Prop({ required: true })
+  energyCost: number;
+
+  /** 是否受伤归来 */
+  @Prop({ required: true })
+  injured: boolean;
+
+  /** 受伤扣除的健康度 */
+  @Prop({ default: 0 })
+  healthLoss: number;
+}
+
+/**
+ * 出发时的探险计划，领取时按该计划结算，出发后修改游戏规则不影响进行中的探险
+ */
+@Schema({ _id: false })
+export class ExpeditionPlanSnapshot {
+  @Prop({ required: true })
+  hours: number;
+
+  @Prop({ required: true })
+  coins: number;
+
+  @Prop({ required: true })
+  experience: number;
+
+  @Prop({ required: true })
+  itemRolls: number;
+
+  @Prop({ required: true })
+  energyCost: number;
+
+  @Prop({ required: true })
+  injuryChance: number;
+}
+
+/**
+ * 宠物探险
+ * 出发时记录宠物等级、探险计划和随机种子，到达归来时间后由主人领取奖励
+ */
+@Schema({ timestamps: true })
+export class Expedition {
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop({ required: true })
+  petId: string;
+
+  /** 宠物物种，决定奖励倍率和可能带回的食物 */
+  @Prop({ required: true })
+  petType: string;
+
+  /** 出发时的宠物等级 */
+  @Prop({ required: true })
+  level: number;
+
+  @Prop({ required: true })
+  duration: string;
+
+  /** 早于探险规则创建的探险没有该字段，领取时按当前规则中同一时长的计划结算 */
+  @Prop({ type: ExpeditionPlanSnapshot })
+  plan?: ExpeditionPlanSnapshot;
+
+  @Prop({ required: true })
+  seed: string;
+
+  @Prop({ required: true })
+  startedAt: Date;
+
+  @Prop({ required: true })
+  returnsAt: Date;
+
+  @Prop({ default: ExpeditionStatus.ACTIVE, enum: ExpeditionStatus })
+  status: ExpeditionStatus;
+
+  @Prop()
+  claimedAt?: Date;
+
+  @Prop({ type: ExpeditionRewards })
+  rewards?: ExpeditionRewards;
+}
+
+export const ExpeditionSchema = SchemaFactory.createForClass(Expedition);
+
+ExpeditionSchema.index({ userId: 1, startedAt: -1 });
+// 每只宠物同时只能有一次进行中的探险
+ExpeditionSchema.index(
+  { petId: 1 },
+  { unique: true, partialFilterExpression: { status: ExpeditionStatus.ACTIVE } },
+);
@@ -0,0 +1,164 @@
+import { EquipmentSlot, Item, ItemCategory } from './schemas/item.schema';
+
+/**
+ * 内置道具
+ * 应用启动时写入数据库中尚不存在的道具，已存在的道具以数据库为准
+ */
+export const DEFAULT_ITEMS: Omit<Item, 'isActive'>[] = [
+  // 食物
+  {
+    key: 'basic_kibble',
+    name: '普通口粮',
+    category: ItemCategory.FOOD,
+    effects: { hunger: 30, happiness: 5 },
+  },
+  {
+    key: 'fish_snack',
+    name: '小鱼干',
+    category: ItemCategory.FOOD,
+    effects: { hunger: 25, happiness: 15 },
+  },
+  {
+    key: 'meat_bone',
+    name: '肉骨头',
+    category: ItemCategory.FOOD,
+    effects: { hunger: 40, happiness: 10 },
+  },
+  {
+    key: 'seed_mix',
+    name: '混合谷物',
+    category: ItemCategory.FOOD,
+    effects: { hunger: 25, energy: 10 },
+  },
+  {
+    key: 'fish_flakes',
+    name: '鱼食',
+    category: ItemCategory.FOOD,
+    effects: { hunger: 30, health: 5 },
+  },
+  {
+    key: 'carrot',
+    name: '胡萝卜',
+    category: ItemCategory.FOOD,
+    effects: { hunger: 20, happiness: 10, health: 5 },
+  },
+  // 玩具
+  {
+    key: 'yarn_ball',
+    name: '毛线球',
+    category: ItemCategory.TOY,
+    effects: { happiness: 25 },
+  },
+  {
+    key: 'chew_toy',
+    name: '磨牙玩具',
+    category: ItemCategory.TOY,
+    effects: { happiness: 20, health: 5 },
+  },
+  {
+    key: 'feather_wand',
+    name: '逗猫棒',
+    category: ItemCategory.TOY,
+    effects: { happiness: 35, energy: -10 },
+  },
+  // 药品
+  {
+    key: 'bandage',
+    name: '绷带',
+    category: ItemCategory.MEDICINE,
+    effects: { health: 20 },
+  },
+  {
+    key: 'medicine',
+    name: '感冒药',
+    category: ItemCategory.MEDICINE,
+    effects: { health: 30 },
+  },
+  {
+    key: 'super_potion',
+    name: '万能药水',
+    category: ItemCategory.MEDICINE,
+    effects: { health: 60, energy: 20 },
+  },
+  // 招式秘籍
+  {
+    key: 'scroll_hyper_fang',
+    name: '必杀门牙秘籍',
+    category: ItemCategory.SKILL,
+    effects: {},
+    teachesMove: 'hyper_fang',
+  },
+  {
+    key: 'scroll_spark',
+    name: '电光秘籍',
+    category: ItemCategory.SKILL,
+    effects: {},
+    teachesMove: 'spark',
+  },
+  // 装饰品
+  {
+    key: 'red_bow',
+    name: '红色蝴蝶结',
+    category: ItemCategory.COSMETIC,
+    effects: {},
+    equipment: { slot: EquipmentSlot.COLLAR, color: '#e53935' },
+  },
+  {
+    key: 'party_hat',
+    name: '派对帽',
+    category: ItemCategory.COSMETIC,
+    effects: {},
+    equipment: { slot: EquipmentSlot.HAT },
+  },
+  // 装备
+  {
+    key: 'knight_helmet',
+    name: '骑士头盔',
+    category: ItemCategory.EQUIPMENT,
+    effects: {},
+    equipment: {
+      slot: EquipmentSlot.HAT,
+      statBonuses: { maxHp: 10, attack: 0, defense: 5, speed: 0 },
+    },
+  },
+  {
+    key: 'spiked_collar',
+    name: '铆钉项圈',
+    category: ItemCategory.EQUIPMENT,
+    effects: {},
+    equipment: {
+      slot: EquipmentSlot.COLLAR,
+      statBonuses: { maxHp: 0, attack: 5, defense: 0, speed: 2 },
+    },
+  },
+  {
+    key: 'cozy_scarf',
+    name: '保暖围巾',
+    category: ItemCategory.EQUIPMENT,
+    effects: {},
+    equipment: {
+      slot: EquipmentSlot.COLLAR,
+      color: '#8d6e63',
+      decayReduction: { hunger: 0, happiness: 0, energy: 0.2 },
+    },
+  },
+  {
+    key: 'plush_companion',
+    name: '毛绒玩伴',
+    category: ItemCategory.EQUIPMENT,
+    effects: {},
+    equipment: {
+      slot: EquipmentSlot.TOY,
+      decayReduction: { hunger: 0, happiness: 0.25, energy: 0 },
+    },
+  },
+];
+
+/**
+ * 新用户注册时赠送的新手道具
+ */
+export const STARTER_ITEMS: { itemKey: string; quantity: number }[] = [
+  { itemKey: 'basic_kibble', quantity: 10 },
+  { itemKey: 'yarn_ball', quantity: 5 },
+  { itemKey: 'bandage', quantity: 3 },
+];
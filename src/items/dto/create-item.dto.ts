@@ -0,0 +1,126 @@
+import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { EquipmentSlot, ItemCategory } from '../schemas/item.schema';
+
+export class ItemEffectsDto {
+  @IsOptional()
+  @IsNumber()
+  health?: number;
+
+  @IsOptional()
+  @IsNumber()
+  hunger?: number;
+
+  @IsOptional()
+  @IsNumber()
+  happiness?: number;
+
+  @IsOptional()
+  @IsNumber()
+  energy?: number;
+
+  @IsOptional()
+  @IsNumber()
+  experience?: number;
+}
+
+export class EquipmentStatBonusesDto {
+  @IsNumber()
+  maxHp: number;
+
+  @IsNumber()
+  attack: number;
+
+  @IsNumber()
+  defense: number;
+
+  @IsNumber()
+  speed: number;
+}
+
+export class EquipmentDecayReductionDto {
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  hunger: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  happiness: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  energy: number;
+}
+
+export class ItemEquipmentDto {
+  @IsEnum(EquipmentSlot)
+  slot: EquipmentSlot;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  asset?: string;
+
+  @IsOptional()
+  @Matches(/^#[0-9a-fA-F]{6}$/, { message: 'color must be a hex color such as #ff0000' })
+  color?: string;
+
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => EquipmentStatBonusesDto)
+  statBonuses?: EquipmentStatBonusesDto;
+
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => EquipmentDecayReductionDto)
+  decayReduction?: EquipmentDecayReductionDto;
+}
+
+export class CreateItemDto {
+  @IsString()
+  @Matches(/^[a-z][a-z0-9_]*$/, { message: 'key must be lowercase letters, digits or underscores' })
+  key: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsEnum(ItemCategory)
+  category: ItemCategory;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ItemEffectsDto)
+  effects?: ItemEffectsDto;
+
+  @IsOptional()
+  @IsString()
+  @Matches(/^[a-z][a-z0-9_]*$/, { message: 'teachesMove must be lowercase letters, digits or underscores' })
+  teachesMove?: string;
+
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ItemEquipmentDto)
+  equipment?: ItemEquipmentDto;
+}
@@ -0,0 +1,11 @@
+import { IsInt, IsNotEmpty, IsString, Min } from 'class-validator';
+
+export class GrantItemDto {
+  @IsString()
+  @IsNotEmpty()
+  userId: string;
+
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
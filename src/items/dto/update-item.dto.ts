@@ -0,0 +1,42 @@
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+import { ItemEffectsDto, ItemEquipmentDto } from './create-item.dto';
+
+export class UpdateItemDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ItemEffectsDto)
+  effects?: ItemEffectsDto;
+
+  @IsOptional()
+  @IsString()
+  @Matches(/^[a-z][a-z0-9_]*$/, { message: 'teachesMove must be lowercase letters, digits or underscores' })
+  teachesMove?: string;
+
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ItemEquipmentDto)
+  equipment?: ItemEquipmentDto;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
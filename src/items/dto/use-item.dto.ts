@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * 宠物交互时使用的道具
+ */
+export class UseItemDto {
+  @IsString()
+  @IsNotEmpty()
+  itemKey: string;
+}
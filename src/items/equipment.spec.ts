@@ -0,0 +1,104 @@
+import {
+  applyEquipmentDecay,
+  combineEquipment,
+  composeAppearance,
+  resolveEquipment,
+} from './equipment';
+import { EquipmentSlot, Item, ItemCategory, ItemEquipment } from './schemas/item.schema';
+
+const item = (key: string, equipment: Partial<ItemEquipment> = {}): Item => ({
+  key,
+  name: key,
+  category: ItemCategory.EQUIPMENT,
+  effects: {},
+  isActive: true,
+  equipment: { slot: EquipmentSlot.HAT, ...equipment } as ItemEquipment,
+});
+
+describe('combineEquipment', () => {
+  it('returns zero bonuses without equipment', () => {
+    expect(combineEquipment([])).toEqual({
+      statBonuses: { maxHp: 0, attack: 0, defense: 0, speed: 0 },
+      decayReduction: { hunger: 0, happiness: 0, energy: 0 },
+    });
+  });
+
+  it('adds stat bonuses together', () => {
+    const bonuses = combineEquipment([
+      item('helmet', { statBonuses: { maxHp: 20, attack: 0, defense: 5, speed: 0 } }),
+      item('collar', { statBonuses: { maxHp: 0, attack: 3, defense: 2, speed: 1 } }),
+    ]);
+
+    expect(bonuses.statBonuses).toEqual({ maxHp: 20, attack: 3, defense: 7, speed: 1 });
+  });
+
+  it('stacks decay reductions on the remaining decay', () => {
+    const bonuses = combineEquipment([
+      item('scarf', { decayReduction: { hunger: 0.5, happiness: 0, energy: 0.2 } }),
+      item('bell', { decayReduction: { hunger: 0.5, happiness: 0.1, energy: 0 } }),
+    ]);
+
+    expect(bonuses.decayReduction).toEqual({ hunger: 0.75, happiness: 0.1, energy: 0.2 });
+  });
+
+  it('caps each reduction between 0 and 1', () => {
+    const bonuses = combineEquipment([
+      item('broken', { decayReduction: { hunger: 1.5, happiness: -0.5, energy: 0 } }),
+    ]);
+
+    expect(bonuses.decayReduction).toEqual({ hunger: 1, happiness: 0, energy: 0 });
+  });
+});
+
+describe('applyEquipmentDecay', () => {
+  it('reduces each decay rate by its reduction', () => {
+    expect(
+      applyEquipmentDecay({ hunger: 4, happiness: 2, energy: 10 }, { hunger: 0.75, happiness: 0, energy: 0.5 }),
+    ).toEqual({ hunger: 1, happiness: 2, energy: 5 });
+  });
+});
+
+describe('resolveEquipment', () => {
+  it('orders equipped items by layer and skips unknown items', () => {
+    const items = new Map([
+      ['party_hat', item('party_hat')],
+      ['ball', item('ball', { slot: EquipmentSlot.TOY })],
+    ]);
+
+    const resolved = resolveEquipment(
+      { [EquipmentSlot.HAT]: 'party_hat', [EquipmentSlot.TOY]: 'ball', [EquipmentSlot.COLLAR]: 'retired' },
+      items,
+    );
+
+    expect(resolved.map(({ slot, item }) => [slot, item.key])).toEqual([
+      [EquipmentSlot.TOY, 'ball'],
+      [EquipmentSlot.HAT, 'party_hat'],
+    ]);
+  });
+});
+
+describe('composeAppearance', () => {
+  it('layers the equipped items over the species and stage', () => {
+    const appearance = composeAppearance({ type: 'cat', stage: 'kitten', avatar: 'cat.png' }, [
+      {
+        slot: EquipmentSlot.COLLAR,
+        item: item('red_collar', { slot: EquipmentSlot.COLLAR, asset: 'collar_red', color: '#f00' }),
+      },
+      { slot: EquipmentSlot.HAT, item: item('party_hat') },
+    ]);
+
+    expect(appearance).toEqual({
+      species: 'cat',
+      stage: 'kitten',
+      avatar: 'cat.png',
+      layers: [
+        { slot: EquipmentSlot.COLLAR, itemKey: 'red_collar', asset: 'collar_red', color: '#f00' },
+        { slot: EquipmentSlot.HAT, itemKey: 'party_hat', asset: 'party_hat', color: undefined },
+      ],
+    });
+  });
+
+  it('has no layers without equipment', () => {
+    expect(composeAppearance({ type: 'dog' }, []).layers).toEqual([]);
+  });
+});
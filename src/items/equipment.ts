@@ -0,0 +1,127 @@
+import { EquipmentDecayReduction, EquipmentSlot, EquipmentStatBonuses, Item } from './schemas/item.schema';
+import { SpeciesDecayRates } from '../species/schemas/species.schema';
+
+/** 外观图层从下到上的绘制顺序 */
+export const APPEARANCE_LAYER_ORDER: EquipmentSlot[] = [EquipmentSlot.TOY, EquipmentSlot.COLLAR, EquipmentSlot.HAT];
+
+/** 宠物各栏位上的道具 key */
+export type EquippedItemKeys = Partial<Record<EquipmentSlot, string>>;
+
+/**
+ * 所有已装备道具的合计效果
+ */
+export interface EquipmentBonuses {
+  statBonuses: EquipmentStatBonuses;
+  /** 每项衰减量降低的总比例，多件装备按剩余衰减量依次相乘 */
+  decayReduction: EquipmentDecayReduction;
+}
+
+/**
+ * 外观中的一个装备图层
+ */
+export interface AppearanceLayer {
+  slot: EquipmentSlot;
+  itemKey: string;
+  asset: string;
+  color?: string;
+}
+
+/**
+ * 宠物外观描述，前端按物种、阶段和图层顺序绘制
+ */
+export interface PetAppearance {
+  species: string;
+  stage?: string;
+  avatar?: string;
+  layers: AppearanceLayer[];
+}
+
+/**
+ * 查出宠物已装备的道具，目录中已不存在的道具会被忽略
+ *
+ * @param equipment 宠物各栏位上的道具 key
+ * @param items 以 key 为索引的道具
+ * @returns 按外观图层顺序排列的栏位和道具
+ */
+export function resolveEquipment(
+  equipment: EquippedItemKeys,
+  items: Map<string, Item>,
+): { slot: EquipmentSlot; item: Item }[] {
+  return APPEARANCE_LAYER_ORDER.filter((slot) => equipment?.[slot] && items.has(equipment[slot])).map((slot) => ({
+    slot,
+    item: items.get(equipment[slot]),
+  }));
+}
+
+/**
+ * 合计已装备道具的战斗属性加成和衰减降低比例
+ *
+ * @param equipped 已装备的道具
+ * @returns 合计效果，没有装备时全部为 0
+ */
+export function combineEquipment(equipped: Item[]): EquipmentBonuses {
+  const statBonuses: EquipmentStatBonuses = { maxHp: 0, attack: 0, defense: 0, speed: 0 };
+  const remaining = { hunger: 1, happiness: 1, energy: 1 };
+
+  for (const item of equipped) {
+    const { statBonuses: bonuses, decayReduction } = item.equipment ?? {};
+    for (const field of ['maxHp', 'attack', 'defense', 'speed'] as const) {
+      statBonuses[field] += bonuses?.[field] ?? 0;
+    }
+    for (const field of ['hunger', 'happiness', 'energy'] as const) {
+      remaining[field] *= 1 - Math.min(1, Math.max(0, decayReduction?.[field] ?? 0));
+    }
+  }
+
+  const reduction = (value: number) => Math.round((1 - value) * 1000) / 1000;
+  return {
+    statBonuses,
+    decayReduction: {
+      hunger: reduction(remaining.hunger),
+      happiness: reduction(remaining.happiness),
+      energy: reduction(remaining.energy),
+    },
+  };
+}
+
+/**
+ * 按装备降低每小时衰减量
+ *
+ * @param decayRates 每小时衰减量
+ * @param decayReduction 装备的衰减降低比例
+ * @returns 调整后的衰减量
+ */
+export function applyEquipmentDecay(
+  decayRates: SpeciesDecayRates,
+  decayReduction: EquipmentDecayReduction,
+): SpeciesDecayRates {
+  return {
+    hunger: decayRates.hunger * (1 - decayReduction.hunger),
+    happiness: decayRates.happiness * (1 - decayReduction.happiness),
+    energy: decayRates.energy * (1 - decayReduction.energy),
+  };
+}
+
+/**
+ * 组合宠物外观：物种和进化阶段决定底图，已装备道具按图层顺序叠加
+ *
+ * @param pet 宠物的物种、阶段和头像
+ * @param equipped 按图层顺序排列的已装备道具
+ * @returns 外观描述
+ */
+export function composeAppearance(
+  pet: { type: string; stage?: string; avatar?: string },
+  equipped: { slot: EquipmentSlot; item: Item }[],
+): PetAppearance {
+  return {
+    species: pet.type,
+    stage: pet.stage,
+    avatar: pet.avatar,
+    layers: equipped.map(({ slot, item }) => ({
+      slot,
+      itemKey: item.key,
+      asset: item.equipment?.asset ?? item.key,
+      color: item.equipment?.color,
+    })),
+  };
+}
@@ -0,0 +1,27 @@
+import { Controller, Get, Param, UseGuards } from '@nestjs/common';
+import { InventoryService } from './inventory.service';
+import { UserSelfGuard } from '../users/guards/user-self.guard';
+
+/**
+ * 背包控制器
+ * 提供用户查询自己背包道具的RESTful API接口
+ * 
+ * 路径前缀: /users/:id/inventory
+ */
+@Controller('users/:id/inventory')
+export class InventoryController {
+  constructor(private readonly inventoryService: InventoryService) {}
+
+  /**
+   * 获取背包道具
+   * GET /users/:id/inventory
+   * 
+   * @param id 用户ID，只能查询本人
+   * @returns 持有的道具列表，包含数量和道具定义（分类、效果）
+   */
+  @UseGuards(UserSelfGuard)
+  @Get()
+  getInventory(@Param('id') id: string) {
+    return this.inventoryService.getInventory(id);
+  }
+}
@@ -0,0 +1,116 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { InventoryItem, InventoryItemDocument } from './schemas/inventory-item.schema';
+import { Item } from './schemas/item.schema';
+import { ItemsService } from './items.service';
+import { STARTER_ITEMS } from './default-items';
+
+/**
+ * 背包中的道具及其完整定义
+ */
+export interface InventoryEntry {
+  itemKey: string;
+  quantity: number;
+  item: Item | null;
+}
+
+/**
+ * 背包服务类
+ * 管理每个用户持有的道具数量，发放和消耗均为原子操作
+ */
+@Injectable()
+export class InventoryService {
+  constructor(
+    @InjectModel(InventoryItem.name) private inventoryModel: Model<InventoryItemDocument>,
+    private readonly itemsService: ItemsService,
+  ) {}
+
+  /**
+   * 获取用户背包
+   * 
+   * @param userId 用户ID
+   * @returns 数量大于0的道具列表，附带道具定义
+   */
+  async getInventory(userId: string): Promise<InventoryEntry[]> {
+    const entries = await this.inventoryModel
+      .find({ userId, quantity: { $gt: 0 } })
+      .sort({ itemKey: 1 })
+      .exec();
+    const items = await this.itemsService.findByKeys(entries.map((entry) => entry.itemKey));
+
+    return entries.map((entry) => ({
+      itemKey: entry.itemKey,
+      quantity: entry.quantity,
+      item: items.get(entry.itemKey) ?? null,
+    }));
+  }
+
+  /**
+   * 查询用户持有某道具的数量
+   * 
+   * @param userId 用户ID
+   * @param itemKey 道具标识
+   * @returns 持有数量
+   */
+  async getQuantity(userId: string, itemKey: string): Promise<number> {
+    const entry = await this.inventoryModel.findOne({ userId, itemKey }).exec();
+    return entry?.quantity ?? 0;
+  }
+
+  /**
+   * 发放道具
+   * 
+   * @param userId 用户ID
+   * @param itemKey 道具标识
+   * @param quantity 发放数量
+   * @returns 发放后的背包记录
+   * @throws NotFoundException 当道具不存在时
+   */
+  async grant(userId: string, itemKey: string, quantity: number): Promise<InventoryItem> {
+    await this.itemsService.findByKey(itemKey);
+    return this.inventoryModel
+      .findOneAndUpdate(
+        { userId, itemKey },
+        { $inc: { quantity } },
+        { new: true, upsert: true },
+      )
+      .exec();
+  }
+
+  /**
+   * 消耗道具
+   * 
+   * 使用带数量条件的原子更新，数量不足时不做任何修改
+   * 
+   * @param userId 用户ID
+   * @param itemKey 道具标识
+   * @param quantity 消耗数量，默认1
+   * @returns 消耗后的背包记录
+   * @throws BadRequestException 当道具数量不足时
+   */
+  async consume(userId: string, itemKey: string, quantity = 1): Promise<InventoryItem> {
+    const entry = await this.inventoryModel
+      .findOneAndUpdate(
+        { userId, itemKey, quantity: { $gte: quantity } },
+        { $inc: { quantity: -quantity } },
+        { new: true },
+      )
+      .exec();
+    if (!entry) {
+      throw new BadRequestException(`Not enough ${itemKey} in inventory`);
+    }
+    return entry;
+  }
+
+  /**
+   * 发放新手道具
+   * 
+   * @param userId 新注册的用户ID
+   */
+  async grantStarterItems(userId: string): Promise<void> {
+    for (const { itemKey, quantity } of STARTER_ITEMS) {
+      await this.grant(userId, itemKey, quantity);
+    }
+  }
+}
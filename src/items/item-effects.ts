@@ -0,0 +1,51 @@
+import { ItemEffects } from './schemas/item.schema';
+
+/**
+ * 受道具效果影响的宠物数值
+ */
+export interface PetVitals {
+  health: number;
+  hunger: number;
+  happiness: number;
+  energy: number;
+  experience: number;
+}
+
+const EFFECT_FIELDS: (keyof ItemEffects)[] = ['health', 'hunger', 'happiness', 'energy', 'experience'];
+
+/**
+ * 叠加多组效果
+ *
+ * @param effects 需要叠加的效果列表
+ * @returns 各字段求和后的效果
+ */
+export function mergeEffects(...effects: ItemEffects[]): ItemEffects {
+  const merged: ItemEffects = {};
+  for (const effect of effects) {
+    for (const field of EFFECT_FIELDS) {
+      if (effect[field]) {
+        merged[field] = (merged[field] ?? 0) + effect[field];
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * 将效果作用到宠物数值上
+ * 健康度、饥饿度、快乐度、能量限制在 0-100，经验值不低于0
+ *
+ * @param vitals 当前数值
+ * @param effects 效果
+ * @returns 作用后的数值
+ */
+export function applyEffects(vitals: PetVitals, effects: ItemEffects): PetVitals {
+  const clamp = (value: number) => Math.min(100, Math.max(0, value));
+  return {
+    health: clamp(vitals.health + (effects.health ?? 0)),
+    hunger: clamp(vitals.hunger + (effects.hunger ?? 0)),
+    happiness: clamp(vitals.happiness + (effects.happiness ?? 0)),
+    energy: clamp(vitals.energy + (effects.energy ?? 0)),
+    experience: Math.max(0, vitals.experience + (effects.experience ?? 0)),
+  };
+}
@@ -0,0 +1,23 @@
+import { Controller, Get } from '@nestjs/common';
+import { ItemsService } from './items.service';
+
+/**
+ * 道具目录控制器
+ * 
+ * 路径前缀: /items
+ */
+@Controller('items')
+export class ItemsController {
+  constructor(private readonly itemsService: ItemsService) {}
+
+  /**
+   * 获取道具目录
+   * GET /items
+   * 
+   * @returns 所有可用道具的定义，包含分类和对宠物数值的效果
+   */
+  @Get()
+  findAll() {
+    return this.itemsService.findAll();
+  }
+}
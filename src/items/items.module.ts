@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Item, ItemSchema } from './schemas/item.schema';
+import { InventoryItem, InventoryItemSchema } from './schemas/inventory-item.schema';
+import { ItemsService } from './items.service';
+import { InventoryService } from './inventory.service';
+import { ItemsController } from './items.controller';
+import { InventoryController } from './inventory.controller';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Item.name, schema: ItemSchema },
+      { name: InventoryItem.name, schema: InventoryItemSchema },
+    ]),
+  ],
+  providers: [ItemsService, InventoryService],
+  controllers: [ItemsController, InventoryController],
+  exports: [ItemsService, InventoryService],
+})
+export class ItemsModule {}
@@ -0,0 +1,130 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Item, ItemCategory, ItemDocument, ItemEquipment } from './schemas/item.schema';
+import { CreateItemDto } from './dto/create-item.dto';
+import { UpdateItemDto } from './dto/update-item.dto';
+import { DEFAULT_ITEMS } from './default-items';
+
+/**
+ * 道具服务类
+ * 维护道具目录，提供道具查询和管理功能
+ */
+@Injectable()
+export class ItemsService implements OnModuleInit {
+  private readonly logger = new Logger(ItemsService.name);
+
+  constructor(@InjectModel(Item.name) private itemModel: Model<ItemDocument>) {}
+
+  /**
+   * 启动时写入缺失的内置道具，已存在的道具不会被覆盖
+   */
+  async onModuleInit(): Promise<void> {
+    const result = await this.itemModel.bulkWrite(
+      DEFAULT_ITEMS.map((item) => ({
+        updateOne: {
+          filter: { key: item.key },
+          update: { $setOnInsert: { ...item, isActive: true } },
+          upsert: true,
+        },
+      })),
+    );
+    if (result.upsertedCount > 0) {
+      this.logger.log(`Seeded ${result.upsertedCount} default items`);
+    }
+  }
+
+  /**
+   * 获取道具目录
+   * 
+   * @param includeInactive 是否包含已停用的道具
+   * @returns 道具数组，按分类和 key 排序
+   */
+  async findAll(includeInactive = false): Promise<Item[]> {
+    const filter = includeInactive ? {} : { isActive: true };
+    return this.itemModel.find(filter).sort({ category: 1, key: 1 }).exec();
+  }
+
+  /**
+   * 根据 key 查找道具
+   * 
+   * @param key 道具标识
+   * @returns 道具对象
+   * @throws NotFoundException 当道具不存在时
+   */
+  async findByKey(key: string): Promise<Item> {
+    const item = await this.itemModel.findOne({ key }).exec();
+    if (!item) {
+      throw new NotFoundException(`Item ${key} not found`);
+    }
+    return item;
+  }
+
+  /**
+   * 根据 key 批量查找道具
+   * 
+   * @param keys 道具标识列表
+   * @returns 以 key 为索引的道具映射
+   */
+  async findByKeys(keys: string[]): Promise<Map<string, Item>> {
+    const items = await this.itemModel.find({ key: { $in: keys } }).exec();
+    return new Map(items.map((item) => [item.key, item]));
+  }
+
+  /**
+   * 新增道具
+   * 
+   * @param createItemDto 道具定义
+   * @returns 创建的道具
+   * @throws ConflictException 当道具 key 已存在时
+   * @throws BadRequestException 当装备属性与道具分类不匹配时
+   */
+  async create(createItemDto: CreateItemDto): Promise<Item> {
+    this.assertEquipment(createItemDto.category, createItemDto.equipment);
+    const existing = await this.itemModel.exists({ key: createItemDto.key });
+    if (existing) {
+      throw new ConflictException(`Item ${createItemDto.key} already exists`);
+    }
+    return new this.itemModel(createItemDto).save();
+  }
+
+  /**
+   * 修改道具定义
+   * 
+   * @param key 道具标识
+   * @param updateItemDto 更新的字段
+   * @returns 更新后的道具
+   * @throws NotFoundException 当道具不存在时
+   * @throws BadRequestException 当装备属性与道具分类不匹配时
+   */
+  async update(key: string, updateItemDto: UpdateItemDto): Promise<Item> {
+    if (updateItemDto.equipment) {
+      const existing = await this.findByKey(key);
+      this.assertEquipment(existing.category, updateItemDto.equipment);
+    }
+    const item = await this.itemModel.findOneAndUpdate({ key }, updateItemDto, { new: true }).exec();
+    if (!item) {
+      throw new NotFoundException(`Item ${key} not found`);
+    }
+    return item;
+  }
+
+  /**
+   * 校验装备属性：装备必须设置装备属性，装饰品可以设置，其他分类的道具不能装备
+   */
+  private assertEquipment(category: ItemCategory, equipment?: ItemEquipment): void {
+    if (category === ItemCategory.EQUIPMENT && !equipment) {
+      throw new BadRequestException('Equipment items must define an equipment slot');
+    }
+    if (equipment && category !== ItemCategory.EQUIPMENT && category !== ItemCategory.COSMETIC) {
+      throw new BadRequestException(`Items in category ${category} cannot be equipped`);
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type InventoryItemDocument = InventoryItem & Document;
+
+/**
+ * 用户背包中的一种道具及其数量
+ * 每个用户的每种道具只有一条记录
+ */
+@Schema({ timestamps: true })
+export class InventoryItem {
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop({ required: true })
+  itemKey: string;
+
+  @Prop({ required: true, min: 0, default: 0 })
+  quantity: number;
+}
+
+export const InventoryItemSchema = SchemaFactory.createForClass(InventoryItem);
+
+InventoryItemSchema.index({ userId: 1, itemKey: 1 }, { unique: true });
@@ -0,0 +1,136 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type ItemDocument = Item & Document;
+
+export enum ItemCategory {
+  FOOD = 'food',
+  TOY = 'toy',
+  MEDICINE = 'medicine',
+  SKILL = 'skill',
+  COSMETIC = 'cosmetic',
+  EQUIPMENT = 'equipment',
+}
+
+/**
+ * 宠物的装备栏位，每个栏位同时只能装备一件道具
+ */
+export enum EquipmentSlot {
+  HAT = 'hat',
+  COLLAR = 'collar',
+  TOY = 'toy',
+}
+
+/**
+ * 道具对宠物数值的影响，正数增加、负数减少
+ */
+@Schema({ _id: false })
+export class ItemEffects {
+  @Prop()
+  health?: number;
+
+  @Prop()
+  hunger?: number;
+
+  @Prop()
+  happiness?: number;
+
+  @Prop()
+  energy?: number;
+
+  @Prop()
+  experience?: number;
+}
+
+/**
+ * 装备后叠加到宠物战斗属性上的加成
+ */
+@Schema({ _id: false })
+export class EquipmentStatBonuses {
+  @Prop({ default: 0 })
+  maxHp: number;
+
+  @Prop({ default: 0 })
+  attack: number;
+
+  @Prop({ default: 0 })
+  defense: number;
+
+  @Prop({ default: 0 })
+  speed: number;
+}
+
+/**
+ * 装备后宠物每小时衰减量降低的比例，0.2 表示降低 20%
+ */
+@Schema({ _id: false })
+export class EquipmentDecayReduction {
+  @Prop({ default: 0 })
+  hunger: number;
+
+  @Prop({ default: 0 })
+  happiness: number;
+
+  @Prop({ default: 0 })
+  energy: number;
+}
+
+/**
+ * 可装备道具的装备属性
+ * 装饰品只有栏位和外观，装备还可以提供战斗属性加成或降低衰减速度
+ */
+@Schema({ _id: false })
+export class ItemEquipment {
+  @Prop({ required: true, enum: EquipmentSlot })
+  slot: EquipmentSlot;
+
+  /** 前端渲染使用的资源标识，未设置时使用道具 key */
+  @Prop()
+  asset?: string;
+
+  /** 外观颜色，如 #ff0000 */
+  @Prop()
+  color?: string;
+
+  @Prop({ type: EquipmentStatBonuses })
+  statBonuses?: EquipmentStatBonuses;
+
+  @Prop({ type: EquipmentDecayReduction })
+  decayReduction?: EquipmentDecayReduction;
+}
+
+/**
+ * 道具目录
+ * 食物用于喂食、玩具用于玩耍、药品用于治疗、招式秘籍用于学习招式，
+ * 装饰品和装备可以装备到宠物身上，由管理员维护
+ */
+@Schema({ timestamps: true })
+export class Item {
+  @Prop({ required: true, unique: true })
+  key: string;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  description?: string;
+
+  @Prop({ required: true, enum: ItemCategory })
+  category: ItemCategory;
+
+  @Prop({ type: ItemEffects, default: {} })
+  effects: ItemEffects;
+
+  /** 招式秘籍可以教会的招式 */
+  @Prop()
+  teachesMove?: string;
+
+  /** 装饰品和装备的装备属性，没有该属性的道具不能装备 */
+  @Prop({ type: ItemEquipment })
+  equipment?: ItemEquipment;
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const ItemSchema = SchemaFactory.createForClass(Item);
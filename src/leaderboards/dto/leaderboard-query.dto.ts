@@ -0,0 +1,19 @@
+import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { LeaderboardPeriod } from '../schemas/leaderboard-snapshot.schema';
+
+/**
+ * 排行榜查询参数
+ * - period: 统计周期，默认总榜
+ * - species: 按物种筛选，仅宠物榜可用
+ */
+export class LeaderboardQueryDto extends PaginationQueryDto {
+  @IsOptional()
+  @IsEnum(LeaderboardPeriod)
+  period: LeaderboardPeriod = LeaderboardPeriod.ALL_TIME;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  species?: string;
+}
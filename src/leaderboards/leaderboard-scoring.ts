@@ -0,0 +1,128 @@
+import { LeaderboardBoard, LeaderboardEntry } from './schemas/leaderboard-snapshot.schema';
+
+/**
+ * 宠物或用户的累计数值，宠物没有 coins，用户没有对战场次
+ */
+export interface Standing {
+  subjectId: string;
+  userId: string;
+  name: string;
+  petType?: string;
+  level: number;
+  experience: number;
+  battlesWon: number;
+  battlesLost: number;
+  coins: number;
+}
+
+/**
+ * 计算得分时用到的数值，总榜为累计数值，周期榜为周期内的增量
+ */
+type Tally = Pick<Standing, 'experience' | 'battlesWon' | 'battlesLost' | 'coins'>;
+
+interface ScoredEntry extends Omit<LeaderboardEntry, 'rank'> {
+  /** 得分相同时的次要排序依据 */
+  tieBreak: number;
+}
+
+/**
+ * 计算对象在榜单上的得分
+ *
+ * 计分规则：
+ * - 等级榜：总榜按等级，周期榜按周期内获得的经验，没有获得经验的不上榜
+ * - 胜率榜：胜场 / 总场次，保留 4 位小数，场次不足 minBattles 的不上榜
+ * - 财富榜：总榜按金币余额，周期榜按金币净增长，没有增长的不上榜
+ *
+ * @param board 榜单
+ * @param standing 当前累计数值
+ * @param baseline 周期基线，总榜为空
+ * @param minBattles 胜率榜的最低对战场次
+ * @returns 得分记录，不上榜时返回 null
+ */
+export function scoreStanding(
+  board: LeaderboardBoard,
+  standing: Standing,
+  baseline: Tally | null,
+  minBattles: number,
+): ScoredEntry | null {
+  const tally: Tally = baseline
+    ? {
+        experience: standing.experience - baseline.experience,
+        battlesWon: standing.battlesWon - baseline.battlesWon,
+        battlesLost: standing.battlesLost - baseline.battlesLost,
+        coins: standing.coins - baseline.coins,
+      }
+    : standing;
+  const entry = {
+    subjectId: standing.subjectId,
+    userId: standing.userId,
+    name: standing.name,
+    petType: standing.petType,
+  };
+
+  switch (board) {
+    case LeaderboardBoard.PET_LEVEL:
+    case LeaderboardBoard.PLAYER_LEVEL:
+      if (!baseline) {
+        return {
+          ...entry,
+          score: standing.level,
+          details: { level: standing.level, experience: standing.experience },
+          tieBreak: standing.experience,
+        };
+      }
+      if (tally.experience <= 0) {
+        return null;
+      }
+      return {
+        ...entry,
+        score: tally.experience,
+        details: { level: standing.level, experience: tally.experience },
+        tieBreak: standing.level,
+      };
+
+    case LeaderboardBoard.PET_WIN_RATE: {
+      const battles = tally.battlesWon + tally.battlesLost;
+      if (battles <= 0 || battles < minBattles) {
+        return null;
+      }
+      return {
+        ...entry,
+        score: Math.round((tally.battlesWon / battles) * 10000) / 10000,
+        details: { battlesWon: tally.battlesWon, battlesLost: tally.battlesLost },
+        tieBreak: tally.battlesWon,
+      };
+    }
+
+    case LeaderboardBoard.PLAYER_WEALTH:
+      if (baseline && tally.coins <= 0) {
+        return null;
+      }
+      return { ...entry, score: tally.coins, details: { coins: tally.coins }, tieBreak: 0 };
+  }
+}
+
+/**
+ * 对得分记录排序并编排名次，得分相同时依次比较次要排序依据和对象ID
+ *
+ * @param scored 得分记录
+ * @param size 最多保留的名次，未提供时保留全部
+ * @returns 前 size 名的榜单记录
+ */
+export function rankEntries(scored: ScoredEntry[], size = Infinity): LeaderboardEntry[] {
+  return scored
+    .sort(
+      (a, b) =>
+        b.score - a.score || b.tieBreak - a.tieBreak || a.subjectId.localeCompare(b.subjectId),
+    )
+    .slice(0, size)
+    .map((entry, index) => ({
+      rank: index + 1,
+      subjectId: entry.subjectId,
+      userId: entry.userId,
+      name: entry.name,
+      petType: entry.petType,
+      score: entry.score,
+      details: entry.details,
+    }));
+}
@@ -0,0 +1,50 @@
+import { Controller, Get, Param, ParseEnumPipe, Query } from '@nestjs/common';
+import { LeaderboardsService } from './leaderboards.service';
+import { LeaderboardQueryDto } from './dto/leaderboard-query.dto';
+import { LeaderboardBoard } from './schemas/leaderboard-snapshot.schema';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+/**
+ * 排行榜控制器
+ * 提供宠物榜、玩家榜查询和我的名次查询的RESTful API接口
+ * 
+ * 路径前缀: /leaderboards
+ */
+@Controller('leaderboards')
+export class LeaderboardsController {
+  constructor(private readonly leaderboardsService: LeaderboardsService) {}
+
+  /**
+   * 分页获取排行榜
+   * GET /leaderboards/:board?period=weekly&species=cat&page=1&limit=20
+   * 
+   * @param board 榜单：pet_level、pet_win_rate、player_level、player_wealth
+   * @param query 统计周期、物种筛选（仅宠物榜）和分页参数
+   * @returns 排行榜的一页和快照计算时间
+   */
+  @Get(':board')
+  getLeaderboard(
+    @Param('board', new ParseEnumPipe(LeaderboardBoard)) board: LeaderboardBoard,
+    @Query() query: LeaderboardQueryDto,
+  ) {
+    return this.leaderboardsService.getLeaderboard(board, query);
+  }
+
+  /**
+   * 获取我在排行榜上的名次
+   * GET /leaderboards/:board/me?period=weekly
+   * 
+   * @param userId 当前认证用户ID
+   * @param board 榜单
+   * @param query 统计周期和物种筛选
+   * @returns 我（宠物榜为我的每只参与排名的宠物）的名次和得分
+   */
+  @Get(':board/me')
+  getStanding(
+    @CurrentUser('id') userId: string,
+    @Param('board', new ParseEnumPipe(LeaderboardBoard)) board: LeaderboardBoard,
+    @Query() query: LeaderboardQueryDto,
+  ) {
+    return this.leaderboardsService.getStanding(userId, board, query);
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { LeaderboardSnapshot, LeaderboardSnapshotSchema } from './schemas/leaderboard-snapshot.schema';
+import { LeaderboardBaseline, LeaderboardBaselineSchema } from './schemas/leaderboard-baseline.schema';
+import { LeaderboardRank, LeaderboardRankSchema } from './schemas/leaderboard-rank.schema';
+import { Pet, PetSchema } from '../pets/schemas/pet.schema';
+import { User, UserSchema } from '../users/schemas/user.schema';
+import { LeaderboardsService } from './leaderboards.service';
+import { LeaderboardsScheduler } from './leaderboards.scheduler';
+import { LeaderboardsController } from './leaderboards.controller';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: LeaderboardSnapshot.name, schema: LeaderboardSnapshotSchema },
+      { name: LeaderboardBaseline.name, schema: LeaderboardBaselineSchema },
+      { name: LeaderboardRank.name, schema: LeaderboardRankSchema },
+      { name: Pet.name, schema: PetSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+  ],
+  providers: [LeaderboardsService, LeaderboardsScheduler],
+  controllers: [LeaderboardsController],
+  exports: [LeaderboardsService],
+})
+export class LeaderboardsModule {}
@@ -0,0 +1,50 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { LeaderboardsService } from './leaderboards.service';
+import { gameConfig } from '../config';
+
+const REFRESH_INTERVAL_NAME = 'leaderboard-refresh';
+
+/**
+ * 排行榜定时计算
+ *
+ * 应用启动后立即计算一次，之后按配置文件 game.leaderboards.refreshMinutes 的间隔重新计算，
+ * 排行榜数据最多延迟一个间隔
+ */
+@Injectable()
+export class LeaderboardsScheduler implements OnApplicationBootstrap {
+  private readonly logger = new Logger(LeaderboardsScheduler.name);
+  private running = false;
+
+  constructor(
+    private readonly leaderboardsService: LeaderboardsService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    const { refreshMinutes } = gameConfig.leaderboards;
+    const interval = setInterval(() => void this.refresh(), refreshMinutes * 60 * 1000);
+    this.schedulerRegistry.addInterval(REFRESH_INTERVAL_NAME, interval);
+    void this.refresh();
+  }
+
+  /**
+   * 重新计算所有排行榜
+   * 上一次计算尚未完成时跳过本次执行
+   */
+  async refresh(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const count = await this.leaderboardsService.refresh();
+      this.logger.log(`Refreshed ${count} leaderboards`);
+    } catch (error) {
+      this.logger.error('Leaderboard refresh failed', error instanceof Error ? error.stack : error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
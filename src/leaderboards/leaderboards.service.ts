@@ -0,0 +1,380 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  LeaderboardBoard,
+  LeaderboardEntry,
+  LeaderboardPeriod,
+  LeaderboardSnapshot,
+  LeaderboardSnapshotDocument,
+} from './schemas/leaderboard-snapshot.schema';
+import {
+  BaselineKind,
+  LeaderboardBaseline,
+  LeaderboardBaselineDocument,
+} from './schemas/leaderboard-baseline.schema';
+import { LeaderboardRank, LeaderboardRankDocument } from './schemas/leaderboard-rank.schema';
+import { LeaderboardQueryDto } from './dto/leaderboard-query.dto';
+import { Standing, rankEntries, scoreStanding } from './leaderboard-scoring';
+import { Pet, PetDocument } from '../pets/schemas/pet.schema';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import { PaginatedResult } from '../common/dto/pagination-query.dto';
+import { PeriodWindow, ResetPeriod, periodWindow } from '../common/utils/period';
+import { gameConfig } from '../config';
+
+/** MongoDB 唯一索引冲突的错误码 */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/** 总榜的周期标识 */
+const ALL_TIME_KEY = 'all';
+
+/** 每次批量写入名次的条数 */
+const RANK_WRITE_BATCH_SIZE = 1000;
+
+/** 基线在周期结束后保留的时间 */
+const BASELINE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const PET_BOARDS = [LeaderboardBoard.PET_LEVEL, LeaderboardBoard.PET_WIN_RATE];
+const PLAYER_BOARDS = [LeaderboardBoard.PLAYER_LEVEL, LeaderboardBoard.PLAYER_WEALTH];
+
+/** 周期榜对应的重置周期，总榜不重置 */
+const PERIOD_RESETS: Partial<Record<LeaderboardPeriod, ResetPeriod>> = {
+  [LeaderboardPeriod.DAILY]: ResetPeriod.DAILY,
+  [LeaderboardPeriod.WEEKLY]: ResetPeriod.WEEKLY,
+};
+
+/**
+ * 一次计算的榜单：榜单、物种筛选和参与排名的对象
+ */
+interface BoardGroup {
+  board: LeaderboardBoard;
+  species: string | null;
+  kind: BaselineKind;
+  standings: Standing[];
+}
+
+type Baselines = Map<string, Pick<Standing, 'experience' | 'battlesWon' | 'battlesLost' | 'coins'>>;
+
+/**
+ * 排行榜快照的基本信息
+ */
+interface LeaderboardMeta {
+  board: LeaderboardBoard;
+  period: LeaderboardPeriod;
+  species: string | null;
+  /** 周期标识，尚未计算时为空 */
+  periodKey: string | null;
+  /** 快照计算时间，尚未计算时为空 */
+  computedAt: Date | null;
+}
+
+/**
+ * 排行榜的一页
+ */
+export interface LeaderboardPage extends LeaderboardMeta, PaginatedResult<LeaderboardEntry> {}
+
+/**
+ * 用户在排行榜上的名次，宠物榜包含用户每只上榜宠物的名次
+ * participants 为参与排名的对象总数
+ */
+export interface LeaderboardStanding extends LeaderboardMeta {
+  participants: number;
+  entries: LeaderboardEntry[];
+}
+
+/**
+ * 排行榜服务类
+ * 定时计算排行榜快照和每个对象的名次，读取时直接从快照分页、按用户查询名次，不在请求中对宠物和用户集合排序
+ *
+ * 周期榜（今日、本周）的得分为当前累计数值减去周期基线，
+ * 周期边界使用配置文件 game.timezone 指定的时区
+ */
+@Injectable()
+export class LeaderboardsService {
+  constructor(
+    @InjectModel(LeaderboardSnapshot.name) private snapshotModel: Model<LeaderboardSnapshotDocument>,
+    @InjectModel(LeaderboardBaseline.name) private baselineModel: Model<LeaderboardBaselineDocument>,
+    @InjectModel(LeaderboardRank.name) private rankModel: Model<LeaderboardRankDocument>,
+    @InjectModel(Pet.name) private petModel: Model<PetDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+  ) {}
+
+  /**
+   * 分页获取排行榜
+   *
+   * @param board 榜单
+   * @param query 统计周期、物种筛选和分页参数
+   * @returns 排行榜的一页，尚未计算时为空列表
+   * @throws BadRequestException 当玩家榜指定了物种时
+   */
+  async getLeaderboard(board: LeaderboardBoard, query: LeaderboardQueryDto): Promise<LeaderboardPage> {
+    const filter = this.snapshotFilter(board, query);
+    const { page, limit } = query;
+    const [snapshot] = await this.snapshotModel
+      .aggregate<LeaderboardSnapshot & { total: number }>([
+        { $match: filter },
+        {
+          $project: {
+            periodKey: 1,
+            computedAt: 1,
+            total: { $size: '$entries' },
+            entries: { $slice: ['$entries', (page - 1) * limit, limit] },
+          },
+        },
+      ])
+      .exec();
+
+    return {
+      ...this.toMeta(filter, snapshot),
+      items: snapshot?.entries ?? [],
+      total: snapshot?.total ?? 0,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * 获取用户在排行榜上的名次
+   *
+   * @param userId 用户ID
+   * @param board 榜单
+   * @param query 统计周期和物种筛选
+   * @returns 用户或用户宠物的名次（不限于前 game.leaderboards.size 名），没有参与排名时为空列表
+   * @throws BadRequestException 当玩家榜指定了物种时
+   */
+  async getStanding(
+    userId: string,
+    board: LeaderboardBoard,
+    query: LeaderboardQueryDto,
+  ): Promise<LeaderboardStanding> {
+    const filter = this.snapshotFilter(board, query);
+    const [snapshot, ranks] = await Promise.all([
+      this.snapshotModel.findOne(filter).select({ periodKey: 1, computedAt: 1, participants: 1 }).exec(),
+      this.rankModel
+        .find({ ...filter, userId })
+        .sort({ rank: 1 })
+        .lean()
+        .exec(),
+    ]);
+
+    return {
+      ...this.toMeta(filter, snapshot),
+      participants: snapshot?.participants ?? 0,
+      entries: ranks.map((rank) => ({
+        rank: rank.rank,
+        subjectId: rank.subjectId,
+        userId: rank.userId,
+        name: rank.name,
+        petType: rank.petType,
+        score: rank.score,
+        details: rank.details,
+      })),
+    };
+  }
+
+  /**
+   * 重新计算所有排行榜快照
+   *
+   * 计算流程：
+   * 1. 读取所有活跃宠物和用户的累计数值
+   * 2. 为今日和本周周期补齐缺失的基线，新出现的对象以当前数值为基线
+   * 3. 按榜单、周期和物种计算得分并排序，快照只保留前 game.leaderboards.size 名，
+   *    每个对象的名次另外写入名次集合
+   * 4. 逐个替换快照，删除本次没有更新的快照和名次（例如已经没有宠物的物种、不再上榜的对象）
+   *
+   * @param now 计算时间
+   * @returns 写入的快照数量
+   */
+  async refresh(now = new Date()): Promise<number> {
+    const { size, winRateMinBattles } = gameConfig.leaderboards;
+    const [pets, players] = await Promise.all([this.loadPets(), this.loadPlayers()]);
+    const species = [...new Set(pets.flatMap((pet) => (pet.petType ? [pet.petType] : [])))].sort();
+
+    let written = 0;
+    for (const period of Object.values(LeaderboardPeriod)) {
+      const reset = PERIOD_RESETS[period];
+      const window = reset ? periodWindow(reset, now, gameConfig.timezone) : null;
+      const baselines = window ? await this.ensureBaselines(window, pets, players) : null;
+
+      const groups: BoardGroup[] = [
+        ...PET_BOARDS.flatMap((board) =>
+          [null, ...species].map((type) => ({
+            board,
+            species: type,
+            kind: BaselineKind.PET,
+            standings: type ? pets.filter((pet) => pet.petType === type) : pets,
+          })),
+        ),
+        ...PLAYER_BOARDS.map((board) => ({
+          board,
+          species: null,
+          kind: BaselineKind.USER,
+          standings: players,
+        })),
+      ];
+
+      for (const { board, species: type, kind, standings } of groups) {
+        const scored = standings
+          .map((standing) => {
+            const baseline = baselines?.get(this.baselineKey(kind, standing.subjectId)) ?? null;
+            return scoreStanding(board, standing, baseline, winRateMinBattles);
+          })
+          .filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+        const ranked = rankEntries(scored);
+        const periodKey = window?.key ?? ALL_TIME_KEY;
+
+        await this.snapshotModel
+          .updateOne(
+            { board, period, species: type },
+            {
+              $set: {
+                periodKey,
+                computedAt: now,
+                participants: ranked.length,
+                entries: ranked.slice(0, size),
+              },
+            },
+            { upsert: true },
+          )
+          .exec();
+        await this.writeRanks({ board, period, species: type }, periodKey, ranked, now);
+        written++;
+      }
+    }
+
+    await this.snapshotModel.deleteMany({ computedAt: { $lt: now } }).exec();
+    await this.rankModel.deleteMany({ computedAt: { $lt: now } }).exec();
+    return written;
+  }
+
+  /**
+   * 分批写入一个榜单中每个对象的名次
+   */
+  private async writeRanks(
+    filter: Pick<LeaderboardRank, 'board' | 'period' | 'species'>,
+    periodKey: string,
+    ranked: LeaderboardEntry[],
+    now: Date,
+  ): Promise<void> {
+    for (let start = 0; start < ranked.length; start += RANK_WRITE_BATCH_SIZE) {
+      await this.rankModel.bulkWrite(
+        ranked.slice(start, start + RANK_WRITE_BATCH_SIZE).map((entry) => ({
+          updateOne: {
+            filter: { ...filter, subjectId: entry.subjectId },
+            update: { $set: { ...entry, periodKey, computedAt: now } },
+            upsert: true,
+          },
+        })),
+        { ordered: false },
+      );
+    }
+  }
+
+  private snapshotFilter(board: LeaderboardBoard, query: LeaderboardQueryDto) {
+    if (query.species && !PET_BOARDS.includes(board)) {
+      throw new BadRequestException(`Leaderboard ${board} cannot be filtered by species`);
+    }
+    return { board, period: query.period, species: query.species ?? null };
+  }
+
+  private toMeta(
+    filter: ReturnType<LeaderboardsService['snapshotFilter']>,
+    snapshot?: Pick<LeaderboardSnapshot, 'periodKey' | 'computedAt'> | null,
+  ): LeaderboardMeta {
+    return {
+      ...filter,
+      periodKey: snapshot?.periodKey ?? null,
+      computedAt: snapshot?.computedAt ?? null,
+    };
+  }
+
+  private async loadPets(): Promise<Standing[]> {
+    const pets = await this.petModel
+      .find({ is_active: true })
+      .select('name type userId level experience battlesWon battlesLost')
+      .lean()
+      .exec();
+    return pets.map((pet) => ({
+      subjectId: String(pet._id),
+      userId: pet.userId,
+      name: pet.name,
+      petType: pet.type,
+      level: pet.level,
+      experience: pet.experience,
+      battlesWon: pet.battlesWon,
+      battlesLost: pet.battlesLost,
+      coins: 0,
+    }));
+  }
+
+  private async loadPlayers(): Promise<Standing[]> {
+    const users = await this.userModel
+      .find({ isActive: true })
+      .select('username level experience coins')
+      .lean()
+      .exec();
+    return users.map((user) => ({
+      subjectId: String(user._id),
+      userId: String(user._id),
+      name: user.username,
+      level: user.level,
+      experience: user.experience,
+      battlesWon: 0,
+      battlesLost: 0,
+      coins: user.coins,
+    }));
+  }
+
+  /**
+   * 读取周期基线，并以当前数值为缺失的对象写入基线
+   * 多个实例并发写入时由 (periodKey, kind, subjectId) 唯一索引拒绝重复
+   */
+  private async ensureBaselines(
+    window: PeriodWindow,
+    pets: Standing[],
+    players: Standing[],
+  ): Promise<Baselines> {
+    const existing = await this.baselineModel.find({ periodKey: window.key }).lean().exec();
+    const baselines: Baselines = new Map(
+      existing.map((baseline) => [this.baselineKey(baseline.kind, baseline.subjectId), baseline]),
+    );
+
+    const expiresAt = new Date(window.endsAt.getTime() + BASELINE_RETENTION_MS);
+    const missing = [
+      ...pets.map((standing) => ({ kind: BaselineKind.PET, standing })),
+      ...players.map((standing) => ({ kind: BaselineKind.USER, standing })),
+    ].filter(({ kind, standing }) => !baselines.has(this.baselineKey(kind, standing.subjectId)));
+    if (missing.length === 0) {
+      return baselines;
+    }
+
+    try {
+      await this.baselineModel.insertMany(
+        missing.map(({ kind, standing }) => ({
+          periodKey: window.key,
+          kind,
+          subjectId: standing.subjectId,
+          experience: standing.experience,
+          battlesWon: standing.battlesWon,
+          battlesLost: standing.battlesLost,
+          coins: standing.coins,
+          expiresAt,
+        })),
+        { ordered: false },
+      );
+    } catch (error) {
+      if ((error as { code?: number }).code !== DUPLICATE_KEY_ERROR) {
+        throw error;
+      }
+    }
+
+    for (const { kind, standing } of missing) {
+      baselines.set(this.baselineKey(kind, standing.subjectId), standing);
+    }
+    return baselines;
+  }
+
+  private baselineKey(kind: BaselineKind, subjectId: string): string {
+    return `${kind}:${subjectId}`;
+  }
+}
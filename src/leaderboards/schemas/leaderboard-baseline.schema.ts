@@ -0,0 +1,52 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type LeaderboardBaselineDocument = LeaderboardBaseline & Document;
+
+/**
+ * 基线对象类型
+ */
+export enum BaselineKind {
+  PET = 'pet',
+  USER = 'user',
+}
+
+/**
+ * 排行榜周期基线
+ * 每个周期内首次计算排行榜时记录宠物和用户的累计数值，周期榜的得分为当前数值减去基线。
+ * 周期结束后由 TTL 索引自动删除
+ */
+@Schema({ timestamps: true })
+export class LeaderboardBaseline {
+  /** 周期标识，见 periodWindow */
+  @Prop({ required: true })
+  periodKey: string;
+
+  @Prop({ required: true, enum: BaselineKind })
+  kind: BaselineKind;
+
+  /** 宠物ID或用户ID */
+  @Prop({ required: true })
+  subjectId: string;
+
+  @Prop({ default: 0 })
+  experience: number;
+
+  @Prop({ default: 0 })
+  battlesWon: number;
+
+  @Prop({ default: 0 })
+  battlesLost: number;
+
+  @Prop({ default: 0 })
+  coins: number;
+
+  /** 过期时间，周期结束后一天 */
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const LeaderboardBaselineSchema = SchemaFactory.createForClass(LeaderboardBaseline);
+
+LeaderboardBaselineSchema.index({ periodKey: 1, kind: 1, subjectId: 1 }, { unique: true });
+LeaderboardBaselineSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
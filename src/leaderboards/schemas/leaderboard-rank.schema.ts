@@ -0,0 +1,62 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { LeaderboardBoard, LeaderboardPeriod } from './leaderboard-snapshot.schema';
+
+export type LeaderboardRankDocument = LeaderboardRank & Document;
+
+/**
+ * 排行榜名次
+ * 与快照同时计算，记录每个参与排名的对象的名次（不限于前 game.leaderboards.size 名），
+ * 用于查询用户自己的名次。每个榜单、周期、物种和对象只保留最新一次计算的结果
+ */
+@Schema({ timestamps: true })
+export class LeaderboardRank {
+  @Prop({ required: true, enum: LeaderboardBoard })
+  board: LeaderboardBoard;
+
+  @Prop({ required: true, enum: LeaderboardPeriod })
+  period: LeaderboardPeriod;
+
+  /** 物种筛选，为空表示全部物种，玩家榜始终为空 */
+  @Prop({ type: String, default: null })
+  species: string | null;
+
+  /** 周期标识，见 periodWindow，总榜为 all */
+  @Prop({ required: true })
+  periodKey: string;
+
+  @Prop({ required: true })
+  computedAt: Date;
+
+  @Prop({ required: true })
+  rank: number;
+
+  /** 上榜对象ID，宠物榜为宠物ID，玩家榜为用户ID */
+  @Prop({ required: true })
+  subjectId: string;
+
+  /** 所属用户ID，玩家榜与 subjectId 相同 */
+  @Prop({ required: true })
+  userId: string;
+
+  /** 宠物名称或用户名 */
+  @Prop({ required: true })
+  name: string;
+
+  /** 宠物物种，玩家榜为空 */
+  @Prop()
+  petType?: string;
+
+  @Prop({ required: true })
+  score: number;
+
+  /** 得分的组成，如等级、经验、胜负场次 */
+  @Prop({ type: Object, default: {} })
+  details: Record<string, number>;
+}
+
+export const LeaderboardRankSchema = SchemaFactory.createForClass(LeaderboardRank);
+
+LeaderboardRankSchema.index({ board: 1, period: 1, species: 1, subjectId: 1 }, { unique: true });
+LeaderboardRankSchema.index({ board: 1, period: 1, species: 1, userId: 1 });
+LeaderboardRankSchema.index({ computedAt: 1 });
@@ -0,0 +1,98 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type LeaderboardSnapshotDocument = LeaderboardSnapshot & Document;
+
+/**
+ * 排行榜
+ * - pet_level: 宠物等级榜，按周期统计时按获得的经验排名
+ * - pet_win_rate: 宠物对战胜率榜，对战场次达到配置的最低场次才上榜
+ * - player_level: 玩家等级榜，按周期统计时按获得的经验排名
+ * - player_wealth: 玩家财富榜，按周期统计时按金币净增长排名
+ */
+export enum LeaderboardBoard {
+  PET_LEVEL = 'pet_level',
+  PET_WIN_RATE = 'pet_win_rate',
+  PLAYER_LEVEL = 'player_level',
+  PLAYER_WEALTH = 'player_wealth',
+}
+
+/**
+ * 排行榜统计周期
+ * - daily: 今天（按配置时区的零点重置）
+ * - weekly: 本周（周一零点重置）
+ * - all_time: 总榜
+ */
+export enum LeaderboardPeriod {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  ALL_TIME = 'all_time',
+}
+
+/**
+ * 排行榜中的一条记录
+ */
+@Schema({ _id: false })
+export class LeaderboardEntry {
+  @Prop({ required: true })
+  rank: number;
+
+  /** 上榜对象ID，宠物榜为宠物ID，玩家榜为用户ID */
+  @Prop({ required: true })
+  subjectId: string;
+
+  /** 所属用户ID，玩家榜与 subjectId 相同 */
+  @Prop({ required: true })
+  userId: string;
+
+  /** 宠物名称或用户名 */
+  @Prop({ required: true })
+  name: string;
+
+  /** 宠物物种，玩家榜为空 */
+  @Prop()
+  petType?: string;
+
+  @Prop({ required: true })
+  score: number;
+
+  /** 得分的组成，如等级、经验、胜负场次 */
+  @Prop({ type: Object, default: {} })
+  details: Record<string, number>;
+}
+
+/**
+ * 排行榜快照
+ * 由定时任务按配置的间隔重新计算，读取时直接分页返回，不再对宠物和用户集合排序。
+ * 每个榜单、周期和物种组合只保留一份最新快照，只记录前 game.leaderboards.size 名
+ */
+@Schema({ timestamps: true })
+export class LeaderboardSnapshot {
+  @Prop({ required: true, enum: LeaderboardBoard })
+  board: LeaderboardBoard;
+
+  @Prop({ required: true, enum: LeaderboardPeriod })
+  period: LeaderboardPeriod;
+
+  /** 物种筛选，为空表示全部物种，玩家榜始终为空 */
+  @Prop({ type: String, default: null })
+  species: string | null;
+
+  /** 周期标识，见 periodWindow，总榜为 all */
+  @Prop({ required: true })
+  periodKey: string;
+
+  @Prop({ required: true })
+  computedAt: Date;
+
+  /** 参与排名的对象总数，可能多于记录的名次 */
+  @Prop({ default: 0 })
+  participants: number;
+
+  @Prop({ type: [LeaderboardEntry], default: [] })
+  entries: LeaderboardEntry[];
+}
+
+export const LeaderboardSnapshotSchema = SchemaFactory.createForClass(LeaderboardSnapshot);
+
+LeaderboardSnapshotSchema.index({ board: 1, period: 1, species: 1 }, { unique: true });
@@ -5,6 +5,7 @@ import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
 import { LogsModule } from './logs/logs.module';
 import { LogsService } from './logs/logs.service';
 import { serverConfig } from './config';
+import { useContainer } from 'class-validator';
 
 /**
  * 应用程序启动函数
@@ -30,6 +31,9 @@ async function bootstrap() {
   // 全局验证管道 - 自动验证请求数据
   app.useGlobalPipes(new ValidationPipe(serverConfig.validation));
   
+  // 让 class-validator 的自定义约束（如 @IsSpecies）可以注入 Nest 服务
+  useContainer(app.select(AppModule), { fallbackOnErrors: true });
+  
   // 获取LogsService实例并创建日志拦截器
   const logsService = app.select(LogsModule).get(LogsService);
   app.useGlobalInterceptors(new LoggingInterceptor(logsService));
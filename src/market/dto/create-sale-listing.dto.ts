@@ -0,0 +1,12 @@
+import { IsString, IsNotEmpty, IsInt, Min, Max } from 'class-validator';
+
+export class CreateSaleListingDto {
+  @IsString()
+  @IsNotEmpty()
+  petId: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(1000000)
+  price: number;
+}
@@ -0,0 +1,13 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+export class CreateTradeOfferDto {
+  /** 自己拿出交易的宠物 */
+  @IsString()
+  @IsNotEmpty()
+  petId: string;
+
+  /** 希望换得的其他用户的宠物 */
+  @IsString()
+  @IsNotEmpty()
+  targetPetId: string;
+}
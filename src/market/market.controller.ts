@@ -0,0 +1,122 @@
+import { Controller, Get, Post, Body, Param, Query } from '@nestjs/common';
+import { MarketService } from './market.service';
+import { CreateSaleListingDto } from './dto/create-sale-listing.dto';
+import { CreateTradeOfferDto } from './dto/create-trade-offer.dto';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+
+/**
+ * 市场控制器
+ * 提供宠物出售、购买和一换一交易的RESTful API接口
+ * 
+ * 路径前缀: /market
+ * 
+ * 挂单期间宠物由市场托管，不能参与对战、交互和繁殖
+ */
+@Controller('market')
+export class MarketController {
+  constructor(private readonly marketService: MarketService) {}
+
+  /**
+   * 获取在售宠物
+   * GET /market/listings?page=1&limit=20
+   * 
+   * @param query 分页参数
+   * @returns 按挂单时间倒序排列的出售挂单
+   */
+  @Get('listings')
+  getListings(@Query() query: PaginationQueryDto) {
+    return this.marketService.getActiveListings(query.page, query.limit);
+  }
+
+  /**
+   * 获取我的挂单和发给我的交易
+   * GET /market/mine?page=1&limit=20
+   * 
+   * @param userId 当前认证用户ID
+   * @param query 分页参数
+   * @returns 按挂单时间倒序排列的挂单
+   */
+  @Get('mine')
+  getMine(@CurrentUser('id') userId: string, @Query() query: PaginationQueryDto) {
+    return this.marketService.getMyListings(userId, query.page, query.limit);
+  }
+
+  /**
+   * 挂单出售宠物
+   * POST /market/listings
+   * 
+   * @param userId 当前认证用户ID，必须是宠物主人
+   * @param dto 宠物和价格
+   * @returns 创建的挂单
+   */
+  @Post('listings')
+  createSale(@CurrentUser('id') userId: string, @Body() dto: CreateSaleListingDto) {
+    return this.marketService.createSale(userId, dto);
+  }
+
+  /**
+   * 提出一换一交易
+   * POST /market/trades
+   * 
+   * @param userId 当前认证用户ID，必须是 petId 的主人
+   * @param dto 自己的宠物和希望换得的宠物
+   * @returns 创建的交易挂单
+   */
+  @Post('trades')
+  proposeTrade(@CurrentUser('id') userId: string, @Body() dto: CreateTradeOfferDto) {
+    return this.marketService.proposeTrade(userId, dto);
+  }
+
+  /**
+   * 购买宠物
+   * POST /market/listings/:id/buy
+   * 
+   * @param userId 当前认证用户ID，作为买家
+   * @param id 挂单ID
+   * @returns 已成交的挂单
+   */
+  @Post('listings/:id/buy')
+  buy(@CurrentUser('id') userId: string, @Param('id') id: string) {
+    return this.marketService.buy(userId, id);
+  }
+
+  /**
+   * 接受交易
+   * POST /market/listings/:id/accept
+   * 
+   * @param userId 当前认证用户ID，必须是交易对象
+   * @param id 挂单ID
+   * @returns 已成交的挂单
+   */
+  @Post('listings/:id/accept')
+  accept(@CurrentUser('id') userId: string, @Param('id') id: string) {
+    return this.marketService.acceptTrade(userId, id);
+  }
+
+  /**
+   * 拒绝交易
+   * POST /market/listings/:id/decline
+   * 
+   * @param userId 当前认证用户ID，必须是交易对象
+   * @param id 挂单ID
+   * @returns 已拒绝的挂单
+   */
+  @Post('listings/:id/decline')
+  decline(@CurrentUser('id') userId: string, @Param('id') id: string) {
+    return this.marketService.decline(userId, id);
+  }
+
+  /**
+   * 撤销挂单
+   * POST /market/listings/:id/cancel
+   * 
+   * @param userId 当前认证用户ID，必须是挂单发起方
+   * @param id 挂单ID
+   * @returns 已撤销的挂单
+   */
+  @Post('listings/:id/cancel')
+  cancel(@CurrentUser('id') userId: string, @Param('id') id: string) {
+    return this.marketService.cancel(userId, id);
+  }
+}
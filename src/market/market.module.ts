@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { MarketListing, MarketListingSchema } from './schemas/market-listing.schema';
+import { MarketService } from './market.service';
+import { MarketController } from './market.controller';
+import { PetsModule } from '../pets/pets.module';
+import { CoinsModule } from '../coins/coins.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: MarketListing.name, schema: MarketListingSchema }]),
+    PetsModule,
+    CoinsModule,
+  ],
+  providers: [MarketService],
+  controllers: [MarketController],
+  exports: [MarketService],
+})
+export class MarketModule {}
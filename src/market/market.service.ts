@@ -0,0 +1,370 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  ListingStatus,
+  ListingType,
+  MarketListing,
+  MarketListingDocument,
+} from './schemas/market-listing.schema';
+import { CreateSaleListingDto } from './dto/create-sale-listing.dto';
+import { CreateTradeOfferDto } from './dto/create-trade-offer.dto';
+import { PetsService } from '../pets/pets.service';
+import { PetAcquisition, PetDocument } from '../pets/schemas/pet.schema';
+import { CoinsService } from '../coins/coins.service';
+import { CoinReason } from '../coins/schemas/coin-transaction.schema';
+import { PaginatedResult } from '../common/dto/pagination-query.dto';
+
+/**
+ * 市场服务类
+ * 处理宠物出售挂单、一换一交易、托管和成交结算
+ */
+@Injectable()
+export class MarketService {
+  constructor(
+    @InjectModel(MarketListing.name) private listingModel: Model<MarketListingDocument>,
+    private readonly petsService: PetsService,
+    private readonly coinsService: CoinsService,
+  ) {}
+
+  /**
+   * 以金币价格挂单出售宠物
+   *
+   * @param userId 当前用户ID，必须是宠物主人
+   * @param dto 宠物和价格
+   * @returns 创建的挂单
+   * @throws BadRequestException 当宠物不是活跃状态或已被托管时
+   */
+  async createSale(userId: string, dto: CreateSaleListingDto): Promise<MarketListing> {
+    return this.createListing(userId, dto.petId, { type: ListingType.SALE, price: dto.price });
+  }
+
+  /**
+   * 向其他用户提出一换一交易
+   *
+   * @param userId 当前用户ID，必须是 petId 的主人
+   * @param dto 自己的宠物和希望换得的宠物
+   * @returns 创建的交易挂单，等待对方接受
+   * @throws NotFoundException 当希望换得的宠物不存在时
+   * @throws BadRequestException 当希望换得的宠物属于自己或无法交易时
+   */
+  async proposeTrade(userId: string, dto: CreateTradeOfferDto): Promise<MarketListing> {
+    const target = await this.findPet(dto.targetPetId);
+    if (target.userId === userId) {
+      throw new BadRequestException('Cannot trade with your own pet');
+    }
+    this.petsService.assertAvailable(target);
+
+    return this.createListing(userId, dto.petId, {
+      type: ListingType.TRADE,
+      targetPetId: dto.targetPetId,
+      targetUserId: target.userId,
+    });
+  }
+
+  /**
+   * 获取市场上在售的宠物
+   *
+   * @param page 页码，从1开始
+   * @param limit 每页条数
+   * @returns 按挂单时间倒序排列的出售挂单
+   */
+  async getActiveListings(page = 1, limit = 20): Promise<PaginatedResult<MarketListing>> {
+    return this.paginate({ type: ListingType.SALE, status: ListingStatus.ACTIVE }, page, limit);
+  }
+
+  /**
+   * 获取我发起的挂单和发给我的交易
+   *
+   * @param userId 当前用户ID
+   * @param page 页码，从1开始
+   * @param limit 每页条数
+   * @returns 按挂单时间倒序排列的挂单
+   */
+  async getMyListings(userId: string, page = 1, limit = 20): Promise<PaginatedResult<MarketListing>> {
+    return this.paginate({ $or: [{ sellerId: userId }, { targetUserId: userId }] }, page, limit);
+  }
+
+  /**
+   * 购买出售中的宠物
+   *
+   * 结算流程：
+   * - 原子地占用买家的一个宠物栏位，之后任一步骤失败时释放
+   * - 原子地将挂单标记为已成交，避免重复购买
+   * - 通过金币流水扣除买家金币，扣款失败时恢复挂单
+   * - 将托管中的宠物转移给买家，转移失败时退款并撤销挂单
+   * - 释放卖家的宠物栏位，通过金币流水向卖家支付成交价
+   *
+   * @param userId 当前用户ID，作为买家
+   * @param listingId 挂单ID
+   * @returns 已成交的挂单
+   * @throws NotFoundException 当挂单不存在时
+   * @throws BadRequestException 当购买自己的宠物、栏位已满或金币不足时
+   * @throws ConflictException 当挂单已成交或已撤销时
+   */
+  async buy(userId: string, listingId: string): Promise<MarketListing> {
+    const listing = await this.findListing(listingId, ListingType.SALE);
+    if (listing.sellerId === userId) {
+      throw new BadRequestException('Cannot buy your own pet');
+    }
+    await this.petsService.claimPetSlot(userId);
+
+    const now = new Date();
+    let claimed: MarketListingDocument;
+    try {
+      claimed = await this.close(listing, ListingStatus.COMPLETED, userId, now);
+    } catch (error) {
+      await this.petsService.releasePetSlot(userId);
+      throw error;
+    }
+
+    try {
+      await this.coinsService.debit(userId, listing.price, CoinReason.MARKET_PURCHASE, {
+        type: 'market_listing',
+        id: String(listing._id),
+        note: listing.pet.name,
+      });
+    } catch (error) {
+      await this.reopen(listing);
+      await this.petsService.releasePetSlot(userId);
+      throw error;
+    }
+
+    const pet = await this.petsService.transferOwnership(
+      listing.petId,
+      listing.sellerId,
+      {
+        userId,
+        via: PetAcquisition.PURCHASED,
+        acquiredAt: now,
+        listingId: String(listing._id),
+        price: listing.price,
+      },
+      String(listing._id),
+    );
+    if (!pet) {
+      await this.coinsService.credit(userId, listing.price, CoinReason.MARKET_REFUND, {
+        type: 'market_listing',
+        id: String(listing._id),
+        note: listing.pet.name,
+      });
+      await this.listingModel
+        .updateOne(
+          { _id: listing._id },
+          { $set: { status: ListingStatus.CANCELLED }, $unset: { buyerId: 1 } },
+        )
+        .exec();
+      await this.petsService.releaseEscrow(listing.petId, String(listing._id));
+      await this.petsService.releasePetSlot(userId);
+      throw new ConflictException('Pet is no longer available, your coins have been refunded');
+    }
+
+    await this.petsService.releasePetSlot(listing.sellerId);
+    await this.coinsService.credit(listing.sellerId, listing.price, CoinReason.MARKET_SALE, {
+      type: 'market_listing',
+      id: String(listing._id),
+      note: listing.pet.name,
+    });
+    return claimed;
+  }
+
+  /**
+   * 接受发给自己的一换一交易
+   *
+   * 结算流程：
+   * - 原子地将挂单标记为已成交
+   * - 先把自己的宠物转移给发起方，失败时恢复挂单
+   * - 再把托管中的宠物转移给自己，失败时把自己的宠物转回并撤销挂单
+   *
+   * @param userId 当前用户ID，必须是交易对象
+   * @param listingId 挂单ID
+   * @returns 已成交的挂单
+   * @throws NotFoundException 当交易不存在或不是发给当前用户时
+   * @throws BadRequestException 当自己的宠物已无法交易时
+   * @throws ConflictException 当交易已处理时
+   */
+  async acceptTrade(userId: string, listingId: string): Promise<MarketListing> {
+    const listing = await this.findListing(listingId, ListingType.TRADE);
+    if (listing.targetUserId !== userId) {
+      throw new NotFoundException('Trade not found');
+    }
+
+    const now = new Date();
+    const claimed = await this.close(listing, ListingStatus.COMPLETED, userId, now);
+    const id = String(listing._id);
+
+    const sent = await this.petsService.transferOwnership(listing.targetPetId, userId, {
+      userId: listing.sellerId,
+      via: PetAcquisition.TRADED,
+      acquiredAt: now,
+      listingId: id,
+    });
+    if (!sent) {
+      await this.reopen(listing);
+      throw new BadRequestException('Your pet is no longer available for this trade');
+    }
+
+    const received = await this.petsService.transferOwnership(
+      listing.petId,
+      listing.sellerId,
+      { userId, via: PetAcquisition.TRADED, acquiredAt: now, listingId: id },
+      id,
+    );
+    if (!received) {
+      await this.petsService.transferOwnership(listing.targetPetId, listing.sellerId, {
+        userId,
+        via: PetAcquisition.TRADED,
+        acquiredAt: now,
+        listingId: id,
+      });
+      await this.listingModel
+        .updateOne(
+          { _id: listing._id },
+          { $set: { status: ListingStatus.CANCELLED }, $unset: { buyerId: 1 } },
+        )
+        .exec();
+      await this.petsService.releaseEscrow(listing.petId, id);
+      throw new ConflictException(
+        'The offered pet is no longer available, the trade has been cancelled',
+      );
+    }
+
+    return claimed;
+  }
+
+  /**
+   * 拒绝发给自己的交易，解除对方宠物的托管
+   *
+   * @param userId 当前用户ID，必须是交易对象
+   * @param listingId 挂单ID
+   * @returns 已拒绝的挂单
+   */
+  async decline(userId: string, listingId: string): Promise<MarketListing> {
+    const listing = await this.findListing(listingId, ListingType.TRADE);
+    if (listing.targetUserId !== userId) {
+      throw new NotFoundException('Trade not found');
+    }
+    const declined = await this.close(listing, ListingStatus.DECLINED, undefined, new Date());
+    await this.petsService.releaseEscrow(listing.petId, String(listing._id));
+    return declined;
+  }
+
+  /**
+   * 撤销自己的挂单，解除宠物托管
+   *
+   * @param userId 当前用户ID，必须是挂单发起方
+   * @param listingId 挂单ID
+   * @returns 已撤销的挂单
+   */
+  async cancel(userId: string, listingId: string): Promise<MarketListing> {
+    const listing = await this.findListing(listingId);
+    if (listing.sellerId !== userId) {
+      throw new NotFoundException('Listing not found');
+    }
+    const cancelled = await this.close(listing, ListingStatus.CANCELLED, undefined, new Date());
+    await this.petsService.releaseEscrow(listing.petId, String(listing._id));
+    return cancelled;
+  }
+
+  /**
+   * 创建挂单并托管宠物，保存挂单失败时解除托管
+   */
+  private async createListing(
+    userId: string,
+    petId: string,
+    terms: Pick<MarketListing, 'type' | 'price' | 'targetPetId' | 'targetUserId'>,
+  ): Promise<MarketListing> {
+    const listingId = new Types.ObjectId();
+    const pet = await this.petsService.placeInEscrow(petId, userId, listingId.toString());
+
+    try {
+      return await new this.listingModel({
+        _id: listingId,
+        sellerId: userId,
+        petId,
+        pet: { name: pet.name, type: pet.type, level: pet.level, stage: pet.stage },
+        ...terms,
+      }).save();
+    } catch (error) {
+      await this.petsService.releaseEscrow(petId, listingId.toString());
+      throw error;
+    }
+  }
+
+  /**
+   * 原子地关闭进行中的挂单
+   *
+   * @throws ConflictException 当挂单已被处理时
+   */
+  private async close(
+    listing: MarketListingDocument,
+    status: ListingStatus,
+    buyerId: string | undefined,
+    now: Date,
+  ): Promise<MarketListingDocument> {
+    const closed = await this.listingModel
+      .findOneAndUpdate(
+        { _id: listing._id, status: ListingStatus.ACTIVE },
+        { $set: { status, closedAt: now, ...(buyerId ? { buyerId } : {}) } },
+        { new: true },
+      )
+      .exec();
+    if (!closed) {
+      throw new ConflictException('Listing is no longer active');
+    }
+    return closed;
+  }
+
+  /**
+   * 成交失败时恢复挂单
+   */
+  private async reopen(listing: MarketListingDocument): Promise<void> {
+    await this.listingModel
+      .updateOne(
+        { _id: listing._id },
+        { $set: { status: ListingStatus.ACTIVE }, $unset: { buyerId: 1, closedAt: 1 } },
+      )
+      .exec();
+  }
+
+  private async findListing(id: string, type?: ListingType): Promise<MarketListingDocument> {
+    const listing = await this.listingModel.findById(id).exec();
+    if (!listing || (type && listing.type !== type)) {
+      throw new NotFoundException('Listing not found');
+    }
+    if (listing.status !== ListingStatus.ACTIVE) {
+      throw new ConflictException(`Listing is already ${listing.status}`);
+    }
+    return listing;
+  }
+
+  private async findPet(id: string): Promise<PetDocument> {
+    const pet = await this.petsService.findById(id);
+    if (!pet) {
+      throw new NotFoundException('Pet not found');
+    }
+    return pet;
+  }
+
+  private async paginate(
+    filter: Record<string, unknown>,
+    page: number,
+    limit: number,
+  ): Promise<PaginatedResult<MarketListing>> {
+    const [items, total] = await Promise.all([
+      this.listingModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.listingModel.countDocuments(filter).exec(),
+    ]);
+    return { items, total, page, limit };
+  }
+}
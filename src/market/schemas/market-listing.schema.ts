@@ -0,0 +1,83 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type MarketListingDocument = MarketListing & Document;
+
+export enum ListingType {
+  /** 以金币价格出售 */
+  SALE = 'sale',
+  /** 向指定宠物的主人提出一换一交易 */
+  TRADE = 'trade',
+}
+
+export enum ListingStatus {
+  ACTIVE = 'active',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+  DECLINED = 'declined',
+}
+
+/**
+ * 挂单时的宠物信息快照，用于市场列表展示
+ */
+@Schema({ _id: false })
+export class ListedPetSummary {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ required: true })
+  type: string;
+
+  @Prop({ required: true })
+  level: number;
+
+  @Prop()
+  stage?: string;
+}
+
+/**
+ * 市场挂单
+ * 挂单期间宠物由市场托管，成交、撤单或被拒绝后解除托管
+ */
+@Schema({ timestamps: true })
+export class MarketListing {
+  @Prop({ required: true })
+  sellerId: string;
+
+  @Prop({ required: true })
+  petId: string;
+
+  @Prop({ type: ListedPetSummary, required: true })
+  pet: ListedPetSummary;
+
+  @Prop({ required: true, enum: ListingType })
+  type: ListingType;
+
+  /** 出售价格，仅出售挂单有 */
+  @Prop()
+  price?: number;
+
+  /** 交易中希望换得的宠物，仅交易挂单有 */
+  @Prop()
+  targetPetId?: string;
+
+  /** 交易对象，即 targetPetId 的主人 */
+  @Prop()
+  targetUserId?: string;
+
+  @Prop({ default: ListingStatus.ACTIVE, enum: ListingStatus })
+  status: ListingStatus;
+
+  /** 成交时的买家或交易对象 */
+  @Prop()
+  buyerId?: string;
+
+  @Prop()
+  closedAt?: Date;
+}
+
+export const MarketListingSchema = SchemaFactory.createForClass(MarketListing);
+
+MarketListingSchema.index({ status: 1, type: 1, createdAt: -1 });
+MarketListingSchema.index({ sellerId: 1, createdAt: -1 });
+MarketListingSchema.index({ targetUserId: 1, status: 1 });
@@ -1,17 +1,14 @@
-import { IsString, IsEnum, IsOptional, IsNotEmpty } from 'class-validator';
-import { PetType } from '../schemas/pet.schema';
+import { IsString, IsOptional, IsNotEmpty } from 'class-validator';
+import { IsSpecies } from '../../species/validators/is-species.validator';
 
 export class CreatePetDto {
   @IsString()
   @IsNotEmpty()
   name: string;
 
-  @IsEnum(PetType)
-  type: PetType;
-
   @IsString()
-  @IsNotEmpty()
-  userId: string;
+  @IsSpecies()
+  type: string;
 
   @IsOptional()
   @IsString()
@@ -0,0 +1,24 @@
+import { Type } from 'class-transformer';
+import { IsDate, IsIn, IsOptional } from 'class-validator';
+import { PET_HISTORY_BUCKETS, PetHistoryBucket } from '../pet-history.service';
+
+/**
+ * 宠物数值历史查询参数
+ * - from / to: 查询的时间范围，默认最近 7 天
+ * - bucket: 降采样的时间粒度，默认 1h
+ */
+export class PetHistoryQueryDto {
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  @IsOptional()
+  @IsIn(Object.keys(PET_HISTORY_BUCKETS))
+  bucket: PetHistoryBucket = '1h';
+}
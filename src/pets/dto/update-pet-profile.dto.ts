@@ -0,0 +1,16 @@
+import { IsOptional, IsString, IsNotEmpty } from 'class-validator';
+
+/**
+ * 宠物主人可修改的宠物资料字段
+ * 宠物数值只能通过交互行为或管理接口变更
+ */
+export class UpdatePetProfileDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  avatar?: string;
+}
@@ -1,5 +1,6 @@
 import { IsString, IsOptional, IsEnum, IsNumber, Min, Max, IsBoolean, IsDate } from 'class-validator';
-import { PetStatus, PetType } from '../schemas/pet.schema';
+import { PetStatus } from '../schemas/pet.schema';
+import { IsSpecies } from '../../species/validators/is-species.validator';
 
 export class UpdatePetDto {
   @IsOptional()
@@ -7,8 +8,9 @@ export class UpdatePetDto {
   name?: string;
 
   @IsOptional()
-  @IsEnum(PetType)
-  type?: PetType;
+  @IsString()
+  @IsSpecies()
+  type?: string;
 
   @IsOptional()
   @IsNumber()
@@ -0,0 +1,102 @@
+import { PetAcquisition, PetStatus } from '../schemas/pet.schema';
+
+/**
+ * 宠物相关的应用内事件名称
+ */
+export const PET_EVENTS = {
+  /** 用户获得新宠物（直接创建或孵化） */
+  CREATED: 'pet.created',
+  /** 主人与宠物完成一次交互 */
+  INTERACTED: 'pet.interacted',
+  /** 宠物等级提升 */
+  LEVELED_UP: 'pet.leveled_up',
+  /** 宠物状态发生变化（例如因时间衰减变为饥饿） */
+  STATUS_CHANGED: 'pet.status_changed',
+  /** 宠物完成进化 */
+  EVOLVED: 'pet.evolved',
+  /** 宠物因长期被忽视离家出走 */
+  RAN_AWAY: 'pet.ran_away',
+} as const;
+
+/**
+ * 会发出交互事件的宠物交互类型
+ */
+export type PetInteraction = 'feed' | 'play' | 'sleep' | 'heal';
+
+/**
+ * 获得新宠物事件
+ */
+export class PetCreatedEvent {
+  constructor(
+    public readonly petId: string,
+    public readonly userId: string,
+    public readonly type: string,
+    public readonly via: PetAcquisition,
+    public readonly at: Date,
+  ) {}
+}
+
+/**
+ * 宠物交互事件
+ */
+export class PetInteractedEvent {
+  constructor(
+    public readonly petId: string,
+    public readonly userId: string,
+    public readonly petType: string,
+    public readonly action: PetInteraction,
+    public readonly at: Date,
+  ) {}
+}
+
+/**
+ * 宠物升级事件
+ */
+export class PetLeveledUpEvent {
+  constructor(
+    public readonly petId: string,
+    public readonly userId: string,
+    public readonly from: number,
+    public readonly to: number,
+    public readonly at: Date,
+  ) {}
+}
+
+/**
+ * 宠物状态变化事件
+ */
+export class PetStatusChangedEvent {
+  constructor(
+    public readonly petId: string,
+    public readonly userId: string,
+    public readonly from: PetStatus,
+    public readonly to: PetStatus,
+    public readonly at: Date,
+  ) {}
+}
+
+/**
+ * 宠物进化事件
+ */
+export class PetEvolvedEvent {
+  constructor(
+    public readonly petId: string,
+    public readonly userId: string,
+    public readonly from: string | undefined,
+    public readonly to: string,
+    public readonly level: number,
+    public readonly at: Date,
+  ) {}
+}
+
+/**
+ * 宠物离家出走事件
+ */
+export class PetRanAwayEvent {
+  constructor(
+    public readonly petId: string,
+    public readonly userId: string,
+    public readonly reason: string,
+    public readonly at: Date,
+  ) {}
+}
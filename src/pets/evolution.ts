@@ -0,0 +1,60 @@
+import { EvolutionStage } from '../species/schemas/species.schema';
+
+/**
+ * 参与进化条件判断的宠物数值
+ */
+export interface EvolutionCandidate {
+  stage?: string;
+  level: number;
+  happiness: number;
+  battlesWon: number;
+}
+
+/**
+ * 宠物的进化进度
+ */
+export interface EvolutionProgress {
+  /** 当前阶段，物种没有进化链时为 null */
+  currentStage: EvolutionStage | null;
+  /** 下一阶段，已是最终形态或物种没有进化链时为 null */
+  nextStage: EvolutionStage | null;
+  /** 尚未满足的条件描述 */
+  unmetRequirements: string[];
+  canEvolve: boolean;
+}
+
+/**
+ * 计算宠物在进化链中的位置和下一阶段的条件满足情况
+ *
+ * 宠物的阶段不在进化链中时（例如物种后来才新增进化链）视为处于第一个阶段
+ *
+ * @param pet 宠物数值
+ * @param stages 物种进化链
+ * @returns 进化进度
+ */
+export function getEvolutionProgress(pet: EvolutionCandidate, stages: EvolutionStage[]): EvolutionProgress {
+  if (stages.length === 0) {
+    return { currentStage: null, nextStage: null, unmetRequirements: [], canEvolve: false };
+  }
+
+  const index = Math.max(0, stages.findIndex((stage) => stage.key === pet.stage));
+  const currentStage = stages[index];
+  const nextStage = stages[index + 1] ?? null;
+  if (!nextStage) {
+    return { currentStage, nextStage, unmetRequirements: [], canEvolve: false };
+  }
+
+  const { level, happiness, battlesWon } = nextStage.requirements;
+  const unmetRequirements: string[] = [];
+  if (pet.level < level) {
+    unmetRequirements.push(`level ${pet.level}/${level}`);
+  }
+  if (happiness !== undefined && happiness !== null && pet.happiness < happiness) {
+    unmetRequirements.push(`happiness ${pet.happiness}/${happiness}`);
+  }
+  if (battlesWon !== undefined && battlesWon !== null && pet.battlesWon < battlesWon) {
+    unmetRequirements.push(`battles won ${pet.battlesWon}/${battlesWon}`);
+  }
+
+  return { currentStage, nextStage, unmetRequirements, canEvolve: unmetRequirements.length === 0 };
+}
@@ -0,0 +1,24 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { PetCooldownAction } from '../pet-limits';
+
+/**
+ * 宠物交互仍在冷却中
+ *
+ * 返回 429 状态码，响应体中包含下一次可用时间和需要等待的秒数
+ */
+export class PetActionCooldownException extends HttpException {
+  constructor(action: PetCooldownAction, availableAt: Date, now: Date = new Date()) {
+    const retryAfterSeconds = Math.max(1, Math.ceil((availableAt.getTime() - now.getTime()) / 1000));
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        error: 'Too Many Requests',
+        message: `Pet cannot ${action} again for ${retryAfterSeconds} seconds`,
+        action,
+        availableAt: availableAt.toISOString(),
+        retryAfterSeconds,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
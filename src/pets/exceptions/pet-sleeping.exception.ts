@@ -0,0 +1,20 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * 宠物正在睡觉，不能进行该操作
+ *
+ * 返回 409 状态码，响应体中包含宠物醒来的时间，可以等待宠物醒来或先把宠物叫醒
+ */
+export class PetSleepingException extends HttpException {
+  constructor(name: string, sleepingUntil: Date) {
+    super(
+      {
+        statusCode: HttpStatus.CONFLICT,
+        error: 'Conflict',
+        message: `Pet ${name} is asleep until ${sleepingUntil.toISOString()}`,
+        sleepingUntil: sleepingUntil.toISOString(),
+      },
+      HttpStatus.CONFLICT,
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PetsService } from '../pets.service';
+import { AuthenticatedRequest } from '../../auth/interfaces/auth-user.interface';
+
+/**
+ * 宠物所有权守卫
+ *
+ * 用于 /pets/:id/* 路由，只允许宠物的主人对其进行操作：
+ * - 宠物不存在：404
+ * - 宠物不属于当前用户：403
+ */
+@Injectable()
+export class PetOwnerGuard implements CanActivate {
+  constructor(private readonly petsService: PetsService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const pet = await this.petsService.findById(request.params.id);
+    if (!pet) {
+      throw new NotFoundException('Pet not found');
+    }
+
+    if (pet.userId !== request.user?.id) {
+      throw new ForbiddenException('You do not own this pet');
+    }
+    return true;
+  }
+}
@@ -0,0 +1,174 @@
+import { PetStatBonuses, PetTrait } from './schemas/pet.schema';
+import { ItemEffects } from '../items/schemas/item.schema';
+import { SpeciesDecayRates } from '../species/schemas/species.schema';
+import { GameRules } from '../rules/game-rules';
+import { RandomGenerator, chance, randomInt } from '../common/utils/random';
+
+/** 受性格影响的交互 */
+export type TraitAction = 'feed' | 'play' | 'sleep' | 'heal';
+
+/**
+ * 性格对宠物的影响，均为倍率，1 表示不影响
+ */
+export interface TraitModifiers {
+  /** 交互带来的正向效果（不含经验）的倍率，消耗不受影响 */
+  actions: Record<TraitAction, number>;
+  /** 每小时衰减量的倍率，health 作用于饥饿度归零后的健康度衰减 */
+  decay: Record<keyof SpeciesDecayRates | 'health', number>;
+  /** 战斗属性的倍率 */
+  battle: Record<keyof PetStatBonuses, number>;
+}
+
+/**
+ * 性格定义
+ */
+export interface TraitDefinition {
+  name: string;
+  description: string;
+  modifiers: {
+    actions?: Partial<TraitModifiers['actions']>;
+    decay?: Partial<TraitModifiers['decay']>;
+    battle?: Partial<TraitModifiers['battle']>;
+  };
+}
+
+/** 生成第二个性格的概率 */
+export const SECOND_TRAIT_CHANCE = 0.3;
+
+/**
+ * 性格目录
+ */
+export const PET_TRAITS: Record<PetTrait, TraitDefinition> = {
+  [PetTrait.GLUTTON]: {
+    name: '贪吃',
+    description: '喂食效果更好，但饿得更快；体格更壮，动作稍慢',
+    modifiers: {
+      actions: { feed: 1.5 },
+      decay: { hunger: 1.3 },
+      battle: { maxHp: 1.1, speed: 0.95 },
+    },
+  },
+  [PetTrait.LAZY]: {
+    name: '懒惰',
+    description: '玩耍效果较差，睡觉恢复更多，能量消耗更慢；速度较慢但更耐打',
+    modifiers: {
+      actions: { play: 0.75, sleep: 1.25 },
+      decay: { energy: 0.75 },
+      battle: { speed: 0.85, defense: 1.1 },
+    },
+  },
+  [PetTrait.PLAYFUL]: {
+    name: '爱玩',
+    description: '玩耍效果更好，但快乐度和能量下降更快；速度和攻击更高',
+    modifiers: {
+      actions: { play: 1.5 },
+      decay: { happiness: 1.25, energy: 1.1 },
+      battle: { speed: 1.1, attack: 1.05 },
+    },
+  },
+  [PetTrait.SICKLY]: {
+    name: '体弱',
+    description: '挨饿时健康度下降更快，对药品更敏感；生命上限较低',
+    modifiers: {
+      actions: { heal: 1.3 },
+      decay: { health: 1.5 },
+      battle: { maxHp: 0.85, defense: 0.95 },
+    },
+  },
+};
+
+const ALL_TRAITS = Object.values(PetTrait);
+
+/**
+ * 随机生成宠物性格：必定有一个性格，有 SECOND_TRAIT_CHANCE 的概率再获得一个不同的性格
+ *
+ * @param random 随机数生成器，以宠物ID为种子时同一只宠物的结果总是相同
+ * @returns 性格列表
+ */
+export function rollTraits(random: RandomGenerator): PetTrait[] {
+  const first = ALL_TRAITS[randomInt(random, 0, ALL_TRAITS.length - 1)];
+  if (!chance(random, SECOND_TRAIT_CHANCE)) {
+    return [first];
+  }
+  const rest = ALL_TRAITS.filter((trait) => trait !== first);
+  return [first, rest[randomInt(random, 0, rest.length - 1)]];
+}
+
+/**
+ * 合并多个性格的影响，同一项的倍率相乘
+ *
+ * @param traits 宠物性格
+ * @returns 合并后的倍率，没有性格时全部为 1
+ */
+export function combineTraitModifiers(traits: PetTrait[]): TraitModifiers {
+  const combined: TraitModifiers = {
+    actions: { feed: 1, play: 1, sleep: 1, heal: 1 },
+    decay: { hunger: 1, happiness: 1, energy: 1, health: 1 },
+    battle: { maxHp: 1, attack: 1, defense: 1, speed: 1 },
+  };
+
+  for (const trait of traits) {
+    const { modifiers } = PET_TRAITS[trait];
+    for (const group of ['actions', 'decay', 'battle'] as const) {
+      const target: Record<string, number> = combined[group];
+      for (const [key, value] of Object.entries(modifiers[group] ?? {})) {
+        target[key] = Math.round(target[key] * value * 1000) / 1000;
+      }
+    }
+  }
+  return combined;
+}
+
+/**
+ * 按性格调整交互效果，只放大或缩小正向的数值变化，经验和消耗保持不变
+ *
+ * @param effects 交互的合并效果
+ * @param modifiers 性格倍率
+ * @param action 交互类型
+ * @returns 调整后的效果
+ */
+export function applyTraitEffects(
+  effects: ItemEffects,
+  modifiers: TraitModifiers,
+  action: TraitAction,
+): ItemEffects {
+  const multiplier = modifiers.actions[action];
+  const adjusted: ItemEffects = { ...effects };
+  for (const field of ['health', 'hunger', 'happiness', 'energy'] as const) {
+    const value = effects[field];
+    if (value && value > 0) {
+      adjusted[field] = Math.round(value * multiplier);
+    }
+  }
+  return adjusted;
+}
+
+/**
+ * 按性格调整衰减速度和挨饿时的健康度衰减
+ *
+ * @param decayRates 物种每小时衰减量
+ * @param rules 游戏规则
+ * @param modifiers 性格倍率
+ * @returns 调整后的衰减量和规则
+ */
+export function applyTraitDecay<R extends Pick<GameRules, 'neglect'>>(
+  decayRates: SpeciesDecayRates,
+  rules: R,
+  modifiers: TraitModifiers,
+): { decayRates: SpeciesDecayRates; rules: R } {
+  const { decay } = modifiers;
+  return {
+    decayRates: {
+      hunger: decayRates.hunger * decay.hunger,
+      happiness: decayRates.happiness * decay.happiness,
+      energy: decayRates.energy * decay.energy,
+    },
+    rules: {
+      ...rules,
+      neglect: {
+        ...rules.neglect,
+        starvingHealthDecayPerHour: rules.neglect.starvingHealthDecayPerHour * decay.health,
+      },
+    },
+  };
+}
@@ -0,0 +1,180 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Pet } from './schemas/pet.schema';
+import {
+  PetStatSnapshot,
+  PetStatSnapshotDocument,
+  PetStatSource,
+} from './schemas/pet-stat-snapshot.schema';
+
+/**
+ * 历史曲线支持的降采样粒度（毫秒）
+ */
+export const PET_HISTORY_BUCKETS = {
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+} as const;
+
+export type PetHistoryBucket = keyof typeof PET_HISTORY_BUCKETS;
+
+/** 未指定起始时间时默认查询的天数 */
+const DEFAULT_HISTORY_DAYS = 7;
+
+/** 单次查询最多返回的数据点数量 */
+const MAX_HISTORY_POINTS = 1000;
+
+/**
+ * 时间衰减快照的合并粒度
+ * 同一时间段内多次读取宠物产生的衰减结算只保留最后一次，避免频繁读取撑大历史数据
+ */
+const DECAY_SNAPSHOT_SLOT_MS = PET_HISTORY_BUCKETS['15m'];
+
+/**
+ * 降采样后的一个数据点
+ * 数值为时间段内所有快照的平均值，经验值和等级取时间段内的最后一次
+ */
+export interface PetHistoryPoint {
+  at: Date;
+  health: number;
+  hunger: number;
+  happiness: number;
+  energy: number;
+  experience: number;
+  level: number;
+  samples: number;
+}
+
+/**
+ * 宠物数值历史
+ */
+export interface PetHistory {
+  petId: string;
+  from: Date;
+  to: Date;
+  bucket: PetHistoryBucket;
+  points: PetHistoryPoint[];
+}
+
+/**
+ * 宠物数值历史服务
+ * 记录宠物数值快照，并按时间段降采样为前端绘制的曲线
+ */
+@Injectable()
+export class PetHistoryService {
+  constructor(
+    @InjectModel(PetStatSnapshot.name) private snapshotModel: Model<PetStatSnapshotDocument>,
+  ) {}
+
+  /**
+   * 记录一次宠物数值快照
+   *
+   * 交互和战斗每次都单独记录；时间衰减按 15 分钟合并为一条，记录时间为所在时间段的起点
+   *
+   * @param petId 宠物ID
+   * @param pet 变化后的宠物数值
+   * @param source 快照来源
+   * @param at 数值对应的时间
+   * @param rulesVersion 计算数值时使用的游戏规则版本
+   */
+  async record(
+    petId: string,
+    pet: Pick<Pet, 'health' | 'hunger' | 'happiness' | 'energy' | 'experience' | 'level'>,
+    source: PetStatSource,
+    at: Date,
+    rulesVersion: number,
+  ): Promise<void> {
+    const stats = {
+      health: pet.health,
+      hunger: pet.hunger,
+      happiness: pet.happiness,
+      energy: pet.energy,
+      experience: pet.experience,
+      level: pet.level,
+      rulesVersion,
+    };
+
+    if (source === PetStatSource.DECAY) {
+      const slot = new Date(at.getTime() - (at.getTime() % DECAY_SNAPSHOT_SLOT_MS));
+      await this.snapshotModel
+        .updateOne({ petId, source, at: slot }, { $set: stats }, { upsert: true })
+        .exec();
+      return;
+    }
+
+    await this.snapshotModel.create({ petId, source, at, ...stats });
+  }
+
+  /**
+   * 获取宠物在时间范围内降采样后的数值曲线
+   *
+   * 时间段按 UTC 对齐，没有快照的时间段不返回数据点
+   *
+   * @param petId 宠物ID
+   * @param from 起始时间（包含），默认为 to 之前 7 天
+   * @param to 结束时间（不包含），默认为当前时间
+   * @param bucket 降采样粒度
+   * @returns 按时间升序排列的数据点
+   * @throws BadRequestException 当时间范围无效或数据点数量超过上限时
+   */
+  async getHistory(
+    petId: string,
+    from: Date | undefined,
+    to: Date | undefined,
+    bucket: PetHistoryBucket,
+  ): Promise<PetHistory> {
+    const end = to ?? new Date();
+    const start = from ?? new Date(end.getTime() - DEFAULT_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+    if (start >= end) {
+      throw new BadRequestException('"from" must be earlier than "to"');
+    }
+
+    const bucketMs = PET_HISTORY_BUCKETS[bucket];
+    if ((end.getTime() - start.getTime()) / bucketMs > MAX_HISTORY_POINTS) {
+      throw new BadRequestException(
+        `Time range is too large for bucket ${bucket}, at most ${MAX_HISTORY_POINTS} points are returned`,
+      );
+    }
+
+    const atMs = { $toLong: '$at' };
+    const rows = await this.snapshotModel
+      .aggregate<Omit<PetHistoryPoint, 'at'> & { _id: number }>([
+        { $match: { petId, at: { $gte: start, $lt: end } } },
+        { $sort: { at: 1 } },
+        {
+          $group: {
+            _id: { $subtract: [atMs, { $mod: [atMs, bucketMs] }] },
+            health: { $avg: '$health' },
+            hunger: { $avg: '$hunger' },
+            happiness: { $avg: '$happiness' },
+            energy: { $avg: '$energy' },
+            experience: { $last: '$experience' },
+            level: { $last: '$level' },
+            samples: { $sum: 1 },
+          },
+        },
+        { $sort: { _id: 1 } },
+      ])
+      .exec();
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    return {
+      petId,
+      from: start,
+      to: end,
+      bucket,
+      points: rows.map((row) => ({
+        at: new Date(row._id),
+        health: round(row.health),
+        hunger: round(row.hunger),
+        happiness: round(row.happiness),
+        energy: round(row.energy),
+        experience: row.experience,
+        level: row.level,
+        samples: row.samples,
+      })),
+    };
+  }
+}
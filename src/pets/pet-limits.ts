@@ -0,0 +1,67 @@
+/**
+ * 有冷却时间的宠物交互
+ */
+export type PetCooldownAction = 'feed' | 'play' | 'sleep' | 'breed';
+
+/**
+ * 记录各交互上次发生时间的宠物字段
+ */
+export const PET_COOLDOWN_FIELDS: Record<
+  PetCooldownAction,
+  'lastFed' | 'lastPlayed' | 'lastSlept' | 'lastBredAt'
+> = {
+  feed: 'lastFed',
+  play: 'lastPlayed',
+  sleep: 'lastSlept',
+  breed: 'lastBredAt',
+};
+
+/**
+ * 单个交互的冷却状态
+ */
+export interface PetCooldownState {
+  availableAt: Date;
+  remainingSeconds: number;
+}
+
+/**
+ * 计算交互下一次可用的时间
+ *
+ * @param lastActionAt 上次交互时间，从未交互过时为空
+ * @param cooldownMinutes 交互的冷却时间（分钟），取自游戏规则
+ * @returns 下一次可用的时间，从未交互过时为 null
+ */
+export function cooldownAvailableAt(lastActionAt: Date | undefined, cooldownMinutes: number): Date | null {
+  if (!lastActionAt) {
+    return null;
+  }
+  return new Date(lastActionAt.getTime() + cooldownMinutes * 60 * 1000);
+}
+
+/**
+ * 计算交互在指定时间点的冷却状态
+ *
+ * @param lastActionAt 上次交互时间
+ * @param cooldownMinutes 交互的冷却时间（分钟），取自游戏规则
+ * @param now 当前时间
+ * @returns 冷却状态，剩余秒数为0表示可以立即交互
+ */
+export function getCooldownState(
+  lastActionAt: Date | undefined,
+  cooldownMinutes: number,
+  now: Date,
+): PetCooldownState {
+  const availableAt = cooldownAvailableAt(lastActionAt, cooldownMinutes) ?? now;
+  const remainingSeconds = Math.max(0, Math.ceil((availableAt.getTime() - now.getTime()) / 1000));
+  return { availableAt: remainingSeconds > 0 ? availableAt : now, remainingSeconds };
+}
+
+/**
+ * 每日经验上限按 UTC 自然日统计，返回日期标识（YYYY-MM-DD）
+ *
+ * @param date 时间点
+ * @returns 日期标识
+ */
+export function experienceDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
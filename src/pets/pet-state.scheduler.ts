@@ -0,0 +1,58 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { PetsService } from './pets.service';
+import { gameConfig } from '../config';
+
+const SWEEP_INTERVAL_NAME = 'pet-state-sweep';
+
+/**
+ * 宠物状态定时结算
+ *
+ * 宠物数值在读取和交互时按经过的时间推算，本任务只负责结算长时间无人读取的宠物，
+ * 让状态变化（例如变为饥饿）能及时保存并发出事件。
+ * 是否启用、执行间隔和每批数量由配置文件 game.petStateSweep 控制
+ */
+@Injectable()
+export class PetStateScheduler implements OnApplicationBootstrap {
+  private readonly logger = new Logger(PetStateScheduler.name);
+  private running = false;
+
+  constructor(
+    private readonly petsService: PetsService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    const { enabled, intervalMinutes } = gameConfig.petStateSweep;
+    if (!enabled) {
+      return;
+    }
+
+    const interval = setInterval(() => void this.sweep(), intervalMinutes * 60 * 1000);
+    this.schedulerRegistry.addInterval(SWEEP_INTERVAL_NAME, interval);
+  }
+
+  /**
+   * 结算一批超过 staleAfterMinutes 未被计算的宠物
+   * 上一次结算尚未完成时跳过本次执行
+   */
+  async sweep(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const { staleAfterMinutes, batchSize } = gameConfig.petStateSweep;
+      const staleBefore = new Date(Date.now() - staleAfterMinutes * 60 * 1000);
+      const count = await this.petsService.sweepStaleStates(staleBefore, batchSize);
+      if (count > 0) {
+        this.logger.log(`Evaluated ${count} stale pets`);
+      }
+    } catch (error) {
+      this.logger.error('Pet state sweep failed', error instanceof Error ? error.stack : error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
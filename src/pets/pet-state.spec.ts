@@ -0,0 +1,164 @@
+import { PetStatus } from './schemas/pet.schema';
+import { evaluatePetState, evaluateSleepingState, PetStateSnapshot } from './pet-state';
+import { DEFAULT_GAME_RULES } from '../rules/default-rules';
+
+const HOUR = 60 * 60 * 1000;
+const rates = { hunger: 2, happiness: 1, energy: 1 };
+const evaluatedAt = new Date('2024-03-01T00:00:00Z');
+const after = (hours: number) => new Date(evaluatedAt.getTime() + hours * HOUR);
+
+const snapshot = (overrides: Partial<PetStateSnapshot> = {}): PetStateSnapshot => ({
+  health: 100,
+  hunger: 80,
+  happiness: 80,
+  energy: 80,
+  status: PetStatus.ACTIVE,
+  ...overrides,
+});
+
+describe('evaluatePetState', () => {
+  it('decays hunger, happiness and energy linearly with elapsed time', () => {
+    const state = evaluatePetState(snapshot(), rates, evaluatedAt, after(10), DEFAULT_GAME_RULES);
+
+    expect(state).toMatchObject({ health: 100, hunger: 60, happiness: 70, energy: 70 });
+    expect(state.status).toBe(PetStatus.ACTIVE);
+    expect(state.neglectedSince).toBeUndefined();
+    expect(state.ranAwayAt).toBeUndefined();
+  });
+
+  it('returns the same result when projected repeatedly from the same snapshot', () => {
+    const first = evaluatePetState(snapshot(), rates, evaluatedAt, after(7.5), DEFAULT_GAME_RULES);
+    const second = evaluatePetState(snapshot(), rates, evaluatedAt, after(7.5), DEFAULT_GAME_RULES);
+
+    expect(second).toEqual(first);
+  });
+
+  it('does not change the values when now is before the last evaluation', () => {
+    const state = evaluatePetState(snapshot(), rates, evaluatedAt, after(-1), DEFAULT_GAME_RULES);
+
+    expect(state).toMatchObject({ health: 100, hunger: 80, happiness: 80, energy: 80 });
+  });
+
+  it('keeps values at zero and drains health only once hunger is empty', () => {
+    const state = evaluatePetState(
+      snapshot({ hunger: 10 }),
+      rates,
+      evaluatedAt,
+      after(15),
+      DEFAULT_GAME_RULES,
+    );
+
+    expect(state.hunger).toBe(0);
+    expect(state.health).toBe(80);
+    expect(state.status).toBe(PetStatus.HUNGRY);
+  });
+
+  it('records the exact time the pet first dropped below a neglect threshold', () => {
+    const state = evaluatePetState(
+      snapshot({ hunger: 45 }),
+      rates,
+      evaluatedAt,
+      after(20),
+      DEFAULT_GAME_RULES,
+    );
+
+    expect(state.neglectedSince).toEqual(after(15));
+  });
+
+  it('turns critical after criticalAfterHours of neglect', () => {
+    const state = evaluatePetState(
+      snapshot({ hunger: 10 }),
+      rates,
+      evaluatedAt,
+      after(30),
+      DEFAULT_GAME_RULES,
+    );
+
+    expect(state.neglectedSince).toEqual(evaluatedAt);
+    expect(state.status).toBe(PetStatus.CRITICAL);
+    expect(state.ranAwayAt).toBeUndefined();
+  });
+
+  it('runs away once critical for runawayAfterHours, at the computed time', () => {
+    const state = evaluatePetState(
+      snapshot({ hunger: 10 }),
+      rates,
+      evaluatedAt,
+      after(80),
+      DEFAULT_GAME_RULES,
+    );
+
+    expect(state.ranAwayAt).toEqual(after(72));
+  });
+
+  it('clears neglect when the values are above every threshold', () => {
+    const state = evaluatePetState(
+      snapshot({ neglectedSince: after(-5) }),
+      rates,
+      evaluatedAt,
+      after(1),
+      DEFAULT_GAME_RULES,
+    );
+
+    expect(state.neglectedSince).toBeUndefined();
+  });
+});
+
+describe('evaluateSleepingState', () => {
+  const sleep = { until: after(2), energyPerHour: 30 };
+
+  it('regenerates energy and keeps the pet sleeping before it wakes up', () => {
+    const state = evaluateSleepingState(
+      snapshot({ energy: 40 }),
+      rates,
+      sleep,
+      evaluatedAt,
+      after(1),
+      DEFAULT_GAME_RULES,
+    );
+
+    expect(state).toMatchObject({ energy: 70, hunger: 78, status: PetStatus.SLEEPING });
+    expect(state.wokeAt).toBeUndefined();
+  });
+
+  it('wakes up at the end of the schedule and decays normally afterwards', () => {
+    const state = evaluateSleepingState(
+      snapshot({ energy: 40 }),
+      rates,
+      sleep,
+      evaluatedAt,
+      after(3),
+      DEFAULT_GAME_RULES,
+    );
+
+    expect(state.wokeAt).toEqual(after(2));
+    expect(state).toMatchObject({ energy: 99, hunger: 74 });
+  });
+
+  it('wakes up early once energy is full', () => {
+    const state = evaluateSleepingState(
+      snapshot({ energy: 90 }),
+      rates,
+      sleep,
+      evaluatedAt,
+      after(1),
+      DEFAULT_GAME_RULES,
+    );
+
+    expect(state.wokeAt).toEqual(after(1 / 3));
+    expect(state.energy).toBeCloseTo(99.33, 2);
+  });
+
+  it('keeps a long-neglected pet critical while asleep', () => {
+    const state = evaluateSleepingState(
+      snapshot({ hunger: 0, health: 50, neglectedSince: after(-30) }),
+      rates,
+      sleep,
+      evaluatedAt,
+      after(1),
+      DEFAULT_GAME_RULES,
+    );
+
+    expect(state.status).toBe(PetStatus.CRITICAL);
+  });
+});
@@ -0,0 +1,268 @@
+import { PetStatus } from './schemas/pet.schema';
+import { SpeciesDecayRates } from '../species/schemas/species.schema';
+import { GameRules, NeglectRules, StatusThresholds } from '../rules/game-rules';
+
+/**
+ * 参与时间衰减计算的宠物数值快照
+ */
+export interface PetStateSnapshot {
+  health: number;
+  hunger: number;
+  happiness: number;
+  energy: number;
+  status: PetStatus;
+  neglectedSince?: Date;
+}
+
+/**
+ * 推算后的宠物状态
+ */
+export interface EvaluatedPetState extends PetStateSnapshot {
+  /** 推算期间宠物离家出走的时间，没有离家出走时为空 */
+  ranAwayAt?: Date;
+  /** 推算期间宠物醒来的时间，仍在睡觉或本来就醒着时为空 */
+  wokeAt?: Date;
+}
+
+/**
+ * 宠物的睡眠安排
+ */
+export interface SleepSchedule {
+  /** 最晚醒来的时间 */
+  until: Date;
+  /** 睡眠期间每小时恢复的能量 */
+  energyPerHour: number;
+}
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+/**
+ * 计算宠物状态
+ *
+ * 根据宠物各项数值自动判断当前状态，阈值取自游戏规则（默认值）：
+ * - 健康度 < sickBelowHealth (30)：生病状态
+ * - 能量 < sleepingBelowEnergy (20)：睡觉状态
+ * - 饥饿度 < hungryBelowHunger (30)：饥饿状态
+ * - 快乐度 > 80 && 健康度 > 80 && 能量 > 60 (happyAbove)：快乐状态
+ * - 其他情况：活跃状态
+ *
+ * @param hunger 饥饿度 (0-100)
+ * @param health 健康度 (0-100)
+ * @param energy 能量值 (0-100)
+ * @param happiness 快乐度 (0-100)
+ * @param thresholds 状态阈值
+ * @returns 计算出的宠物状态
+ */
+export function calculatePetStatus(
+  hunger: number,
+  health: number,
+  energy: number,
+  happiness: number,
+  thresholds: StatusThresholds,
+): PetStatus {
+  const { happyAbove } = thresholds;
+  if (health < thresholds.sickBelowHealth) return PetStatus.SICK;
+  if (energy < thresholds.sleepingBelowEnergy) return PetStatus.SLEEPING;
+  if (hunger < thresholds.hungryBelowHunger) return PetStatus.HUNGRY;
+  if (happiness > happyAbove.happiness && health > happyAbove.health && energy > happyAbove.energy) {
+    return PetStatus.HAPPY;
+  }
+  return PetStatus.ACTIVE;
+}
+
+/**
+ * 判断宠物当前数值是否处于被忽视状态
+ *
+ * @param vitals 宠物数值
+ * @param neglect 忽视规则
+ * @returns 任一数值低于忽视阈值时为 true
+ */
+export function isNeglected(
+  vitals: Pick<PetStateSnapshot, 'hunger' | 'health' | 'happiness'>,
+  neglect: NeglectRules,
+): boolean {
+  const { thresholds } = neglect;
+  return (
+    vitals.hunger < thresholds.hunger ||
+    vitals.health < thresholds.health ||
+    vitals.happiness < thresholds.happiness
+  );
+}
+
+/**
+ * 根据数值和忽视起始时间确定最终状态
+ *
+ * 交互后数值恢复到阈值以上时清空忽视起始时间；仍被忽视时保留原起始时间，
+ * 持续时间超过 criticalAfterHours 的宠物保持病危状态
+ *
+ * @param vitals 宠物数值
+ * @param status 按数值计算出的状态
+ * @param neglectedSince 之前记录的忽视起始时间
+ * @param now 当前时间
+ * @param neglect 忽视规则
+ * @returns 最终状态和忽视起始时间
+ */
+export function applyNeglect(
+  vitals: Pick<PetStateSnapshot, 'hunger' | 'health' | 'happiness'>,
+  status: PetStatus,
+  neglectedSince: Date | undefined,
+  now: Date,
+  neglect: NeglectRules,
+): { status: PetStatus; neglectedSince?: Date } {
+  if (!isNeglected(vitals, neglect)) {
+    return { status, neglectedSince: undefined };
+  }
+
+  const since = neglectedSince ?? now;
+  const criticalAt = since.getTime() + neglect.criticalAfterHours * MS_PER_HOUR;
+  return { status: now.getTime() >= criticalAt ? PetStatus.CRITICAL : status, neglectedSince: since };
+}
+
+/**
+ * 根据上次计算后的数值快照和经过的时间推算当前状态
+ *
+ * 衰减规则：
+ * - 饥饿度、快乐度、能量按物种每小时衰减量线性下降，最低为0
+ * - 饥饿度降为0后健康度开始下降
+ * - 数值保留两位小数，频繁读取也不会因取整丢失衰减
+ * - 根据衰减后的数值重新计算状态，并按忽视规则推算病危和离家出走的时间点
+ *
+ * 衰减期间数值只降不升，因此数值首次低于忽视阈值的时间可以精确算出，
+ * 不依赖读取的频率
+ *
+ * 该函数只依赖输入，同一快照从同一时间点推算多次结果相同，不会重复扣减
+ *
+ * @param snapshot 上次计算后保存的数值
+ * @param decayRates 物种每小时衰减量
+ * @param evaluatedAt 上次计算的时间
+ * @param now 推算到的时间点
+ * @param rules 状态阈值和忽视规则
+ * @returns 推算后的数值和状态
+ */
+export function evaluatePetState(
+  snapshot: PetStateSnapshot,
+  decayRates: SpeciesDecayRates,
+  evaluatedAt: Date,
+  now: Date,
+  rules: Pick<GameRules, 'status' | 'neglect'>,
+): EvaluatedPetState {
+  const hours = Math.max(0, now.getTime() - evaluatedAt.getTime()) / MS_PER_HOUR;
+  const decay = (value: number, ratePerHour: number, elapsed = hours) =>
+    Math.max(0, Math.round((value - ratePerHour * elapsed) * 100) / 100);
+
+  const { thresholds, starvingHealthDecayPerHour } = rules.neglect;
+  const starvingAfter = hoursUntil(snapshot.hunger, 0, decayRates.hunger);
+  const starvingHours = Math.max(0, hours - starvingAfter);
+
+  const hunger = decay(snapshot.hunger, decayRates.hunger);
+  const happiness = decay(snapshot.happiness, decayRates.happiness);
+  const energy = decay(snapshot.energy, decayRates.energy);
+  const health = decay(snapshot.health, starvingHealthDecayPerHour, starvingHours);
+
+  let neglectedSince = snapshot.neglectedSince;
+  if (!neglectedSince) {
+    const neglectedAfter = Math.min(
+      hoursUntil(snapshot.hunger, thresholds.hunger, decayRates.hunger),
+      hoursUntil(snapshot.happiness, thresholds.happiness, decayRates.happiness),
+      starvingAfter + hoursUntil(snapshot.health, thresholds.health, starvingHealthDecayPerHour),
+    );
+    if (neglectedAfter <= hours) {
+      neglectedSince = new Date(evaluatedAt.getTime() + neglectedAfter * MS_PER_HOUR);
+    }
+  }
+
+  const neglect = applyNeglect(
+    { hunger, health, happiness },
+    calculatePetStatus(hunger, health, energy, happiness, rules.status),
+    neglectedSince,
+    now,
+    rules.neglect,
+  );
+
+  let ranAwayAt: Date | undefined;
+  if (neglect.neglectedSince) {
+    const runawayAt =
+      neglect.neglectedSince.getTime() +
+      (rules.neglect.criticalAfterHours + rules.neglect.runawayAfterHours) * MS_PER_HOUR;
+    if (now.getTime() >= runawayAt) {
+      ranAwayAt = new Date(runawayAt);
+    }
+  }
+
+  return {
+    health,
+    hunger,
+    happiness,
+    energy,
+    status: neglect.status,
+    neglectedSince: neglect.neglectedSince,
+    ranAwayAt,
+  };
+}
+
+/**
+ * 推算睡眠中的宠物的当前状态
+ *
+ * 睡眠规则：
+ * - 睡眠期间能量按 energyPerHour 每小时恢复，饥饿度、快乐度照常衰减，状态保持为睡觉（病危除外）
+ * - 到达睡眠结束时间或能量恢复到 100 时自动醒来，以先到者为准
+ * - 醒来之后的时间按普通衰减规则继续推算
+ *
+ * @param snapshot 上次计算后保存的数值
+ * @param decayRates 物种每小时衰减量
+ * @param sleep 睡眠安排
+ * @param evaluatedAt 上次计算的时间
+ * @param now 推算到的时间点
+ * @param rules 状态阈值和忽视规则
+ * @returns 推算后的数值和状态，醒来时包含醒来的时间
+ */
+export function evaluateSleepingState(
+  snapshot: PetStateSnapshot,
+  decayRates: SpeciesDecayRates,
+  sleep: SleepSchedule,
+  evaluatedAt: Date,
+  now: Date,
+  rules: Pick<GameRules, 'status' | 'neglect'>,
+): EvaluatedPetState {
+  const fullAfter = hoursUntil(100 - snapshot.energy, 0, sleep.energyPerHour);
+  const wakeAt = new Date(
+    Math.max(evaluatedAt.getTime(), Math.min(sleep.until.getTime(), evaluatedAt.getTime() + fullAfter * MS_PER_HOUR)),
+  );
+  const sleepingRates = { ...decayRates, energy: -sleep.energyPerHour };
+
+  if (now < wakeAt) {
+    const asleep = evaluatePetState(snapshot, sleepingRates, evaluatedAt, now, rules);
+    return {
+      ...asleep,
+      energy: Math.min(100, asleep.energy),
+      status: asleep.status === PetStatus.CRITICAL ? PetStatus.CRITICAL : PetStatus.SLEEPING,
+    };
+  }
+
+  const asleep = evaluatePetState(snapshot, sleepingRates, evaluatedAt, wakeAt, rules);
+  if (asleep.ranAwayAt) {
+    return asleep;
+  }
+  const awake = evaluatePetState(
+    { ...asleep, energy: Math.min(100, asleep.energy) },
+    decayRates,
+    wakeAt,
+    now,
+    rules,
+  );
+  return { ...awake, wokeAt: wakeAt };
+}
+
+/**
+ * 数值从 value 线性下降到低于 threshold 所需的小时数
+ * 已经低于阈值时为0，不会下降时为 Infinity
+ */
+function hoursUntil(value: number, threshold: number, ratePerHour: number): number {
+  if (value < threshold) {
+    return 0;
+  }
+  if (ratePerHour <= 0) {
+    return Infinity;
+  }
+  return (value - threshold) / ratePerHour;
+}
@@ -1,13 +1,23 @@
-import { Controller, Get, Post, Param, Body, Patch } from '@nestjs/common';
+import { Controller, Get, Post, Param, Body, Patch, Query, UseGuards } from '@nestjs/common';
 import { PetsService } from './pets.service';
 import { CreatePetDto } from './dto/create-pet.dto';
-import { UpdatePetDto } from './dto/update-pet.dto';
+import { UpdatePetProfileDto } from './dto/update-pet-profile.dto';
+import { PetHistoryQueryDto } from './dto/pet-history-query.dto';
+import { PetOwnerGuard } from './guards/pet-owner.guard';
+import { UseItemDto } from '../items/dto/use-item.dto';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
 
 /**
  * 宠物管理控制器
  * 提供宠物创建、管理、交互等RESTful API接口
  * 
  * 路径前缀: /pets
+ * 
+ * 访问控制：
+ * - 所有接口均需要登录
+ * - 修改宠物和 /pets/:id/* 交互接口只允许宠物主人操作
+ * - 任意修改宠物数值的运营功能见 /admin/pets
  */
 @Controller('pets')
 export class PetsController {
@@ -17,23 +27,48 @@ export class PetsController {
    * 创建新宠物
    * POST /pets
    * 
-   * @param createPetDto 宠物创建信息，包含名称、类型和所属用户ID
+   * @param userId 当前认证用户ID，作为宠物主人
+   * @param createPetDto 宠物创建信息，包含名称和类型
    * @returns 创建成功的宠物对象
    */
   @Post()
-  create(@Body() createPetDto: CreatePetDto) {
-    return this.petsService.create(createPetDto);
+  create(@CurrentUser('id') userId: string, @Body() createPetDto: CreatePetDto) {
+    return this.petsService.create(userId, createPetDto);
   }
 
   /**
-   * 获取所有宠物列表
-   * GET /pets
+   * 分页获取所有宠物
+   * GET /pets?page=1&limit=20
    * 
-   * @returns 所有宠物的数组
+   * @param query 分页参数
+   * @returns 宠物分页结果，数值推算到当前时间但不保存
    */
   @Get()
-  findAll() {
-    return this.petsService.findAll();
+  findAll(@Query() query: PaginationQueryDto) {
+    return this.petsService.findAll(query.page, query.limit);
+  }
+
+  /**
+   * 获取物种目录
+   * GET /pets/types
+   * 
+   * @returns 所有可用物种的完整定义，包含初始数值、衰减速度、喜爱的食物和成长曲线
+   */
+  @Get('types')
+  getTypes() {
+    return this.petsService.getPetTypes();
+  }
+
+  /**
+   * 获取我离家出走的宠物
+   * GET /pets/runaway
+   * 
+   * @param userId 当前认证用户ID
+   * @returns 离家出走的宠物，包含找回截止时间、费用和是否仍可找回
+   */
+  @Get('runaway')
+  findRunaway(@CurrentUser('id') userId: string) {
+    return this.petsService.findRunaway(userId);
   }
 
   /**
@@ -73,16 +108,33 @@ export class PetsController {
   }
 
   /**
-   * 更新宠物信息
+   * 获取宠物数值历史曲线
+   * GET /pets/:id/history?from=&to=&bucket=
+   * 
+   * 数值来自每次交互、战斗和时间衰减后记录的快照，按 bucket（15m、1h、6h、1d）降采样：
+   * 健康度、饥饿度、快乐度和能量取时间段内的平均值，经验值和等级取时间段内的最后一次
+   * 
+   * @param id 宠物ID
+   * @param query 时间范围（默认最近 7 天）和降采样粒度（默认 1h）
+   * @returns 按时间升序排列的数据点
+   */
+  @Get(':id/history')
+  getHistory(@Param('id') id: string, @Query() query: PetHistoryQueryDto) {
+    return this.petsService.getHistory(id, query);
+  }
+
+  /**
+   * 更新宠物资料
    * PATCH /pets/:id
    * 
    * @param id 要更新的宠物ID
-   * @param updatePetDto 更新的宠物信息字段
+   * @param updatePetProfileDto 可修改的资料字段（名称、头像）
    * @returns 更新后的宠物信息
    */
+  @UseGuards(PetOwnerGuard)
   @Patch(':id')
-  update(@Param('id') id: string, @Body() updatePetDto: UpdatePetDto) {
-    return this.petsService.update(id, updatePetDto);
+  update(@Param('id') id: string, @Body() updatePetProfileDto: UpdatePetProfileDto) {
+    return this.petsService.update(id, updatePetProfileDto);
   }
 
   /**
@@ -90,17 +142,18 @@ export class PetsController {
    * POST /pets/:id/feed
    * 
    * 喂食效果：
-   * - 饥饿度 +30 (最高100)
-   * - 快乐度 +10 (最高100)
-   * - 经验值 +10
+   * - 消耗一个食物道具并应用其效果
+   * - 经验值 +10，喂食物种喜爱的食物有额外加成
    * - 更新最后喂食时间
    * 
    * @param id 宠物ID
+   * @param useItemDto 使用的食物道具
    * @returns 喂食后的宠物状态
    */
+  @UseGuards(PetOwnerGuard)
   @Post(':id/feed')
-  feed(@Param('id') id: string) {
-    return this.petsService.feedPet(id);
+  feed(@Param('id') id: string, @Body() useItemDto: UseItemDto) {
+    return this.petsService.feedPet(id, useItemDto.itemKey);
   }
 
   /**
@@ -108,18 +161,20 @@ export class PetsController {
    * POST /pets/:id/play
    * 
    * 玩耍效果：
-   * - 快乐度 +25 (最高100)
+   * - 消耗一个玩具道具并应用其效果
    * - 能量 -20 (最低0)
    * - 饥饿度 -15 (最低0)
    * - 经验值 +15
    * - 更新最后玩耍时间
    * 
    * @param id 宠物ID
+   * @param useItemDto 使用的玩具道具
    * @returns 玩耍后的宠物状态
    */
+  @UseGuards(PetOwnerGuard)
   @Post(':id/play')
-  play(@Param('id') id: string) {
-    return this.petsService.playWithPet(id);
+  play(@Param('id') id: string, @Body() useItemDto: UseItemDto) {
+    return this.petsService.playWithPet(id, useItemDto.itemKey);
   }
 
   /**
@@ -127,42 +182,85 @@ export class PetsController {
    * POST /pets/:id/sleep
    * 
    * 睡觉效果：
-   * - 能量 +40 (最高100)
    * - 健康度 +10 (最高100)
+   * - 睡眠持续 2 小时，期间每小时恢复 30 点能量，能量恢复满时提前醒来
+   * - 睡觉期间不能玩耍、喂食、对战或探险
    * - 更新最后睡觉时间
    * 
    * @param id 宠物ID
-   * @returns 睡觉后的宠物状态
+   * @returns 睡觉后的宠物状态，sleepingUntil 为最晚醒来的时间
    */
+  @UseGuards(PetOwnerGuard)
   @Post(':id/sleep')
   sleep(@Param('id') id: string) {
     return this.petsService.sleepPet(id);
   }
 
+  /**
+   * 叫醒宠物
+   * POST /pets/:id/wake
+   * 
+   * 能量不高于 80 时提前叫醒会扣除 10 点快乐度
+   * 
+   * @param id 宠物ID
+   * @returns 醒来后的宠物状态
+   */
+  @UseGuards(PetOwnerGuard)
+  @Post(':id/wake')
+  wake(@Param('id') id: string) {
+    return this.petsService.wakePet(id);
+  }
+
   /**
    * 治疗宠物
    * POST /pets/:id/heal
    * 
    * 治疗效果：
-   * - 健康度 +30 (最高100)
+   * - 消耗一个药品道具并应用其效果
    * - 根据状态数值重新计算宠物状态
    * 
    * @param id 宠物ID
+   * @param useItemDto 使用的药品道具
    * @returns 治疗后的宠物状态
    */
+  @UseGuards(PetOwnerGuard)
   @Post(':id/heal')
-  heal(@Param('id') id: string) {
-    return this.petsService.healPet(id);
+  heal(@Param('id') id: string, @Body() useItemDto: UseItemDto) {
+    return this.petsService.healPet(id, useItemDto.itemKey);
   }
 
   /**
-   * 获取支持的宠物类型列表
-   * GET /pets/types
+   * 找回离家出走的宠物
+   * POST /pets/:id/recover
    * 
-   * @returns 所有可用的宠物类型数组
+   * 找回规则：
+   * - 离家出走后 7 天内可以找回，需要空闲的宠物栏位
+   * - 花费 100 金币，数值恢复到找回后的初始值
+   * 
+   * @param id 宠物ID
+   * @param userId 当前认证用户ID
+   * @returns 找回后的宠物对象
    */
-  @Get('types')
-  getTypes() {
-    return this.petsService.getPetTypes();
+  @UseGuards(PetOwnerGuard)
+  @Post(':id/recover')
+  recover(@Param('id') id: string, @CurrentUser('id') userId: string) {
+    return this.petsService.recover(id, userId);
+  }
+
+  /**
+   * 确认宠物进化
+   * POST /pets/:id/evolve
+   * 
+   * 进化效果：
+   * - 满足下一阶段的等级、快乐度、胜场等条件时进入下一进化阶段
+   * - 永久获得该阶段的战斗属性加成，并记录进化历史
+   * 
+   * @param id 宠物ID
+   * @returns 进化后的宠物对象
+   */
+  @UseGuards(PetOwnerGuard)
+  @Post(':id/evolve')
+  evolve(@Param('id') id: string) {
+    return this.petsService.evolve(id);
   }
 }
\ No newline at end of file
@@ -1,14 +1,32 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { Pet, PetSchema } from './schemas/pet.schema';
+import { PetStatSnapshot, PetStatSnapshotSchema } from './schemas/pet-stat-snapshot.schema';
 import { PetsService } from './pets.service';
+import { PetHistoryService } from './pet-history.service';
 import { PetsController } from './pets.controller';
+import { PetStateScheduler } from './pet-state.scheduler';
+import { SpeciesModule } from '../species/species.module';
+import { ItemsModule } from '../items/items.module';
+import { UsersModule } from '../users/users.module';
+import { CoinsModule } from '../coins/coins.module';
+import { RulesModule } from '../rules/rules.module';
+import { WorldEventsModule } from '../world-events/world-events.module';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: Pet.name, schema: PetSchema }]),
+    MongooseModule.forFeature([
+      { name: Pet.name, schema: PetSchema },
+      { name: PetStatSnapshot.name, schema: PetStatSnapshotSchema },
+    ]),
+    SpeciesModule,
+    ItemsModule,
+    UsersModule,
+    CoinsModule,
+    RulesModule,
+    WorldEventsModule,
   ],
-  providers: [PetsService],
+  providers: [PetsService, PetHistoryService, PetStateScheduler],
   controllers: [PetsController],
   exports: [PetsService],
 })
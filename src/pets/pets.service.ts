@@ -1,67 +1,582 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
-import { Pet, PetDocument, PetStatus, PetType } from './schemas/pet.schema';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Model, UpdateQuery } from 'mongoose';
+import {
+  OwnershipRecord,
+  Pet,
+  PetAcquisition,
+  PetDocument,
+  PetExpedition,
+  PetStatBonuses,
+  PetStatus,
+} from './schemas/pet.schema';
 import { CreatePetDto } from './dto/create-pet.dto';
 import { UpdatePetDto } from './dto/update-pet.dto';
+import { PetHistoryQueryDto } from './dto/pet-history-query.dto';
+import { SpeciesService } from '../species/species.service';
+import { Species, SpeciesDecayRates } from '../species/schemas/species.schema';
+import { growthCurveFor, levelForExperience } from '../rules/growth-curve';
+import { UsersService } from '../users/users.service';
+import { CoinsService } from '../coins/coins.service';
+import { CoinReason } from '../coins/schemas/coin-transaction.schema';
+import { ItemsService } from '../items/items.service';
+import { InventoryService } from '../items/inventory.service';
+import { EquipmentDecayReduction, EquipmentSlot, Item, ItemCategory } from '../items/schemas/item.schema';
+import { applyEffects, mergeEffects } from '../items/item-effects';
+import { applyEquipmentDecay, combineEquipment, composeAppearance, resolveEquipment } from '../items/equipment';
+import {
+  EvaluatedPetState,
+  applyNeglect,
+  calculatePetStatus,
+  evaluatePetState,
+  evaluateSleepingState,
+} from './pet-state';
+import {
+  PET_EVENTS,
+  PetCreatedEvent,
+  PetEvolvedEvent,
+  PetInteractedEvent,
+  PetInteraction,
+  PetLeveledUpEvent,
+  PetRanAwayEvent,
+  PetStatusChangedEvent,
+} from './events/pet.events';
+import { getEvolutionProgress } from './evolution';
+import {
+  PET_COOLDOWN_FIELDS,
+  PetCooldownAction,
+  PetCooldownState,
+  cooldownAvailableAt,
+  experienceDayKey,
+  getCooldownState,
+} from './pet-limits';
+import { PetActionCooldownException } from './exceptions/pet-action-cooldown.exception';
+import { PetSleepingException } from './exceptions/pet-sleeping.exception';
+import { PetHistory, PetHistoryService } from './pet-history.service';
+import { PetStatSource } from './schemas/pet-stat-snapshot.schema';
+import { RulesService } from '../rules/rules.service';
+import { ActiveGameRules, GameRules } from '../rules/game-rules';
+import { PetMoveSet, startingMoves } from '../skills/move-set';
+import { PET_TRAITS, applyTraitDecay, applyTraitEffects, combineTraitModifiers, rollTraits } from './personality';
+import { createRandom } from '../common/utils/random';
+import { PaginatedResult } from '../common/dto/pagination-query.dto';
+import { WorldEventsService } from '../world-events/world-events.service';
+import { applyWorldEventDecay, applyWorldEventEffects } from '../world-events/world-event-effects';
+
+/**
+ * 繁殖孵化出的后代宠物定义
+ */
+export interface PetOffspring {
+  name: string;
+  type: string;
+  parentIds: string[];
+  generation: number;
+  statBonuses: PetStatBonuses;
+}
+
+/**
+ * 家族树节点
+ */
+export interface PetFamilyNode {
+  id: string;
+  name: string;
+  type: string;
+  stage?: string;
+  generation: number;
+  parents: PetFamilyNode[];
+}
+
+/** 家族树向上追溯的最大代数 */
+const MAX_FAMILY_TREE_DEPTH = 5;
+
+/** 因长期被忽视离家出走的原因标识 */
+const RUNAWAY_REASON_NEGLECT = 'neglect';
+
+/**
+ * 离家出走的宠物及其找回信息
+ */
+export interface RunawayPet {
+  pet: Pet;
+  recoverableUntil: Date;
+  recoveryCost: number;
+  recoverable: boolean;
+}
 
 /**
  * 宠物服务类
  * 处理宠物创建、管理、交互、状态计算等核心业务逻辑
  */
 @Injectable()
-export class PetsService {
-  constructor(@InjectModel(Pet.name) private petModel: Model<PetDocument>) {}
+export class PetsService implements OnModuleInit {
+  private readonly logger = new Logger(PetsService.name);
+
+  constructor(
+    @InjectModel(Pet.name) private petModel: Model<PetDocument>,
+    private readonly speciesService: SpeciesService,
+    private readonly itemsService: ItemsService,
+    private readonly inventoryService: InventoryService,
+    private readonly usersService: UsersService,
+    private readonly coinsService: CoinsService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly petHistoryService: PetHistoryService,
+    private readonly rulesService: RulesService,
+    private readonly worldEventsService: WorldEventsService,
+  ) {}
+
+  /**
+   * 启动时为缺少 lastEvaluatedAt 的宠物补写上次计算时间
+   *
+   * 引入按时间衰减之前保存的宠物没有该字段，读取时会被默认值填成当前时间，
+   * 以它作为条件的更新永远不会命中，定时结算也选不到这些宠物。
+   * 补写为宠物最后一次更新的时间，之后的衰减从该时间点开始推算
+   */
+  async onModuleInit(): Promise<void> {
+    const result = await this.petModel
+      .updateMany({ lastEvaluatedAt: null }, [
+        { $set: { lastEvaluatedAt: { $ifNull: ['$updatedAt', '$$NOW'] } } },
+      ])
+      .exec();
+    if (result.modifiedCount > 0) {
+      this.logger.log(`Backfilled lastEvaluatedAt for ${result.modifiedCount} pets`);
+    }
+
+    const counts = await this.petModel
+      .aggregate<{ _id: string; count: number }>([
+        { $match: { is_active: true } },
+        { $group: { _id: '$userId', count: { $sum: 1 } } },
+      ])
+      .exec();
+    const users = await this.usersService.backfillActivePets(
+      new Map(counts.map(({ _id, count }) => [_id, count])),
+    );
+    if (users > 0) {
+      this.logger.log(`Backfilled activePets for ${users} users`);
+    }
+  }
 
   /**
    * 创建新宠物
    * 
+   * 新宠物的健康度、饥饿度、快乐度和能量取自所属物种的初始数值，进化阶段为物种进化链的第一个阶段，
+   * 自动学会物种招式池中 1 级的招式，并以宠物ID为种子随机生成性格
+   * 
+   * @param userId 宠物主人的用户ID
    * @param createPetDto 宠物创建信息
    * @returns 创建的宠物对象
+   * @throws BadRequestException 当用户的宠物栏位已满时
    */
-  async create(createPetDto: CreatePetDto): Promise<Pet> {
-    const pet = new this.petModel(createPetDto);
-    return pet.save();
+  async create(userId: string, createPetDto: CreatePetDto): Promise<Pet> {
+    await this.claimPetSlot(userId);
+
+    const now = new Date();
+    const species = await this.speciesService.findByKey(createPetDto.type);
+    const { health, hunger, happiness, energy } = species.baseStats;
+    const { rules } = this.rulesService.getActive();
+    const pet = new this.petModel({
+      ...createPetDto,
+      userId,
+      health,
+      hunger,
+      happiness,
+      energy,
+      status: calculatePetStatus(hunger, health, energy, happiness, rules.status),
+      stage: species.evolutionStages[0]?.key,
+      ...startingMoves(species.learnset),
+      lastEvaluatedAt: now,
+      ownershipHistory: [{ userId, via: PetAcquisition.CREATED, acquiredAt: now }],
+    });
+    pet.traits = rollTraits(createRandom(String(pet._id)));
+    const saved = await this.saveNewPet(pet, userId);
+    this.emitCreated(saved, PetAcquisition.CREATED, now);
+    return saved;
   }
 
   /**
-   * 获取所有宠物
+   * 创建孵化出的后代宠物
+   * 
+   * 初始数值、进化阶段、初始招式和性格的生成方式与直接创建的宠物相同，额外记录父母、世代和继承的战斗属性加成
+   * 
+   * @param userId 宠物主人的用户ID
+   * @param offspring 后代宠物定义
+   * @returns 创建的宠物对象
+   * @throws BadRequestException 当用户的宠物栏位已满时
+   */
+  async createOffspring(userId: string, offspring: PetOffspring): Promise<PetDocument> {
+    await this.claimPetSlot(userId);
+
+    const now = new Date();
+    const species = await this.speciesService.findByKey(offspring.type);
+    const { health, hunger, happiness, energy } = species.baseStats;
+    const { rules } = this.rulesService.getActive();
+    const pet = new this.petModel({
+      ...offspring,
+      userId,
+      health,
+      hunger,
+      happiness,
+      energy,
+      status: calculatePetStatus(hunger, health, energy, happiness, rules.status),
+      stage: species.evolutionStages[0]?.key,
+      ...startingMoves(species.learnset),
+      lastEvaluatedAt: now,
+      ownershipHistory: [{ userId, via: PetAcquisition.HATCHED, acquiredAt: now }],
+    });
+    pet.traits = rollTraits(createRandom(String(pet._id)));
+    const saved = await this.saveNewPet(pet, userId);
+    this.emitCreated(saved, PetAcquisition.HATCHED, now);
+    return saved;
+  }
+
+  /**
+   * 校验宠物可以参与对战、交互、繁殖等活动
+   * 
+   * @param pet 已推算到当前时间的宠物
+   * @param allowSleeping 是否允许睡觉中的宠物进行该操作，例如治疗
+   * @throws BadRequestException 当宠物不是活跃状态（已离家出走）、正由市场托管或正在探险时
+   * @throws PetSleepingException 当宠物正在睡觉时
+   */
+  assertAvailable(pet: Pet, allowSleeping = false): void {
+    if (!pet.is_active) {
+      throw new BadRequestException(`Pet ${pet.name} is not active`);
+    }
+    if (pet.escrow) {
+      throw new BadRequestException(`Pet ${pet.name} is held in escrow by the marketplace`);
+    }
+    if (pet.expedition) {
+      throw new BadRequestException(
+        `Pet ${pet.name} is on an expedition until ${pet.expedition.returnsAt.toISOString()}`,
+      );
+    }
+    if (pet.sleepingUntil && !allowSleeping) {
+      throw new PetSleepingException(pet.name, pet.sleepingUntil);
+    }
+  }
+
+  /**
+   * 将宠物交由市场托管
+   * 
+   * 以宠物属于该用户、处于活跃状态且未被托管作为条件原子地写入托管信息
+   * 
+   * @param petId 宠物ID
+   * @param userId 宠物主人的用户ID
+   * @param listingId 挂单ID
+   * @returns 托管后的宠物文档
+   * @throws NotFoundException 当宠物不存在时
+   * @throws ForbiddenException 当宠物不属于该用户时
+   * @throws BadRequestException 当宠物不是活跃状态或已被托管时
+   */
+  async placeInEscrow(petId: string, userId: string, listingId: string): Promise<PetDocument> {
+    const pet = await this.findById(petId);
+    if (!pet) {
+      throw new NotFoundException('Pet not found');
+    }
+    if (pet.userId !== userId) {
+      throw new ForbiddenException('You do not own this pet');
+    }
+    this.assertAvailable(pet);
+
+    const escrowed = await this.petModel
+      .findOneAndUpdate(
+        { _id: pet._id, userId, is_active: true, escrow: null, expedition: null, sleepingUntil: null },
+        { $set: { escrow: { listingId, since: new Date() } } },
+        { new: true },
+      )
+      .exec();
+    if (!escrowed) {
+      throw new BadRequestException(`Pet ${pet.name} is held in escrow by the marketplace`);
+    }
+    return escrowed;
+  }
+
+  /**
+   * 解除市场托管
+   * 托管期间数值冻结，解除后从当前时间重新开始衰减
+   * 
+   * @param petId 宠物ID
+   * @param listingId 挂单ID，只解除该挂单的托管
+   */
+  async releaseEscrow(petId: string, listingId: string): Promise<void> {
+    await this.petModel
+      .updateOne(
+        { _id: petId, 'escrow.listingId': listingId },
+        { $set: { lastEvaluatedAt: new Date() }, $unset: { escrow: 1 } },
+      )
+      .exec();
+  }
+
+  /**
+   * 派宠物去探险
+   * 
+   * 以宠物仍属于原主人、处于活跃状态、没有睡觉且未被托管或探险作为条件原子地写入探险信息，
+   * 探险期间数值冻结
+   * 
+   * @param pet 已推算到当前时间的宠物文档
+   * @param expedition 探险信息
+   * @returns 出发后的宠物文档
+   * @throws BadRequestException 当宠物已不可出发时
+   */
+  async startExpedition(pet: PetDocument, expedition: PetExpedition): Promise<PetDocument> {
+    const started = await this.petModel
+      .findOneAndUpdate(
+        {
+          _id: pet._id,
+          userId: pet.userId,
+          is_active: true,
+          escrow: null,
+          expedition: null,
+          sleepingUntil: null,
+        },
+        { $set: { expedition } },
+        { new: true },
+      )
+      .exec();
+    if (!started) {
+      throw new BadRequestException(`Pet ${pet.name} is not available for an expedition`);
+    }
+    return started;
+  }
+
+  /**
+   * 宠物探险归来
+   * 
+   * 归来影响：
+   * - 解除探险状态，从归来时间重新开始衰减
+   * - 获得经验值并重新计算等级，经验值与喂食、玩耍相同，按世界事件的经验倍率调整并计入每日经验上限
+   * - 消耗能量，受伤时扣除健康度 (最低0)
+   * - 根据新的状态数值重新计算宠物状态
+   * 
+   * @param petId 宠物ID
+   * @param expeditionId 探险ID
+   * @param experience 获得的经验值
+   * @param energyCost 消耗的能量
+   * @param healthLoss 受伤扣除的健康度
+   * @returns 归来后的宠物对象，宠物已不在该探险中时为 null
+   */
+  async returnFromExpedition(
+    petId: string,
+    expeditionId: string,
+    experience: number,
+    energyCost: number,
+    healthLoss: number,
+  ): Promise<PetDocument | null> {
+    const now = new Date();
+    const pet = await this.petModel
+      .findOneAndUpdate(
+        { _id: petId, 'expedition.expeditionId': expeditionId },
+        { $set: { lastEvaluatedAt: now }, $unset: { expedition: 1 } },
+        { new: true },
+      )
+      .exec();
+    if (!pet) {
+      return null;
+    }
+
+    const active = this.rulesService.getActive();
+    const health = Math.max(0, pet.health - healthLoss);
+    const energy = Math.max(0, pet.energy - energyCost);
+    const { experience: gained, ...dailyExperience } = this.capDailyExperience(
+      pet,
+      applyWorldEventEffects({ experience }, this.worldEventsService.getModifiers(pet, now, now)).experience ?? 0,
+      now,
+      active.rules.dailyExperienceCap,
+    );
+    const newExperience = pet.experience + gained;
+    return this.saveState(pet, {
+      health,
+      energy,
+      experience: newExperience,
+      level: this.calculateLevel(pet.type, newExperience, active.rules),
+      ...dailyExperience,
+      status: calculatePetStatus(pet.hunger, health, energy, pet.happiness, active.rules.status),
+    }, now, PetStatSource.EXPEDITION, active);
+  }
+
+  /**
+   * 转移宠物所有权
+   * 
+   * 以宠物仍属于原主人（以及仍由指定挂单托管）作为条件原子地更换主人、解除托管并追加所有权记录；
+   * 托管中的宠物从转移时间重新开始衰减
+   * 
+   * @param petId 宠物ID
+   * @param fromUserId 原主人
+   * @param record 新主人的所有权记录
+   * @param escrowListingId 宠物所在的托管挂单；为空时要求宠物未被托管
+   * @returns 转移后的宠物文档，条件不满足时为 null
+   */
+  async transferOwnership(
+    petId: string,
+    fromUserId: string,
+    record: OwnershipRecord,
+    escrowListingId?: string,
+  ): Promise<PetDocument | null> {
+    return this.petModel
+      .findOneAndUpdate(
+        {
+          _id: petId,
+          userId: fromUserId,
+          is_active: true,
+          expedition: null,
+          ...(escrowListingId ? { 'escrow.listingId': escrowListingId } : { escrow: null }),
+        },
+        {
+          $set: {
+            userId: record.userId,
+            ...(escrowListingId ? { lastEvaluatedAt: record.acquiredAt } : {}),
+          },
+          $unset: { escrow: 1 },
+          $push: { ownershipHistory: record },
+        },
+        { new: true },
+      )
+      .exec();
+  }
+
+  /**
+   * 为用户占用一个宠物栏位
+   * 以已占用数量少于栏位上限为条件原子地增加占用数量，并发的领养、购买和孵化不会超出栏位上限；
+   * 占用后获得宠物失败时需调用 releasePetSlot 释放
+   * 
+   * @param userId 用户ID
+   * @throws NotFoundException 当用户不存在时
+   * @throws BadRequestException 当活跃宠物数量已达到栏位上限时
+   */
+  async claimPetSlot(userId: string): Promise<void> {
+    if (await this.usersService.claimPetSlot(userId)) {
+      return;
+    }
+
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    throw new BadRequestException(
+      `All ${user.petSlots} pet slots are in use, buy more slots in the shop`,
+    );
+  }
+
+  /**
+   * 释放用户的一个宠物栏位，用于宠物转出、离家出走、删除或获得宠物失败后的补偿
+   * 
+   * @param userId 用户ID
+   */
+  async releasePetSlot(userId: string): Promise<void> {
+    await this.usersService.releasePetSlot(userId);
+  }
+
+  /**
+   * 分页获取所有宠物
+   * 
+   * 返回的数值在内存中推算到当前时间，不保存推算结果、不记录数值快照，
+   * 列表读取不会写入数据库；宠物在被单独读取、交互或定时结算时才保存
    * 
-   * @returns 所有宠物的数组
+   * @param page 页码，从1开始
+   * @param limit 每页条数
+   * @returns 按创建顺序排列的宠物
    */
-  async findAll(): Promise<Pet[]> {
-    return this.petModel.find().exec();
+  async findAll(page = 1, limit = 20): Promise<PaginatedResult<Pet>> {
+    const [pets, total] = await Promise.all([
+      this.petModel
+        .find()
+        .sort({ _id: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.petModel.countDocuments().exec(),
+    ]);
+    return { items: await this.projectMany(pets, new Date()), total, page, limit };
   }
 
   /**
    * 获取指定用户的所有活跃宠物
    * 
    * @param userId 用户ID
-   * @returns 该用户拥有的所有活跃宠物
+   * @returns 该用户拥有的所有活跃宠物，数值已推算到当前时间，推算时离家出走的宠物不包含在内
    */
   async findByUserId(userId: string): Promise<Pet[]> {
-    return this.petModel.find({ userId, is_active: true }).exec();
+    const pets = await this.petModel.find({ userId, is_active: true }).exec();
+    const evaluated = await this.evaluateMany(pets, new Date());
+    return evaluated.filter((pet) => pet.is_active);
+  }
+
+  /**
+   * 获取指定用户离家出走的宠物
+   * 
+   * 先推算该用户的活跃宠物，使刚刚离家出走的宠物也能被列出
+   * 
+   * @param userId 用户ID
+   * @returns 离家出走的宠物，按离家时间倒序，包含找回截止时间和费用
+   */
+  async findRunaway(userId: string): Promise<RunawayPet[]> {
+    await this.findByUserId(userId);
+
+    const now = new Date();
+    const { recovery } = this.rulesService.getActive().rules;
+    const pets = await this.petModel
+      .find({ userId, is_active: false, ranAwayAt: { $exists: true } })
+      .sort({ ranAwayAt: -1 })
+      .exec();
+
+    return pets.map((pet) => {
+      const recoverableUntil = this.recoveryDeadline(pet, recovery.graceDays);
+      return {
+        pet,
+        recoverableUntil,
+        recoveryCost: recovery.coinCost,
+        recoverable: now <= recoverableUntil,
+      };
+    });
   }
 
   /**
    * 根据ID查找宠物
    * 
+   * 读取时根据上次保存的数值和经过的时间推算当前数值与状态
+   * 
    * @param id 宠物ID
    * @returns 宠物对象或null
    */
-  async findById(id: string): Promise<Pet | null> {
-    return this.petModel.findById(id).exec();
+  async findById(id: string): Promise<PetDocument | null> {
+    const pet = await this.petModel.findById(id).exec();
+    return pet ? this.evaluate(pet, new Date()) : null;
   }
 
   /**
    * 更新宠物信息
    * 
+   * 先结算到当前时间的衰减，再写入新的字段，避免管理员修改的数值被补扣之前的衰减。
+   * 重新启用宠物时占用主人的宠物栏位，停用时释放
+   * 
    * @param id 宠物ID
    * @param updatePetDto 更新的字段
    * @returns 更新后的宠物对象或null
+   * @throws BadRequestException 当重新启用宠物而主人的栏位已满时
    */
   async update(id: string, updatePetDto: UpdatePetDto): Promise<Pet | null> {
-    return this.petModel.findByIdAndUpdate(id, updatePetDto, { new: true }).exec();
+    const pet = await this.findById(id);
+    if (!pet) {
+      return null;
+    }
+    const activating = updatePetDto.is_active === true && !pet.is_active;
+    const deactivating = updatePetDto.is_active === false && pet.is_active;
+    if (activating) {
+      await this.claimPetSlot(pet.userId);
+    }
+
+    const active = this.rulesService.getActive();
+    const updated = await this.saveState(pet, updatePetDto, new Date(), PetStatSource.UPDATE, active);
+    if ((activating && !updated) || (deactivating && updated)) {
+      await this.releasePetSlot(pet.userId);
+    }
+    return updated;
   }
 
   /**
@@ -71,167 +586,652 @@ export class PetsService {
    * @returns 被删除的宠物对象或null
    */
   async delete(id: string): Promise<Pet | null> {
-    return this.petModel.findByIdAndDelete(id).exec();
+    const deleted = await this.petModel.findByIdAndDelete(id).exec();
+    if (deleted?.is_active) {
+      await this.releasePetSlot(deleted.userId);
+    }
+    return deleted;
   }
 
   /**
    * 喂食宠物
    * 
-   * 喂食效果：
-   * - 饥饿度 +30 (最高100)
-   * - 快乐度 +10 (最高100)
-   * - 经验值 +10
-   * - 根据新的状态数值重新计算宠物状态
-   * - 更新最后喂食时间
+   * 喂食效果（数值取自当前生效的游戏规则，括号内为内置规则的默认值）：
+   * - 消耗背包中的一个食物道具，并应用该食物的效果
+   * - 经验值 (+10)
+   * - 喂食所属物种喜爱的食物时：额外快乐度 (+10)，经验值 (+5)
+   * - 数值限制在 0-100，根据新的状态数值重新计算宠物状态
+   * - 更新最后喂食时间，喂食冷却期间不能再次喂食
    * 
    * @param id 宠物ID
+   * @param itemKey 使用的食物道具
    * @returns 喂食后的宠物对象
+   * @throws NotFoundException 当宠物或道具不存在时
+   * @throws BadRequestException 当道具不是食物或背包中数量不足时
+   * @throws PetActionCooldownException 当喂食仍在冷却中时
+   */
+  async feedPet(id: string, itemKey: string): Promise<Pet | null> {
+    return this.useItemOnPet(id, itemKey, ItemCategory.FOOD, 'feed', PetStatSource.FEED, 'feed');
+  }
+
+  /**
+   * 和宠物玩耍
+   * 
+   * 玩耍效果（数值取自当前生效的游戏规则，括号内为内置规则的默认值）：
+   * - 消耗背包中的一个玩具道具，并应用该玩具的效果
+   * - 能量 (-20)，饥饿度 (-15)
+   * - 经验值 (+15)
+   * - 数值限制在 0-100，根据新的状态数值重新计算宠物状态
+   * - 更新最后玩耍时间，玩耍冷却期间不能再次玩耍
+   * 
+   * @param id 宠物ID
+   * @param itemKey 使用的玩具道具
+   * @returns 玩耍后的宠物对象
+   * @throws NotFoundException 当宠物或道具不存在时
+   * @throws BadRequestException 当道具不是玩具或背包中数量不足时
+   * @throws PetActionCooldownException 当玩耍仍在冷却中时
+   */
+  async playWithPet(id: string, itemKey: string): Promise<Pet | null> {
+    return this.useItemOnPet(id, itemKey, ItemCategory.TOY, 'play', PetStatSource.PLAY, 'play');
+  }
+
+  /**
+   * 让宠物睡觉
+   * 
+   * 睡觉效果（数值取自当前生效的游戏规则，括号内为内置规则的默认值）：
+   * - 入睡时立即应用睡觉交互的效果：健康度 (+10)，最高100
+   * - 睡眠持续 sleep.durationMinutes (120) 分钟，期间每小时恢复 sleep.energyPerHour (30) 点能量，受性格影响
+   * - 睡眠时间结束或能量恢复满时自动醒来，睡觉期间不能玩耍、对战、探险等，可以治疗
+   * - 更新最后睡觉时间，睡觉冷却期间不能再次睡觉
+   * 
+   * @param id 宠物ID
+   * @returns 睡觉后的宠物对象
    * @throws NotFoundException 当宠物不存在时
+   * @throws BadRequestException 当宠物能量已满时
+   * @throws PetSleepingException 当宠物已经在睡觉时
+   * @throws PetActionCooldownException 当睡觉仍在冷却中时
    */
-  async feedPet(id: string): Promise<Pet | null> {
+  async sleepPet(id: string): Promise<Pet | null> {
     const pet = await this.findById(id);
     if (!pet) {
       throw new NotFoundException('Pet not found');
     }
+    this.assertAvailable(pet);
+    if (pet.energy >= 100) {
+      throw new BadRequestException(`Pet ${pet.name} is not tired`);
+    }
 
-    const newHunger = Math.min(100, pet.hunger + 30);
-    const newHappiness = Math.min(100, pet.happiness + 10);
-    const newExperience = pet.experience + 10;
+    const now = new Date();
+    const active = this.rulesService.getActive();
+    await this.claimCooldown(pet, 'sleep', now);
 
-    const newLevel = Math.floor(newExperience / 100) + 1;
-    const newStatus = this.calculatePetStatus(newHunger, pet.health, pet.energy, newHappiness);
+    const modifiers = combineTraitModifiers(pet.traits);
+    const vitals = applyEffects(
+      pet,
+      applyWorldEventEffects(
+        applyTraitEffects(active.rules.actions.sleep, modifiers, 'sleep'),
+        this.worldEventsService.getModifiers(pet, now, now),
+      ),
+    );
+    const sleepingUntil = new Date(now.getTime() + active.rules.sleep.durationMinutes * 60 * 1000);
 
-    return this.update(id, {
-      hunger: newHunger,
-      happiness: newHappiness,
-      experience: newExperience,
-      level: newLevel,
-      status: newStatus,
-      lastFed: new Date(),
-    });
+    const updated = await this.saveState(pet, {
+      ...vitals,
+      status: PetStatus.SLEEPING,
+      sleepingUntil,
+    }, now, PetStatSource.SLEEP, active);
+    this.emitInteraction(updated, 'sleep', now);
+    return updated;
   }
 
   /**
-   * 和宠物玩耍
+   * 提前叫醒宠物
    * 
-   * 玩耍效果：
-   * - 快乐度 +25 (最高100)
-   * - 能量 -20 (最低0)
-   * - 饥饿度 -15 (最低0)
-   * - 经验值 +15
-   * - 根据新的状态数值重新计算宠物状态
-   * - 更新最后玩耍时间
+   * 以睡眠结束时间未变作为条件原子地清除睡眠状态，并发请求中只有一个能成功。
+   * 能量不高于 status.awakeAboveEnergy (80) 时，宠物因没睡够扣除 sleep.wakeHappinessPenalty (10) 点快乐度
    * 
    * @param id 宠物ID
-   * @returns 玩耍后的宠物对象
+   * @returns 醒来后的宠物对象
    * @throws NotFoundException 当宠物不存在时
+   * @throws BadRequestException 当宠物不是活跃状态或没有在睡觉时
    */
-  async playWithPet(id: string): Promise<Pet | null> {
+  async wakePet(id: string): Promise<Pet | null> {
     const pet = await this.findById(id);
     if (!pet) {
       throw new NotFoundException('Pet not found');
     }
+    this.assertAvailable(pet, true);
+    if (!pet.sleepingUntil) {
+      throw new BadRequestException(`Pet ${pet.name} is not asleep`);
+    }
 
-    const newHappiness = Math.min(100, pet.happiness + 25);
-    const newEnergy = Math.max(0, pet.energy - 20);
-    const newHunger = Math.max(0, pet.hunger - 15);
-    const newExperience = pet.experience + 15;
-
-    const newLevel = Math.floor(newExperience / 100) + 1;
-    const newStatus = this.calculatePetStatus(newHunger, pet.health, newEnergy, newHappiness);
+    const claimed = await this.petModel
+      .updateOne({ _id: pet._id, sleepingUntil: pet.sleepingUntil }, { $set: { sleepingUntil: null } })
+      .exec();
+    if (claimed.modifiedCount === 0) {
+      throw new BadRequestException(`Pet ${pet.name} is not asleep`);
+    }
 
-    return this.update(id, {
-      happiness: newHappiness,
-      energy: newEnergy,
-      hunger: newHunger,
-      experience: newExperience,
-      level: newLevel,
-      status: newStatus,
-      lastPlayed: new Date(),
+    const now = new Date();
+    const active = this.rulesService.getActive();
+    const { status, sleep } = active.rules;
+    const vitals = applyEffects(pet, {
+      happiness: pet.energy > status.awakeAboveEnergy ? 0 : -sleep.wakeHappinessPenalty,
     });
+
+    return this.saveState(pet, {
+      ...vitals,
+      status: calculatePetStatus(vitals.hunger, vitals.health, vitals.energy, vitals.happiness, status),
+      sleepingUntil: null,
+    }, now, PetStatSource.WAKE, active);
   }
 
   /**
-   * 让宠物睡觉
+   * 治疗宠物
    * 
-   * 睡觉效果：
-   * - 能量 +40 (最高100)
-   * - 健康度 +10 (最高100)
-   * - 状态判断：能量大于80时为活跃状态，否则为睡觉状态
-   * - 更新最后睡觉时间
+   * 治疗效果：
+   * - 消耗背包中的一个药品道具，并应用该药品的效果
+   * - 根据新的状态数值重新计算宠物状态
    * 
    * @param id 宠物ID
-   * @returns 睡觉后的宠物对象
-   * @throws NotFoundException 当宠物不存在时
+   * @param itemKey 使用的药品道具
+   * @returns 治疗后的宠物对象
+   * @throws NotFoundException 当宠物或道具不存在时
+   * @throws BadRequestException 当道具不是药品或背包中数量不足时
    */
-  async sleepPet(id: string): Promise<Pet | null> {
+  async healPet(id: string, itemKey: string): Promise<Pet | null> {
+    return this.useItemOnPet(id, itemKey, ItemCategory.MEDICINE, 'heal', PetStatSource.HEAL, null);
+  }
+
+  /**
+   * 对宠物使用道具
+   * 
+   * 处理流程：
+   * - 校验宠物和道具存在、道具分类与交互类型一致
+   * - 交互有冷却时间时先占用冷却，后续步骤失败时恢复
+   * - 从宠物主人的背包中原子地扣除一个道具
+   * - 叠加交互基础效果、道具效果和喜爱食物加成，再按宠物性格和生效中的世界事件调整，计算新的数值、等级和状态
+   * - 获得的经验值受每日交互经验上限限制，达到上限后交互仍生效但不再获得经验
+   * 
+   * @param id 宠物ID
+   * @param itemKey 道具标识
+   * @param category 交互要求的道具分类
+   * @param action 交互类型，决定游戏规则中交互本身的基础效果
+   * @param source 记录数值历史时的来源
+   * @param cooldownAction 需要占用冷却的交互类型，没有冷却时为 null
+   * @returns 更新后的宠物对象
+   */
+  private async useItemOnPet(
+    id: string,
+    itemKey: string,
+    category: ItemCategory,
+    action: 'feed' | 'play' | 'heal',
+    source: PetStatSource,
+    cooldownAction: PetCooldownAction | null,
+  ): Promise<Pet | null> {
     const pet = await this.findById(id);
     if (!pet) {
       throw new NotFoundException('Pet not found');
     }
+    this.assertAvailable(pet, action === 'heal');
+
+    const item = await this.itemsService.findByKey(itemKey);
+    if (item.category !== category) {
+      throw new BadRequestException(`Item ${itemKey} is not a ${category}`);
+    }
+
+    const species = await this.speciesService.findByKey(pet.type);
+    const isFavorite = category === ItemCategory.FOOD && species.favoriteFoods.includes(itemKey);
+
+    const now = new Date();
+    const active = this.rulesService.getActive();
+    const { actions, dailyExperienceCap } = active.rules;
+    const previousActionAt = cooldownAction ? await this.claimCooldown(pet, cooldownAction, now) : undefined;
+
+    try {
+      await this.inventoryService.consume(pet.userId, itemKey);
+    } catch (error) {
+      if (cooldownAction) {
+        await this.releaseCooldown(pet, cooldownAction, now, previousActionAt);
+      }
+      throw error;
+    }
+
+    const merged = applyWorldEventEffects(
+      applyTraitEffects(
+        mergeEffects(actions[action], item.effects, isFavorite ? actions.favoriteFood : {}),
+        combineTraitModifiers(pet.traits),
+        action,
+      ),
+      this.worldEventsService.getModifiers(pet, now, now),
+    );
+    const { experience, ...dailyExperience } = this.capDailyExperience(
+      pet,
+      merged.experience ?? 0,
+      now,
+      dailyExperienceCap,
+    );
 
-    const newEnergy = Math.min(100, pet.energy + 40);
-    const newHealth = Math.min(100, pet.health + 10);
-    const newStatus = newEnergy > 80 ? PetStatus.ACTIVE : PetStatus.SLEEPING;
+    const vitals = applyEffects(pet, { ...merged, experience });
+    const newLevel = this.calculateLevel(pet.type, vitals.experience, active.rules);
+    const newStatus = calculatePetStatus(
+      vitals.hunger,
+      vitals.health,
+      vitals.energy,
+      vitals.happiness,
+      active.rules.status,
+    );
 
-    return this.update(id, {
-      energy: newEnergy,
-      health: newHealth,
+    const updated = await this.saveState(pet, {
+      ...vitals,
+      level: newLevel,
       status: newStatus,
-      lastSlept: new Date(),
-    });
+      ...dailyExperience,
+    }, now, source, active);
+    this.emitInteraction(updated, action, now);
+    return updated;
   }
 
   /**
-   * 治疗宠物
+   * 占用交互冷却
    * 
-   * 治疗效果：
-   * - 健康度 +30 (最高100)
-   * - 根据新的健康度重新计算宠物状态
+   * 以上次交互时间早于冷却截止时间作为条件原子地写入本次交互时间，
+   * 并发请求中只有一个能成功，其余按最新的交互时间返回冷却错误。
+   * 冷却时间取自当前生效的游戏规则
+   * 
+   * @param pet 宠物文档
+   * @param action 交互类型
+   * @param now 本次交互时间
+   * @returns 占用前的上次交互时间，用于失败时恢复
+   * @throws PetActionCooldownException 当交互仍在冷却中时
+   */
+  async claimCooldown(
+    pet: PetDocument,
+    action: PetCooldownAction,
+    now: Date,
+  ): Promise<Date | undefined> {
+    const field = PET_COOLDOWN_FIELDS[action];
+    const cooldownMinutes = this.rulesService.getActive().rules.cooldownMinutes[action];
+    const readyBefore = new Date(now.getTime() - cooldownMinutes * 60 * 1000);
+
+    const claimed = await this.petModel
+      .findOneAndUpdate(
+        { _id: pet._id, [field]: { $not: { $gt: readyBefore } } },
+        { $set: { [field]: now } },
+      )
+      .exec();
+
+    if (!claimed) {
+      const latest = await this.petModel.findById(pet._id).exec();
+      const availableAt = cooldownAvailableAt(latest?.[field], cooldownMinutes) ?? now;
+      throw new PetActionCooldownException(action, availableAt, now);
+    }
+
+    return claimed[field];
+  }
+
+  /**
+   * 计算宠物某个交互在指定时间点的冷却状态
+   * 
+   * @param pet 宠物
+   * @param action 交互类型
+   * @param now 当前时间
+   * @returns 冷却状态，剩余秒数为0表示可以立即交互
+   */
+  getCooldown(pet: Pet, action: PetCooldownAction, now: Date): PetCooldownState {
+    const cooldownMinutes = this.rulesService.getActive().rules.cooldownMinutes[action];
+    return getCooldownState(pet[PET_COOLDOWN_FIELDS[action]], cooldownMinutes, now);
+  }
+
+  /**
+   * 更新宠物已学会和已装备的招式
+   * 
+   * 以宠物当前的招式作为条件原子地写入，避免并发的学习、遗忘、装备请求互相覆盖
+   * 
+   * @param pet 读取到的宠物文档
+   * @param moveSet 新的招式
+   * @returns 更新后的宠物对象
+   * @throws ConflictException 当宠物的招式已被其他请求修改时
+   */
+  async updateMoves(pet: PetDocument, moveSet: PetMoveSet): Promise<PetDocument> {
+    const updated = await this.petModel
+      .findOneAndUpdate(
+        { _id: pet._id, moves: pet.moves, equippedMoves: pet.equippedMoves },
+        { $set: { moves: moveSet.moves, equippedMoves: moveSet.equippedMoves } },
+        { new: true },
+      )
+      .exec();
+    if (!updated) {
+      throw new ConflictException(`Moves of pet ${pet.name} were changed by another request`);
+    }
+    return updated;
+  }
+
+  /**
+   * 查出宠物已装备的道具
+   *
+   * @param pet 宠物
+   * @returns 按外观图层顺序排列的栏位和道具，目录中已不存在的道具会被忽略
+   */
+  async resolveEquipment(pet: Pet): Promise<{ slot: EquipmentSlot; item: Item }[]> {
+    const keys = Object.values(pet.equipment ?? {}).filter(Boolean);
+    if (keys.length === 0) {
+      return [];
+    }
+    return resolveEquipment(pet.equipment, await this.itemsService.findByKeys(keys));
+  }
+
+  /**
+   * 更换宠物某个装备栏位上的道具
+   *
+   * 以栏位当前的道具作为条件原子地写入，避免并发的装备请求互相覆盖
+   *
+   * @param pet 读取到的宠物文档
+   * @param slot 装备栏位
+   * @param next 新的道具 key，为空时卸下
+   * @returns 更新后的宠物对象
+   * @throws ConflictException 当栏位已被其他请求修改或宠物已不可用时
+   */
+  async updateEquipment(pet: PetDocument, slot: EquipmentSlot, next?: string): Promise<PetDocument> {
+    const field = `equipment.${slot}`;
+    const updated = await this.petModel
+      .findOneAndUpdate(
+        { _id: pet._id, is_active: true, escrow: null, expedition: null, [field]: pet.equipment?.[slot] ?? null },
+        next ? { $set: { [field]: next } } : { $unset: { [field]: 1 } },
+        { new: true },
+      )
+      .exec();
+    if (!updated) {
+      throw new ConflictException(`Equipment of pet ${pet.name} was changed by another request`);
+    }
+    return updated;
+  }
+
+  /**
+   * 交互失败时恢复占用的冷却
+   * 仅当交互时间仍是本次占用时写入的时间时才恢复，不会覆盖之后的交互
+   * 
+   * @param pet 宠物文档
+   * @param action 交互类型
+   * @param claimedAt 占用冷却时写入的交互时间
+   * @param previous 占用前的上次交互时间
+   */
+  async releaseCooldown(
+    pet: PetDocument,
+    action: PetCooldownAction,
+    claimedAt: Date,
+    previous: Date | undefined,
+  ): Promise<void> {
+    const field = PET_COOLDOWN_FIELDS[action];
+    await this.petModel
+      .updateOne(
+        { _id: pet._id, [field]: claimedAt },
+        previous ? { $set: { [field]: previous } } : { $unset: { [field]: 1 } },
+      )
+      .exec();
+  }
+
+  /**
+   * 原子地扣除参战消耗的能量
+   * 
+   * 以宠物处于活跃状态、未被托管、未在探险、未在睡觉且能量足够作为条件扣除能量，
+   * 同一只宠物同时参加多场战斗时能量不会被重复使用
+   * 
+   * @param pet 已推算到当前时间的宠物
+   * @param energyCost 消耗的能量
+   * @throws BadRequestException 当宠物已无法参战或能量不足时
+   */
+  async claimBattleEnergy(pet: PetDocument, energyCost: number): Promise<void> {
+    const claimed = await this.petModel
+      .updateOne(
+        {
+          _id: pet._id,
+          is_active: true,
+          escrow: null,
+          expedition: null,
+          sleepingUntil: null,
+          energy: { $gte: energyCost },
+        },
+        { $inc: { energy: -energyCost } },
+      )
+      .exec();
+    if (claimed.matchedCount === 0) {
+      throw new BadRequestException(`Pet ${pet.name} does not have enough energy to battle`);
+    }
+  }
+
+  /**
+   * 退还参战时扣除的能量，用于战斗未能结算时的补偿
+   * 
+   * @param pet 宠物
+   * @param energyCost 扣除的能量
+   */
+  async releaseBattleEnergy(pet: PetDocument, energyCost: number): Promise<void> {
+    await this.petModel.updateOne({ _id: pet._id }, { $inc: { energy: energyCost } }).exec();
+  }
+
+  /**
+   * 记录战斗结果
+   * 
+   * 战斗影响：
+   * - 胜场或败场 +1
+   * - 获得对应经验值并重新计算等级
+   * - 根据新的状态数值重新计算宠物状态
+   * 
+   * 能量在参战时已由 claimBattleEnergy 扣除。胜负场次和经验值使用 $inc 累加、等级只升不降，
+   * 同一只宠物同时结算多场战斗时不会互相覆盖
    * 
    * @param id 宠物ID
-   * @returns 治疗后的宠物对象
+   * @param won 是否获胜
+   * @param experience 获得的经验值
+   * @returns 战斗后的宠物对象
    * @throws NotFoundException 当宠物不存在时
    */
+  async recordBattleResult(id: string, won: boolean, experience: number): Promise<Pet | null> {
+    const pet = await this.petModel
+      .findByIdAndUpdate(
+        id,
+        { $inc: { experience, battlesWon: won ? 1 : 0, battlesLost: won ? 0 : 1 } },
+        { new: true },
+      )
+      .exec();
+    if (!pet) {
+      throw new NotFoundException('Pet not found');
+    }
+
+    const now = new Date();
+    const active = this.rulesService.getActive();
+    const level = this.calculateLevel(pet.type, pet.experience, active.rules);
+    const neglect = applyNeglect(
+      { hunger: pet.hunger, health: pet.health, happiness: pet.happiness },
+      calculatePetStatus(pet.hunger, pet.health, pet.energy, pet.happiness, active.rules.status),
+      pet.neglectedSince,
+      now,
+      active.rules.neglect,
+    );
+
+    const updated = await this.petModel
+      .findByIdAndUpdate(
+        pet._id,
+        { $max: { level }, $set: { status: neglect.status, rulesVersion: active.version } },
+        { new: true },
+      )
+      .exec();
+    if (updated) {
+      await this.petHistoryService.record(String(updated._id), updated, PetStatSource.BATTLE, now, active.version);
+      this.emitStatusChange(updated, pet.status, now);
+      this.emitLevelUp(updated, pet.level, now);
+    }
+    return updated;
+  }
+
   /**
-   * 治疗宠物
+   * 宠物进化
    * 
-   * 治疗效果：
-   * - 健康度 +30 (最高100)
-   * - 根据新的健康度重新计算宠物状态
+   * 进化规则：
+   * - 进入物种进化链中的下一个阶段，需要满足该阶段的等级、快乐度、胜场等条件
+   * - 永久获得该阶段的战斗属性加成
+   * - 记录进化历史，并发出宠物进化事件
    * 
    * @param id 宠物ID
-   * @returns 治疗后的宠物对象
+   * @returns 进化后的宠物对象
    * @throws NotFoundException 当宠物不存在时
+   * @throws BadRequestException 当物种不能继续进化或条件未满足时
+   * @throws ConflictException 当宠物已被同时进化时
    */
-  async healPet(id: string): Promise<Pet | null> {
+  async evolve(id: string): Promise<Pet> {
     const pet = await this.findById(id);
     if (!pet) {
       throw new NotFoundException('Pet not found');
     }
+    this.assertAvailable(pet);
 
-    const newHealth = Math.min(100, pet.health + 30);
-    const newStatus = this.calculatePetStatus(pet.hunger, newHealth, pet.energy, pet.happiness);
+    const species = await this.speciesService.findByKey(pet.type);
+    const progress = getEvolutionProgress(pet, species.evolutionStages);
+    if (!progress.nextStage) {
+      throw new BadRequestException(`Pet ${pet.name} cannot evolve any further`);
+    }
+    if (!progress.canEvolve) {
+      throw new BadRequestException(
+        `Evolution requirements not met: ${progress.unmetRequirements.join(', ')}`,
+      );
+    }
 
-    return this.update(id, {
-      health: newHealth,
-      status: newStatus,
-    });
+    const now = new Date();
+    const { key: to, statBoosts } = progress.nextStage;
+    const from = pet.stage;
+    const evolved = await this.petModel
+      .findOneAndUpdate(
+        { _id: pet._id, stage: from ?? null },
+        {
+          $set: { stage: to },
+          $inc: {
+            'statBonuses.maxHp': statBoosts.maxHp ?? 0,
+            'statBonuses.attack': statBoosts.attack ?? 0,
+            'statBonuses.defense': statBoosts.defense ?? 0,
+            'statBonuses.speed': statBoosts.speed ?? 0,
+          },
+          $push: { evolutionHistory: { from, to, level: pet.level, evolvedAt: now } },
+        },
+        { new: true },
+      )
+      .exec();
+
+    if (!evolved) {
+      throw new ConflictException('Pet has already evolved, please retry');
+    }
+
+    this.eventEmitter.emit(
+      PET_EVENTS.EVOLVED,
+      new PetEvolvedEvent(String(pet._id), pet.userId, from, to, pet.level, now),
+    );
+    return evolved;
   }
 
   /**
-   * 获取宠物详细统计信息
+   * 找回离家出走的宠物
    * 
-   * 返回包含所有宠物状态数值的完整统计信息
+   * 处理流程：
+   * - 校验宠物已离家出走且仍在找回期限内，主人有空闲的宠物栏位
+   * - 原子地将宠物恢复为活跃状态，数值恢复到找回后的初始值
+   * - 通过金币流水扣除找回费用，扣款失败时宠物恢复为离家出走状态
    * 
    * @param id 宠物ID
-   * @returns 包含所有宠物属性的对象
+   * @param userId 宠物主人的用户ID
+   * @returns 找回后的宠物对象
    * @throws NotFoundException 当宠物不存在时
+   * @throws BadRequestException 当宠物没有离家出走、已超过找回期限、栏位已满或金币不足时
+   * @throws ConflictException 当宠物已被同时找回时
    */
+  async recover(id: string, userId: string): Promise<Pet> {
+    const pet = await this.petModel.findById(id).exec();
+    if (!pet) {
+      throw new NotFoundException('Pet not found');
+    }
+    if (pet.is_active || !pet.ranAwayAt) {
+      throw new BadRequestException(`Pet ${pet.name} has not run away`);
+    }
+
+    const now = new Date();
+    const active = this.rulesService.getActive();
+    const { recovery } = active.rules;
+    const recoverableUntil = this.recoveryDeadline(pet, recovery.graceDays);
+    if (now > recoverableUntil) {
+      throw new BadRequestException(
+        `Pet ${pet.name} could only be recovered until ${recoverableUntil.toISOString()}`,
+      );
+    }
+    await this.claimPetSlot(userId);
+
+    const { health, hunger, happiness, energy } = recovery.vitals;
+    const recovered = await this.petModel
+      .findOneAndUpdate(
+        { _id: pet._id, is_active: false, ranAwayAt: pet.ranAwayAt },
+        {
+          $set: {
+            ...recovery.vitals,
+            is_active: true,
+            status: calculatePetStatus(hunger, health, energy, happiness, active.rules.status),
+            lastEvaluatedAt: now,
+            rulesVersion: active.version,
+          },
+          $unset: { ranAwayAt: 1, runawayReason: 1, neglectedSince: 1 },
+        },
+        { new: true },
+      )
+      .exec();
+    if (!recovered) {
+      await this.releasePetSlot(userId);
+      throw new ConflictException(`Pet ${pet.name} has already been recovered`);
+    }
+
+    try {
+      await this.coinsService.debit(userId, recovery.coinCost, CoinReason.PET_RECOVERY, {
+        type: 'pet',
+        id: String(pet._id),
+        note: pet.name,
+      });
+    } catch (error) {
+      await this.petModel
+        .updateOne(
+          { _id: pet._id },
+          {
+            $set: {
+              health: pet.health,
+              hunger: pet.hunger,
+              happiness: pet.happiness,
+              energy: pet.energy,
+              status: pet.status,
+              is_active: false,
+              ranAwayAt: pet.ranAwayAt,
+              runawayReason: pet.runawayReason,
+              neglectedSince: pet.neglectedSince,
+              lastEvaluatedAt: pet.lastEvaluatedAt,
+            },
+          },
+        )
+        .exec();
+      await this.releasePetSlot(userId);
+      throw error;
+    }
+
+    await this.petHistoryService.record(
+      String(recovered._id),
+      recovered,
+      PetStatSource.RECOVER,
+      now,
+      active.version,
+    );
+    return recovered;
+  }
+
   /**
    * 获取宠物详细统计信息
    * 
-   * 返回包含所有宠物状态数值的完整统计信息
+   * 返回包含所有宠物状态数值的完整统计信息，以及各交互的剩余冷却时间、今日交互经验、进化进度、
+   * 性格及其合并后的倍率（traitModifiers）、已装备的道具及其合计效果（equipmentBonuses）和组合后的外观（appearance）、
+   * 当前生效的世界事件倍率（worldEventModifiers），
+   * rulesVersion 为最近一次交互使用的游戏规则版本，activeRulesVersion 为当前生效的版本
    * 
    * @param id 宠物ID
    * @returns 包含所有宠物属性的对象
@@ -243,6 +1243,13 @@ export class PetsService {
       throw new NotFoundException('Pet not found');
     }
 
+    const now = new Date();
+    const { version, rules } = this.rulesService.getActive();
+    const earnedToday = pet.dailyExperienceDate === experienceDayKey(now) ? pet.dailyExperience : 0;
+    const species = await this.speciesService.findByKey(pet.type);
+    const evolution = getEvolutionProgress(pet, species.evolutionStages);
+    const equipped = await this.resolveEquipment(pet);
+
     return {
       id: (pet as any)._id,
       name: pet.name,
@@ -259,96 +1266,534 @@ export class PetsService {
       lastFed: pet.lastFed,
       lastPlayed: pet.lastPlayed,
       lastSlept: pet.lastSlept,
+      sleepingUntil: pet.sleepingUntil ?? null,
+      lastEvaluatedAt: pet.lastEvaluatedAt,
+      cooldowns: {
+        feed: this.getCooldown(pet, 'feed', now),
+        play: this.getCooldown(pet, 'play', now),
+        sleep: this.getCooldown(pet, 'sleep', now),
+        breed: this.getCooldown(pet, 'breed', now),
+      },
+      dailyExperience: {
+        earned: earnedToday,
+        cap: rules.dailyExperienceCap,
+        remaining: Math.max(0, rules.dailyExperienceCap - earnedToday),
+      },
+      stage: evolution.currentStage?.key ?? null,
+      statBonuses: pet.statBonuses,
+      traits: pet.traits.map((trait) => ({ key: trait, ...PET_TRAITS[trait] })),
+      traitModifiers: combineTraitModifiers(pet.traits),
+      equipment: pet.equipment ?? {},
+      equipmentBonuses: combineEquipment(equipped.map(({ item }) => item)),
+      worldEventModifiers: this.worldEventsService.getModifiers(pet, now, now),
+      appearance: composeAppearance(
+        { type: pet.type, stage: evolution.currentStage?.key, avatar: pet.avatar },
+        equipped,
+      ),
+      evolution: {
+        nextStage: evolution.nextStage?.key ?? null,
+        requirements: evolution.nextStage?.requirements ?? null,
+        unmetRequirements: evolution.unmetRequirements,
+        canEvolve: evolution.canEvolve,
+      },
+      evolutionHistory: pet.evolutionHistory,
+      parentIds: pet.parentIds,
+      generation: pet.generation,
+      rulesVersion: pet.rulesVersion ?? null,
+      activeRulesVersion: version,
     };
   }
 
   /**
-   * 随时间更新宠物状态
+   * 获取宠物数值历史曲线
    * 
-   * 定时任务方法，根据时间流逝自动更新所有宠物的状态：
-   * - 饥饿度：每小时减少2点
-   * - 快乐度：每小时减少1.5点
-   * - 能量：每小时减少1点
-   * - 根据新的状态数值重新计算宠物状态
+   * 查询前先把宠物数值结算到当前时间，使曲线包含最近一段时间的衰减
    * 
-   * 此方法应由定时任务调用，模拟真实时间流逝对宠物的影响
+   * @param id 宠物ID
+   * @param query 时间范围和降采样粒度
+   * @returns 按时间升序排列的降采样数据点
+   * @throws NotFoundException 当宠物不存在时
+   * @throws BadRequestException 当时间范围无效或数据点数量超过上限时
    */
+  async getHistory(id: string, query: PetHistoryQueryDto): Promise<PetHistory> {
+    const pet = await this.findById(id);
+    if (!pet) {
+      throw new NotFoundException('Pet not found');
+    }
+    return this.petHistoryService.getHistory(String(pet._id), query.from, query.to, query.bucket);
+  }
+
   /**
-   * 随时间更新宠物状态
+   * 获取宠物的家族树
    * 
-   * 定时任务方法，根据时间流逝自动更新所有宠物的状态：
-   * - 饥饿度：每小时减少2点
-   * - 快乐度：每小时减少1.5点
-   * - 能量：每小时减少1点
-   * - 根据新的状态数值重新计算宠物状态
+   * 从指定宠物开始逐代向上查找父母，同时返回该宠物的直接后代
    * 
-   * 此方法应由定时任务调用，模拟真实时间流逝对宠物的影响
+   * @param id 宠物ID
+   * @param depth 向上追溯的代数，最多 5 代
+   * @returns 以该宠物为根的祖先树和直接后代列表
+   * @throws NotFoundException 当宠物不存在时
    */
-  async updatePetStatsOverTime(): Promise<void> {
-    const pets = await this.findAll();
-    const now = new Date();
+  async getFamilyTree(
+    id: string,
+    depth = 3,
+  ): Promise<{ pet: PetFamilyNode; children: PetFamilyNode[] }> {
+    const root = await this.petModel.findById(id).exec();
+    if (!root) {
+      throw new NotFoundException('Pet not found');
+    }
 
-    for (const pet of pets) {
-      const hoursSinceLastFed = (now.getTime() - pet.lastFed.getTime()) / (1000 * 60 * 60);
-      const hoursSinceLastPlay = (now.getTime() - pet.lastPlayed.getTime()) / (1000 * 60 * 60);
-      const hoursSinceLastSleep = (now.getTime() - pet.lastSlept.getTime()) / (1000 * 60 * 60);
+    const toNode = (pet: PetDocument): PetFamilyNode => ({
+      id: String(pet._id),
+      name: pet.name,
+      type: pet.type,
+      stage: pet.stage,
+      generation: pet.generation,
+      parents: [],
+    });
+
+    const tree = toNode(root);
+    let level: Array<{ node: PetFamilyNode; parentIds: string[] }> = [
+      { node: tree, parentIds: root.parentIds },
+    ];
+    for (let generation = 0; generation < Math.min(depth, MAX_FAMILY_TREE_DEPTH); generation++) {
+      const parentIds = [...new Set(level.flatMap((entry) => entry.parentIds))];
+      if (parentIds.length === 0) {
+        break;
+      }
+
+      const parents = await this.petModel.find({ _id: { $in: parentIds } }).exec();
+      const parentsById = new Map(parents.map((parent) => [String(parent._id), parent]));
+      const next: typeof level = [];
+      for (const entry of level) {
+        for (const parentId of entry.parentIds) {
+          const parent = parentsById.get(parentId);
+          if (parent) {
+            const node = toNode(parent);
+            entry.node.parents.push(node);
+            next.push({ node, parentIds: parent.parentIds });
+          }
+        }
+      }
+      level = next;
+    }
+
+    const children = await this.petModel.find({ parentIds: String(root._id) }).exec();
+    return { pet: tree, children: children.map(toNode) };
+  }
+
+  /**
+   * 结算长时间未被读取的宠物
+   * 
+   * 供定时任务调用：按上次计算时间从早到晚取出一批活跃宠物，推算并保存当前数值，
+   * 状态发生变化时发出事件。每次只处理一批，不会扫描全部宠物。
+   * 市场托管和探险中的宠物数值冻结、上次计算时间不会推进，不参与结算，否则会一直占据每批的前列
+   * 
+   * @param staleBefore 上次计算时间早于该时间点的宠物才会被结算
+   * @param limit 本批最多处理的宠物数量
+   * @returns 本批处理的宠物数量
+   */
+  async sweepStaleStates(staleBefore: Date, limit: number): Promise<number> {
+    const pets = await this.petModel
+      .find({ is_active: true, escrow: null, expedition: null, lastEvaluatedAt: { $lte: staleBefore } })
+      .sort({ lastEvaluatedAt: 1 })
+      .limit(limit)
+      .exec();
+
+    await this.evaluateMany(pets, new Date());
+    return pets.length;
+  }
+
+  /**
+   * 将宠物数值推算到指定时间并保存
+   * 
+   * 以 lastEvaluatedAt 作为条件更新，避免并发读取时重复扣减衰减；
+   * 市场托管和探险中的宠物数值冻结，解除托管或探险归来时从该时间重新开始衰减。
+   * 衰减速度按宠物性格、已装备的道具和世界事件调整，睡觉中的宠物按睡眠规则恢复能量并在到时后醒来。
+   * 结算时间有推进时记录一条时间衰减快照
+   * 
+   * @param pet 宠物文档
+   * @param now 推算到的时间点
+   * @param decayRates 物种衰减速度，未提供时从物种注册表读取
+   * @returns 推算后的宠物文档
+   */
+  private async evaluate(
+    pet: PetDocument,
+    now: Date,
+    decayRates?: SpeciesDecayRates,
+  ): Promise<PetDocument> {
+    if (!pet.is_active || pet.escrow || pet.expedition) {
+      return pet;
+    }
+
+    const active = this.rulesService.getActive();
+    const rates = decayRates ?? (await this.speciesService.findByKey(pet.type)).decayRates;
+    const evaluatedAt = pet.lastEvaluatedAt ?? now;
+    const { decayReduction } = combineEquipment((await this.resolveEquipment(pet)).map(({ item }) => item));
+    const state = this.projectState(pet, rates, decayReduction, active, evaluatedAt, now);
+
+    const updated = await this.petModel
+      .findOneAndUpdate(
+        { _id: pet._id, is_active: true, lastEvaluatedAt: evaluatedAt },
+        this.toStateUpdate(state, now),
+        { new: true },
+      )
+      .exec();
+
+    if (!updated) {
+      const fresh = await this.petModel.findById(pet._id).exec();
+      if (!fresh || !fresh.is_active) {
+        return fresh ?? pet;
+      }
+      const current = this.projectState(fresh, rates, decayReduction, active, fresh.lastEvaluatedAt ?? now, now);
+      this.applyProjection(fresh, current);
+      return fresh;
+    }
 
-      const newHunger = Math.max(0, pet.hunger - Math.floor(hoursSinceLastFed * 2));
-      const newHappiness = Math.max(0, pet.happiness - Math.floor(hoursSinceLastPlay * 1.5));
-      const newEnergy = Math.max(0, pet.energy - Math.floor(hoursSinceLastSleep * 1));
+    if (now > evaluatedAt) {
+      await this.petHistoryService.record(
+        String(updated._id),
+        updated,
+        PetStatSource.DECAY,
+        now,
+        active.version,
+      );
+    }
+    this.emitStatusChange(updated, pet.status, now);
+    if (state.ranAwayAt) {
+      await this.releasePetSlot(updated.userId);
+      this.eventEmitter.emit(
+        PET_EVENTS.RAN_AWAY,
+        new PetRanAwayEvent(String(updated._id), updated.userId, RUNAWAY_REASON_NEGLECT, state.ranAwayAt),
+      );
+    }
+    return updated;
+  }
 
-      const newStatus = this.calculatePetStatus(newHunger, pet.health, newEnergy, newHappiness);
+  /**
+   * 按宠物性格、装备和期间生效的世界事件调整衰减速度，推算宠物从 from 到 now 的状态，睡觉中的宠物按睡眠规则推算
+   * 
+   * @param pet 宠物
+   * @param decayRates 物种衰减速度
+   * @param decayReduction 已装备道具的衰减降低比例
+   * @param active 当前生效的游戏规则
+   * @param from 上次计算的时间
+   * @param now 推算到的时间点
+   * @returns 推算后的状态
+   */
+  private projectState(
+    pet: Pet,
+    decayRates: SpeciesDecayRates,
+    decayReduction: EquipmentDecayReduction,
+    active: ActiveGameRules,
+    from: Date,
+    now: Date,
+  ): EvaluatedPetState {
+    const modifiers = combineTraitModifiers(pet.traits);
+    const traitDecay = applyTraitDecay(decayRates, active.rules, modifiers);
+    const rates = applyWorldEventDecay(
+      applyEquipmentDecay(traitDecay.decayRates, decayReduction),
+      this.worldEventsService.getModifiers(pet, from, now),
+    );
+    const { rules } = traitDecay;
+    if (!pet.sleepingUntil) {
+      return evaluatePetState(pet, rates, from, now, rules);
+    }
+
+    const sleep = {
+      until: pet.sleepingUntil,
+      energyPerHour: rules.sleep.energyPerHour * modifiers.actions.sleep,
+    };
+    return evaluateSleepingState(pet, rates, sleep, from, now, rules);
+  }
 
-      await this.update((pet as any)._id, {
-        hunger: newHunger,
-        happiness: newHappiness,
-        energy: newEnergy,
-        status: newStatus,
+  /**
+   * 将推算结果转换为数据库更新操作
+   * 推算期间醒来的宠物清除睡眠结束时间，离家出走的宠物同时标记为非活跃
+   * 
+   * @param state 推算后的状态
+   * @param now 推算到的时间点
+   * @returns 更新操作
+   */
+  private toStateUpdate(state: EvaluatedPetState, now: Date): UpdateQuery<PetDocument> {
+    const { ranAwayAt, neglectedSince, wokeAt, ...vitals } = state;
+    const update: UpdateQuery<PetDocument> = { $set: { ...vitals, lastEvaluatedAt: now } };
+    const unset: Record<string, 1> = {};
+
+    if (neglectedSince) {
+      update.$set.neglectedSince = neglectedSince;
+    } else {
+      unset.neglectedSince = 1;
+    }
+    if (wokeAt || ranAwayAt) {
+      unset.sleepingUntil = 1;
+    }
+    if (Object.keys(unset).length > 0) {
+      update.$unset = unset;
+    }
+    if (ranAwayAt) {
+      Object.assign(update.$set, {
+        is_active: false,
+        ranAwayAt,
+        runawayReason: RUNAWAY_REASON_NEGLECT,
       });
     }
+    return update;
   }
 
   /**
-   * 计算宠物状态
+   * 批量推算宠物数值，同一物种的衰减速度只读取一次
    * 
-   * 根据宠物各项数值自动判断当前状态：
-   * - 健康度 < 30：生病状态
-   * - 能量 < 20：睡觉状态
-   * - 饥饿度 < 30：饥饿状态
-   * - 快乐度 > 80 && 健康度 > 80 && 能量 > 60：快乐状态
-   * - 其他情况：活跃状态
+   * @param pets 宠物文档列表
+   * @param now 推算到的时间点
+   * @returns 推算后的宠物文档列表
+   */
+  private async evaluateMany(pets: PetDocument[], now: Date): Promise<PetDocument[]> {
+    const decayRatesByType = new Map<string, SpeciesDecayRates>();
+    const evaluated: PetDocument[] = [];
+
+    for (const pet of pets) {
+      if (!decayRatesByType.has(pet.type)) {
+        const species = await this.speciesService.findByKey(pet.type);
+        decayRatesByType.set(pet.type, species.decayRates);
+      }
+      evaluated.push(await this.evaluate(pet, now, decayRatesByType.get(pet.type)));
+    }
+    return evaluated;
+  }
+
+  /**
+   * 批量在内存中推算宠物数值，不保存推算结果
+   * 托管和探险中的宠物数值冻结，原样返回
    * 
-   * @param hunger 饥饿度 (0-100)
-   * @param health 健康度 (0-100)
-   * @param energy 能量值 (0-100)
-   * @param happiness 快乐度 (0-100)
-   * @returns 计算出的宠物状态
+   * @param pets 宠物文档列表
+   * @param now 推算到的时间点
+   * @returns 推算后的宠物文档列表
    */
+  private async projectMany(pets: PetDocument[], now: Date): Promise<PetDocument[]> {
+    const active = this.rulesService.getActive();
+    const decayRatesByType = new Map<string, SpeciesDecayRates>();
+
+    for (const pet of pets) {
+      if (!pet.is_active || pet.escrow || pet.expedition) {
+        continue;
+      }
+      if (!decayRatesByType.has(pet.type)) {
+        const species = await this.speciesService.findByKey(pet.type);
+        decayRatesByType.set(pet.type, species.decayRates);
+      }
+      const { decayReduction } = combineEquipment((await this.resolveEquipment(pet)).map(({ item }) => item));
+      const state = this.projectState(
+        pet,
+        decayRatesByType.get(pet.type),
+        decayReduction,
+        active,
+        pet.lastEvaluatedAt ?? now,
+        now,
+      );
+      this.applyProjection(pet, state);
+    }
+    return pets;
+  }
+
+  /**
+   * 把推算结果写到内存中的宠物文档上，不保存
+   */
+  private applyProjection(pet: PetDocument, state: EvaluatedPetState): void {
+    pet.set({
+      health: state.health,
+      hunger: state.hunger,
+      happiness: state.happiness,
+      energy: state.energy,
+      status: state.status,
+      sleepingUntil: state.wokeAt || state.ranAwayAt ? null : pet.sleepingUntil,
+    });
+    if (state.ranAwayAt) {
+      pet.set({ is_active: false, ranAwayAt: state.ranAwayAt });
+    }
+  }
+
   /**
-   * 计算宠物状态
+   * 保存交互后的宠物数值，并把 lastEvaluatedAt 推进到交互时间
+   * 数值恢复到忽视阈值以上时清空忽视起始时间，仍处于长期忽视的宠物保持病危状态。
+   * 保存后记录一条数值快照，状态或等级变化时发出对应的事件
    * 
-   * 根据宠物各项数值自动判断当前状态：
-   * - 健康度 < 30：生病状态
-   * - 能量 < 20：睡觉状态
-   * - 饥饿度 < 30：饥饿状态
-   * - 快乐度 > 80 && 健康度 > 80 && 能量 > 60：快乐状态
-   * - 其他情况：活跃状态
+   * @param pet 已推算到当前时间的宠物文档
+   * @param changes 需要更新的字段
+   * @param now 交互时间
+   * @param source 记录数值历史时的来源
+   * @param active 本次交互使用的游戏规则，版本号记录在宠物和数值快照上
+   * @returns 更新后的宠物对象
+   */
+  private async saveState(
+    pet: PetDocument,
+    changes: Partial<Pet>,
+    now: Date,
+    source: PetStatSource,
+    active: ActiveGameRules,
+  ): Promise<PetDocument | null> {
+    const neglect = applyNeglect(
+      {
+        hunger: changes.hunger ?? pet.hunger,
+        health: changes.health ?? pet.health,
+        happiness: changes.happiness ?? pet.happiness,
+      },
+      changes.status ?? pet.status,
+      pet.neglectedSince,
+      now,
+      active.rules.neglect,
+    );
+
+    const update: UpdateQuery<PetDocument> = {
+      $set: {
+        ...changes,
+        status: neglect.status,
+        lastEvaluatedAt: now,
+        rulesVersion: active.version,
+      },
+    };
+    if (neglect.neglectedSince) {
+      update.$set.neglectedSince = neglect.neglectedSince;
+    } else {
+      update.$unset = { neglectedSince: 1 };
+    }
+
+    const updated = await this.petModel.findByIdAndUpdate(pet._id, update, { new: true }).exec();
+
+    if (updated) {
+      await this.petHistoryService.record(String(updated._id), updated, source, now, active.version);
+      this.emitStatusChange(updated, pet.status, now);
+      this.emitLevelUp(updated, pet.level, now);
+    }
+    return updated;
+  }
+
+  /**
+   * 保存新宠物，保存失败时释放已占用的宠物栏位
+   * 
+   * @param pet 新宠物文档
+   * @param userId 宠物主人的用户ID
+   * @returns 保存后的宠物文档
+   */
+  private async saveNewPet(pet: PetDocument, userId: string): Promise<PetDocument> {
+    try {
+      return await pet.save();
+    } catch (error) {
+      await this.releasePetSlot(userId);
+      throw error;
+    }
+  }
+
+  /**
+   * 计算离家出走宠物的找回截止时间
+   */
+  private recoveryDeadline(pet: Pet, graceDays: number): Date {
+    return new Date(pet.ranAwayAt.getTime() + graceDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * 发出获得新宠物事件
+   * 
+   * @param pet 新创建的宠物文档
+   * @param via 获得方式
+   * @param at 获得时间
+   */
+  private emitCreated(pet: PetDocument, via: PetAcquisition, at: Date): void {
+    this.eventEmitter.emit(
+      PET_EVENTS.CREATED,
+      new PetCreatedEvent(String(pet._id), pet.userId, pet.type, via, at),
+    );
+  }
+
+  /**
+   * 交互成功后发出宠物交互事件
+   * 
+   * @param pet 交互后的宠物文档，保存失败时为 null
+   * @param action 交互类型
+   * @param at 交互时间
+   */
+  private emitInteraction(pet: PetDocument | null, action: PetInteraction, at: Date): void {
+    if (!pet) {
+      return;
+    }
+    this.eventEmitter.emit(
+      PET_EVENTS.INTERACTED,
+      new PetInteractedEvent(String(pet._id), pet.userId, pet.type, action, at),
+    );
+  }
+
+  /**
+   * 等级提升时发出宠物升级事件
    * 
-   * @param hunger 饥饿度 (0-100)
-   * @param health 健康度 (0-100)
-   * @param energy 能量值 (0-100)
-   * @param happiness 快乐度 (0-100)
-   * @returns 计算出的宠物状态
+   * @param pet 更新后的宠物文档
+   * @param previous 更新前的等级
+   * @param at 升级时间
    */
-  private calculatePetStatus(hunger: number, health: number, energy: number, happiness: number): PetStatus {
-    if (health < 30) return PetStatus.SICK;
-    if (energy < 20) return PetStatus.SLEEPING;
-    if (hunger < 30) return PetStatus.HUNGRY;
-    if (happiness > 80 && health > 80 && energy > 60) return PetStatus.HAPPY;
-    return PetStatus.ACTIVE;
+  private emitLevelUp(pet: PetDocument, previous: number, at: Date): void {
+    if (pet.level <= previous) {
+      return;
+    }
+    this.eventEmitter.emit(
+      PET_EVENTS.LEVELED_UP,
+      new PetLeveledUpEvent(String(pet._id), pet.userId, previous, pet.level, at),
+    );
   }
 
-  async getPetTypes(): Promise<string[]> {
-    return Object.values(PetType);
+  /**
+   * 状态发生变化时发出宠物状态变化事件
+   * 
+   * @param pet 更新后的宠物文档
+   * @param previous 更新前的状态
+   * @param at 变化发生的时间
+   */
+  private emitStatusChange(pet: PetDocument, previous: PetStatus, at: Date): void {
+    if (pet.status === previous) {
+      return;
+    }
+    this.eventEmitter.emit(
+      PET_EVENTS.STATUS_CHANGED,
+      new PetStatusChangedEvent(String(pet._id), pet.userId, previous, pet.status, at),
+    );
+  }
+
+  /**
+   * 按每日经验上限截取本次获得的经验
+   * 
+   * @param pet 宠物文档
+   * @param experience 本次应获得的经验值，已按世界事件倍率调整
+   * @param now 获得经验的时间，决定计入哪一天
+   * @param cap 每日经验上限
+   * @returns 实际获得的经验值，以及写回宠物的当日累计经验和日期
+   */
+  private capDailyExperience(
+    pet: PetDocument,
+    experience: number,
+    now: Date,
+    cap: number,
+  ): { experience: number; dailyExperience: number; dailyExperienceDate: string } {
+    const dayKey = experienceDayKey(now);
+    const earnedToday = pet.dailyExperienceDate === dayKey ? pet.dailyExperience : 0;
+    const gained = Math.min(Math.max(0, experience), Math.max(0, cap - earnedToday));
+    return { experience: gained, dailyExperience: earnedToday + gained, dailyExperienceDate: dayKey };
+  }
+
+  /**
+   * 根据游戏规则中物种的成长曲线计算等级
+   * 
+   * @param type 物种标识
+   * @param experience 累计经验值
+   * @param rules 当前生效的游戏规则
+   * @returns 等级
+   */
+  private calculateLevel(type: string, experience: number, rules: GameRules): number {
+    return levelForExperience(growthCurveFor(rules.growth, type), experience);
+  }
+
+  /**
+   * 获取物种目录
+   * 
+   * @returns 所有可用物种的完整定义（初始数值、衰减速度、喜爱的食物、成长曲线）
+   */
+  async getPetTypes(): Promise<Species[]> {
+    return this.speciesService.findAll();
   }
 }
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type PetStatSnapshotDocument = PetStatSnapshot & Document;
+
+/**
+ * 产生数值快照的来源
+ */
+export enum PetStatSource {
+  FEED = 'feed',
+  PLAY = 'play',
+  SLEEP = 'sleep',
+  WAKE = 'wake',
+  HEAL = 'heal',
+  DECAY = 'decay',
+  BATTLE = 'battle',
+  RECOVER = 'recover',
+  EXPEDITION = 'expedition',
+  UPDATE = 'update',
+}
+
+/** 快照保留的天数，过期后由 TTL 索引自动删除 */
+export const PET_STAT_SNAPSHOT_RETENTION_DAYS = 180;
+
+/**
+ * 宠物数值快照
+ * 每次交互、战斗和时间衰减结算后记录一条，组成宠物数值的时间序列
+ */
+@Schema({ versionKey: false })
+export class PetStatSnapshot {
+  @Prop({ required: true })
+  petId: string;
+
+  @Prop({ required: true })
+  at: Date;
+
+  @Prop({ required: true, enum: PetStatSource })
+  source: PetStatSource;
+
+  @Prop({ required: true })
+  health: number;
+
+  @Prop({ required: true })
+  hunger: number;
+
+  @Prop({ required: true })
+  happiness: number;
+
+  @Prop({ required: true })
+  energy: number;
+
+  @Prop({ required: true })
+  experience: number;
+
+  @Prop({ required: true })
+  level: number;
+
+  /** 计算数值时使用的游戏规则版本 */
+  @Prop({ required: true })
+  rulesVersion: number;
+}
+
+export const PetStatSnapshotSchema = SchemaFactory.createForClass(PetStatSnapshot);
+
+PetStatSnapshotSchema.index({ petId: 1, at: 1 });
+PetStatSnapshotSchema.index(
+  { at: 1 },
+  { expireAfterSeconds: PET_STAT_SNAPSHOT_RETENTION_DAYS * 24 * 60 * 60 },
+);
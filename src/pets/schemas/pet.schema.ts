@@ -3,17 +3,135 @@ import { Document } from "mongoose";
 
 export type PetDocument = Pet & Document;
 
-export enum PetType {
-  FISH = "fish",
-  CAT = "cat",
-}
-
 export enum PetStatus {
   ACTIVE = "active",
   SLEEPING = "sleeping",
   SICK = "sick",
   HAPPY = "happy",
   HUNGRY = "hungry",
+  CRITICAL = "critical",
+}
+
+/**
+ * 宠物性格，创建时随机生成，影响交互效果、衰减速度和战斗属性，见 personality.ts
+ */
+export enum PetTrait {
+  GLUTTON = "glutton",
+  LAZY = "lazy",
+  PLAYFUL = "playful",
+  SICKLY = "sickly",
+}
+
+/**
+ * 宠物的获得方式
+ */
+export enum PetAcquisition {
+  CREATED = "created",
+  HATCHED = "hatched",
+  PURCHASED = "purchased",
+  TRADED = "traded",
+}
+
+/**
+ * 一次所有权变更记录
+ */
+@Schema({ _id: false })
+export class OwnershipRecord {
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop({ required: true, enum: PetAcquisition })
+  via: PetAcquisition;
+
+  @Prop({ required: true })
+  acquiredAt: Date;
+
+  /** 通过市场获得时对应的挂单 */
+  @Prop()
+  listingId?: string;
+
+  /** 通过市场购买时的成交价 */
+  @Prop()
+  price?: number;
+}
+
+/**
+ * 托管信息
+ * 挂单中的宠物由市场托管，不能参与对战、交互和繁殖
+ */
+@Schema({ _id: false })
+export class PetEscrow {
+  @Prop({ required: true })
+  listingId: string;
+
+  @Prop({ required: true })
+  since: Date;
+}
+
+/**
+ * 探险信息
+ * 探险中的宠物不能参与对战、交互和繁殖，数值在探险期间冻结
+ */
+@Schema({ _id: false })
+export class PetExpedition {
+  @Prop({ required: true })
+  expeditionId: string;
+
+  @Prop({ required: true })
+  returnsAt: Date;
+}
+
+/**
+ * 进化累计获得的战斗属性加成
+ */
+@Schema({ _id: false })
+export class PetStatBonuses {
+  @Prop({ default: 0 })
+  maxHp: number;
+
+  @Prop({ default: 0 })
+  attack: number;
+
+  @Prop({ default: 0 })
+  defense: number;
+
+  @Prop({ default: 0 })
+  speed: number;
+}
+
+/**
+ * 宠物各装备栏位上的道具 key，空栏位不设置
+ */
+@Schema({ _id: false })
+export class PetEquipment {
+  @Prop()
+  hat?: string;
+
+  @Prop()
+  collar?: string;
+
+  @Prop()
+  toy?: string;
+}
+
+/**
+ * 一次进化记录
+ */
+@Schema({ _id: false })
+export class EvolutionRecord {
+  /** 进化前的阶段，物种新增进化链前创建的宠物为空 */
+  @Prop()
+  from?: string;
+
+  @Prop({ required: true })
+  to: string;
+
+  /** 进化时的等级 */
+  @Prop({ required: true })
+  level: number;
+
+  @Prop({ required: true })
+  evolvedAt: Date;
 }
 
 @Schema({ timestamps: true })
@@ -21,12 +139,31 @@ export class Pet {
   @Prop({ required: true })
   name: string;
 
-  @Prop({ required: true, enum: PetType })
-  type: PetType;
+  /** 物种标识，对应物种注册表中的 Species.key */
+  @Prop({ required: true })
+  type: string;
 
   @Prop({ required: true })
   userId: string;
 
+  /** 当前进化阶段，对应物种进化链中的 EvolutionStage.key */
+  @Prop()
+  stage?: string;
+
+  @Prop({ type: PetStatBonuses, default: () => ({}) })
+  statBonuses: PetStatBonuses;
+
+  @Prop({ type: [EvolutionRecord], default: [] })
+  evolutionHistory: EvolutionRecord[];
+
+  /** 父母宠物ID，通过繁殖孵化的宠物才有 */
+  @Prop({ type: [String], default: [] })
+  parentIds: string[];
+
+  /** 世代，直接创建的宠物为第1代，孵化的宠物比父母中世代较高者多1 */
+  @Prop({ default: 1 })
+  generation: number;
+
   @Prop({ default: 1 })
   level: number;
 
@@ -48,18 +185,57 @@ export class Pet {
   @Prop({ default: PetStatus.ACTIVE, enum: PetStatus })
   status: PetStatus;
 
-  @Prop({ default: Date.now })
-  lastFed: Date;
+  /** 上次喂食时间，从未喂食时为空，用于计算喂食冷却 */
+  @Prop()
+  lastFed?: Date;
 
-  @Prop({ default: Date.now })
-  lastPlayed: Date;
+  /** 上次玩耍时间，从未玩耍时为空，用于计算玩耍冷却 */
+  @Prop()
+  lastPlayed?: Date;
+
+  /** 上次睡觉时间，从未睡觉时为空，用于计算睡觉冷却 */
+  @Prop()
+  lastSlept?: Date;
+
+  /** 上次繁殖时间，用于计算繁殖冷却 */
+  @Prop()
+  lastBredAt?: Date;
 
+  /** dailyExperienceDate 当天通过交互获得的经验值 */
+  @Prop({ default: 0 })
+  dailyExperience: number;
+
+  /** dailyExperience 统计的日期（YYYY-MM-DD） */
+  @Prop()
+  dailyExperienceDate?: string;
+
+  /** 上次按时间衰减计算并保存数值的时间，之后的衰减从该时间点开始推算 */
   @Prop({ default: Date.now })
-  lastSlept: Date;
+  lastEvaluatedAt: Date;
+
+  /** 性格，创建时生成后不再改变 */
+  @Prop({ type: [String], enum: PetTrait, default: [] })
+  traits: PetTrait[];
+
+  /** 已学会的招式 */
+  @Prop({ type: [String], default: [] })
+  moves: string[];
+
+  /** 战斗中使用的招式，最多 4 个，按装备顺序排列 */
+  @Prop({ type: [String], default: [] })
+  equippedMoves: string[];
+
+  /** 最近一次交互结算时使用的游戏规则版本 */
+  @Prop()
+  rulesVersion?: number;
 
   @Prop()
   avatar?: string;
 
+  /** 已装备的装饰品和装备，装备期间道具不在背包中 */
+  @Prop({ type: PetEquipment, default: () => ({}) })
+  equipment: PetEquipment;
+
   @Prop({ default: 0 })
   battlesWon: number;
 
@@ -68,6 +244,37 @@ export class Pet {
 
   @Prop({ default: true })
   is_active: boolean;
+
+  /** 挂单托管信息，未挂单时为空 */
+  @Prop({ type: PetEscrow })
+  escrow?: PetEscrow;
+
+  /** 探险信息，未在探险时为空 */
+  @Prop({ type: PetExpedition })
+  expedition?: PetExpedition;
+
+  /** 睡眠结束时间，醒着时为空 */
+  @Prop()
+  sleepingUntil?: Date;
+
+  @Prop({ type: [OwnershipRecord], default: [] })
+  ownershipHistory: OwnershipRecord[];
+
+  /** 数值持续过低（被忽视）的起始时间，数值恢复后清空 */
+  @Prop()
+  neglectedSince?: Date;
+
+  /** 因长期被忽视离家出走的时间，离家出走的宠物 is_active 为 false */
+  @Prop()
+  ranAwayAt?: Date;
+
+  /** 离家出走的原因 */
+  @Prop()
+  runawayReason?: string;
 }
 
 export const PetSchema = SchemaFactory.createForClass(Pet);
+
+PetSchema.index({ is_active: 1, escrow: 1, expedition: 1, lastEvaluatedAt: 1 });
+PetSchema.index({ parentIds: 1 });
+PetSchema.index({ userId: 1, ranAwayAt: -1 });
@@ -0,0 +1,122 @@
+import { ResetPeriod } from '../common/utils/period';
+
+/**
+ * 计入任务进度的游戏行为
+ */
+export enum QuestAction {
+  FEED = 'feed',
+  PLAY = 'play',
+  SLEEP = 'sleep',
+  BATTLE = 'battle',
+  BATTLE_WIN = 'battle_win',
+}
+
+/**
+ * 任务模板
+ * 每个周期开始时从对应周期的模板中为每个用户抽取若干个生成任务
+ */
+export interface QuestTemplate {
+  key: string;
+  period: ResetPeriod;
+  name: string;
+  action: QuestAction;
+  /** 只统计该物种宠物的行为，为空时不限物种 */
+  petType?: string;
+  target: number;
+  reward: { coins: number; experience: number };
+}
+
+export const QUEST_TEMPLATES: QuestTemplate[] = [
+  // 每日任务
+  {
+    key: 'daily_feed_3',
+    period: ResetPeriod.DAILY,
+    name: '喂食 3 次',
+    action: QuestAction.FEED,
+    target: 3,
+    reward: { coins: 20, experience: 20 },
+  },
+  {
+    key: 'daily_play_3',
+    period: ResetPeriod.DAILY,
+    name: '陪宠物玩耍 3 次',
+    action: QuestAction.PLAY,
+    target: 3,
+    reward: { coins: 20, experience: 20 },
+  },
+  {
+    key: 'daily_play_cat',
+    period: ResetPeriod.DAILY,
+    name: '陪猫玩耍 2 次',
+    action: QuestAction.PLAY,
+    petType: 'cat',
+    target: 2,
+    reward: { coins: 25, experience: 25 },
+  },
+  {
+    key: 'daily_play_dog',
+    period: ResetPeriod.DAILY,
+    name: '陪狗玩耍 2 次',
+    action: QuestAction.PLAY,
+    petType: 'dog',
+    target: 2,
+    reward: { coins: 25, experience: 25 },
+  },
+  {
+    key: 'daily_sleep_2',
+    period: ResetPeriod.DAILY,
+    name: '哄宠物睡觉 2 次',
+    action: QuestAction.SLEEP,
+    target: 2,
+    reward: { coins: 15, experience: 15 },
+  },
+  {
+    key: 'daily_battle_1',
+    period: ResetPeriod.DAILY,
+    name: '进行 1 场对战',
+    action: QuestAction.BATTLE,
+    target: 1,
+    reward: { coins: 20, experience: 20 },
+  },
+  {
+    key: 'daily_win_1',
+    period: ResetPeriod.DAILY,
+    name: '赢得 1 场对战',
+    action: QuestAction.BATTLE_WIN,
+    target: 1,
+    reward: { coins: 30, experience: 30 },
+  },
+  // 每周任务
+  {
+    key: 'weekly_feed_20',
+    period: ResetPeriod.WEEKLY,
+    name: '本周喂食 20 次',
+    action: QuestAction.FEED,
+    target: 20,
+    reward: { coins: 120, experience: 100 },
+  },
+  {
+    key: 'weekly_play_20',
+    period: ResetPeriod.WEEKLY,
+    name: '本周陪宠物玩耍 20 次',
+    action: QuestAction.PLAY,
+    target: 20,
+    reward: { coins: 120, experience: 100 },
+  },
+  {
+    key: 'weekly_battle_10',
+    period: ResetPeriod.WEEKLY,
+    name: '本周进行 10 场对战',
+    action: QuestAction.BATTLE,
+    target: 10,
+    reward: { coins: 150, experience: 120 },
+  },
+  {
+    key: 'weekly_win_5',
+    period: ResetPeriod.WEEKLY,
+    name: '本周赢得 5 场对战',
+    action: QuestAction.BATTLE_WIN,
+    target: 5,
+    reward: { coins: 200, experience: 150 },
+  },
+];
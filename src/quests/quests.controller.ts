@@ -0,0 +1,39 @@
+import { Controller, Get, Post, Param } from '@nestjs/common';
+import { QuestsService } from './quests.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+/**
+ * 任务控制器
+ * 提供每日、每周任务查询和领取奖励的RESTful API接口
+ * 
+ * 路径前缀: /quests
+ */
+@Controller('quests')
+export class QuestsController {
+  constructor(private readonly questsService: QuestsService) {}
+
+  /**
+   * 获取我的任务面板
+   * GET /quests
+   * 
+   * @param userId 当前认证用户ID
+   * @returns 当前的每日任务和每周任务，包含进度、状态和重置时间
+   */
+  @Get()
+  getBoard(@CurrentUser('id') userId: string) {
+    return this.questsService.getBoard(userId);
+  }
+
+  /**
+   * 领取任务奖励
+   * POST /quests/:id/claim
+   * 
+   * @param userId 当前认证用户ID
+   * @param id 任务ID
+   * @returns 已领取的任务
+   */
+  @Post(':id/claim')
+  claim(@CurrentUser('id') userId: string, @Param('id') id: string) {
+    return this.questsService.claim(userId, id);
+  }
+}
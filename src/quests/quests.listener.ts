@@ -0,0 +1,56 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { QuestsService } from './quests.service';
+import { QuestAction } from './quest-templates';
+import { PET_EVENTS, PetInteractedEvent } from '../pets/events/pet.events';
+import { BATTLE_EVENTS, BattleFinishedEvent } from '../battles/events/battle.events';
+
+/** 计入任务进度的交互类型 */
+const INTERACTION_ACTIONS: Partial<Record<PetInteractedEvent['action'], QuestAction>> = {
+  feed: QuestAction.FEED,
+  play: QuestAction.PLAY,
+  sleep: QuestAction.SLEEP,
+};
+
+/**
+ * 任务事件监听
+ *
+ * 把宠物交互和对战的应用内事件转换为任务进度，处理失败只记录日志，不影响原请求
+ */
+@Injectable()
+export class QuestsListener {
+  private readonly logger = new Logger(QuestsListener.name);
+
+  constructor(private readonly questsService: QuestsService) {}
+
+  @OnEvent(PET_EVENTS.INTERACTED)
+  async onPetInteracted(event: PetInteractedEvent): Promise<void> {
+    const action = INTERACTION_ACTIONS[event.action];
+    if (action) {
+      await this.track(event.userId, action, event.petType, event.at);
+    }
+  }
+
+  @OnEvent(BATTLE_EVENTS.FINISHED)
+  async onBattleFinished(event: BattleFinishedEvent): Promise<void> {
+    await this.track(event.winnerUserId, QuestAction.BATTLE, undefined, event.at);
+    await this.track(event.winnerUserId, QuestAction.BATTLE_WIN, undefined, event.at);
+    await this.track(event.loserUserId, QuestAction.BATTLE, undefined, event.at);
+  }
+
+  private async track(
+    userId: string,
+    action: QuestAction,
+    petType: string | undefined,
+    at: Date,
+  ): Promise<void> {
+    try {
+      await this.questsService.recordProgress(userId, action, petType, at);
+    } catch (error) {
+      this.logger.error(
+        `Failed to record quest progress ${action} for user ${userId}`,
+        error instanceof Error ? error.stack : error,
+      );
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Quest, QuestSchema } from './schemas/quest.schema';
+import { QuestsService } from './quests.service';
+import { QuestsListener } from './quests.listener';
+import { QuestsController } from './quests.controller';
+import { UsersModule } from '../users/users.module';
+import { CoinsModule } from '../coins/coins.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: Quest.name, schema: QuestSchema }]),
+    UsersModule,
+    CoinsModule,
+  ],
+  providers: [QuestsService, QuestsListener],
+  controllers: [QuestsController],
+  exports: [QuestsService],
+})
+export class QuestsModule {}
@@ -0,0 +1,285 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, PipelineStage } from 'mongoose';
+import { Quest, QuestDocument, QuestStatus } from './schemas/quest.schema';
+import { PeriodWindow, ResetPeriod, periodWindow } from '../common/utils/period';
+import { QUEST_TEMPLATES, QuestAction, QuestTemplate } from './quest-templates';
+import { UsersService } from '../users/users.service';
+import { CoinsService } from '../coins/coins.service';
+import { CoinReason } from '../coins/schemas/coin-transaction.schema';
+import { createRandom } from '../common/utils/random';
+import { gameConfig } from '../config';
+
+/** MongoDB 唯一索引冲突的错误码 */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * 一个周期的任务
+ */
+export interface QuestBoardSection {
+  periodKey: string;
+  /** 本周期结束、任务重置的时间 */
+  resetsAt: Date;
+  quests: Quest[];
+}
+
+/**
+ * 用户的任务面板
+ */
+export interface QuestBoard {
+  daily: QuestBoardSection;
+  weekly: QuestBoardSection;
+}
+
+/**
+ * 任务服务类
+ * 按周期为用户生成每日和每周任务，根据游戏行为累计进度并发放奖励
+ *
+ * 周期边界使用配置文件 game.timezone 指定的时区；
+ * 任务在新周期首次访问或首次产生进度时生成，周期结束时未领取的任务过期
+ */
+@Injectable()
+export class QuestsService {
+  constructor(
+    @InjectModel(Quest.name) private questModel: Model<QuestDocument>,
+    private readonly usersService: UsersService,
+    private readonly coinsService: CoinsService,
+  ) {}
+
+  /**
+   * 获取当前周期的任务面板
+   *
+   * @param userId 用户ID
+   * @returns 当前的每日任务和每周任务，以及各自的重置时间
+   */
+  async getBoard(userId: string): Promise<QuestBoard> {
+    const now = new Date();
+    const windows = this.currentWindows(now);
+    await this.ensureQuests(userId, windows, now);
+
+    const quests = await this.questModel
+      .find({ userId, periodKey: { $in: windows.map((window) => window.key) } })
+      .sort({ createdAt: 1 })
+      .exec();
+    const [daily, weekly] = windows.map((window) => ({
+      periodKey: window.key,
+      resetsAt: window.endsAt,
+      quests: quests.filter((quest) => quest.periodKey === window.key),
+    }));
+    return { daily, weekly };
+  }
+
+  /**
+   * 记录一次游戏行为，推进当前周期中对应的任务
+   * 进度达到目标时任务变为已完成，进度不会超过目标值
+   *
+   * @param userId 用户ID
+   * @param action 游戏行为
+   * @param petType 行为涉及的宠物物种，用于限定物种的任务
+   * @param at 行为发生的时间
+   */
+  async recordProgress(
+    userId: string,
+    action: QuestAction,
+    petType: string | undefined,
+    at: Date,
+  ): Promise<void> {
+    await this.ensureQuests(userId, this.currentWindows(at), at);
+
+    const advance: PipelineStage.Set[] = [
+      { $set: { progress: { $min: [{ $add: ['$progress', 1] }, '$target'] } } },
+      {
+        $set: {
+          status: {
+            $cond: [{ $gte: ['$progress', '$target'] }, QuestStatus.COMPLETED, QuestStatus.ACTIVE],
+          },
+          completedAt: { $cond: [{ $gte: ['$progress', '$target'] }, at, '$$REMOVE'] },
+        },
+      },
+    ];
+    await this.questModel
+      .updateMany(
+        {
+          userId,
+          action,
+          status: QuestStatus.ACTIVE,
+          startsAt: { $lte: at },
+          expiresAt: { $gt: at },
+          petType: { $in: petType ? [null, petType] : [null] },
+        },
+        advance,
+      )
+      .exec();
+  }
+
+  /**
+   * 领取任务奖励
+   *
+   * 以任务已完成且尚未过期作为条件原子地标记为已领取，避免重复领取；
+   * 之后分别发放金币和用户经验，每一部分只发放一次。发放中断时任务保持已领取，
+   * 再次领取（即使周期已结束）只补发未发放的部分
+   *
+   * @param userId 当前用户ID
+   * @param questId 任务ID
+   * @returns 已领取的任务
+   * @throws NotFoundException 当任务不存在或不属于当前用户时
+   * @throws BadRequestException 当任务未完成、已过期或已领取时
+   */
+  async claim(userId: string, questId: string): Promise<Quest> {
+    const quest = await this.questModel.findOne({ _id: questId, userId }).exec();
+    if (!quest) {
+      throw new NotFoundException('Quest not found');
+    }
+
+    const now = new Date();
+    if (quest.status === QuestStatus.CLAIMED) {
+      if (!quest.rewardPending) {
+        throw new BadRequestException('Quest rewards have already been claimed');
+      }
+      await this.payReward(quest);
+      return this.questModel.findById(quest._id).exec();
+    }
+    if (quest.status === QuestStatus.EXPIRED || quest.expiresAt <= now) {
+      throw new BadRequestException(`Quest expired at ${quest.expiresAt.toISOString()}`);
+    }
+    if (quest.status !== QuestStatus.COMPLETED) {
+      throw new BadRequestException(`Quest is not completed yet (${quest.progress}/${quest.target})`);
+    }
+
+    const claimed = await this.questModel
+      .findOneAndUpdate(
+        { _id: quest._id, status: QuestStatus.COMPLETED, expiresAt: { $gt: now } },
+        { $set: { status: QuestStatus.CLAIMED, claimedAt: now, rewardPending: true } },
+        { new: true },
+      )
+      .exec();
+    if (!claimed) {
+      throw new BadRequestException('Quest rewards have already been claimed');
+    }
+
+    await this.payReward(claimed);
+    return this.questModel.findById(quest._id).exec();
+  }
+
+  /**
+   * 发放已领取任务中尚未发放的奖励
+   *
+   * 每一部分奖励先原子地记入 paidRewards 再发放，并发领取时每一部分只会发放一次；
+   * 发放失败时撤回这一部分的记录、重新标记为待发放并抛出异常，已发放的部分保留
+   */
+  private async payReward(quest: QuestDocument): Promise<void> {
+    const { coins, experience } = quest.reward;
+    const parts: { key: string; pay: () => Promise<unknown> }[] = [];
+    if (coins > 0) {
+      parts.push({
+        key: 'coins',
+        pay: () =>
+          this.coinsService.credit(quest.userId, coins, CoinReason.QUEST_REWARD, {
+            type: 'quest',
+            id: String(quest._id),
+            note: quest.name,
+          }),
+      });
+    }
+    if (experience > 0) {
+      parts.push({ key: 'experience', pay: () => this.usersService.addExperience(quest.userId, experience) });
+    }
+
+    for (const part of parts) {
+      const claimed = await this.questModel
+        .updateOne({ _id: quest._id, paidRewards: { $ne: part.key } }, { $addToSet: { paidRewards: part.key } })
+        .exec();
+      if (claimed.modifiedCount === 0) {
+        continue;
+      }
+      try {
+        await part.pay();
+      } catch (error) {
+        await this.questModel
+          .updateOne({ _id: quest._id }, { $pull: { paidRewards: part.key }, $set: { rewardPending: true } })
+          .exec();
+        throw error;
+      }
+    }
+
+    await this.questModel
+      .updateOne(
+        { _id: quest._id, paidRewards: { $all: parts.map((part) => part.key) } },
+        { $set: { rewardPending: false } },
+      )
+      .exec();
+  }
+
+  private currentWindows(at: Date): PeriodWindow[] {
+    const { timezone } = gameConfig;
+    return [
+      periodWindow(ResetPeriod.DAILY, at, timezone),
+      periodWindow(ResetPeriod.WEEKLY, at, timezone),
+    ];
+  }
+
+  /**
+   * 将过期的任务标记为已过期，并为还没有任务的周期生成任务
+   *
+   * 同一用户和周期抽取的模板由随机种子决定，并发生成时结果相同，
+   * 重复写入由 (userId, templateKey, periodKey) 唯一索引拒绝
+   */
+  private async ensureQuests(userId: string, windows: PeriodWindow[], now: Date): Promise<void> {
+    await this.questModel
+      .updateMany(
+        {
+          userId,
+          status: { $in: [QuestStatus.ACTIVE, QuestStatus.COMPLETED] },
+          expiresAt: { $lte: now },
+        },
+        { $set: { status: QuestStatus.EXPIRED } },
+      )
+      .exec();
+
+    for (const window of windows) {
+      const existing = await this.questModel.exists({ userId, periodKey: window.key });
+      if (existing) {
+        continue;
+      }
+
+      const templates = this.pickTemplates(window.period, `${userId}:${window.key}`);
+      try {
+        await this.questModel.insertMany(
+          templates.map((template) => ({
+            userId,
+            templateKey: template.key,
+            period: window.period,
+            periodKey: window.key,
+            name: template.name,
+            action: template.action,
+            petType: template.petType,
+            target: template.target,
+            reward: template.reward,
+            startsAt: window.startsAt,
+            expiresAt: window.endsAt,
+          })),
+          { ordered: false },
+        );
+      } catch (error) {
+        if ((error as { code?: number }).code !== DUPLICATE_KEY_ERROR) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * 从周期对应的模板中随机抽取任务，数量由配置文件决定
+   */
+  private pickTemplates(period: ResetPeriod, seed: string): QuestTemplate[] {
+    const count =
+      period === ResetPeriod.DAILY ? gameConfig.quests.dailyCount : gameConfig.quests.weeklyCount;
+    const random = createRandom(seed);
+    const pool = QUEST_TEMPLATES.filter((template) => template.period === period);
+    for (let i = pool.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool.slice(0, count);
+  }
+}
@@ -0,0 +1,98 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { ResetPeriod } from '../../common/utils/period';
+import { QuestAction } from '../quest-templates';
+
+export type QuestDocument = Quest & Document;
+
+/**
+ * 任务状态
+ * - active: 进行中
+ * - completed: 已完成，等待领取奖励
+ * - claimed: 已领取奖励
+ * - expired: 周期结束前没有领取，已过期
+ */
+export enum QuestStatus {
+  ACTIVE = 'active',
+  COMPLETED = 'completed',
+  CLAIMED = 'claimed',
+  EXPIRED = 'expired',
+}
+
+/**
+ * 任务奖励，领取时发放给用户
+ */
+@Schema({ _id: false })
+export class QuestReward {
+  @Prop({ default: 0 })
+  coins: number;
+
+  @Prop({ default: 0 })
+  experience: number;
+}
+
+/**
+ * 用户任务
+ * 每个周期开始后首次访问时由任务模板生成，周期结束时未领取的任务过期
+ */
+@Schema({ timestamps: true })
+export class Quest {
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop({ required: true })
+  templateKey: string;
+
+  @Prop({ required: true, enum: ResetPeriod })
+  period: ResetPeriod;
+
+  /** 周期标识，见 periodWindow */
+  @Prop({ required: true })
+  periodKey: string;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ required: true, enum: QuestAction })
+  action: QuestAction;
+
+  @Prop()
+  petType?: string;
+
+  @Prop({ required: true })
+  target: number;
+
+  @Prop({ default: 0 })
+  progress: number;
+
+  @Prop({ type: QuestReward, required: true })
+  reward: QuestReward;
+
+  @Prop({ required: true })
+  startsAt: Date;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop({ default: QuestStatus.ACTIVE, enum: QuestStatus })
+  status: QuestStatus;
+
+  @Prop()
+  completedAt?: Date;
+
+  @Prop()
+  claimedAt?: Date;
+
+  /** 已领取但奖励还没有全部发放，再次领取时补发未发放的部分 */
+  @Prop({ default: false })
+  rewardPending: boolean;
+
+  /** 已发放的奖励部分：coins、experience */
+  @Prop({ type: [String], default: [] })
+  paidRewards: string[];
+}
+
+export const QuestSchema = SchemaFactory.createForClass(Quest);
+
+QuestSchema.index({ userId: 1, templateKey: 1, periodKey: 1 }, { unique: true });
+QuestSchema.index({ userId: 1, status: 1, expiresAt: 1 });
@@ -0,0 +1,11 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * 加入排位赛队列
+ * - petId: 参赛的宠物，必须属于当前用户
+ */
+export class JoinQueueDto {
+  @IsString()
+  @IsNotEmpty()
+  petId: string;
+}
@@ -0,0 +1,15 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Min } from 'class-validator';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+
+/**
+ * 赛季积分榜查询参数
+ * - season: 赛季序号，默认当前赛季
+ */
+export class RankedStandingsQueryDto extends PaginationQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  season?: number;
+}
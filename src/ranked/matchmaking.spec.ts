@@ -0,0 +1,69 @@
+import { findOpponent, MatchmakingWindowConfig, QueueEntry, searchWindow } from './matchmaking';
+
+const MINUTE = 60 * 1000;
+const now = new Date('2024-05-01T12:00:00Z');
+const config: MatchmakingWindowConfig = {
+  baseRatingWindow: 100,
+  ratingWindowPerMinute: 50,
+  maxRatingWindow: 400,
+  baseLevelWindow: 2,
+  levelWindowPerMinute: 1,
+  maxLevelWindow: 10,
+};
+
+const entry = (overrides: Partial<QueueEntry> = {}): QueueEntry => ({
+  petId: 'pet-1',
+  userId: 'user-1',
+  rating: 1500,
+  level: 10,
+  queuedAt: now,
+  ...overrides,
+});
+
+describe('searchWindow', () => {
+  it('starts at the base window', () => {
+    expect(searchWindow(0, config)).toEqual({ rating: 100, level: 2 });
+    expect(searchWindow(-MINUTE, config)).toEqual({ rating: 100, level: 2 });
+  });
+
+  it('widens with the time waited', () => {
+    expect(searchWindow(3 * MINUTE, config)).toEqual({ rating: 250, level: 5 });
+    expect(searchWindow(1.5 * MINUTE, config)).toEqual({ rating: 175, level: 3 });
+  });
+
+  it('stops widening at the maximum window', () => {
+    expect(searchWindow(60 * MINUTE, config)).toEqual({ rating: 400, level: 10 });
+  });
+});
+
+describe('findOpponent', () => {
+  it('never matches the same pet or another pet of the same player', () => {
+    const candidates = [entry(), entry({ petId: 'pet-2' })];
+
+    expect(findOpponent(entry(), candidates, now, config)).toBeNull();
+  });
+
+  it('picks the closest rating inside the window', () => {
+    const far = entry({ petId: 'pet-2', userId: 'user-2', rating: 1580 });
+    const near = entry({ petId: 'pet-3', userId: 'user-3', rating: 1470 });
+    const outside = entry({ petId: 'pet-4', userId: 'user-4', rating: 1501, level: 13 });
+
+    expect(findOpponent(entry(), [far, near, outside], now, config)).toBe(near);
+  });
+
+  it('prefers the candidate who has waited longer on equal rating gaps', () => {
+    const recent = entry({ petId: 'pet-2', userId: 'user-2', rating: 1550 });
+    const waiting = entry({ petId: 'pet-3', userId: 'user-3', rating: 1450, queuedAt: new Date(now.getTime() - MINUTE) });
+
+    expect(findOpponent(entry(), [recent, waiting], now, config)).toBe(waiting);
+  });
+
+  it('matches a distant rating once either side has waited long enough', () => {
+    const distant = entry({ petId: 'pet-2', userId: 'user-2', rating: 1800 });
+
+    expect(findOpponent(entry(), [distant], now, config)).toBeNull();
+    expect(findOpponent(entry({ queuedAt: new Date(now.getTime() - 4 * MINUTE) }), [distant], now, config)).toBe(
+      distant,
+    );
+  });
+});
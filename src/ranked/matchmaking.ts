@@ -0,0 +1,75 @@
+/**
+ * 匹配窗口配置
+ */
+export interface MatchmakingWindowConfig {
+  baseRatingWindow: number;
+  ratingWindowPerMinute: number;
+  maxRatingWindow: number;
+  baseLevelWindow: number;
+  levelWindowPerMinute: number;
+  maxLevelWindow: number;
+}
+
+/**
+ * 排队中的宠物
+ */
+export interface QueueEntry {
+  petId: string;
+  userId: string;
+  rating: number;
+  level: number;
+  queuedAt: Date;
+}
+
+/**
+ * 按等待时间计算允许的积分差和等级差，等待越久窗口越宽，达到上限后不再扩大
+ *
+ * @param waitedMs 已等待的毫秒数
+ * @param config 窗口配置
+ * @returns 允许的积分差和等级差
+ */
+export function searchWindow(waitedMs: number, config: MatchmakingWindowConfig): { rating: number; level: number } {
+  const minutes = Math.max(0, waitedMs) / 60000;
+  return {
+    rating: Math.min(config.maxRatingWindow, config.baseRatingWindow + config.ratingWindowPerMinute * minutes),
+    level: Math.min(config.maxLevelWindow, config.baseLevelWindow + Math.floor(config.levelWindowPerMinute * minutes)),
+  };
+}
+
+/**
+ * 为排队中的宠物选择对手
+ *
+ * 按双方中等待较久的一方计算匹配窗口，不会匹配同一位玩家的宠物。
+ * 窗口内的候选按积分差从小到大选择，积分差相同时选择等待更久的
+ *
+ * @param entry 需要匹配的宠物
+ * @param candidates 其他排队中的宠物
+ * @param now 当前时间
+ * @param config 窗口配置
+ * @returns 选中的对手，没有合适的对手时为 null
+ */
+export function findOpponent<T extends QueueEntry>(
+  entry: QueueEntry,
+  candidates: T[],
+  now: Date,
+  config: MatchmakingWindowConfig,
+): T | null {
+  let best: T | null = null;
+  for (const candidate of candidates) {
+    if (candidate.petId === entry.petId || candidate.userId === entry.userId) {
+      continue;
+    }
+    const earliest = Math.min(entry.queuedAt.getTime(), candidate.queuedAt.getTime());
+    const window = searchWindow(now.getTime() - earliest, config);
+    const ratingGap = Math.abs(candidate.rating - entry.rating);
+    if (ratingGap > window.rating || Math.abs(candidate.level - entry.level) > window.level) {
+      continue;
+    }
+
+    const bestGap = best ? Math.abs(best.rating - entry.rating) : Infinity;
+    if (ratingGap < bestGap || (ratingGap === bestGap && candidate.queuedAt < best.queuedAt)) {
+      best = candidate;
+    }
+  }
+  return best;
+}
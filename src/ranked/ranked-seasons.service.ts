@@ -0,0 +1,224 @@
+import { BadRequestException, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import { RankedSeason, RankedSeasonDocument, RankedSeasonStatus } from './schemas/ranked-season.schema';
+import { PetRating, PetRatingDocument } from './schemas/pet-rating.schema';
+import {
+  MatchmakingStatus,
+  MatchmakingTicket,
+  MatchmakingTicketDocument,
+} from './schemas/matchmaking-ticket.schema';
+import { seasonRewardForRank } from './rating';
+import { CoinsService } from '../coins/coins.service';
+import { CoinReason } from '../coins/schemas/coin-transaction.schema';
+import { PetsService } from '../pets/pets.service';
+import { RulesService } from '../rules/rules.service';
+import { gameConfig } from '../config';
+
+/**
+ * 排位赛季服务类
+ * 维护赛季的开始和结束，赛季结束时计算最终排名、发放奖励并开始下一个赛季
+ */
+@Injectable()
+export class RankedSeasonsService implements OnModuleInit {
+  private readonly logger = new Logger(RankedSeasonsService.name);
+
+  constructor(
+    @InjectModel(RankedSeason.name) private seasonModel: Model<RankedSeasonDocument>,
+    @InjectModel(PetRating.name) private ratingModel: Model<PetRatingDocument>,
+    @InjectModel(MatchmakingTicket.name) private ticketModel: Model<MatchmakingTicketDocument>,
+    private readonly coinsService: CoinsService,
+    private readonly petsService: PetsService,
+    private readonly rulesService: RulesService,
+  ) {}
+
+  /**
+   * 启动时创建第 1 个赛季，已有赛季时不做修改
+   */
+  async onModuleInit(): Promise<void> {
+    const now = new Date();
+    const seeded = await this.seasonModel
+      .updateOne(
+        {},
+        { $setOnInsert: { number: 1, startsAt: now, endsAt: this.seasonEnd(now), status: RankedSeasonStatus.ACTIVE } },
+        { upsert: true },
+      )
+      .exec();
+    if (seeded.upsertedCount > 0) {
+      this.logger.log('Started ranked season 1');
+    }
+  }
+
+  /**
+   * 获取最近的赛季
+   *
+   * @returns 进行中的赛季，正在结算时为正在结算的赛季
+   */
+  async getCurrent(): Promise<RankedSeasonDocument> {
+    return this.seasonModel.findOne().sort({ number: -1 }).exec();
+  }
+
+  /**
+   * 获取进行中的赛季
+   *
+   * @returns 进行中的赛季
+   * @throws BadRequestException 当赛季正在结算时
+   */
+  async getActive(): Promise<RankedSeasonDocument> {
+    const season = await this.getCurrent();
+    if (!season || season.status !== RankedSeasonStatus.ACTIVE) {
+      throw new BadRequestException('Ranked season is being settled, please try again later');
+    }
+    return season;
+  }
+
+  /**
+   * 获取全部赛季
+   *
+   * @returns 按序号倒序排列的赛季
+   */
+  async findAll(): Promise<RankedSeason[]> {
+    return this.seasonModel.find().sort({ number: -1 }).exec();
+  }
+
+  /**
+   * 结束到期的赛季并开始下一个赛季
+   *
+   * 先补发之前结算时发放失败的奖励，再原子地把赛季标记为结算中，多个实例同时执行时只有一个会继续。
+   * 结算中断的赛季在下一次执行时继续结算，排名和奖励发放都可以重复执行
+   *
+   * @param now 当前时间
+   * @param force 为 true 时不等到结束时间，立即结束进行中的赛季
+   * @returns 结束的赛季，没有需要结束的赛季时为 null
+   */
+  async rollover(now: Date, force = false): Promise<RankedSeason | null> {
+    await this.payRewards({ rewardCoins: { $gt: 0 }, rewardPaidAt: null, finalRank: { $ne: null } }, now);
+
+    const settling = await this.seasonModel.findOne({ status: RankedSeasonStatus.SETTLING }).exec();
+    if (settling) {
+      return this.settle(settling, now);
+    }
+
+    const active = await this.seasonModel
+      .findOneAndUpdate(
+        force
+          ? { status: RankedSeasonStatus.ACTIVE }
+          : { status: RankedSeasonStatus.ACTIVE, endsAt: { $lte: now } },
+        { $set: { status: RankedSeasonStatus.SETTLING } },
+        { new: true, sort: { number: -1 } },
+      )
+      .exec();
+    if (!active) {
+      return null;
+    }
+    if (active.endsAt > now) {
+      active.endsAt = now;
+      await this.seasonModel.updateOne({ _id: active._id }, { $set: { endsAt: now } }).exec();
+    }
+    return this.settle(active, now);
+  }
+
+  /**
+   * 结算赛季
+   *
+   * 结算流程：
+   * - 取消该赛季所有等待中的排队
+   * - 场次达到游戏规则中 ranked.rewardMinMatches 的宠物按积分排名（积分相同时按最高积分、最后比赛时间）
+   * - 按排名档位向宠物当前的主人发放金币，每只宠物只发放一次，发放失败的奖励在之后的 rollover 中补发
+   * - 开始下一个赛季并将本赛季标记为已结束
+   */
+  private async settle(season: RankedSeasonDocument, now: Date): Promise<RankedSeason> {
+    const { rewardMinMatches, seasonRewards } = this.rulesService.getActive().rules.ranked;
+
+    await this.ticketModel
+      .updateMany(
+        { season: season.number, status: MatchmakingStatus.WAITING },
+        { $set: { status: MatchmakingStatus.CANCELLED, closedAt: now, reason: 'Season ended' } },
+      )
+      .exec();
+
+    const ranked = await this.ratingModel
+      .find({ season: season.number, $expr: { $gte: [{ $add: ['$wins', '$losses'] }, rewardMinMatches] } })
+      .sort({ rating: -1, peakRating: -1, lastMatchAt: 1 })
+      .select({ _id: 1 })
+      .lean()
+      .exec();
+    if (ranked.length > 0) {
+      await this.ratingModel.bulkWrite(
+        ranked.map((rating, index) => ({
+          updateOne: {
+            filter: { _id: rating._id },
+            update: { $set: { finalRank: index + 1, rewardCoins: seasonRewardForRank(index + 1, seasonRewards) } },
+          },
+        })),
+      );
+    }
+
+    await this.payRewards({ season: season.number, rewardCoins: { $gt: 0 }, rewardPaidAt: null }, now);
+
+    await this.seasonModel
+      .updateOne(
+        { number: season.number + 1 },
+        {
+          $setOnInsert: {
+            startsAt: now,
+            endsAt: this.seasonEnd(now),
+            status: RankedSeasonStatus.ACTIVE,
+          },
+        },
+        { upsert: true },
+      )
+      .exec();
+    const ended = await this.seasonModel
+      .findOneAndUpdate(
+        { _id: season._id },
+        { $set: { status: RankedSeasonStatus.ENDED, settledAt: now } },
+        { new: true },
+      )
+      .exec();
+    this.logger.log(`Ranked season ${season.number} ended with ${ranked.length} ranked pets`);
+    return ended;
+  }
+
+  /**
+   * 发放赛季排名奖励
+   *
+   * 先原子地写入发放时间再发放金币，多个实例同时执行时每只宠物只发放一次；
+   * 金币发给发放时宠物的主人，积分记录中的主人在宠物赛季结束后转让时已经过时，宠物已删除时发给记录中的主人；
+   * 发放失败时清除发放时间，下一次执行时重新发放
+   *
+   * @param filter 待发放的积分记录
+   * @param now 发放时间
+   */
+  private async payRewards(filter: FilterQuery<PetRatingDocument>, now: Date): Promise<void> {
+    const unpaid = await this.ratingModel.find(filter).exec();
+    for (const candidate of unpaid) {
+      const rating = await this.ratingModel
+        .findOneAndUpdate({ _id: candidate._id, rewardPaidAt: null }, { $set: { rewardPaidAt: now } }, { new: true })
+        .exec();
+      if (!rating) {
+        continue;
+      }
+      try {
+        const pet = await this.petsService.findById(rating.petId);
+        await this.coinsService.credit(pet?.userId ?? rating.userId, rating.rewardCoins, CoinReason.RANKED_REWARD, {
+          type: 'ranked_season',
+          id: String(rating.season),
+          note: `Season ${rating.season} rank ${rating.finalRank}`,
+        });
+      } catch (error) {
+        await this.ratingModel
+          .updateOne({ _id: rating._id, rewardPaidAt: now }, { $set: { rewardPaidAt: null } })
+          .exec();
+        this.logger.error(
+          `Failed to pay season ${rating.season} reward for pet ${rating.petId}, will retry`,
+          error instanceof Error ? error.stack : error,
+        );
+      }
+    }
+  }
+
+  private seasonEnd(startsAt: Date): Date {
+    return new Date(startsAt.getTime() + gameConfig.ranked.seasonDays * 24 * 60 * 60 * 1000);
+  }
+}
@@ -0,0 +1,107 @@
+import { Controller, Get, Post, Delete, Param, Body, Query } from '@nestjs/common';
+import { RankedService } from './ranked.service';
+import { RankedSeasonsService } from './ranked-seasons.service';
+import { JoinQueueDto } from './dto/join-queue.dto';
+import { RankedStandingsQueryDto } from './dto/ranked-standings-query.dto';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+/**
+ * 排位赛控制器
+ * 提供排队匹配、赛季、积分榜和宠物积分历史的RESTful API接口
+ * 
+ * 路径前缀: /ranked
+ */
+@Controller('ranked')
+export class RankedController {
+  constructor(
+    private readonly rankedService: RankedService,
+    private readonly seasonsService: RankedSeasonsService,
+  ) {}
+
+  /**
+   * 加入排位赛队列
+   * POST /ranked/queue
+   * 
+   * @param userId 当前认证用户ID，必须是宠物的主人
+   * @param joinQueueDto 参赛的宠物
+   * @returns 排队记录，立即匹配成功时状态为 matched 并包含对战ID
+   */
+  @Post('queue')
+  joinQueue(@CurrentUser('id') userId: string, @Body() joinQueueDto: JoinQueueDto) {
+    return this.rankedService.joinQueue(userId, joinQueueDto.petId);
+  }
+
+  /**
+   * 查询宠物最近一次排队的状态
+   * GET /ranked/queue/:petId
+   * 
+   * @param petId 宠物ID
+   * @returns 排队记录
+   */
+  @Get('queue/:petId')
+  getTicket(@Param('petId') petId: string) {
+    return this.rankedService.getTicket(petId);
+  }
+
+  /**
+   * 离开排位赛队列
+   * DELETE /ranked/queue/:petId
+   * 
+   * @param userId 当前认证用户ID
+   * @param petId 宠物ID
+   * @returns 取消后的排队记录
+   */
+  @Delete('queue/:petId')
+  leaveQueue(@CurrentUser('id') userId: string, @Param('petId') petId: string) {
+    return this.rankedService.leaveQueue(userId, petId);
+  }
+
+  /**
+   * 获取当前赛季
+   * GET /ranked/seasons/current
+   * 
+   * @returns 赛季序号、起止时间和状态
+   */
+  @Get('seasons/current')
+  getCurrentSeason() {
+    return this.seasonsService.getCurrent();
+  }
+
+  /**
+   * 获取赛季积分榜
+   * GET /ranked/standings?season=1&page=1&limit=20
+   * 
+   * @param query 赛季序号和分页参数
+   * @returns 按积分倒序排列的宠物积分
+   */
+  @Get('standings')
+  getStandings(@Query() query: RankedStandingsQueryDto) {
+    return this.rankedService.getStandings(query.season, query.page, query.limit);
+  }
+
+  /**
+   * 获取宠物当前赛季的积分
+   * GET /ranked/pets/:petId
+   * 
+   * @param petId 宠物ID
+   * @returns 积分、最高积分、胜负场次和是否处于定级赛
+   */
+  @Get('pets/:petId')
+  getRating(@Param('petId') petId: string) {
+    return this.rankedService.getRating(petId);
+  }
+
+  /**
+   * 获取宠物的积分历史
+   * GET /ranked/pets/:petId/history?page=1&limit=20
+   * 
+   * @param petId 宠物ID
+   * @param query 分页参数
+   * @returns 按比赛时间倒序排列的积分变化
+   */
+  @Get('pets/:petId/history')
+  getHistory(@Param('petId') petId: string, @Query() query: PaginationQueryDto) {
+    return this.rankedService.getHistory(petId, query.page, query.limit);
+  }
+}
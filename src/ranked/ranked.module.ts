@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { RankedSeason, RankedSeasonSchema } from './schemas/ranked-season.schema';
+import { PetRating, PetRatingSchema } from './schemas/pet-rating.schema';
+import { RatingChange, RatingChangeSchema } from './schemas/rating-change.schema';
+import { MatchmakingTicket, MatchmakingTicketSchema } from './schemas/matchmaking-ticket.schema';
+import { RankedService } from './ranked.service';
+import { RankedSeasonsService } from './ranked-seasons.service';
+import { RankedScheduler } from './ranked.scheduler';
+import { RankedController } from './ranked.controller';
+import { BattlesModule } from '../battles/battles.module';
+import { PetsModule } from '../pets/pets.module';
+import { CoinsModule } from '../coins/coins.module';
+import { RulesModule } from '../rules/rules.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: RankedSeason.name, schema: RankedSeasonSchema },
+      { name: PetRating.name, schema: PetRatingSchema },
+      { name: RatingChange.name, schema: RatingChangeSchema },
+      { name: MatchmakingTicket.name, schema: MatchmakingTicketSchema },
+    ]),
+    BattlesModule,
+    PetsModule,
+    CoinsModule,
+    RulesModule,
+  ],
+  providers: [RankedService, RankedSeasonsService, RankedScheduler],
+  controllers: [RankedController],
+  exports: [RankedService, RankedSeasonsService],
+})
+export class RankedModule {}
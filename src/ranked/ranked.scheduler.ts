@@ -0,0 +1,55 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { RankedService } from './ranked.service';
+import { RankedSeasonsService } from './ranked-seasons.service';
+import { gameConfig } from '../config';
+
+const MATCHMAKING_INTERVAL_NAME = 'ranked-matchmaking';
+
+/**
+ * 排位赛定时任务
+ *
+ * 按配置文件 game.ranked.matchmakingIntervalSeconds 的间隔执行：
+ * 结束到期的赛季，然后为等待中的宠物放宽条件重新匹配
+ */
+@Injectable()
+export class RankedScheduler implements OnApplicationBootstrap {
+  private readonly logger = new Logger(RankedScheduler.name);
+  private running = false;
+
+  constructor(
+    private readonly rankedService: RankedService,
+    private readonly seasonsService: RankedSeasonsService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    const { matchmakingIntervalSeconds } = gameConfig.ranked;
+    const interval = setInterval(() => void this.run(), matchmakingIntervalSeconds * 1000);
+    this.schedulerRegistry.addInterval(MATCHMAKING_INTERVAL_NAME, interval);
+  }
+
+  /**
+   * 执行一次赛季检查和匹配
+   * 上一次执行尚未完成时跳过本次执行
+   */
+  async run(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const now = new Date();
+      await this.seasonsService.rollover(now);
+      const matches = await this.rankedService.matchWaiting(now);
+      if (matches > 0) {
+        this.logger.log(`Played ${matches} ranked matches`);
+      }
+    } catch (error) {
+      this.logger.error('Ranked matchmaking failed', error instanceof Error ? error.stack : error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,474 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { PetRating, PetRatingDocument } from './schemas/pet-rating.schema';
+import { RatingChange, RatingChangeDocument } from './schemas/rating-change.schema';
+import {
+  MatchmakingStatus,
+  MatchmakingTicket,
+  MatchmakingTicketDocument,
+} from './schemas/matchmaking-ticket.schema';
+import { RankedSeasonsService } from './ranked-seasons.service';
+import { nextRating, seasonStartRating } from './rating';
+import { findOpponent } from './matchmaking';
+import { BattlesService } from '../battles/battles.service';
+import { BattleDocument, BattleMode } from '../battles/schemas/battle.schema';
+import { PetsService } from '../pets/pets.service';
+import { PetDocument } from '../pets/schemas/pet.schema';
+import { PaginatedResult } from '../common/dto/pagination-query.dto';
+import { RulesService } from '../rules/rules.service';
+import { gameConfig } from '../config';
+
+/** 每次定时匹配最多处理的排队数量 */
+const MATCHMAKING_BATCH_SIZE = 500;
+
+/**
+ * 宠物当前赛季的排位积分
+ */
+export interface PetRatingView {
+  season: number;
+  petId: string;
+  rating: number;
+  peakRating: number;
+  wins: number;
+  losses: number;
+  /** 场次不足游戏规则中 ranked.provisionalMatches 时为定级赛，积分变化幅度更大 */
+  provisional: boolean;
+  lastMatchAt: Date | null;
+}
+
+/**
+ * 排位赛服务类
+ * 处理排队匹配、排位赛结算、积分计算和积分历史
+ */
+@Injectable()
+export class RankedService {
+  private readonly logger = new Logger(RankedService.name);
+
+  constructor(
+    @InjectModel(PetRating.name) private ratingModel: Model<PetRatingDocument>,
+    @InjectModel(RatingChange.name) private ratingChangeModel: Model<RatingChangeDocument>,
+    @InjectModel(MatchmakingTicket.name) private ticketModel: Model<MatchmakingTicketDocument>,
+    private readonly seasonsService: RankedSeasonsService,
+    private readonly battlesService: BattlesService,
+    private readonly petsService: PetsService,
+    private readonly rulesService: RulesService,
+  ) {}
+
+  /**
+   * 加入排位赛队列
+   *
+   * 排队时记录宠物当前的积分和等级，并立即尝试在等待中的宠物里匹配对手，
+   * 匹配成功时直接结算排位赛；没有合适的对手时由定时任务随着等待时间放宽条件继续匹配
+   *
+   * @param userId 当前用户ID
+   * @param petId 宠物ID
+   * @returns 排队记录，已匹配时包含对战ID
+   * @throws NotFoundException 当宠物不存在时
+   * @throws ForbiddenException 当宠物不属于当前用户时
+   * @throws BadRequestException 当宠物无法参战或赛季正在结算时
+   * @throws ConflictException 当宠物已在队列中时
+   */
+  async joinQueue(userId: string, petId: string): Promise<MatchmakingTicket> {
+    const pet = await this.findPet(petId);
+    if (pet.userId !== userId) {
+      throw new ForbiddenException('You do not own this pet');
+    }
+    this.battlesService.assertCanBattle(pet);
+
+    const season = await this.seasonsService.getActive();
+    const rating = await this.ensureRating(pet, season.number);
+    const now = new Date();
+
+    let ticket: MatchmakingTicketDocument;
+    try {
+      ticket = await new this.ticketModel({
+        petId,
+        userId,
+        season: season.number,
+        rating: rating.rating,
+        level: pet.level,
+        queuedAt: now,
+      }).save();
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        throw new ConflictException(`Pet ${pet.name} is already in the ranked queue`);
+      }
+      throw error;
+    }
+
+    const waiting = await this.ticketModel
+      .find({ season: season.number, status: MatchmakingStatus.WAITING, _id: { $ne: ticket._id } })
+      .sort({ queuedAt: 1 })
+      .limit(MATCHMAKING_BATCH_SIZE)
+      .exec();
+    const opponent = findOpponent(ticket, waiting, now, this.rulesService.getActive().rules.ranked);
+    if (opponent) {
+      await this.playMatch(opponent, ticket, now);
+    }
+    return this.ticketModel.findById(ticket._id).exec();
+  }
+
+  /**
+   * 离开排位赛队列
+   *
+   * @param userId 当前用户ID
+   * @param petId 宠物ID
+   * @returns 取消后的排队记录
+   * @throws NotFoundException 当宠物不在当前用户的排队中时
+   */
+  async leaveQueue(userId: string, petId: string): Promise<MatchmakingTicket> {
+    const ticket = await this.ticketModel
+      .findOneAndUpdate(
+        { petId, userId, status: MatchmakingStatus.WAITING },
+        { $set: { status: MatchmakingStatus.CANCELLED, closedAt: new Date() } },
+        { new: true },
+      )
+      .exec();
+    if (!ticket) {
+      throw new NotFoundException('Pet is not in the ranked queue');
+    }
+    return ticket;
+  }
+
+  /**
+   * 获取宠物最近一次排队的状态
+   *
+   * @param petId 宠物ID
+   * @returns 排队记录，匹配成功后包含对战ID和对手
+   * @throws NotFoundException 当宠物从未排队时
+   */
+  async getTicket(petId: string): Promise<MatchmakingTicket> {
+    const ticket = await this.ticketModel.findOne({ petId }).sort({ queuedAt: -1 }).exec();
+    if (!ticket) {
+      throw new NotFoundException('Pet has not joined the ranked queue');
+    }
+    return ticket;
+  }
+
+  /**
+   * 获取宠物当前赛季的积分
+   * 本赛季还没有参加排位赛的宠物返回按上赛季积分计算的初始积分
+   *
+   * @param petId 宠物ID
+   * @returns 积分和战绩
+   */
+  async getRating(petId: string): Promise<PetRatingView> {
+    const season = await this.seasonsService.getCurrent();
+    const rating = await this.ratingModel.findOne({ season: season.number, petId }).exec();
+    if (rating) {
+      return this.toView(rating);
+    }
+
+    const start = await this.startRating(petId, season.number);
+    return {
+      season: season.number,
+      petId,
+      rating: start,
+      peakRating: start,
+      wins: 0,
+      losses: 0,
+      provisional: true,
+      lastMatchAt: null,
+    };
+  }
+
+  /**
+   * 获取宠物的积分历史
+   *
+   * @param petId 宠物ID
+   * @param page 页码，从1开始
+   * @param limit 每页条数
+   * @returns 按比赛时间倒序排列的积分变化
+   */
+  async getHistory(petId: string, page = 1, limit = 20): Promise<PaginatedResult<RatingChange>> {
+    const [items, total] = await Promise.all([
+      this.ratingChangeModel
+        .find({ petId })
+        .sort({ at: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.ratingChangeModel.countDocuments({ petId }).exec(),
+    ]);
+    return { items, total, page, limit };
+  }
+
+  /**
+   * 获取赛季积分榜
+   *
+   * @param season 赛季序号，未提供时为当前赛季
+   * @param page 页码，从1开始
+   * @param limit 每页条数
+   * @returns 按积分倒序排列的宠物积分，已结束的赛季包含最终排名和奖励
+   */
+  async getStandings(season: number | undefined, page = 1, limit = 20): Promise<PaginatedResult<PetRating>> {
+    const seasonNumber = season ?? (await this.seasonsService.getCurrent()).number;
+    const filter = { season: seasonNumber };
+    const [items, total] = await Promise.all([
+      this.ratingModel
+        .find(filter)
+        .sort({ rating: -1, peakRating: -1, lastMatchAt: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.ratingModel.countDocuments(filter).exec(),
+    ]);
+    return { items, total, page, limit };
+  }
+
+  /**
+   * 为等待中的宠物匹配对手
+   *
+   * 供定时任务调用：先将等待超过 game.ranked.ticketTtlMinutes 的排队标记为过期，
+   * 再按排队时间从早到晚依次匹配，匹配窗口随等待时间放宽
+   *
+   * @param now 当前时间
+   * @returns 本次结算的排位赛数量
+   */
+  async matchWaiting(now: Date): Promise<number> {
+    const { ticketTtlMinutes } = gameConfig.ranked;
+    const rankedRules = this.rulesService.getActive().rules.ranked;
+    await this.ticketModel
+      .updateMany(
+        { status: MatchmakingStatus.WAITING, queuedAt: { $lte: new Date(now.getTime() - ticketTtlMinutes * 60 * 1000) } },
+        { $set: { status: MatchmakingStatus.EXPIRED, closedAt: now } },
+      )
+      .exec();
+
+    const waiting = await this.ticketModel
+      .find({ status: MatchmakingStatus.WAITING })
+      .sort({ queuedAt: 1 })
+      .limit(MATCHMAKING_BATCH_SIZE)
+      .exec();
+
+    const handled = new Set<string>();
+    let matches = 0;
+    for (const ticket of waiting) {
+      if (handled.has(ticket.petId)) {
+        continue;
+      }
+      const candidates = waiting.filter(
+        (candidate) => candidate.season === ticket.season && !handled.has(candidate.petId),
+      );
+      const opponent = findOpponent(ticket, candidates, now, rankedRules);
+      if (!opponent) {
+        continue;
+      }
+
+      handled.add(ticket.petId);
+      handled.add(opponent.petId);
+      try {
+        if (await this.playMatch(ticket, opponent, now)) {
+          matches++;
+        }
+      } catch (error) {
+        this.logger.error(
+          `Ranked match between ${ticket.petId} and ${opponent.petId} failed`,
+          error instanceof Error ? error.stack : error,
+        );
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * 结算一场排位赛
+   *
+   * 结算流程：
+   * - 原子地占用双方的排队，其中一方已被其他请求匹配或取消时放回另一方
+   * - 宠物已无法参战或已转让时取消该宠物的排队，另一方放回队列
+   * - 以等待更久的一方为挑战方结算战斗，战斗的经验、金币奖励与普通挑战相同
+   * - 按 Elo 更新双方积分并记录积分历史，定级赛阶段使用更大的 K 值
+   *
+   * @param first 等待更久的排队
+   * @param second 另一方的排队
+   * @param now 匹配时间
+   * @returns 战斗记录，未能开赛时为 null
+   */
+  private async playMatch(
+    first: MatchmakingTicketDocument,
+    second: MatchmakingTicketDocument,
+    now: Date,
+  ): Promise<BattleDocument | null> {
+    if (!(await this.claimTicket(first, now))) {
+      return null;
+    }
+    if (!(await this.claimTicket(second, now))) {
+      await this.releaseTicket(first);
+      return null;
+    }
+
+    const pets: PetDocument[] = [];
+    for (const ticket of [first, second]) {
+      const pet = await this.petsService.findById(ticket.petId);
+      const reason = this.unavailableReason(ticket, pet);
+      if (reason) {
+        await this.ticketModel
+          .updateOne({ _id: ticket._id }, { $set: { status: MatchmakingStatus.CANCELLED, reason } })
+          .exec();
+        await this.releaseTicket(ticket === first ? second : first);
+        return null;
+      }
+      pets.push(pet);
+    }
+
+    let battle: BattleDocument;
+    try {
+      battle = await this.battlesService.fight(pets[0], pets[1], {
+        mode: BattleMode.RANKED,
+        season: first.season,
+      });
+    } catch (error) {
+      await Promise.all([this.releaseTicket(first), this.releaseTicket(second)]);
+      throw error;
+    }
+
+    const [firstRating, secondRating] = await Promise.all([
+      this.ensureRating(pets[0], first.season),
+      this.ensureRating(pets[1], second.season),
+    ]);
+    const battleId = String(battle._id);
+    await Promise.all([
+      this.applyResult(firstRating, secondRating, battle.winnerPetId === first.petId, battleId, now),
+      this.applyResult(secondRating, firstRating, battle.winnerPetId === second.petId, battleId, now),
+      this.ticketModel
+        .updateOne({ _id: first._id }, { $set: { battleId, opponentPetId: second.petId } })
+        .exec(),
+      this.ticketModel
+        .updateOne({ _id: second._id }, { $set: { battleId, opponentPetId: first.petId } })
+        .exec(),
+    ]);
+    return battle;
+  }
+
+  /**
+   * 按比赛结果更新一方的积分并记录积分历史
+   */
+  private async applyResult(
+    rating: PetRatingDocument,
+    opponent: PetRatingDocument,
+    won: boolean,
+    battleId: string,
+    now: Date,
+  ): Promise<void> {
+    const { kFactor, provisionalKFactor, provisionalMatches } = this.rulesService.getActive().rules.ranked;
+    const k = rating.wins + rating.losses < provisionalMatches ? provisionalKFactor : kFactor;
+    const after = nextRating(rating.rating, opponent.rating, won, k);
+
+    await this.ratingModel
+      .updateOne(
+        { _id: rating._id },
+        {
+          $inc: { rating: after - rating.rating, wins: won ? 1 : 0, losses: won ? 0 : 1 },
+          $max: { peakRating: after },
+          $set: { lastMatchAt: now },
+        },
+      )
+      .exec();
+    await this.ratingChangeModel.create({
+      petId: rating.petId,
+      season: rating.season,
+      battleId,
+      opponentPetId: opponent.petId,
+      opponentRating: opponent.rating,
+      won,
+      before: rating.rating,
+      after,
+      at: now,
+    });
+  }
+
+  /**
+   * 获取宠物在赛季中的积分记录，不存在时按上赛季积分创建，宠物已转让时更新主人
+   */
+  private async ensureRating(pet: PetDocument, season: number): Promise<PetRatingDocument> {
+    const petId = String(pet._id);
+    const existing = await this.ratingModel.findOne({ season, petId }).exec();
+    if (existing && existing.userId === pet.userId) {
+      return existing;
+    }
+
+    const start = existing ? existing.rating : await this.startRating(petId, season);
+    return this.ratingModel
+      .findOneAndUpdate(
+        { season, petId },
+        { $set: { userId: pet.userId }, $setOnInsert: { rating: start, peakRating: start } },
+        { new: true, upsert: true },
+      )
+      .exec();
+  }
+
+  /**
+   * 宠物在赛季中的初始积分：上赛季积分按游戏规则中的 ranked.softResetFactor 向初始积分回归
+   */
+  private async startRating(petId: string, season: number): Promise<number> {
+    const { initialRating, softResetFactor } = this.rulesService.getActive().rules.ranked;
+    const previous = await this.ratingModel.findOne({ season: season - 1, petId }).exec();
+    return seasonStartRating(previous?.rating, initialRating, softResetFactor);
+  }
+
+  /**
+   * 宠物无法参加匹配到的排位赛的原因，可以参战时为 null
+   */
+  private unavailableReason(ticket: MatchmakingTicket, pet: PetDocument | null): string | null {
+    if (!pet) {
+      return 'Pet not found';
+    }
+    if (pet.userId !== ticket.userId) {
+      return 'Pet changed owner';
+    }
+    try {
+      this.battlesService.assertCanBattle(pet);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Pet cannot battle';
+    }
+  }
+
+  private async claimTicket(ticket: MatchmakingTicketDocument, now: Date): Promise<boolean> {
+    const claimed = await this.ticketModel
+      .findOneAndUpdate(
+        { _id: ticket._id, status: MatchmakingStatus.WAITING },
+        { $set: { status: MatchmakingStatus.MATCHED, closedAt: now } },
+      )
+      .exec();
+    return Boolean(claimed);
+  }
+
+  private async releaseTicket(ticket: MatchmakingTicketDocument): Promise<void> {
+    await this.ticketModel
+      .updateOne(
+        { _id: ticket._id, status: MatchmakingStatus.MATCHED },
+        { $set: { status: MatchmakingStatus.WAITING }, $unset: { closedAt: 1 } },
+      )
+      .exec();
+  }
+
+  private toView(rating: PetRating): PetRatingView {
+    return {
+      season: rating.season,
+      petId: rating.petId,
+      rating: rating.rating,
+      peakRating: rating.peakRating,
+      wins: rating.wins,
+      losses: rating.losses,
+      provisional: rating.wins + rating.losses < this.rulesService.getActive().rules.ranked.provisionalMatches,
+      lastMatchAt: rating.lastMatchAt ?? null,
+    };
+  }
+
+  private async findPet(id: string): Promise<PetDocument> {
+    const pet = await this.petsService.findById(id);
+    if (!pet) {
+      throw new NotFoundException('Pet not found');
+    }
+    return pet;
+  }
+}
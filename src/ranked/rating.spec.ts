@@ -0,0 +1,61 @@
+import { expectedScore, nextRating, seasonRewardForRank, seasonStartRating } from './rating';
+
+describe('expectedScore', () => {
+  it('is even for equal ratings and favours the higher rating', () => {
+    expect(expectedScore(1500, 1500)).toBe(0.5);
+    expect(expectedScore(1600, 1200)).toBeCloseTo(0.909, 3);
+    expect(expectedScore(1200, 1600) + expectedScore(1600, 1200)).toBeCloseTo(1);
+  });
+});
+
+describe('nextRating', () => {
+  it('moves equal ratings by half the K factor', () => {
+    expect(nextRating(1500, 1500, true, 32)).toBe(1516);
+    expect(nextRating(1500, 1500, false, 32)).toBe(1484);
+  });
+
+  it('rewards an upset more than an expected win', () => {
+    expect(nextRating(1200, 1600, true, 32)).toBe(1229);
+    expect(nextRating(1600, 1200, true, 32)).toBe(1603);
+  });
+
+  it('keeps the total rating of both sides', () => {
+    const winner = nextRating(1450, 1550, true, 24);
+    const loser = nextRating(1550, 1450, false, 24);
+
+    expect(winner + loser).toBe(3000);
+  });
+});
+
+describe('seasonStartRating', () => {
+  it('starts new players at the initial rating', () => {
+    expect(seasonStartRating(undefined, 1000, 0.5)).toBe(1000);
+  });
+
+  it('pulls the previous rating towards the initial rating', () => {
+    expect(seasonStartRating(1400, 1000, 0.5)).toBe(1200);
+    expect(seasonStartRating(600, 1000, 0.5)).toBe(800);
+    expect(seasonStartRating(1400, 1000, 0)).toBe(1000);
+    expect(seasonStartRating(1400, 1000, 1)).toBe(1400);
+  });
+});
+
+describe('seasonRewardForRank', () => {
+  const rewards = [
+    { maxRank: 10, coins: 100 },
+    { maxRank: 1, coins: 1000 },
+    { maxRank: 3, coins: 500 },
+  ];
+
+  it('pays the tightest tier the rank falls into, whatever the tier order', () => {
+    expect(seasonRewardForRank(1, rewards)).toBe(1000);
+    expect(seasonRewardForRank(2, rewards)).toBe(500);
+    expect(seasonRewardForRank(3, rewards)).toBe(500);
+    expect(seasonRewardForRank(10, rewards)).toBe(100);
+  });
+
+  it('pays nothing outside every tier', () => {
+    expect(seasonRewardForRank(11, rewards)).toBe(0);
+    expect(seasonRewardForRank(1, [])).toBe(0);
+  });
+});
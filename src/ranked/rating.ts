@@ -0,0 +1,54 @@
+/**
+ * 计算期望得分
+ *
+ * @param rating 己方积分
+ * @param opponentRating 对手积分
+ * @returns 己方获胜的期望概率（0-1）
+ */
+export function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+/**
+ * 计算一场比赛后的新积分
+ *
+ * @param rating 己方赛前积分
+ * @param opponentRating 对手赛前积分
+ * @param won 是否获胜
+ * @param kFactor K 值，决定单场比赛积分变化的幅度
+ * @returns 赛后积分，取整
+ */
+export function nextRating(rating: number, opponentRating: number, won: boolean, kFactor: number): number {
+  return Math.round(rating + kFactor * ((won ? 1 : 0) - expectedScore(rating, opponentRating)));
+}
+
+/**
+ * 新赛季的初始积分：上赛季积分按比例向初始积分回归
+ *
+ * @param previousRating 上赛季的最终积分，没有参加上赛季时为空
+ * @param initialRating 初始积分
+ * @param softResetFactor 保留的比例，0 表示完全重置，1 表示沿用上赛季积分
+ * @returns 新赛季的初始积分
+ */
+export function seasonStartRating(
+  previousRating: number | undefined,
+  initialRating: number,
+  softResetFactor: number,
+): number {
+  if (previousRating === undefined) {
+    return initialRating;
+  }
+  return Math.round(initialRating + (previousRating - initialRating) * softResetFactor);
+}
+
+/**
+ * 按最终排名查找赛季奖励
+ *
+ * @param rank 最终排名，从 1 开始
+ * @param rewards 奖励档位，按 maxRank 匹配排名不超过该值的第一个档位
+ * @returns 奖励金币，排名不在任何档位内时为 0
+ */
+export function seasonRewardForRank(rank: number, rewards: { maxRank: number; coins: number }[]): number {
+  const tier = [...rewards].sort((a, b) => a.maxRank - b.maxRank).find((candidate) => rank <= candidate.maxRank);
+  return tier?.coins ?? 0;
+}
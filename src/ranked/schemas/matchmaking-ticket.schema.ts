@@ -0,0 +1,66 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type MatchmakingTicketDocument = MatchmakingTicket & Document;
+
+/**
+ * 排队状态
+ */
+export enum MatchmakingStatus {
+  WAITING = 'waiting',
+  MATCHED = 'matched',
+  CANCELLED = 'cancelled',
+  EXPIRED = 'expired',
+}
+
+/**
+ * 排位赛排队记录
+ * 每只宠物同时只能有一条等待中的记录，匹配成功后记录对战结果
+ */
+@Schema({ timestamps: true })
+export class MatchmakingTicket {
+  @Prop({ required: true })
+  petId: string;
+
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop({ required: true })
+  season: number;
+
+  /** 排队时的积分和等级，用于匹配 */
+  @Prop({ required: true })
+  rating: number;
+
+  @Prop({ required: true })
+  level: number;
+
+  @Prop({ required: true })
+  queuedAt: Date;
+
+  @Prop({ default: MatchmakingStatus.WAITING, enum: MatchmakingStatus })
+  status: MatchmakingStatus;
+
+  @Prop()
+  battleId?: string;
+
+  @Prop()
+  opponentPetId?: string;
+
+  /** 离开队列或匹配成功的时间 */
+  @Prop()
+  closedAt?: Date;
+
+  /** 未能参战等原因导致排队被取消时的说明 */
+  @Prop()
+  reason?: string;
+}
+
+export const MatchmakingTicketSchema = SchemaFactory.createForClass(MatchmakingTicket);
+
+MatchmakingTicketSchema.index(
+  { petId: 1 },
+  { unique: true, partialFilterExpression: { status: MatchmakingStatus.WAITING } },
+);
+MatchmakingTicketSchema.index({ status: 1, queuedAt: 1 });
+MatchmakingTicketSchema.index({ petId: 1, queuedAt: -1 });
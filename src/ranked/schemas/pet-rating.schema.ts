@@ -0,0 +1,55 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type PetRatingDocument = PetRating & Document;
+
+/**
+ * 宠物在一个赛季中的排位积分
+ * 宠物在赛季中第一次排队时创建，初始积分由上赛季积分按 softResetFactor 向初始积分回归得到
+ */
+@Schema({ timestamps: true })
+export class PetRating {
+  @Prop({ required: true })
+  season: number;
+
+  @Prop({ required: true })
+  petId: string;
+
+  /** 宠物主人，宠物转让后在下一场排位赛时更新 */
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop({ required: true })
+  rating: number;
+
+  /** 赛季内达到的最高积分 */
+  @Prop({ required: true })
+  peakRating: number;
+
+  @Prop({ default: 0 })
+  wins: number;
+
+  @Prop({ default: 0 })
+  losses: number;
+
+  @Prop()
+  lastMatchAt?: Date;
+
+  /** 赛季结束时的最终排名，场次不足的宠物不参与排名 */
+  @Prop()
+  finalRank?: number;
+
+  /** 赛季奖励金币 */
+  @Prop()
+  rewardCoins?: number;
+
+  /** 赛季奖励发放的时间 */
+  @Prop()
+  rewardPaidAt?: Date;
+}
+
+export const PetRatingSchema = SchemaFactory.createForClass(PetRating);
+
+PetRatingSchema.index({ season: 1, petId: 1 }, { unique: true });
+PetRatingSchema.index({ season: 1, rating: -1 });
+PetRatingSchema.index({ rewardCoins: 1, rewardPaidAt: 1 });
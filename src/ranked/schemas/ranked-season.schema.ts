@@ -0,0 +1,42 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type RankedSeasonDocument = RankedSeason & Document;
+
+/**
+ * 赛季状态
+ */
+export enum RankedSeasonStatus {
+  ACTIVE = 'active',
+  /** 已到结束时间，正在计算最终排名和发放奖励 */
+  SETTLING = 'settling',
+  ENDED = 'ended',
+}
+
+/**
+ * 排位赛季
+ * 同一时间只有一个进行中的赛季，结束后按最终积分排名发放奖励并开始下一个赛季
+ */
+@Schema({ timestamps: true })
+export class RankedSeason {
+  /** 赛季序号，从 1 开始 */
+  @Prop({ required: true, unique: true })
+  number: number;
+
+  @Prop({ required: true })
+  startsAt: Date;
+
+  @Prop({ required: true })
+  endsAt: Date;
+
+  @Prop({ default: RankedSeasonStatus.ACTIVE, enum: RankedSeasonStatus })
+  status: RankedSeasonStatus;
+
+  /** 奖励发放完成的时间 */
+  @Prop()
+  settledAt?: Date;
+}
+
+export const RankedSeasonSchema = SchemaFactory.createForClass(RankedSeason);
+
+RankedSeasonSchema.index({ status: 1 });
@@ -0,0 +1,42 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type RatingChangeDocument = RatingChange & Document;
+
+/**
+ * 一场排位赛带来的积分变化，每场比赛双方各记录一条
+ */
+@Schema({ timestamps: true })
+export class RatingChange {
+  @Prop({ required: true })
+  petId: string;
+
+  @Prop({ required: true })
+  season: number;
+
+  @Prop({ required: true })
+  battleId: string;
+
+  @Prop({ required: true })
+  opponentPetId: string;
+
+  /** 对手赛前的积分 */
+  @Prop({ required: true })
+  opponentRating: number;
+
+  @Prop({ required: true })
+  won: boolean;
+
+  @Prop({ required: true })
+  before: number;
+
+  @Prop({ required: true })
+  after: number;
+
+  @Prop({ required: true })
+  at: Date;
+}
+
+export const RatingChangeSchema = SchemaFactory.createForClass(RatingChange);
+
+RatingChangeSchema.index({ petId: 1, at: -1 });
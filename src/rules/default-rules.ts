@@ -0,0 +1,89 @@
+import { GameRules } from './game-rules';
+
+/**
+ * 内置游戏规则
+ * 数据库中还没有任何规则版本时作为第 1 版写入，之后由管理员发布新版本调整
+ */
+export const DEFAULT_GAME_RULES: GameRules = {
+  actions: {
+    feed: { experience: 10 },
+    play: { energy: -20, hunger: -15, experience: 15 },
+    sleep: { health: 10 },
+    heal: {},
+    favoriteFood: { happiness: 10, experience: 5 },
+  },
+  cooldownMinutes: {
+    feed: 30,
+    play: 20,
+    sleep: 120,
+    breed: 24 * 60,
+  },
+  dailyExperienceCap: 200,
+  status: {
+    sickBelowHealth: 30,
+    sleepingBelowEnergy: 20,
+    hungryBelowHunger: 30,
+    happyAbove: { happiness: 80, health: 80, energy: 60 },
+    awakeAboveEnergy: 80,
+  },
+  neglect: {
+    thresholds: { hunger: 15, health: 30, happiness: 15 },
+    starvingHealthDecayPerHour: 2,
+    criticalAfterHours: 24,
+    runawayAfterHours: 48,
+  },
+  recovery: {
+    graceDays: 7,
+    coinCost: 100,
+    vitals: { health: 50, hunger: 50, happiness: 30, energy: 50 },
+  },
+  sleep: {
+    durationMinutes: 120,
+    energyPerHour: 30,
+    wakeHappinessPenalty: 10,
+  },
+  breeding: {
+    minLevel: 5,
+    eggHatchHours: 12,
+  },
+  growth: {
+    default: { baseExperience: 100, exponent: 1 },
+    species: [
+      { species: 'cat', baseExperience: 100, exponent: 1 },
+      { species: 'dog', baseExperience: 90, exponent: 1.1 },
+      { species: 'bird', baseExperience: 80, exponent: 1 },
+      { species: 'fish', baseExperience: 120, exponent: 1 },
+      { species: 'rabbit', baseExperience: 110, exponent: 0.95 },
+    ],
+  },
+  ranked: {
+    initialRating: 1000,
+    kFactor: 24,
+    provisionalKFactor: 48,
+    provisionalMatches: 10,
+    baseRatingWindow: 50,
+    ratingWindowPerMinute: 25,
+    maxRatingWindow: 400,
+    baseLevelWindow: 2,
+    levelWindowPerMinute: 1,
+    maxLevelWindow: 10,
+    softResetFactor: 0.5,
+    rewardMinMatches: 5,
+    seasonRewards: [
+      { maxRank: 1, coins: 2000 },
+      { maxRank: 10, coins: 800 },
+      { maxRank: 100, coins: 200 },
+    ],
+  },
+  expeditions: {
+    plans: [
+      { duration: '1h', hours: 1, coins: 10, experience: 15, itemRolls: 1, energyCost: 10, injuryChance: 0.05 },
+      { duration: '4h', hours: 4, coins: 35, experience: 50, itemRolls: 2, energyCost: 25, injuryChance: 0.1 },
+      { duration: '8h', hours: 8, coins: 60, experience: 90, itemRolls: 3, energyCost: 40, injuryChance: 0.15 },
+    ],
+    itemFindChance: 0.5,
+    commonLoot: ['basic_kibble', 'yarn_ball', 'bandage'],
+    levelBonusPerLevel: 0.05,
+    injuryHealthLoss: { min: 15, max: 30 },
+  },
+};
@@ -0,0 +1,462 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ItemEffectsDto } from '../../items/dto/create-item.dto';
+import {
+  ActionEffectRules,
+  BreedingRules,
+  ExpeditionPlan,
+  ExpeditionRules,
+  GameRules,
+  GrowthCurve,
+  GrowthRules,
+  NeglectRules,
+  RankedRules,
+  RecoveryRules,
+  SeasonRewardTier,
+  SleepRules,
+  SpeciesGrowthCurve,
+  StatusThresholds,
+} from '../game-rules';
+
+export class ActionEffectRulesDto implements ActionEffectRules {
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ItemEffectsDto)
+  feed: ItemEffectsDto;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ItemEffectsDto)
+  play: ItemEffectsDto;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ItemEffectsDto)
+  sleep: ItemEffectsDto;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ItemEffectsDto)
+  heal: ItemEffectsDto;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ItemEffectsDto)
+  favoriteFood: ItemEffectsDto;
+}
+
+export class CooldownMinutesDto {
+  @IsInt()
+  @Min(0)
+  feed: number;
+
+  @IsInt()
+  @Min(0)
+  play: number;
+
+  @IsInt()
+  @Min(0)
+  sleep: number;
+
+  @IsInt()
+  @Min(0)
+  breed: number;
+}
+
+export class HappyThresholdsDto {
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  happiness: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  health: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  energy: number;
+}
+
+export class StatusThresholdsDto implements StatusThresholds {
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  sickBelowHealth: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  sleepingBelowEnergy: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  hungryBelowHunger: number;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => HappyThresholdsDto)
+  happyAbove: HappyThresholdsDto;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  awakeAboveEnergy: number;
+}
+
+export class NeglectThresholdsDto {
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  hunger: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  health: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  happiness: number;
+}
+
+export class NeglectRulesDto implements NeglectRules {
+  @IsObject()
+  @ValidateNested()
+  @Type(() => NeglectThresholdsDto)
+  thresholds: NeglectThresholdsDto;
+
+  @IsNumber()
+  @Min(0)
+  starvingHealthDecayPerHour: number;
+
+  @IsNumber()
+  @Min(0)
+  criticalAfterHours: number;
+
+  @IsNumber()
+  @Min(0)
+  runawayAfterHours: number;
+}
+
+export class RecoveryVitalsDto {
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  health: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  hunger: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  happiness: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  energy: number;
+}
+
+export class RecoveryRulesDto implements RecoveryRules {
+  @IsNumber()
+  @Min(0)
+  graceDays: number;
+
+  @IsInt()
+  @Min(0)
+  coinCost: number;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => RecoveryVitalsDto)
+  vitals: RecoveryVitalsDto;
+}
+
+export class SleepRulesDto implements SleepRules {
+  @IsInt()
+  @Min(1)
+  durationMinutes: number;
+
+  @IsNumber()
+  @Min(0)
+  energyPerHour: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  wakeHappinessPenalty: number;
+}
+
+export class BreedingRulesDto implements BreedingRules {
+  @IsInt()
+  @Min(1)
+  minLevel: number;
+
+  @IsNumber()
+  @Min(0)
+  eggHatchHours: number;
+}
+
+export class GrowthCurveDto implements GrowthCurve {
+  @IsNumber()
+  @Min(1)
+  baseExperience: number;
+
+  @IsNumber()
+  @Min(0.5)
+  @Max(3)
+  exponent: number;
+}
+
+export class SpeciesGrowthCurveDto extends GrowthCurveDto implements SpeciesGrowthCurve {
+  @IsString()
+  @IsNotEmpty()
+  species: string;
+}
+
+export class GrowthRulesDto implements GrowthRules {
+  @IsObject()
+  @ValidateNested()
+  @Type(() => GrowthCurveDto)
+  default: GrowthCurveDto;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SpeciesGrowthCurveDto)
+  species: SpeciesGrowthCurveDto[];
+}
+
+export class SeasonRewardTierDto implements SeasonRewardTier {
+  @IsInt()
+  @Min(1)
+  maxRank: number;
+
+  @IsInt()
+  @Min(0)
+  coins: number;
+}
+
+export class RankedRulesDto implements RankedRules {
+  @IsInt()
+  @Min(0)
+  initialRating: number;
+
+  @IsNumber()
+  @Min(1)
+  kFactor: number;
+
+  @IsNumber()
+  @Min(1)
+  provisionalKFactor: number;
+
+  @IsInt()
+  @Min(0)
+  provisionalMatches: number;
+
+  @IsNumber()
+  @Min(0)
+  baseRatingWindow: number;
+
+  @IsNumber()
+  @Min(0)
+  ratingWindowPerMinute: number;
+
+  @IsNumber()
+  @Min(0)
+  maxRatingWindow: number;
+
+  @IsInt()
+  @Min(0)
+  baseLevelWindow: number;
+
+  @IsNumber()
+  @Min(0)
+  levelWindowPerMinute: number;
+
+  @IsInt()
+  @Min(0)
+  maxLevelWindow: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  softResetFactor: number;
+
+  @IsInt()
+  @Min(0)
+  rewardMinMatches: number;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SeasonRewardTierDto)
+  seasonRewards: SeasonRewardTierDto[];
+}
+
+export class ExpeditionPlanDto implements ExpeditionPlan {
+  @IsString()
+  @IsNotEmpty()
+  duration: string;
+
+  @IsNumber()
+  @Min(0)
+  hours: number;
+
+  @IsInt()
+  @Min(0)
+  coins: number;
+
+  @IsInt()
+  @Min(0)
+  experience: number;
+
+  @IsInt()
+  @Min(0)
+  itemRolls: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  energyCost: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  injuryChance: number;
+}
+
+export class HealthLossRangeDto {
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  min: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  max: number;
+}
+
+export class ExpeditionRulesDto implements ExpeditionRules {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ExpeditionPlanDto)
+  plans: ExpeditionPlanDto[];
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  itemFindChance: number;
+
+  @IsArray()
+  @IsString({ each: true })
+  commonLoot: string[];
+
+  @IsNumber()
+  @Min(0)
+  levelBonusPerLevel: number;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => HealthLossRangeDto)
+  injuryHealthLoss: HealthLossRangeDto;
+}
+
+export class GameRulesDto implements GameRules {
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ActionEffectRulesDto)
+  actions: ActionEffectRulesDto;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => CooldownMinutesDto)
+  cooldownMinutes: CooldownMinutesDto;
+
+  @IsInt()
+  @Min(0)
+  dailyExperienceCap: number;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => StatusThresholdsDto)
+  status: StatusThresholdsDto;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => NeglectRulesDto)
+  neglect: NeglectRulesDto;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => RecoveryRulesDto)
+  recovery: RecoveryRulesDto;
+
+  /** 早于睡眠规则发布的版本没有该分组，加载时使用内置规则 */
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => SleepRulesDto)
+  sleep: SleepRulesDto;
+
+  /** 早于繁殖规则发布的版本没有该分组，加载时使用内置规则 */
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => BreedingRulesDto)
+  breeding: BreedingRulesDto;
+
+  /** 早于成长规则发布的版本没有该分组，加载时使用内置规则 */
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => GrowthRulesDto)
+  growth: GrowthRulesDto;
+
+  /** 早于排位赛规则发布的版本没有该分组，加载时使用内置规则 */
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => RankedRulesDto)
+  ranked: RankedRulesDto;
+
+  /** 早于探险规则发布的版本没有该分组，加载时使用内置规则 */
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ExpeditionRulesDto)
+  expeditions: ExpeditionRulesDto;
+}
+
+/**
+ * 发布新规则版本
+ */
+export class PublishGameRulesDto {
+  @IsObject()
+  @ValidateNested()
+  @Type(() => GameRulesDto)
+  rules: GameRulesDto;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  note?: string;
+}
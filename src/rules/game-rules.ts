@@ -0,0 +1,202 @@
+import { ItemEffects } from '../items/schemas/item.schema';
+import type { PetCooldownAction } from '../pets/pet-limits';
+
+/**
+ * 宠物交互本身的基础效果，与所用道具的效果叠加
+ */
+export interface ActionEffectRules {
+  feed: ItemEffects;
+  play: ItemEffects;
+  /** 入睡时立即生效的效果，能量在睡眠期间逐渐恢复 */
+  sleep: ItemEffects;
+  heal: ItemEffects;
+  /** 喂食所属物种喜爱的食物时的额外效果 */
+  favoriteFood: ItemEffects;
+}
+
+/**
+ * 根据数值判断宠物状态的阈值，按以下顺序判断：
+ * - 健康度 < sickBelowHealth：生病
+ * - 能量 < sleepingBelowEnergy：睡觉
+ * - 饥饿度 < hungryBelowHunger：饥饿
+ * - 快乐度、健康度、能量均高于 happyAbove：快乐
+ * - 其他情况：活跃
+ *
+ * 提前叫醒睡觉中的宠物时，能量不高于 awakeAboveEnergy 会扣除快乐度
+ */
+export interface StatusThresholds {
+  sickBelowHealth: number;
+  sleepingBelowEnergy: number;
+  hungryBelowHunger: number;
+  happyAbove: { happiness: number; health: number; energy: number };
+  awakeAboveEnergy: number;
+}
+
+/**
+ * 忽视规则
+ *
+ * - 饥饿度、健康度、快乐度任一低于阈值即视为被忽视
+ * - 饥饿度降为0后，健康度按 starvingHealthDecayPerHour 每小时下降
+ * - 持续被忽视 criticalAfterHours 小时后进入病危状态
+ * - 病危后仍持续被忽视 runawayAfterHours 小时，宠物离家出走
+ */
+export interface NeglectRules {
+  thresholds: { hunger: number; health: number; happiness: number };
+  starvingHealthDecayPerHour: number;
+  criticalAfterHours: number;
+  runawayAfterHours: number;
+}
+
+/**
+ * 睡眠规则
+ *
+ * - 宠物入睡后持续 durationMinutes 分钟，期间每小时恢复 energyPerHour 点能量
+ * - 睡眠时间结束或能量恢复满时自动醒来
+ * - 提前叫醒且能量不高于 status.awakeAboveEnergy 时扣除 wakeHappinessPenalty 点快乐度
+ */
+export interface SleepRules {
+  durationMinutes: number;
+  energyPerHour: number;
+  wakeHappinessPenalty: number;
+}
+
+/**
+ * 繁殖规则
+ */
+export interface BreedingRules {
+  /** 参与繁殖的宠物最低等级 */
+  minLevel: number;
+  /** 蛋从产下到可以孵化所需的小时数 */
+  eggHatchHours: number;
+}
+
+/**
+ * 成长曲线
+ * 升到第 L 级所需的累计经验 = baseExperience × (L - 1) ^ exponent
+ */
+export interface GrowthCurve {
+  baseExperience: number;
+  exponent: number;
+}
+
+/**
+ * 单个物种的成长曲线
+ */
+export interface SpeciesGrowthCurve extends GrowthCurve {
+  /** 物种标识 */
+  species: string;
+}
+
+/**
+ * 成长规则
+ * 物种在 species 中有成长曲线时使用该曲线，否则使用 default
+ */
+export interface GrowthRules {
+  default: GrowthCurve;
+  species: SpeciesGrowthCurve[];
+}
+
+/**
+ * 找回离家出走宠物的规则
+ */
+export interface RecoveryRules {
+  /** 离家出走后可以找回的天数 */
+  graceDays: number;
+  /** 找回的金币费用 */
+  coinCost: number;
+  /** 找回的宠物恢复到的数值 */
+  vitals: { health: number; hunger: number; happiness: number; energy: number };
+}
+
+/**
+ * 赛季排名奖励档位
+ */
+export interface SeasonRewardTier {
+  /** 排名不超过该值时发放 */
+  maxRank: number;
+  coins: number;
+}
+
+/**
+ * 排位赛规则
+ * 匹配窗口从 base 开始，每排队一分钟放宽 perMinute，不超过 max
+ */
+export interface RankedRules {
+  initialRating: number;
+  kFactor: number;
+  /** 定级赛（场次少于 provisionalMatches）使用的 K 值 */
+  provisionalKFactor: number;
+  provisionalMatches: number;
+  baseRatingWindow: number;
+  ratingWindowPerMinute: number;
+  maxRatingWindow: number;
+  baseLevelWindow: number;
+  levelWindowPerMinute: number;
+  maxLevelWindow: number;
+  /** 新赛季保留上赛季积分与初始积分差值的比例 */
+  softResetFactor: number;
+  /** 参与赛季排名需要的最低场次 */
+  rewardMinMatches: number;
+  seasonRewards: SeasonRewardTier[];
+}
+
+/**
+ * 一种时长的探险的基础奖励和风险
+ */
+export interface ExpeditionPlan {
+  /** 探险时长标识，出发时选择，例如 4h */
+  duration: string;
+  hours: number;
+  coins: number;
+  experience: number;
+  /** 寻找道具的次数 */
+  itemRolls: number;
+  /** 归来时消耗的能量，也是出发所需的最低能量 */
+  energyCost: number;
+  /** 受伤归来的概率 */
+  injuryChance: number;
+}
+
+/**
+ * 探险规则
+ */
+export interface ExpeditionRules {
+  /** 可选的探险时长 */
+  plans: ExpeditionPlan[];
+  /** 每次寻找道具的成功概率 */
+  itemFindChance: number;
+  /** 所有物种都可能带回的道具，物种喜爱的食物也会加入道具池 */
+  commonLoot: string[];
+  /** 每级增加的奖励比例 */
+  levelBonusPerLevel: number;
+  /** 受伤扣除的健康度范围 */
+  injuryHealthLoss: { min: number; max: number };
+}
+
+/**
+ * 游戏平衡规则
+ * 物种相关的初始数值和衰减速度由物种注册表维护，不在此处；各物种的成长曲线在 growth 中
+ */
+export interface GameRules {
+  actions: ActionEffectRules;
+  /** 各交互的冷却时间（分钟） */
+  cooldownMinutes: Record<PetCooldownAction, number>;
+  /** 每只宠物每天通过交互最多获得的经验值 */
+  dailyExperienceCap: number;
+  status: StatusThresholds;
+  neglect: NeglectRules;
+  recovery: RecoveryRules;
+  sleep: SleepRules;
+  breeding: BreedingRules;
+  growth: GrowthRules;
+  ranked: RankedRules;
+  expeditions: ExpeditionRules;
+}
+
+/**
+ * 当前生效的规则及其版本号
+ */
+export interface ActiveGameRules {
+  version: number;
+  rules: GameRules;
+}
@@ -0,0 +1,37 @@
+import { experienceForLevel, growthCurveFor, levelForExperience } from './growth-curve';
+import { DEFAULT_GAME_RULES } from './default-rules';
+
+describe('growthCurveFor', () => {
+  it('uses the curve configured for the species', () => {
+    expect(growthCurveFor(DEFAULT_GAME_RULES.growth, 'dog')).toEqual({
+      species: 'dog',
+      baseExperience: 90,
+      exponent: 1.1,
+    });
+  });
+
+  it('falls back to the default curve for other species', () => {
+    expect(growthCurveFor(DEFAULT_GAME_RULES.growth, 'dragon')).toBe(DEFAULT_GAME_RULES.growth.default);
+  });
+});
+
+describe('levelForExperience', () => {
+  const linear = { baseExperience: 100, exponent: 1 };
+  const steep = { baseExperience: 90, exponent: 1.1 };
+
+  it('starts at level 1', () => {
+    expect(levelForExperience(linear, 0)).toBe(1);
+    expect(levelForExperience(linear, 99)).toBe(1);
+  });
+
+  it('levels up exactly at the required experience', () => {
+    expect(levelForExperience(linear, 100)).toBe(2);
+    expect(levelForExperience(steep, experienceForLevel(steep, 7))).toBe(7);
+    expect(levelForExperience(steep, experienceForLevel(steep, 7) - 1)).toBe(6);
+  });
+
+  it('needs more experience per level on a steeper curve', () => {
+    expect(experienceForLevel(steep, 11)).toBeGreaterThan(experienceForLevel(linear, 11) * 0.9);
+    expect(levelForExperience(steep, 1000)).toBeLessThan(levelForExperience({ ...steep, exponent: 1 }, 1000));
+  });
+});
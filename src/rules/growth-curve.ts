@@ -0,0 +1,38 @@
+import { GrowthCurve, GrowthRules } from './game-rules';
+
+/**
+ * 查找物种使用的成长曲线
+ *
+ * @param growth 成长规则
+ * @param species 物种标识
+ * @returns 物种的成长曲线，未单独配置时为默认曲线
+ */
+export function growthCurveFor(growth: GrowthRules, species: string): GrowthCurve {
+  return growth.species.find((curve) => curve.species === species) ?? growth.default;
+}
+
+/**
+ * 计算升到指定等级所需的累计经验
+ *
+ * @param curve 成长曲线
+ * @param level 目标等级
+ * @returns 累计经验值
+ */
+export function experienceForLevel(curve: GrowthCurve, level: number): number {
+  return Math.round(curve.baseExperience * Math.pow(Math.max(0, level - 1), curve.exponent));
+}
+
+/**
+ * 根据累计经验计算等级
+ *
+ * @param curve 成长曲线
+ * @param experience 累计经验值
+ * @returns 等级（最低为1）
+ */
+export function levelForExperience(curve: GrowthCurve, experience: number): number {
+  let level = Math.floor(Math.pow(Math.max(0, experience) / curve.baseExperience, 1 / curve.exponent)) + 1;
+  // 修正浮点误差，保证 experienceForLevel(level) <= experience < experienceForLevel(level + 1)
+  while (level > 1 && experienceForLevel(curve, level) > experience) level--;
+  while (experienceForLevel(curve, level + 1) <= experience) level++;
+  return level;
+}
@@ -0,0 +1,77 @@
+import { migrateRules, StoredGameRules, withDefaultGroups } from './rules-migrations';
+import { DEFAULT_GAME_RULES } from './default-rules';
+import { GameRules } from './game-rules';
+import { applyEffects } from '../items/item-effects';
+import { applyTraitEffects, combineTraitModifiers } from '../pets/personality';
+import { evaluateSleepingState } from '../pets/pet-state';
+import { PetStatus } from '../pets/schemas/pet.schema';
+
+/** 加入睡眠规则之前写入的第 1 版规则：入睡立即恢复 40 点能量，没有 sleep 和 breeding 分组 */
+const legacyRules = (): StoredGameRules => {
+  const rules: StoredGameRules = {
+    ...DEFAULT_GAME_RULES,
+    actions: { ...DEFAULT_GAME_RULES.actions, sleep: { energy: 40, health: 10 } },
+  };
+  delete rules.sleep;
+  delete rules.breeding;
+  return rules;
+};
+
+/**
+ * 按 PetsService.sleepPet 和睡眠推算的流程让宠物睡满一整段睡眠
+ */
+const sleepThrough = (rules: GameRules, energy: number) => {
+  const asleepAt = new Date('2024-03-01T00:00:00Z');
+  const vitals = applyEffects(
+    { health: 80, hunger: 80, happiness: 80, energy, experience: 0 },
+    applyTraitEffects(rules.actions.sleep, combineTraitModifiers([]), 'sleep'),
+  );
+  const until = new Date(asleepAt.getTime() + rules.sleep.durationMinutes * 60 * 1000);
+  const state = evaluateSleepingState(
+    { ...vitals, status: PetStatus.SLEEPING },
+    { hunger: 0, happiness: 0, energy: 0 },
+    { until, energyPerHour: rules.sleep.energyPerHour },
+    asleepAt,
+    until,
+    rules,
+  );
+  return { onSleep: vitals.energy, afterSleep: state.energy };
+};
+
+describe('migrateRules', () => {
+  it('removes the instant sleep energy from versions published before timed sleep', () => {
+    const migrated = migrateRules(legacyRules());
+
+    expect(migrated?.actions.sleep).toEqual({ health: 10 });
+    expect(migrated?.sleep).toEqual(DEFAULT_GAME_RULES.sleep);
+  });
+
+  it('restores energy only through timed regeneration once an old version is migrated', () => {
+    const unmigrated = sleepThrough(withDefaultGroups(legacyRules()), 20);
+    const migrated = sleepThrough(withDefaultGroups(migrateRules(legacyRules())), 20);
+
+    expect(unmigrated).toEqual({ onSleep: 60, afterSleep: 100 });
+    expect(migrated).toEqual({ onSleep: 20, afterSleep: 80 });
+  });
+
+  it('leaves current versions untouched', () => {
+    expect(migrateRules(DEFAULT_GAME_RULES)).toBeNull();
+    expect(migrateRules(migrateRules(legacyRules()))).toBeNull();
+  });
+
+  it('keeps instant sleep energy that an admin published alongside the sleep rules', () => {
+    const rules = { ...DEFAULT_GAME_RULES, actions: { ...DEFAULT_GAME_RULES.actions, sleep: { energy: 5 } } };
+
+    expect(migrateRules(rules)).toBeNull();
+  });
+});
+
+describe('withDefaultGroups', () => {
+  it('fills groups missing from old versions with the built-in rules', () => {
+    const rules = withDefaultGroups(legacyRules());
+
+    expect(rules.sleep).toEqual(DEFAULT_GAME_RULES.sleep);
+    expect(rules.breeding).toEqual(DEFAULT_GAME_RULES.breeding);
+    expect(rules.actions.sleep).toEqual({ energy: 40, health: 10 });
+  });
+});
@@ -0,0 +1,40 @@
+import { GameRules } from './game-rules';
+import { DEFAULT_GAME_RULES } from './default-rules';
+
+/**
+ * 数据库中保存的规则内容，新增分组之前发布的版本可能缺少部分分组
+ */
+export type StoredGameRules = Partial<GameRules> & Pick<GameRules, 'actions'>;
+
+/**
+ * 补全规则版本中缺少的分组，缺少的分组使用内置规则
+ *
+ * @param rules 数据库中保存的规则内容
+ * @returns 完整的规则
+ */
+export function withDefaultGroups(rules: StoredGameRules): GameRules {
+  return { ...DEFAULT_GAME_RULES, ...rules };
+}
+
+/**
+ * 把旧格式的规则版本迁移为当前格式
+ *
+ * 迁移内容：
+ * - 加入睡眠规则之前的版本在入睡时立即恢复 actions.sleep.energy 点能量，
+ *   现在能量改为在睡眠期间按 sleep.energyPerHour 逐渐恢复，去掉入睡时的能量并写入内置的睡眠规则，
+ *   避免同时获得两份能量。已包含睡眠规则的版本视为管理员有意保留的设置，不做修改
+ *
+ * @param rules 数据库中保存的规则内容
+ * @returns 迁移后的规则内容，不需要迁移时为 null
+ */
+export function migrateRules(rules: StoredGameRules): StoredGameRules | null {
+  const { energy, ...sleepEffects } = rules.actions.sleep ?? {};
+  if (rules.sleep || energy === undefined) {
+    return null;
+  }
+  return {
+    ...rules,
+    actions: { ...rules.actions, sleep: sleepEffects },
+    sleep: DEFAULT_GAME_RULES.sleep,
+  };
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { GameRulesVersion, GameRulesVersionSchema } from './schemas/game-rules-version.schema';
+import { RulesService } from './rules.service';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: GameRulesVersion.name, schema: GameRulesVersionSchema }]),
+  ],
+  providers: [RulesService],
+  exports: [RulesService],
+})
+export class RulesModule {}
@@ -0,0 +1,240 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { instanceToPlain, plainToInstance } from 'class-transformer';
+import { ValidationError, validateSync } from 'class-validator';
+import {
+  GameRulesVersion,
+  GameRulesVersionDocument,
+} from './schemas/game-rules-version.schema';
+import { GameRulesDto, PublishGameRulesDto } from './dto/game-rules.dto';
+import { ActiveGameRules, GameRules } from './game-rules';
+import { DEFAULT_GAME_RULES } from './default-rules';
+import { migrateRules, StoredGameRules, withDefaultGroups } from './rules-migrations';
+
+/**
+ * 游戏规则服务类
+ * 维护版本化的游戏平衡规则，当前生效的规则缓存在内存中，由管理员发布新版本或重新加载
+ */
+@Injectable()
+export class RulesService implements OnModuleInit {
+  private readonly logger = new Logger(RulesService.name);
+  private active: ActiveGameRules = { version: 0, rules: DEFAULT_GAME_RULES };
+
+  constructor(
+    @InjectModel(GameRulesVersion.name) private rulesModel: Model<GameRulesVersionDocument>,
+  ) {}
+
+  /**
+   * 启动时加载规则
+   * 数据库中还没有任何版本时写入内置规则作为第 1 版；最新的有效版本是旧格式时，
+   * 按 migrateRules 发布迁移后的新版本并使其生效
+   */
+  async onModuleInit(): Promise<void> {
+    const seeded = await this.rulesModel
+      .updateOne(
+        {},
+        { $setOnInsert: { version: 1, rules: DEFAULT_GAME_RULES, note: 'Built-in rules' } },
+        { upsert: true },
+      )
+      .exec();
+    if (seeded.upsertedCount > 0) {
+      this.logger.log('Seeded built-in game rules as version 1');
+    }
+
+    const versions = await this.rulesModel.find().sort({ version: -1 }).exec();
+    for (const candidate of versions) {
+      const errors = this.validate(candidate.rules);
+      if (errors.length === 0) {
+        this.activate(await this.migrate(candidate));
+        return;
+      }
+      this.logger.error(`Game rules version ${candidate.version} is invalid: ${errors.join('; ')}`);
+    }
+    this.logger.warn('No valid game rules version found, using built-in rules');
+  }
+
+  /**
+   * 获取当前生效的规则
+   *
+   * @returns 规则内容和版本号
+   */
+  getActive(): ActiveGameRules {
+    return this.active;
+  }
+
+  /**
+   * 获取全部规则版本
+   *
+   * @returns 按版本号倒序排列的规则版本
+   */
+  async findAll(): Promise<GameRulesVersion[]> {
+    return this.rulesModel.find().sort({ version: -1 }).exec();
+  }
+
+  /**
+   * 发布新的规则版本并立即生效
+   * 版本号由唯一索引保证不重复，同时发布的两个版本中后保存的一个返回冲突，不会覆盖对方
+   *
+   * @param userId 发布的管理员
+   * @param dto 规则内容和发布说明
+   * @returns 新的规则版本
+   * @throws BadRequestException 当规则校验失败时
+   * @throws ConflictException 当同一版本号已被同时发布时
+   */
+  async publish(userId: string, dto: PublishGameRulesDto): Promise<GameRulesVersion> {
+    this.assertValid(dto.rules);
+
+    const latest = await this.rulesModel.findOne().sort({ version: -1 }).exec();
+    const version = (latest?.version ?? 0) + 1;
+    let created: GameRulesVersionDocument;
+    try {
+      created = await new this.rulesModel({
+        version,
+        rules: instanceToPlain(dto.rules),
+        note: dto.note,
+        publishedBy: userId,
+      }).save();
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        throw new ConflictException(
+          `Game rules version ${version} was published concurrently, review it and publish again`,
+        );
+      }
+      throw error;
+    }
+
+    this.activate(created);
+    return created;
+  }
+
+  /**
+   * 发布由启动迁移生成的规则版本并立即生效，例如把旧数据中的设置迁入规则
+   * 多个实例同时迁移时只有一个实例能写入新版本号，其他实例改为加载它写入的版本
+   *
+   * @param rules 迁移后的完整规则
+   * @param note 发布说明
+   * @returns 迁移后生效的规则
+   * @throws BadRequestException 当规则校验失败时
+   */
+  async publishMigration(rules: GameRules, note: string): Promise<ActiveGameRules> {
+    this.assertValid(rules);
+
+    const latest = await this.rulesModel.findOne().sort({ version: -1 }).exec();
+    this.activate(await this.saveMigration((latest?.version ?? 0) + 1, rules, note));
+    return this.active;
+  }
+
+  /**
+   * 从数据库重新加载最新的规则版本
+   * 用于直接修改数据库或多实例部署时同步规则，校验失败时保留当前生效的规则
+   *
+   * @returns 重新加载后生效的规则
+   * @throws BadRequestException 当最新版本的规则校验失败时
+   */
+  async reload(): Promise<ActiveGameRules> {
+    const latest = await this.rulesModel.findOne().sort({ version: -1 }).exec();
+    if (!latest) {
+      throw new BadRequestException('No game rules version found');
+    }
+    this.assertValid(latest.rules, `Game rules version ${latest.version} is invalid`);
+    this.activate(latest);
+    return this.active;
+  }
+
+  /**
+   * 把旧格式的规则版本迁移为新版本
+   *
+   * @param version 最新的有效规则版本
+   * @returns 需要生效的规则版本，不需要迁移时为传入的版本
+   */
+  private async migrate(version: GameRulesVersionDocument): Promise<GameRulesVersionDocument> {
+    const rules = migrateRules(version.rules);
+    if (!rules) {
+      return version;
+    }
+    return this.saveMigration(
+      version.version + 1,
+      rules,
+      `Migrated from version ${version.version}: sleep restores energy over time`,
+    );
+  }
+
+  /**
+   * 保存迁移生成的规则版本
+   * 多个实例同时启动时只有一个实例能写入新版本号，其他实例改为加载它写入的版本
+   *
+   * @param version 新的版本号
+   * @param rules 迁移后的规则内容
+   * @param note 发布说明
+   * @returns 保存的规则版本，版本号已被其他实例写入时为数据库中的最新版本
+   */
+  private async saveMigration(
+    version: number,
+    rules: StoredGameRules,
+    note: string,
+  ): Promise<GameRulesVersionDocument> {
+    try {
+      const migrated = await new this.rulesModel({ version, rules, note }).save();
+      this.logger.log(`Published migrated game rules as version ${version}`);
+      return migrated;
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        const latest = await this.rulesModel.findOne().sort({ version: -1 }).exec();
+        if (latest) {
+          return latest;
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 设置生效的规则版本，版本中缺少的规则分组（例如新增分组之前发布的版本）使用内置规则
+   */
+  private activate(version: GameRulesVersionDocument): void {
+    this.active = { version: version.version, rules: withDefaultGroups(version.rules) };
+    this.logger.log(`Game rules version ${version.version} is active`);
+  }
+
+  /**
+   * @throws BadRequestException 当规则校验失败时
+   */
+  private assertValid(rules: unknown, message = 'Invalid game rules'): void {
+    const errors = this.validate(rules);
+    if (errors.length > 0) {
+      throw new BadRequestException([message, ...errors]);
+    }
+  }
+
+  /**
+   * 按 GameRulesDto 校验规则内容
+   *
+   * @param rules 规则内容
+   * @returns 校验错误，格式为 "字段路径: 错误信息"，校验通过时为空数组
+   */
+  private validate(rules: unknown): string[] {
+    if (!rules || typeof rules !== 'object') {
+      return ['rules must be an object'];
+    }
+    const errors = validateSync(plainToInstance(GameRulesDto, rules as GameRules), {
+      whitelist: true,
+      forbidNonWhitelisted: true,
+    });
+    return this.flatten(errors);
+  }
+
+  private flatten(errors: ValidationError[], prefix = ''): string[] {
+    return errors.flatMap((error) => {
+      const path = `${prefix}${error.property}`;
+      const messages = Object.values(error.constraints ?? {}).map((message) => `${path}: ${message}`);
+      return [...messages, ...this.flatten(error.children ?? [], `${path}.`)];
+    });
+  }
+}
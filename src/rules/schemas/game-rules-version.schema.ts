@@ -0,0 +1,31 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, SchemaTypes } from 'mongoose';
+import { GameRules } from '../game-rules';
+
+export type GameRulesVersionDocument = GameRulesVersion & Document;
+
+/**
+ * 游戏规则版本
+ * 每次发布都新增一个版本，版本号最大的一版为当前生效的规则，历史版本保留用于追溯
+ */
+@Schema({ timestamps: true })
+export class GameRulesVersion {
+  @Prop({ required: true, unique: true })
+  version: number;
+
+  /** 规则内容，写入和加载时都会按 GameRulesDto 校验 */
+  @Prop({ type: SchemaTypes.Mixed, required: true })
+  rules: GameRules;
+
+  /** 发布说明 */
+  @Prop()
+  note?: string;
+
+  /** 发布该版本的管理员，内置规则为空 */
+  @Prop()
+  publishedBy?: string;
+
+  createdAt?: Date;
+}
+
+export const GameRulesVersionSchema = SchemaFactory.createForClass(GameRulesVersion);
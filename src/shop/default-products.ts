@@ -0,0 +1,165 @@
+import {
+  ShopCategory,
+  ShopGrantType,
+  ShopProduct,
+} from './schemas/shop-product.schema';
+
+/**
+ * 内置商品
+ * 应用启动时写入数据库中尚不存在的商品，已存在的商品以数据库为准
+ */
+export const DEFAULT_PRODUCTS: Omit<ShopProduct, 'isActive'>[] = [
+  {
+    sku: 'basic_kibble',
+    name: '普通口粮',
+    category: ShopCategory.FOOD,
+    price: 10,
+    grant: { type: ShopGrantType.ITEM, itemKey: 'basic_kibble', quantity: 1 },
+    stock: null,
+  },
+  {
+    sku: 'fish_snack',
+    name: '小鱼干',
+    category: ShopCategory.FOOD,
+    price: 25,
+    grant: { type: ShopGrantType.ITEM, itemKey: 'fish_snack', quantity: 1 },
+    stock: null,
+  },
+  {
+    sku: 'meat_bone',
+    name: '肉骨头',
+    category: ShopCategory.FOOD,
+    price: 25,
+    grant: { type: ShopGrantType.ITEM, itemKey: 'meat_bone', quantity: 1 },
+    stock: null,
+  },
+  {
+    sku: 'seed_mix',
+    name: '混合谷物',
+    category: ShopCategory.FOOD,
+    price: 20,
+    grant: { type: ShopGrantType.ITEM, itemKey: 'seed_mix', quantity: 1 },
+    stock: null,
+  },
+  {
+    sku: 'fish_flakes',
+    name: '鱼食',
+    category: ShopCategory.FOOD,
+    price: 20,
+    grant: { type: ShopGrantType.ITEM, itemKey: 'fish_flakes', quantity: 1 },
+    stock: null,
+  },
+  {
+    sku: 'carrot',
+    name: '胡萝卜',
+    category: ShopCategory.FOOD,
+    price: 20,
+    grant: { type: ShopGrantType.ITEM, itemKey: 'carrot', quantity: 1 },
+    stock: null,
+  },
+  {
+    sku: 'yarn_ball',
+    name: '毛线球',
+    category: ShopCategory.TOY,
+    price: 30,
+    grant: { type: ShopGrantType.ITEM, itemKey: 'yarn_ball', quantity: 1 },
+    stock: null,
+  },
+  {
+    sku: 'chew_toy',
+    name: '磨牙玩具',
+    category: ShopCategory.TOY,
+    price: 35,
+    grant: { type: ShopGrantType.ITEM, itemKey: 'chew_toy', quantity: 1 },
+    stock: null,
+  },
+  {
+    sku: 'feather_wand',
+    name: '逗猫棒',
+    category: ShopCategory.TOY,
+    price: 45,
+    grant: { type: ShopGrantType.ITEM, itemKey: 'feather_wand', quantity: 1 },
+    stock: null,
+  },
+  {
+    sku: 'bandage',
+    name: '绷带',
+    category: ShopCategory.MEDICINE,
+    price: 30,
+    grant: { type: ShopGrantType.ITEM, itemKey: 'bandage', quantity: 1 },
+    stock: null,
+  },
+  {
+    sku: 'medicine',
+    name: '感冒药',
+    category: ShopCategory.MEDICINE,
+    price: 50,
+    grant: { type: ShopGrantType.ITEM, itemKey: 'medicine', quantity: 1 },
+    stock: null,
+  },
+  {
+    sku: 'super_potion',
+    name: '万能药水',
+    category: ShopCategory.MEDICINE,
+    price: 150,
+    grant: { type: ShopGrantType.ITEM, itemKey: 'super_potion', quantity: 1 },
+    stock: 100,
+  },
+  {
+    sku: 'pet_slot',
+    name: '宠物栏位',
+    description: '可以多养一只宠物',
+    category: ShopCategory.PET_SLOT,
+    price: 500,
+    grant: { type: ShopGrantType.PET_SLOT, quantity: 1 },
+    stock: null,
+  },
+  {
+    sku: 'red_bow',
+    name: '红色蝴蝶结',
+    category: ShopCategory.COSMETIC,
+    price: 80,
+    grant: { type: ShopGrantType.ITEM, itemKey: 'red_bow', quantity: 1 },
+    stock: null,
+  },
+  {
+    sku: 'party_hat',
+    name: '派对帽',
+    category: ShopCategory.COSMETIC,
+    price: 120,
+    grant: { type: ShopGrantType.ITEM, itemKey: 'party_hat', quantity: 1 },
+    stock: 50,
+  },
+  {
+    sku: 'knight_helmet',
+    name: '骑士头盔',
+    category: ShopCategory.EQUIPMENT,
+    price: 300,
+    grant: { type: ShopGrantType.ITEM, itemKey: 'knight_helmet', quantity: 1 },
+    stock: null,
+  },
+  {
+    sku: 'spiked_collar',
+    name: '铆钉项圈',
+    category: ShopCategory.EQUIPMENT,
+    price: 300,
+    grant: { type: ShopGrantType.ITEM, itemKey: 'spiked_collar', quantity: 1 },
+    stock: null,
+  },
+  {
+    sku: 'cozy_scarf',
+    name: '保暖围巾',
+    category: ShopCategory.EQUIPMENT,
+    price: 200,
+    grant: { type: ShopGrantType.ITEM, itemKey: 'cozy_scarf', quantity: 1 },
+    stock: null,
+  },
+  {
+    sku: 'plush_companion',
+    name: '毛绒玩伴',
+    category: ShopCategory.EQUIPMENT,
+    price: 200,
+    grant: { type: ShopGrantType.ITEM, itemKey: 'plush_companion', quantity: 1 },
+    stock: null,
+  },
+];
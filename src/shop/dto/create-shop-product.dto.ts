@@ -0,0 +1,75 @@
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ShopCategory, ShopGrantType } from '../schemas/shop-product.schema';
+
+export class ShopGrantDto {
+  @IsEnum(ShopGrantType)
+  type: ShopGrantType;
+
+  @IsOptional()
+  @IsString()
+  itemKey?: string;
+
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class ShopSaleDto {
+  @IsInt()
+  @Min(0)
+  price: number;
+
+  @Type(() => Date)
+  @IsDate()
+  startsAt: Date;
+
+  @Type(() => Date)
+  @IsDate()
+  endsAt: Date;
+}
+
+export class CreateShopProductDto {
+  @IsString()
+  @Matches(/^[a-z][a-z0-9_]*$/, { message: 'sku must be lowercase letters, digits or underscores' })
+  sku: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsEnum(ShopCategory)
+  category: ShopCategory;
+
+  @IsInt()
+  @Min(0)
+  price: number;
+
+  @ValidateNested()
+  @Type(() => ShopGrantDto)
+  grant: ShopGrantDto;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  stock?: number | null;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ShopSaleDto)
+  sale?: ShopSaleDto;
+}
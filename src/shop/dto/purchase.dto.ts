@@ -0,0 +1,13 @@
+import { IsInt, IsNotEmpty, IsOptional, IsString, Max, Min } from 'class-validator';
+
+export class PurchaseDto {
+  @IsString()
+  @IsNotEmpty()
+  sku: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(99)
+  quantity?: number;
+}
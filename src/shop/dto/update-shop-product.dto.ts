@@ -0,0 +1,48 @@
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ShopGrantDto, ShopSaleDto } from './create-shop-product.dto';
+
+export class UpdateShopProductDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  price?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ShopGrantDto)
+  grant?: ShopGrantDto;
+
+  /** 剩余库存，传 null 表示不限库存 */
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  stock?: number | null;
+
+  /** 限时折扣，传 null 表示取消折扣 */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ShopSaleDto)
+  sale?: ShopSaleDto | null;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
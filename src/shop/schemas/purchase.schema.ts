@@ -0,0 +1,43 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { ShopGrant } from './shop-product.schema';
+
+export type PurchaseDocument = Purchase & Document;
+
+/**
+ * 购买小票
+ * 记录成交时的价格和发放内容，商品后续调价不影响历史小票
+ */
+@Schema({ timestamps: true })
+export class Purchase {
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop({ required: true })
+  sku: string;
+
+  @Prop({ required: true })
+  productName: string;
+
+  @Prop({ required: true })
+  quantity: number;
+
+  @Prop({ required: true })
+  unitPrice: number;
+
+  @Prop({ required: true })
+  totalPrice: number;
+
+  @Prop({ default: false })
+  onSale: boolean;
+
+  @Prop({ type: ShopGrant, required: true })
+  granted: ShopGrant;
+
+  @Prop({ required: true })
+  balanceAfter: number;
+}
+
+export const PurchaseSchema = SchemaFactory.createForClass(Purchase);
+
+PurchaseSchema.index({ userId: 1, createdAt: -1 });
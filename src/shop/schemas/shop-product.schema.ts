@@ -0,0 +1,89 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type ShopProductDocument = ShopProduct & Document;
+
+export enum ShopCategory {
+  FOOD = 'food',
+  TOY = 'toy',
+  MEDICINE = 'medicine',
+  PET_SLOT = 'pet_slot',
+  COSMETIC = 'cosmetic',
+  EQUIPMENT = 'equipment',
+}
+
+/**
+ * 购买后发放的商品类型
+ * - item: 向背包发放道具
+ * - pet_slot: 增加宠物栏位
+ */
+export enum ShopGrantType {
+  ITEM = 'item',
+  PET_SLOT = 'pet_slot',
+}
+
+/**
+ * 每购买一件商品发放的内容
+ */
+@Schema({ _id: false })
+export class ShopGrant {
+  @Prop({ required: true, enum: ShopGrantType })
+  type: ShopGrantType;
+
+  @Prop()
+  itemKey?: string;
+
+  @Prop({ required: true, default: 1 })
+  quantity: number;
+}
+
+/**
+ * 限时折扣，只在 [startsAt, endsAt) 时间段内生效
+ */
+@Schema({ _id: false })
+export class ShopSale {
+  @Prop({ required: true })
+  price: number;
+
+  @Prop({ required: true })
+  startsAt: Date;
+
+  @Prop({ required: true })
+  endsAt: Date;
+}
+
+/**
+ * 商店商品
+ * 由管理员维护，stock 为 null 表示不限库存
+ */
+@Schema({ timestamps: true })
+export class ShopProduct {
+  @Prop({ required: true, unique: true })
+  sku: string;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  description?: string;
+
+  @Prop({ required: true, enum: ShopCategory })
+  category: ShopCategory;
+
+  @Prop({ required: true, min: 0 })
+  price: number;
+
+  @Prop({ type: ShopGrant, required: true })
+  grant: ShopGrant;
+
+  @Prop({ type: Number, default: null })
+  stock: number | null;
+
+  @Prop({ type: ShopSale })
+  sale?: ShopSale;
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const ShopProductSchema = SchemaFactory.createForClass(ShopProduct);
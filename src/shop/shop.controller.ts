@@ -0,0 +1,53 @@
+import { Controller, Get, Post, Body, Query } from '@nestjs/common';
+import { ShopService } from './shop.service';
+import { PurchaseDto } from './dto/purchase.dto';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { PaginationQueryDto } from '../common/dto/pagination-query.dto';
+
+/**
+ * 商店控制器
+ * 提供商品目录查询和金币购买的RESTful API接口
+ * 
+ * 路径前缀: /shop
+ */
+@Controller('shop')
+export class ShopController {
+  constructor(private readonly shopService: ShopService) {}
+
+  /**
+   * 获取在售商品目录
+   * GET /shop/products
+   * 
+   * @returns 上架商品列表，每项包含商品定义、当前价格和是否处于折扣期
+   */
+  @Get('products')
+  getCatalog() {
+    return this.shopService.getCatalog();
+  }
+
+  /**
+   * 购买商品
+   * POST /shop/purchase
+   * 
+   * @param userId 当前认证用户ID，作为买家
+   * @param purchaseDto 商品 sku 和购买数量（默认1）
+   * @returns 购买小票，包含成交单价、总价、发放内容和购买后余额
+   */
+  @Post('purchase')
+  purchase(@CurrentUser('id') userId: string, @Body() purchaseDto: PurchaseDto) {
+    return this.shopService.purchase(userId, purchaseDto);
+  }
+
+  /**
+   * 获取我的购买记录
+   * GET /shop/purchases?page=1&limit=20
+   * 
+   * @param userId 当前认证用户ID
+   * @param query 分页参数
+   * @returns 按时间倒序排列的购买小票
+   */
+  @Get('purchases')
+  getPurchases(@CurrentUser('id') userId: string, @Query() query: PaginationQueryDto) {
+    return this.shopService.getPurchases(userId, query.page, query.limit);
+  }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ShopProduct, ShopProductSchema } from './schemas/shop-product.schema';
+import { Purchase, PurchaseSchema } from './schemas/purchase.schema';
+import { ShopService } from './shop.service';
+import { ShopController } from './shop.controller';
+import { CoinsModule } from '../coins/coins.module';
+import { ItemsModule } from '../items/items.module';
+import { UsersModule } from '../users/users.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ShopProduct.name, schema: ShopProductSchema },
+      { name: Purchase.name, schema: PurchaseSchema },
+    ]),
+    CoinsModule,
+    ItemsModule,
+    UsersModule,
+  ],
+  providers: [ShopService],
+  controllers: [ShopController],
+  exports: [ShopService],
+})
+export class ShopModule {}
@@ -0,0 +1,314 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  ShopGrant,
+  ShopGrantType,
+  ShopProduct,
+  ShopProductDocument,
+} from './schemas/shop-product.schema';
+import { Purchase, PurchaseDocument } from './schemas/purchase.schema';
+import { CreateShopProductDto, ShopSaleDto } from './dto/create-shop-product.dto';
+import { UpdateShopProductDto } from './dto/update-shop-product.dto';
+import { PurchaseDto } from './dto/purchase.dto';
+import { DEFAULT_PRODUCTS } from './default-products';
+import { CoinsService } from '../coins/coins.service';
+import { CoinReason } from '../coins/schemas/coin-transaction.schema';
+import { InventoryService } from '../items/inventory.service';
+import { ItemsService } from '../items/items.service';
+import { UsersService } from '../users/users.service';
+import { PaginatedResult } from '../common/dto/pagination-query.dto';
+
+/**
+ * 商品及其当前生效价格
+ */
+export interface ShopOffer {
+  product: ShopProduct;
+  price: number;
+  onSale: boolean;
+}
+
+/**
+ * 商店服务类
+ * 处理商品目录、限时折扣、库存和购买流程
+ */
+@Injectable()
+export class ShopService implements OnModuleInit {
+  private readonly logger = new Logger(ShopService.name);
+
+  constructor(
+    @InjectModel(ShopProduct.name) private productModel: Model<ShopProductDocument>,
+    @InjectModel(Purchase.name) private purchaseModel: Model<PurchaseDocument>,
+    private readonly coinsService: CoinsService,
+    private readonly inventoryService: InventoryService,
+    private readonly itemsService: ItemsService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  /**
+   * 启动时写入缺失的内置商品，已存在的商品不会被覆盖
+   */
+  async onModuleInit(): Promise<void> {
+    const result = await this.productModel.bulkWrite(
+      DEFAULT_PRODUCTS.map((product) => ({
+        updateOne: {
+          filter: { sku: product.sku },
+          update: { $setOnInsert: { ...product, isActive: true } },
+          upsert: true,
+        },
+      })),
+    );
+    if (result.upsertedCount > 0) {
+      this.logger.log(`Seeded ${result.upsertedCount} default shop products`);
+    }
+  }
+
+  /**
+   * 获取在售商品目录
+   * 
+   * @param now 计算折扣价格的时间点
+   * @returns 上架商品及其当前价格（折扣期内为折扣价）
+   */
+  async getCatalog(now = new Date()): Promise<ShopOffer[]> {
+    const products = await this.productModel
+      .find({ isActive: true })
+      .sort({ category: 1, price: 1 })
+      .exec();
+    return products.map((product) => this.toOffer(product, now));
+  }
+
+  /**
+   * 获取全部商品（包含已下架的商品）
+   * 
+   * @returns 商品数组
+   */
+  async findAll(): Promise<ShopProduct[]> {
+    return this.productModel.find().sort({ category: 1, sku: 1 }).exec();
+  }
+
+  /**
+   * 购买商品
+   * 
+   * 购买流程：
+   * - 校验商品已上架，计算当前价格（折扣期内使用折扣价）
+   * - 限量商品原子地扣减库存，库存不足时直接失败
+   * - 原子地扣除金币并记录流水，余额不足时归还库存
+   * - 向买家发放商品（背包道具或宠物栏位），发放失败时退款并归还库存
+   * - 保存并返回购买小票
+   * 
+   * @param userId 买家用户ID
+   * @param purchaseDto 商品 sku 和购买数量
+   * @returns 购买小票
+   * @throws NotFoundException 当商品不存在或已下架时
+   * @throws BadRequestException 当库存或金币不足时
+   */
+  async purchase(userId: string, purchaseDto: PurchaseDto): Promise<Purchase> {
+    const quantity = purchaseDto.quantity ?? 1;
+    const product = await this.productModel.findOne({ sku: purchaseDto.sku, isActive: true }).exec();
+    if (!product) {
+      throw new NotFoundException(`Product ${purchaseDto.sku} not found`);
+    }
+
+    const offer = this.toOffer(product, new Date());
+    const totalPrice = offer.price * quantity;
+    const purchaseId = new Types.ObjectId();
+
+    await this.reserveStock(product, quantity);
+
+    let balanceAfter: number;
+    try {
+      const transaction = totalPrice > 0
+        ? await this.coinsService.debit(userId, totalPrice, CoinReason.SHOP_PURCHASE, {
+            type: 'shop_purchase',
+            id: purchaseId.toString(),
+            note: `${product.name} x${quantity}`,
+          })
+        : null;
+      balanceAfter = transaction ? transaction.balanceAfter : await this.coinsService.getBalance(userId);
+    } catch (error) {
+      await this.releaseStock(product, quantity);
+      throw error;
+    }
+
+    const granted: ShopGrant = {
+      type: product.grant.type,
+      itemKey: product.grant.itemKey,
+      quantity: product.grant.quantity * quantity,
+    };
+    try {
+      await this.deliver(userId, granted);
+    } catch (error) {
+      if (totalPrice > 0) {
+        await this.coinsService.credit(userId, totalPrice, CoinReason.SHOP_REFUND, {
+          type: 'shop_purchase',
+          id: purchaseId.toString(),
+          note: `${product.name} x${quantity}`,
+        });
+      }
+      await this.releaseStock(product, quantity);
+      throw error;
+    }
+
+    return new this.purchaseModel({
+      _id: purchaseId,
+      userId,
+      sku: product.sku,
+      productName: product.name,
+      quantity,
+      unitPrice: offer.price,
+      totalPrice,
+      onSale: offer.onSale,
+      granted,
+      balanceAfter,
+    }).save();
+  }
+
+  /**
+   * 分页查询用户的购买记录
+   * 
+   * @param userId 用户ID
+   * @param page 页码，从1开始
+   * @param limit 每页条数
+   * @returns 按时间倒序排列的购买小票
+   */
+  async getPurchases(
+    userId: string,
+    page: number,
+    limit: number,
+  ): Promise<PaginatedResult<Purchase>> {
+    const [items, total] = await Promise.all([
+      this.purchaseModel
+        .find({ userId })
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.purchaseModel.countDocuments({ userId }).exec(),
+    ]);
+
+    return { items, total, page, limit };
+  }
+
+  /**
+   * 新增商品
+   * 
+   * @param createShopProductDto 商品定义
+   * @returns 创建的商品
+   * @throws ConflictException 当 sku 已存在时
+   * @throws BadRequestException 当发放内容或折扣时间段无效时
+   */
+  async create(createShopProductDto: CreateShopProductDto): Promise<ShopProduct> {
+    this.validateSale(createShopProductDto.sale);
+    const existing = await this.productModel.exists({ sku: createShopProductDto.sku });
+    if (existing) {
+      throw new ConflictException(`Product ${createShopProductDto.sku} already exists`);
+    }
+    await this.validateGrant(createShopProductDto.grant);
+    return new this.productModel(createShopProductDto).save();
+  }
+
+  /**
+   * 修改商品（价格、库存、折扣、上下架等）
+   * 
+   * @param sku 商品 sku
+   * @param updateShopProductDto 更新的字段
+   * @returns 更新后的商品
+   * @throws NotFoundException 当商品不存在时
+   * @throws BadRequestException 当发放内容或折扣时间段无效时
+   */
+  async update(sku: string, updateShopProductDto: UpdateShopProductDto): Promise<ShopProduct> {
+    this.validateSale(updateShopProductDto.sale);
+    if (updateShopProductDto.grant) {
+      await this.validateGrant(updateShopProductDto.grant);
+    }
+
+    const { sale, ...fields } = updateShopProductDto;
+    const update = sale === null ? { ...fields, $unset: { sale: 1 } } : updateShopProductDto;
+    const product = await this.productModel.findOneAndUpdate({ sku }, update, { new: true }).exec();
+    if (!product) {
+      throw new NotFoundException(`Product ${sku} not found`);
+    }
+    return product;
+  }
+
+  private toOffer(product: ShopProduct, now: Date): ShopOffer {
+    const sale = product.sale;
+    const onSale = !!sale && sale.startsAt <= now && now < sale.endsAt;
+    return {
+      product,
+      price: onSale ? sale.price : product.price,
+      onSale,
+    };
+  }
+
+  /**
+   * 原子地扣减限量商品库存
+   */
+  private async reserveStock(product: ShopProductDocument, quantity: number): Promise<void> {
+    if (product.stock === null || product.stock === undefined) {
+      return;
+    }
+
+    const reserved = await this.productModel
+      .findOneAndUpdate(
+        { _id: product._id, stock: { $gte: quantity } },
+        { $inc: { stock: -quantity } },
+      )
+      .exec();
+    if (!reserved) {
+      throw new BadRequestException(`Product ${product.sku} is out of stock`);
+    }
+  }
+
+  /**
+   * 购买失败时归还已扣减的库存
+   */
+  private async releaseStock(product: ShopProductDocument, quantity: number): Promise<void> {
+    if (product.stock === null || product.stock === undefined) {
+      return;
+    }
+    await this.productModel.updateOne({ _id: product._id }, { $inc: { stock: quantity } }).exec();
+  }
+
+  /**
+   * 向买家发放商品
+   */
+  private async deliver(userId: string, granted: ShopGrant): Promise<void> {
+    switch (granted.type) {
+      case ShopGrantType.ITEM:
+        await this.inventoryService.grant(userId, granted.itemKey, granted.quantity);
+        break;
+      case ShopGrantType.PET_SLOT:
+        await this.usersService.addPetSlots(userId, granted.quantity);
+        break;
+    }
+  }
+
+  /**
+   * 校验发放内容：道具类商品必须指向已存在的道具
+   */
+  private async validateGrant(grant: ShopGrant): Promise<void> {
+    if (grant.type === ShopGrantType.ITEM) {
+      if (!grant.itemKey) {
+        throw new BadRequestException('grant.itemKey is required for item products');
+      }
+      await this.itemsService.findByKey(grant.itemKey);
+    }
+  }
+
+  /**
+   * 校验折扣时间段：结束时间必须晚于开始时间
+   */
+  private validateSale(sale?: ShopSaleDto | null): void {
+    if (sale && sale.endsAt.getTime() <= sale.startsAt.getTime()) {
+      throw new BadRequestException('sale.endsAt must be after sale.startsAt');
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { Move, MoveType } from './schemas/move.schema';
+
+/**
+ * 内置招式
+ * 应用启动时写入数据库中尚不存在的招式，已存在的招式以数据库为准
+ */
+export const DEFAULT_MOVES: Omit<Move, 'isActive'>[] = [
+  // 一般
+  { key: 'tackle', name: '撞击', type: MoveType.NORMAL, power: 45, energyCost: 5, cooldown: 0 },
+  { key: 'scratch', name: '抓', type: MoveType.NORMAL, power: 50, energyCost: 10, cooldown: 1 },
+  { key: 'bite', name: '咬住', type: MoveType.NORMAL, power: 60, energyCost: 15, cooldown: 1 },
+  { key: 'hyper_fang', name: '必杀门牙', type: MoveType.NORMAL, power: 80, energyCost: 25, cooldown: 2 },
+  // 火
+  { key: 'ember', name: '火花', type: MoveType.FIRE, power: 60, energyCost: 15, cooldown: 1 },
+  { key: 'flame_burst', name: '烈焰溅射', type: MoveType.FIRE, power: 90, energyCost: 30, cooldown: 3 },
+  // 水
+  { key: 'water_gun', name: '水枪', type: MoveType.WATER, power: 60, energyCost: 15, cooldown: 1 },
+  { key: 'aqua_tail', name: '水流尾', type: MoveType.WATER, power: 90, energyCost: 30, cooldown: 3 },
+  // 草
+  { key: 'vine_whip', name: '藤鞭', type: MoveType.GRASS, power: 60, energyCost: 15, cooldown: 1 },
+  { key: 'leaf_storm', name: '飞叶风暴', type: MoveType.GRASS, power: 95, energyCost: 35, cooldown: 3 },
+  // 电
+  { key: 'spark', name: '电光', type: MoveType.ELECTRIC, power: 65, energyCost: 20, cooldown: 2 },
+  // 飞行
+  { key: 'gust', name: '起风', type: MoveType.FLYING, power: 50, energyCost: 10, cooldown: 1 },
+  { key: 'air_slash', name: '空气斩', type: MoveType.FLYING, power: 85, energyCost: 25, cooldown: 2 },
+];
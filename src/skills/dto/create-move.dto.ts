@@ -0,0 +1,44 @@
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { MoveType } from '../schemas/move.schema';
+
+export class CreateMoveDto {
+  @IsString()
+  @Matches(/^[a-z][a-z0-9_]*$/, { message: 'key must be lowercase letters, digits or underscores' })
+  key: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsEnum(MoveType)
+  type: MoveType;
+
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  power: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  energyCost: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  cooldown?: number;
+}
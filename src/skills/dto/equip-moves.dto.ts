@@ -0,0 +1,13 @@
+import { ArrayMaxSize, ArrayUnique, IsArray, IsString } from 'class-validator';
+import { MAX_EQUIPPED_MOVES } from '../move-set';
+
+/**
+ * 设置装备的招式，按顺序替换当前装备
+ */
+export class EquipMovesDto {
+  @IsArray()
+  @ArrayMaxSize(MAX_EQUIPPED_MOVES)
+  @ArrayUnique()
+  @IsString({ each: true })
+  moveKeys: string[];
+}
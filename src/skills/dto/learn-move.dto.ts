@@ -0,0 +1,17 @@
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+/**
+ * 学习招式
+ * - moveKey: 要学习的招式
+ * - itemKey: 使用的招式秘籍，提供时不受学习等级限制
+ */
+export class LearnMoveDto {
+  @IsString()
+  @IsNotEmpty()
+  moveKey: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  itemKey?: string;
+}
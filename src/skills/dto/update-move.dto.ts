@@ -0,0 +1,48 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { MoveType } from '../schemas/move.schema';
+
+export class UpdateMoveDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsEnum(MoveType)
+  type?: MoveType;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  power?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  energyCost?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  cooldown?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,23 @@
+import { LearnsetEntry } from '../species/schemas/species.schema';
+
+/** 每只宠物最多装备的招式数量 */
+export const MAX_EQUIPPED_MOVES = 4;
+
+/**
+ * 宠物已学会和已装备的招式
+ */
+export interface PetMoveSet {
+  moves: string[];
+  equippedMoves: string[];
+}
+
+/**
+ * 新宠物的初始招式：自动学会并装备招式池中学习等级为 1 的招式
+ *
+ * @param learnset 物种招式池
+ * @returns 初始招式
+ */
+export function startingMoves(learnset: LearnsetEntry[]): PetMoveSet {
+  const moves = learnset.filter((entry) => entry.level <= 1).map((entry) => entry.moveKey);
+  return { moves, equippedMoves: moves.slice(0, MAX_EQUIPPED_MOVES) };
+}
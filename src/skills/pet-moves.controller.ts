@@ -0,0 +1,75 @@
+import { Controller, Get, Post, Put, Delete, Param, Body, UseGuards } from '@nestjs/common';
+import { SkillsService } from './skills.service';
+import { LearnMoveDto } from './dto/learn-move.dto';
+import { EquipMovesDto } from './dto/equip-moves.dto';
+import { PetOwnerGuard } from '../pets/guards/pet-owner.guard';
+
+/**
+ * 宠物招式控制器
+ * 
+ * 路径前缀: /pets/:id/moves
+ * 
+ * 访问控制：
+ * - 查询接口需要登录
+ * - 学习、遗忘和装备招式只允许宠物主人操作
+ */
+@Controller('pets/:id/moves')
+export class PetMovesController {
+  constructor(private readonly skillsService: SkillsService) {}
+
+  /**
+   * 获取宠物的招式
+   * GET /pets/:id/moves
+   * 
+   * @param id 宠物ID
+   * @returns 已学会的招式、已装备的招式和物种招式池（含学习等级和是否已解锁）
+   */
+  @Get()
+  findAll(@Param('id') id: string) {
+    return this.skillsService.getPetMoves(id);
+  }
+
+  /**
+   * 学习招式
+   * POST /pets/:id/moves/learn
+   * 
+   * 达到学习等级即可学习；指定招式秘籍时不受等级限制，并消耗一个秘籍
+   * 
+   * @param id 宠物ID
+   * @param learnMoveDto 招式标识和可选的招式秘籍
+   * @returns 学习后的宠物对象
+   */
+  @UseGuards(PetOwnerGuard)
+  @Post('learn')
+  learn(@Param('id') id: string, @Body() learnMoveDto: LearnMoveDto) {
+    return this.skillsService.learn(id, learnMoveDto);
+  }
+
+  /**
+   * 设置装备的招式
+   * PUT /pets/:id/moves/equipped
+   * 
+   * @param id 宠物ID
+   * @param equipMovesDto 要装备的招式，最多 4 个
+   * @returns 更新后的宠物对象
+   */
+  @UseGuards(PetOwnerGuard)
+  @Put('equipped')
+  equip(@Param('id') id: string, @Body() equipMovesDto: EquipMovesDto) {
+    return this.skillsService.equip(id, equipMovesDto.moveKeys);
+  }
+
+  /**
+   * 遗忘招式
+   * DELETE /pets/:id/moves/:moveKey
+   * 
+   * @param id 宠物ID
+   * @param moveKey 招式标识
+   * @returns 更新后的宠物对象
+   */
+  @UseGuards(PetOwnerGuard)
+  @Delete(':moveKey')
+  forget(@Param('id') id: string, @Param('moveKey') moveKey: string) {
+    return this.skillsService.forget(id, moveKey);
+  }
+}
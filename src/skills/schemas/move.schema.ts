@@ -0,0 +1,52 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type MoveDocument = Move & Document;
+
+/**
+ * 招式和物种的属性，决定战斗中的克制关系
+ */
+export enum MoveType {
+  NORMAL = 'normal',
+  FIRE = 'fire',
+  WATER = 'water',
+  GRASS = 'grass',
+  ELECTRIC = 'electric',
+  FLYING = 'flying',
+}
+
+/**
+ * 招式目录
+ * 宠物从所属物种的招式池中学习招式，最多装备 4 个在战斗中使用，由管理员维护
+ */
+@Schema({ timestamps: true })
+export class Move {
+  @Prop({ required: true, unique: true })
+  key: string;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  description?: string;
+
+  @Prop({ required: true, enum: MoveType })
+  type: MoveType;
+
+  /** 威力，普通攻击的威力为 40 */
+  @Prop({ required: true })
+  power: number;
+
+  /** 每次使用消耗的战斗能量 */
+  @Prop({ required: true })
+  energyCost: number;
+
+  /** 使用后需要等待的回合数 */
+  @Prop({ default: 0 })
+  cooldown: number;
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const MoveSchema = SchemaFactory.createForClass(Move);
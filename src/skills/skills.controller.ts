@@ -0,0 +1,23 @@
+import { Controller, Get } from '@nestjs/common';
+import { SkillsService } from './skills.service';
+
+/**
+ * 招式目录控制器
+ * 
+ * 路径前缀: /moves
+ */
+@Controller('moves')
+export class SkillsController {
+  constructor(private readonly skillsService: SkillsService) {}
+
+  /**
+   * 获取招式目录
+   * GET /moves
+   * 
+   * @returns 所有可用招式的定义，包含属性、威力、能量消耗和冷却回合
+   */
+  @Get()
+  findAll() {
+    return this.skillsService.findAll();
+  }
+}
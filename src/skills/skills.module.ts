@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Move, MoveSchema } from './schemas/move.schema';
+import { SkillsService } from './skills.service';
+import { SkillsController } from './skills.controller';
+import { PetMovesController } from './pet-moves.controller';
+import { PetsModule } from '../pets/pets.module';
+import { SpeciesModule } from '../species/species.module';
+import { ItemsModule } from '../items/items.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: Move.name, schema: MoveSchema }]),
+    PetsModule,
+    SpeciesModule,
+    ItemsModule,
+  ],
+  providers: [SkillsService],
+  controllers: [SkillsController, PetMovesController],
+  exports: [SkillsService],
+})
+export class SkillsModule {}
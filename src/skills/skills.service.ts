@@ -0,0 +1,280 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Move, MoveDocument } from './schemas/move.schema';
+import { CreateMoveDto } from './dto/create-move.dto';
+import { UpdateMoveDto } from './dto/update-move.dto';
+import { LearnMoveDto } from './dto/learn-move.dto';
+import { DEFAULT_MOVES } from './default-moves';
+import { MAX_EQUIPPED_MOVES } from './move-set';
+import { PetsService } from '../pets/pets.service';
+import { Pet, PetDocument } from '../pets/schemas/pet.schema';
+import { SpeciesService } from '../species/species.service';
+import { ItemsService } from '../items/items.service';
+import { InventoryService } from '../items/inventory.service';
+import { ItemCategory } from '../items/schemas/item.schema';
+
+/**
+ * 招式池中的一个招式及宠物的学习情况
+ */
+export interface LearnableMove {
+  move: Move;
+  level: number;
+  learned: boolean;
+  /** 宠物等级已达到学习等级 */
+  unlocked: boolean;
+}
+
+/**
+ * 宠物的招式
+ */
+export interface PetMoves {
+  petId: string;
+  learned: Move[];
+  equipped: Move[];
+  learnset: LearnableMove[];
+}
+
+/**
+ * 招式服务类
+ * 维护招式目录，处理宠物学习、遗忘和装备招式
+ */
+@Injectable()
+export class SkillsService implements OnModuleInit {
+  private readonly logger = new Logger(SkillsService.name);
+
+  constructor(
+    @InjectModel(Move.name) private moveModel: Model<MoveDocument>,
+    private readonly petsService: PetsService,
+    private readonly speciesService: SpeciesService,
+    private readonly itemsService: ItemsService,
+    private readonly inventoryService: InventoryService,
+  ) {}
+
+  /**
+   * 启动时写入缺失的内置招式，已存在的招式不会被覆盖
+   */
+  async onModuleInit(): Promise<void> {
+    const result = await this.moveModel.bulkWrite(
+      DEFAULT_MOVES.map((move) => ({
+        updateOne: {
+          filter: { key: move.key },
+          update: { $setOnInsert: { ...move, isActive: true } },
+          upsert: true,
+        },
+      })),
+    );
+    if (result.upsertedCount > 0) {
+      this.logger.log(`Seeded ${result.upsertedCount} default moves`);
+    }
+  }
+
+  /**
+   * 获取招式目录
+   *
+   * @param includeInactive 是否包含已停用的招式
+   * @returns 招式数组，按属性和 key 排序
+   */
+  async findAll(includeInactive = false): Promise<Move[]> {
+    const filter = includeInactive ? {} : { isActive: true };
+    return this.moveModel.find(filter).sort({ type: 1, key: 1 }).exec();
+  }
+
+  /**
+   * 根据 key 批量查找招式
+   *
+   * @param keys 招式标识列表
+   * @returns 以 key 为索引的招式映射
+   */
+  async findByKeys(keys: string[]): Promise<Map<string, Move>> {
+    const moves = await this.moveModel.find({ key: { $in: keys } }).exec();
+    return new Map(moves.map((move) => [move.key, move]));
+  }
+
+  /**
+   * 新增招式
+   *
+   * @param createMoveDto 招式定义
+   * @returns 创建的招式
+   * @throws ConflictException 当招式 key 已存在时
+   */
+  async create(createMoveDto: CreateMoveDto): Promise<Move> {
+    const existing = await this.moveModel.exists({ key: createMoveDto.key });
+    if (existing) {
+      throw new ConflictException(`Move ${createMoveDto.key} already exists`);
+    }
+    return new this.moveModel(createMoveDto).save();
+  }
+
+  /**
+   * 修改招式定义
+   * 已停用的招式不能再学习，已学会的宠物在战斗中也不再使用
+   *
+   * @param key 招式标识
+   * @param updateMoveDto 更新的字段
+   * @returns 更新后的招式
+   * @throws NotFoundException 当招式不存在时
+   */
+  async update(key: string, updateMoveDto: UpdateMoveDto): Promise<Move> {
+    const move = await this.moveModel.findOneAndUpdate({ key }, updateMoveDto, { new: true }).exec();
+    if (!move) {
+      throw new NotFoundException(`Move ${key} not found`);
+    }
+    return move;
+  }
+
+  /**
+   * 获取宠物已学会、已装备的招式和物种招式池
+   *
+   * @param petId 宠物ID
+   * @returns 宠物的招式
+   * @throws NotFoundException 当宠物不存在时
+   */
+  async getPetMoves(petId: string): Promise<PetMoves> {
+    const pet = await this.findPet(petId);
+    const species = await this.speciesService.findByKey(pet.type);
+    const moves = await this.findByKeys([
+      ...pet.moves,
+      ...species.learnset.map((entry) => entry.moveKey),
+    ]);
+
+    const resolve = (keys: string[]) =>
+      keys.map((key) => moves.get(key)).filter((move): move is Move => Boolean(move));
+
+    return {
+      petId,
+      learned: resolve(pet.moves),
+      equipped: resolve(pet.equippedMoves),
+      learnset: species.learnset
+        .filter((entry) => moves.get(entry.moveKey)?.isActive)
+        .map((entry) => ({
+          move: moves.get(entry.moveKey),
+          level: entry.level,
+          learned: pet.moves.includes(entry.moveKey),
+          unlocked: pet.level >= entry.level,
+        })),
+    };
+  }
+
+  /**
+   * 学习招式
+   *
+   * 学习规则：
+   * - 只能学习所属物种招式池中的招式
+   * - 不使用道具时，宠物等级需达到招式的学习等级
+   * - 使用招式秘籍时不受等级限制，秘籍会从背包中扣除
+   * - 装备的招式不足 4 个时自动装备新招式
+   *
+   * @param petId 宠物ID
+   * @param dto 招式和可选的招式秘籍
+   * @returns 学习后的宠物对象
+   * @throws NotFoundException 当宠物、招式或道具不存在时
+   * @throws BadRequestException 当招式已学会、不在招式池中、等级不足或秘籍不匹配时
+   */
+  async learn(petId: string, dto: LearnMoveDto): Promise<Pet> {
+    const pet = await this.findPet(petId);
+    this.petsService.assertAvailable(pet);
+
+    const move = await this.findActiveMove(dto.moveKey);
+    if (pet.moves.includes(move.key)) {
+      throw new BadRequestException(`Pet ${pet.name} already knows ${move.name}`);
+    }
+
+    const species = await this.speciesService.findByKey(pet.type);
+    const entry = species.learnset.find((candidate) => candidate.moveKey === move.key);
+    if (!entry) {
+      throw new BadRequestException(`Pet ${pet.name} cannot learn ${move.name}`);
+    }
+
+    if (dto.itemKey) {
+      const item = await this.itemsService.findByKey(dto.itemKey);
+      if (item.category !== ItemCategory.SKILL || item.teachesMove !== move.key) {
+        throw new BadRequestException(`Item ${dto.itemKey} does not teach ${move.name}`);
+      }
+    } else if (pet.level < entry.level) {
+      throw new BadRequestException(`Pet ${pet.name} must be at least level ${entry.level} to learn ${move.name}`);
+    }
+
+    if (dto.itemKey) {
+      await this.inventoryService.consume(pet.userId, dto.itemKey);
+    }
+
+    const equippedMoves =
+      pet.equippedMoves.length < MAX_EQUIPPED_MOVES ? [...pet.equippedMoves, move.key] : pet.equippedMoves;
+    try {
+      return await this.petsService.updateMoves(pet, {
+        moves: [...pet.moves, move.key],
+        equippedMoves,
+      });
+    } catch (error) {
+      if (dto.itemKey) {
+        await this.inventoryService.grant(pet.userId, dto.itemKey, 1);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 遗忘招式，已装备的招式同时卸下
+   *
+   * @param petId 宠物ID
+   * @param moveKey 招式标识
+   * @returns 更新后的宠物对象
+   * @throws BadRequestException 当宠物没有学会该招式时
+   */
+  async forget(petId: string, moveKey: string): Promise<Pet> {
+    const pet = await this.findPet(petId);
+    this.petsService.assertAvailable(pet);
+    if (!pet.moves.includes(moveKey)) {
+      throw new BadRequestException(`Pet ${pet.name} does not know move ${moveKey}`);
+    }
+
+    return this.petsService.updateMoves(pet, {
+      moves: pet.moves.filter((key) => key !== moveKey),
+      equippedMoves: pet.equippedMoves.filter((key) => key !== moveKey),
+    });
+  }
+
+  /**
+   * 设置装备的招式，按顺序替换当前装备
+   *
+   * @param petId 宠物ID
+   * @param moveKeys 要装备的招式，最多 4 个且不能重复
+   * @returns 更新后的宠物对象
+   * @throws BadRequestException 当有招式没有学会时
+   */
+  async equip(petId: string, moveKeys: string[]): Promise<Pet> {
+    const pet = await this.findPet(petId);
+    this.petsService.assertAvailable(pet);
+
+    const unknown = moveKeys.filter((key) => !pet.moves.includes(key));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Pet ${pet.name} has not learned: ${unknown.join(', ')}`);
+    }
+
+    return this.petsService.updateMoves(pet, { moves: pet.moves, equippedMoves: moveKeys });
+  }
+
+  private async findPet(id: string): Promise<PetDocument> {
+    const pet = await this.petsService.findById(id);
+    if (!pet) {
+      throw new NotFoundException('Pet not found');
+    }
+    return pet;
+  }
+
+  private async findActiveMove(key: string): Promise<Move> {
+    const move = await this.moveModel.findOne({ key, isActive: true }).exec();
+    if (!move) {
+      throw new NotFoundException(`Move ${key} not found`);
+    }
+    return move;
+  }
+}
@@ -0,0 +1,36 @@
+import { MoveType } from './schemas/move.schema';
+
+/** 克制时的伤害倍率 */
+export const SUPER_EFFECTIVE_MULTIPLIER = 1.5;
+
+/** 被抵抗时的伤害倍率 */
+export const NOT_EFFECTIVE_MULTIPLIER = 0.75;
+
+/**
+ * 属性克制表：键为招式属性，值为被该属性克制的目标属性
+ * 被克制的属性反过来攻击时伤害降低
+ */
+const STRONG_AGAINST: Partial<Record<MoveType, MoveType[]>> = {
+  [MoveType.FIRE]: [MoveType.GRASS],
+  [MoveType.WATER]: [MoveType.FIRE],
+  [MoveType.GRASS]: [MoveType.WATER],
+  [MoveType.ELECTRIC]: [MoveType.WATER, MoveType.FLYING],
+  [MoveType.FLYING]: [MoveType.GRASS],
+};
+
+/**
+ * 计算招式属性对目标属性的伤害倍率
+ *
+ * @param moveType 招式属性
+ * @param targetType 目标宠物的物种属性
+ * @returns 克制时为 1.5，被抵抗时为 0.75，其他为 1
+ */
+export function typeEffectiveness(moveType: MoveType, targetType: MoveType): number {
+  if (STRONG_AGAINST[moveType]?.includes(targetType)) {
+    return SUPER_EFFECTIVE_MULTIPLIER;
+  }
+  if (STRONG_AGAINST[targetType]?.includes(moveType)) {
+    return NOT_EFFECTIVE_MULTIPLIER;
+  }
+  return 1;
+}
@@ -0,0 +1,194 @@
+import { Species } from './schemas/species.schema';
+import { MoveType } from '../skills/schemas/move.schema';
+
+/**
+ * 内置物种
+ * 应用启动时写入数据库中尚不存在的物种，已存在的物种以数据库为准，不会被覆盖
+ */
+export const DEFAULT_SPECIES: Omit<Species, 'isActive'>[] = [
+  {
+    key: 'cat',
+    name: '猫',
+    description: '独立又黏人，饿得不快但需要经常陪玩',
+    baseStats: { health: 100, hunger: 100, happiness: 90, energy: 100 },
+    decayRates: { hunger: 2, happiness: 2, energy: 1 },
+    favoriteFoods: ['fish_snack'],
+    evolutionStages: [
+      {
+        key: 'kitten',
+        name: '小猫',
+        requirements: { level: 1 },
+        statBoosts: { maxHp: 0, attack: 0, defense: 0, speed: 0 },
+      },
+      {
+        key: 'cat',
+        name: '猫',
+        requirements: { level: 5, happiness: 60 },
+        statBoosts: { maxHp: 10, attack: 3, defense: 2, speed: 4 },
+      },
+      {
+        key: 'lynx',
+        name: '猞猁',
+        requirements: { level: 15, happiness: 80, battlesWon: 10 },
+        statBoosts: { maxHp: 20, attack: 6, defense: 4, speed: 8 },
+      },
+    ],
+    expeditionBonus: 1,
+    element: MoveType.NORMAL,
+    learnset: [
+      { moveKey: 'scratch', level: 1 },
+      { moveKey: 'bite', level: 5 },
+      { moveKey: 'hyper_fang', level: 12 },
+      { moveKey: 'spark', level: 18 },
+    ],
+    eggGroups: ['field'],
+  },
+  {
+    key: 'dog',
+    name: '狗',
+    description: '精力充沛，快乐度下降慢，但很容易饿',
+    baseStats: { health: 100, hunger: 90, happiness: 100, energy: 100 },
+    decayRates: { hunger: 2.5, happiness: 1, energy: 1.5 },
+    favoriteFoods: ['meat_bone'],
+    evolutionStages: [
+      {
+        key: 'puppy',
+        name: '小狗',
+        requirements: { level: 1 },
+        statBoosts: { maxHp: 0, attack: 0, defense: 0, speed: 0 },
+      },
+      {
+        key: 'dog',
+        name: '狗',
+        requirements: { level: 5, happiness: 60 },
+        statBoosts: { maxHp: 15, attack: 3, defense: 3, speed: 2 },
+      },
+      {
+        key: 'wolfhound',
+        name: '猎狼犬',
+        requirements: { level: 15, happiness: 70, battlesWon: 15 },
+        statBoosts: { maxHp: 25, attack: 7, defense: 5, speed: 4 },
+      },
+    ],
+    expeditionBonus: 1.1,
+    element: MoveType.NORMAL,
+    learnset: [
+      { moveKey: 'tackle', level: 1 },
+      { moveKey: 'bite', level: 4 },
+      { moveKey: 'ember', level: 10 },
+      { moveKey: 'flame_burst', level: 20 },
+    ],
+    eggGroups: ['field'],
+  },
+  {
+    key: 'bird',
+    name: '鸟',
+    description: '体质稍弱，成长迅速',
+    baseStats: { health: 90, hunger: 100, happiness: 100, energy: 100 },
+    decayRates: { hunger: 1.5, happiness: 1.5, energy: 2 },
+    favoriteFoods: ['seed_mix'],
+    evolutionStages: [
+      {
+        key: 'chick',
+        name: '雏鸟',
+        requirements: { level: 1 },
+        statBoosts: { maxHp: 0, attack: 0, defense: 0, speed: 0 },
+      },
+      {
+        key: 'bird',
+        name: '鸟',
+        requirements: { level: 5, happiness: 60 },
+        statBoosts: { maxHp: 5, attack: 3, defense: 1, speed: 6 },
+      },
+      {
+        key: 'falcon',
+        name: '游隼',
+        requirements: { level: 15, happiness: 70, battlesWon: 10 },
+        statBoosts: { maxHp: 10, attack: 8, defense: 2, speed: 12 },
+      },
+    ],
+    expeditionBonus: 1.2,
+    element: MoveType.FLYING,
+    learnset: [
+      { moveKey: 'gust', level: 1 },
+      { moveKey: 'tackle', level: 3 },
+      { moveKey: 'air_slash', level: 10 },
+      { moveKey: 'spark', level: 15 },
+    ],
+    eggGroups: ['flying'],
+  },
+  {
+    key: 'fish',
+    name: '鱼',
+    description: '安静省心，各项数值衰减都很慢，成长较慢',
+    baseStats: { health: 100, hunger: 100, happiness: 100, energy: 100 },
+    decayRates: { hunger: 1, happiness: 1, energy: 0.5 },
+    favoriteFoods: ['fish_flakes'],
+    evolutionStages: [
+      {
+        key: 'fry',
+        name: '鱼苗',
+        requirements: { level: 1 },
+        statBoosts: { maxHp: 0, attack: 0, defense: 0, speed: 0 },
+      },
+      {
+        key: 'fish',
+        name: '鱼',
+        requirements: { level: 5, happiness: 60 },
+        statBoosts: { maxHp: 10, attack: 2, defense: 3, speed: 3 },
+      },
+      {
+        key: 'koi',
+        name: '锦鲤',
+        requirements: { level: 15, happiness: 90 },
+        statBoosts: { maxHp: 30, attack: 4, defense: 8, speed: 4 },
+      },
+    ],
+    expeditionBonus: 0.8,
+    element: MoveType.WATER,
+    learnset: [
+      { moveKey: 'tackle', level: 1 },
+      { moveKey: 'water_gun', level: 3 },
+      { moveKey: 'bite', level: 8 },
+      { moveKey: 'aqua_tail', level: 14 },
+    ],
+    eggGroups: ['water'],
+  },
+  {
+    key: 'rabbit',
+    name: '兔子',
+    description: '胆小敏感，快乐度下降快，后期成长加速',
+    baseStats: { health: 95, hunger: 100, happiness: 100, energy: 100 },
+    decayRates: { hunger: 2, happiness: 2.5, energy: 1 },
+    favoriteFoods: ['carrot'],
+    evolutionStages: [
+      {
+        key: 'bunny',
+        name: '幼兔',
+        requirements: { level: 1 },
+        statBoosts: { maxHp: 0, attack: 0, defense: 0, speed: 0 },
+      },
+      {
+        key: 'rabbit',
+        name: '兔子',
+        requirements: { level: 5, happiness: 70 },
+        statBoosts: { maxHp: 8, attack: 2, defense: 2, speed: 5 },
+      },
+      {
+        key: 'moon_rabbit',
+        name: '玉兔',
+        requirements: { level: 15, happiness: 90, battlesWon: 5 },
+        statBoosts: { maxHp: 15, attack: 5, defense: 5, speed: 10 },
+      },
+    ],
+    expeditionBonus: 1,
+    element: MoveType.GRASS,
+    learnset: [
+      { moveKey: 'tackle', level: 1 },
+      { moveKey: 'vine_whip', level: 4 },
+      { moveKey: 'hyper_fang', level: 10 },
+      { moveKey: 'leaf_storm', level: 16 },
+    ],
+    eggGroups: ['field'],
+  },
+];
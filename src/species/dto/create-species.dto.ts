@@ -0,0 +1,167 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { MoveType } from '../../skills/schemas/move.schema';
+
+export class SpeciesBaseStatsDto {
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  health: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  hunger: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  happiness: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  energy: number;
+}
+
+export class SpeciesDecayRatesDto {
+  @IsNumber()
+  @Min(0)
+  hunger: number;
+
+  @IsNumber()
+  @Min(0)
+  happiness: number;
+
+  @IsNumber()
+  @Min(0)
+  energy: number;
+}
+
+export class EvolutionRequirementsDto {
+  @IsNumber()
+  @Min(1)
+  level: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  happiness?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  battlesWon?: number;
+}
+
+export class EvolutionStatBoostsDto {
+  @IsNumber()
+  @Min(0)
+  maxHp: number;
+
+  @IsNumber()
+  @Min(0)
+  attack: number;
+
+  @IsNumber()
+  @Min(0)
+  defense: number;
+
+  @IsNumber()
+  @Min(0)
+  speed: number;
+}
+
+export class EvolutionStageDto {
+  @IsString()
+  @Matches(/^[a-z][a-z0-9_]*$/, { message: 'key must be lowercase letters, digits or underscores' })
+  key: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ValidateNested()
+  @Type(() => EvolutionRequirementsDto)
+  requirements: EvolutionRequirementsDto;
+
+  @ValidateNested()
+  @Type(() => EvolutionStatBoostsDto)
+  statBoosts: EvolutionStatBoostsDto;
+}
+
+export class LearnsetEntryDto {
+  @IsString()
+  @Matches(/^[a-z][a-z0-9_]*$/, { message: 'moveKey must be lowercase letters, digits or underscores' })
+  moveKey: string;
+
+  @IsInt()
+  @Min(1)
+  level: number;
+}
+
+export class CreateSpeciesDto {
+  @IsString()
+  @Matches(/^[a-z][a-z0-9_]*$/, { message: 'key must be lowercase letters, digits or underscores' })
+  key: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ValidateNested()
+  @Type(() => SpeciesBaseStatsDto)
+  baseStats: SpeciesBaseStatsDto;
+
+  @ValidateNested()
+  @Type(() => SpeciesDecayRatesDto)
+  decayRates: SpeciesDecayRatesDto;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  favoriteFoods?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => EvolutionStageDto)
+  evolutionStages?: EvolutionStageDto[];
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  expeditionBonus?: number;
+
+  @IsOptional()
+  @IsEnum(MoveType)
+  element?: MoveType;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => LearnsetEntryDto)
+  learnset?: LearnsetEntryDto[];
+
+  @IsOptional()
+  @IsArray()
+  @Matches(/^[a-z][a-z0-9_]*$/, { each: true, message: 'eggGroups must be lowercase letters, digits or underscores' })
+  eggGroups?: string[];
+}
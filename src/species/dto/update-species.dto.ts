@@ -0,0 +1,76 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import {
+  EvolutionStageDto,
+  LearnsetEntryDto,
+  SpeciesBaseStatsDto,
+  SpeciesDecayRatesDto,
+} from './create-species.dto';
+import { MoveType } from '../../skills/schemas/move.schema';
+
+export class UpdateSpeciesDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SpeciesBaseStatsDto)
+  baseStats?: SpeciesBaseStatsDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SpeciesDecayRatesDto)
+  decayRates?: SpeciesDecayRatesDto;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  favoriteFoods?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => EvolutionStageDto)
+  evolutionStages?: EvolutionStageDto[];
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  expeditionBonus?: number;
+
+  @IsOptional()
+  @IsEnum(MoveType)
+  element?: MoveType;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => LearnsetEntryDto)
+  learnset?: LearnsetEntryDto[];
+
+  @IsOptional()
+  @IsArray()
+  @Matches(/^[a-z][a-z0-9_]*$/, { each: true, message: 'eggGroups must be lowercase letters, digits or underscores' })
+  eggGroups?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
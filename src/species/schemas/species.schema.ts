@@ -0,0 +1,153 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { MoveType } from '../../skills/schemas/move.schema';
+
+export type SpeciesDocument = Species & Document;
+
+/**
+ * 宠物初始数值 (0-100)
+ */
+@Schema({ _id: false })
+export class SpeciesBaseStats {
+  @Prop({ required: true })
+  health: number;
+
+  @Prop({ required: true })
+  hunger: number;
+
+  @Prop({ required: true })
+  happiness: number;
+
+  @Prop({ required: true })
+  energy: number;
+}
+
+/**
+ * 每小时数值衰减量
+ */
+@Schema({ _id: false })
+export class SpeciesDecayRates {
+  @Prop({ required: true })
+  hunger: number;
+
+  @Prop({ required: true })
+  happiness: number;
+
+  @Prop({ required: true })
+  energy: number;
+}
+
+/**
+ * 进化所需条件，未设置的条件不做要求
+ */
+@Schema({ _id: false })
+export class EvolutionRequirements {
+  @Prop({ required: true })
+  level: number;
+
+  @Prop()
+  happiness?: number;
+
+  @Prop()
+  battlesWon?: number;
+}
+
+/**
+ * 进化时永久获得的战斗属性加成
+ */
+@Schema({ _id: false })
+export class EvolutionStatBoosts {
+  @Prop({ default: 0 })
+  maxHp: number;
+
+  @Prop({ default: 0 })
+  attack: number;
+
+  @Prop({ default: 0 })
+  defense: number;
+
+  @Prop({ default: 0 })
+  speed: number;
+}
+
+/**
+ * 进化阶段
+ * 进化链中的第一个阶段是新宠物的初始形态，其条件和加成不生效
+ */
+@Schema({ _id: false })
+export class EvolutionStage {
+  @Prop({ required: true })
+  key: string;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ type: EvolutionRequirements, required: true })
+  requirements: EvolutionRequirements;
+
+  @Prop({ type: EvolutionStatBoosts, default: () => ({}) })
+  statBoosts: EvolutionStatBoosts;
+}
+
+/**
+ * 招式池中的一个招式
+ * 宠物达到 level 后可以学习该招式，使用招式秘籍学习时不受等级限制
+ */
+@Schema({ _id: false })
+export class LearnsetEntry {
+  @Prop({ required: true })
+  moveKey: string;
+
+  @Prop({ required: true })
+  level: number;
+}
+
+/**
+ * 宠物物种
+ * 定义每个物种的初始数值、衰减速度、喜爱的食物、成长曲线、进化链、探险奖励倍率、招式池和蛋组，由管理员维护
+ */
+@Schema({ timestamps: true })
+export class Species {
+  @Prop({ required: true, unique: true })
+  key: string;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  description?: string;
+
+  @Prop({ type: SpeciesBaseStats, required: true })
+  baseStats: SpeciesBaseStats;
+
+  @Prop({ type: SpeciesDecayRates, required: true })
+  decayRates: SpeciesDecayRates;
+
+  @Prop({ type: [String], default: [] })
+  favoriteFoods: string[];
+
+  /** 进化链，按进化顺序排列；为空表示该物种不能进化 */
+  @Prop({ type: [EvolutionStage], default: [] })
+  evolutionStages: EvolutionStage[];
+
+  /** 探险奖励倍率 */
+  @Prop({ default: 1 })
+  expeditionBonus: number;
+
+  /** 物种属性，决定受到招式攻击时的克制关系 */
+  @Prop({ enum: MoveType, default: MoveType.NORMAL })
+  element: MoveType;
+
+  /** 可以学习的招式，按学习等级排列；新宠物自动学会 1 级的招式 */
+  @Prop({ type: [LearnsetEntry], default: [] })
+  learnset: LearnsetEntry[];
+
+  /** 蛋组，同一物种或有相同蛋组的两只宠物才能繁殖 */
+  @Prop({ type: [String], default: [] })
+  eggGroups: string[];
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const SpeciesSchema = SchemaFactory.createForClass(Species);
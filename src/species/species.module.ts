@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Species, SpeciesSchema } from './schemas/species.schema';
+import { SpeciesService } from './species.service';
+import { IsSpeciesConstraint } from './validators/is-species.validator';
+import { RulesModule } from '../rules/rules.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: Species.name, schema: SpeciesSchema }]),
+    RulesModule,
+  ],
+  providers: [SpeciesService, IsSpeciesConstraint],
+  exports: [SpeciesService],
+})
+export class SpeciesModule {}
@@ -0,0 +1,228 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { EvolutionStage, Species, SpeciesDocument } from './schemas/species.schema';
+import { CreateSpeciesDto } from './dto/create-species.dto';
+import { UpdateSpeciesDto } from './dto/update-species.dto';
+import { DEFAULT_SPECIES } from './default-species';
+import { RulesService } from '../rules/rules.service';
+import { GrowthCurve, SpeciesGrowthCurve } from '../rules/game-rules';
+import { growthCurveFor } from '../rules/growth-curve';
+
+/**
+ * 物种服务类
+ * 维护物种注册表，提供物种查询、校验和管理功能
+ */
+@Injectable()
+export class SpeciesService implements OnModuleInit {
+  private readonly logger = new Logger(SpeciesService.name);
+
+  constructor(
+    @InjectModel(Species.name) private speciesModel: Model<SpeciesDocument>,
+    private rulesService: RulesService,
+  ) {}
+
+  /**
+   * 启动时写入缺失的内置物种
+   * 使用 $setOnInsert，已存在的物种不会被覆盖，保留管理员的修改；
+   * 已存在但还没有招式池的内置物种补齐属性和招式池，还没有蛋组的内置物种补齐蛋组；
+   * 物种上旧的成长曲线迁入游戏规则
+   */
+  async onModuleInit(): Promise<void> {
+    const result = await this.speciesModel.bulkWrite(
+      DEFAULT_SPECIES.map((species) => ({
+        updateOne: {
+          filter: { key: species.key },
+          update: { $setOnInsert: { ...species, isActive: true } },
+          upsert: true,
+        },
+      })),
+    );
+    if (result.upsertedCount > 0) {
+      this.logger.log(`Seeded ${result.upsertedCount} default species`);
+    }
+
+    const backfilled = await this.speciesModel.bulkWrite(
+      DEFAULT_SPECIES.map((species) => ({
+        updateOne: {
+          filter: { key: species.key, learnset: { $exists: false } },
+          update: { $set: { element: species.element, learnset: species.learnset } },
+        },
+      })),
+    );
+    if (backfilled.modifiedCount > 0) {
+      this.logger.log(`Added learnsets to ${backfilled.modifiedCount} default species`);
+    }
+
+    const grouped = await this.speciesModel.bulkWrite(
+      DEFAULT_SPECIES.map((species) => ({
+        updateOne: {
+          filter: { key: species.key, eggGroups: { $exists: false } },
+          update: { $set: { eggGroups: species.eggGroups } },
+        },
+      })),
+    );
+    if (grouped.modifiedCount > 0) {
+      this.logger.log(`Added egg groups to ${grouped.modifiedCount} default species`);
+    }
+
+    await this.migrateGrowthCurves();
+  }
+
+  /**
+   * 把物种上保存的成长曲线迁入游戏规则
+   * 成长曲线以前保存在物种注册表中，不随规则版本化。与当前规则不同的曲线（管理员修改过或规则中没有的物种）
+   * 写入规则的 growth.species 并发布为新版本，然后从物种中删除该字段
+   */
+  private async migrateGrowthCurves(): Promise<void> {
+    const legacy = await this.speciesModel
+      .find({ growthCurve: { $exists: true } }, { key: 1, growthCurve: 1 })
+      .lean<{ key: string; growthCurve: GrowthCurve }[]>()
+      .exec();
+    if (legacy.length === 0) {
+      return;
+    }
+
+    const { rules } = this.rulesService.getActive();
+    const changed: SpeciesGrowthCurve[] = legacy
+      .filter(({ key, growthCurve }) => {
+        const current = growthCurveFor(rules.growth, key);
+        return (
+          current.baseExperience !== growthCurve.baseExperience || current.exponent !== growthCurve.exponent
+        );
+      })
+      .map(({ key, growthCurve }) => ({
+        species: key,
+        baseExperience: growthCurve.baseExperience,
+        exponent: growthCurve.exponent,
+      }));
+    if (changed.length > 0) {
+      const keys = new Set(changed.map((curve) => curve.species));
+      await this.rulesService.publishMigration(
+        {
+          ...rules,
+          growth: {
+            ...rules.growth,
+            species: [...rules.growth.species.filter((curve) => !keys.has(curve.species)), ...changed],
+          },
+        },
+        `Migrated growth curves of species: ${[...keys].join(', ')}`,
+      );
+    }
+
+    await this.speciesModel
+      .updateMany({ growthCurve: { $exists: true } }, { $unset: { growthCurve: 1 } }, { strict: false })
+      .exec();
+    this.logger.log(`Moved growth curves of ${legacy.length} species into the game rules`);
+  }
+
+  /**
+   * 获取物种目录
+   * 
+   * @param includeInactive 是否包含已停用的物种
+   * @returns 物种数组，按 key 排序
+   */
+  async findAll(includeInactive = false): Promise<Species[]> {
+    const filter = includeInactive ? {} : { isActive: true };
+    return this.speciesModel.find(filter).sort({ key: 1 }).exec();
+  }
+
+  /**
+   * 根据 key 查找物种
+   * 
+   * @param key 物种标识
+   * @returns 物种对象
+   * @throws NotFoundException 当物种不存在时
+   */
+  async findByKey(key: string): Promise<Species> {
+    const species = await this.speciesModel.findOne({ key }).exec();
+    if (!species) {
+      throw new NotFoundException(`Species ${key} not found`);
+    }
+    return species;
+  }
+
+  /**
+   * 判断物种是否存在且可用于创建新宠物
+   * 
+   * @param key 物种标识
+   * @returns 是否可用
+   */
+  async isAvailable(key: string): Promise<boolean> {
+    const count = await this.speciesModel.countDocuments({ key, isActive: true }).exec();
+    return count > 0;
+  }
+
+  /**
+   * 新增物种
+   * 
+   * @param createSpeciesDto 物种定义
+   * @returns 创建的物种对象
+   * @throws ConflictException 当物种 key 已存在时
+   * @throws BadRequestException 当进化链中有重复的阶段时
+   */
+  async create(createSpeciesDto: CreateSpeciesDto): Promise<Species> {
+    this.assertValidEvolutionStages(createSpeciesDto.evolutionStages);
+    const existing = await this.speciesModel.exists({ key: createSpeciesDto.key });
+    if (existing) {
+      throw new ConflictException(`Species ${createSpeciesDto.key} already exists`);
+    }
+    return new this.speciesModel(createSpeciesDto).save();
+  }
+
+  /**
+   * 修改物种定义
+   * 
+   * @param key 物种标识
+   * @param updateSpeciesDto 更新的字段
+   * @returns 更新后的物种对象
+   * @throws NotFoundException 当物种不存在时
+   * @throws BadRequestException 当进化链中有重复的阶段时
+   */
+  async update(key: string, updateSpeciesDto: UpdateSpeciesDto): Promise<Species> {
+    this.assertValidEvolutionStages(updateSpeciesDto.evolutionStages);
+    const species = await this.speciesModel
+      .findOneAndUpdate({ key }, updateSpeciesDto, { new: true })
+      .exec();
+    if (!species) {
+      throw new NotFoundException(`Species ${key} not found`);
+    }
+    return species;
+  }
+
+  /**
+   * 停用物种
+   * 已有的该物种宠物不受影响，只是不能再创建新的该物种宠物
+   * 
+   * @param key 物种标识
+   * @returns 更新后的物种对象
+   * @throws NotFoundException 当物种不存在时
+   */
+  async deactivate(key: string): Promise<Species> {
+    return this.update(key, { isActive: false });
+  }
+
+  /**
+   * 校验进化链中的阶段标识不重复
+   * 
+   * @param stages 进化链
+   * @throws BadRequestException 当有重复的阶段标识时
+   */
+  private assertValidEvolutionStages(stages?: Pick<EvolutionStage, 'key'>[]): void {
+    if (!stages) {
+      return;
+    }
+    const keys = stages.map((stage) => stage.key);
+    const duplicate = keys.find((key, index) => keys.indexOf(key) !== index);
+    if (duplicate) {
+      throw new BadRequestException(`Evolution stage ${duplicate} is defined more than once`);
+    }
+  }
+}
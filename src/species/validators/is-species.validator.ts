@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import {
+  registerDecorator,
+  ValidationOptions,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+  ValidationArguments,
+} from 'class-validator';
+import { SpeciesService } from '../species.service';
+
+/**
+ * 物种校验约束
+ * 通过 main.ts 中的 useContainer 由 Nest 容器注入 SpeciesService
+ */
+@ValidatorConstraint({ name: 'isSpecies', async: true })
+@Injectable()
+export class IsSpeciesConstraint implements ValidatorConstraintInterface {
+  constructor(private readonly speciesService: SpeciesService) {}
+
+  async validate(value: unknown): Promise<boolean> {
+    return typeof value === 'string' && this.speciesService.isAvailable(value);
+  }
+
+  defaultMessage(args: ValidationArguments): string {
+    return `${args.property} must be an available species`;
+  }
+}
+
+/**
+ * 校验字段是物种注册表中已启用的物种
+ */
+export function IsSpecies(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      target: object.constructor,
+      propertyName,
+      options: validationOptions,
+      validator: IsSpeciesConstraint,
+    });
+  };
+}
@@ -0,0 +1,15 @@
+import { IsOptional, IsString } from 'class-validator';
+
+/**
+ * 玩家自助修改的个人资料字段
+ * 等级、经验、金币等数值只能通过游戏行为或管理接口变更
+ */
+export class UpdateProfileDto {
+  @IsOptional()
+  @IsString()
+  username?: string;
+
+  @IsOptional()
+  @IsString()
+  avatar?: string;
+}
@@ -0,0 +1,7 @@
+import { IsEnum } from 'class-validator';
+import { UserRole } from '../schemas/user.schema';
+
+export class UpdateUserRoleDto {
+  @IsEnum(UserRole)
+  role: UserRole;
+}
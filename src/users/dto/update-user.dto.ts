@@ -18,9 +18,4 @@ export class UpdateUserDto {
   @IsNumber()
   @Min(0)
   experience?: number;
-
-  @IsOptional()
-  @IsNumber()
-  @Min(0)
-  coins?: number;
 }
\ No newline at end of file
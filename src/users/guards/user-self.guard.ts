@@ -0,0 +1,18 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { AuthenticatedRequest } from '../../auth/interfaces/auth-user.interface';
+
+/**
+ * 用户本人守卫
+ *
+ * 用于 /users/:id/* 路由，只允许用户访问和修改自己的账户信息
+ */
+@Injectable()
+export class UserSelfGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (request.params.id !== request.user?.id) {
+      throw new ForbiddenException('You can only access your own account');
+    }
+    return true;
+  }
+}
@@ -3,6 +3,12 @@ import { Document } from 'mongoose';
 
 export type UserDocument = User & Document;
 
+export enum UserRole {
+  PLAYER = 'player',
+  MODERATOR = 'moderator',
+  ADMIN = 'admin',
+}
+
 @Schema({ timestamps: true })
 export class User {
   @Prop({ required: true, unique: true })
@@ -23,6 +29,17 @@ export class User {
   @Prop({ default: 1000 })
   coins: number;
 
+  /** 可同时拥有的活跃宠物数量上限，可在商店购买扩充 */
+  @Prop({ default: 3 })
+  petSlots: number;
+
+  /** 当前占用的宠物栏位数量，即活跃宠物数量，获得、找回、转移宠物和宠物离家出走时原子地增减 */
+  @Prop({ default: 0 })
+  activePets: number;
+
+  @Prop({ default: UserRole.PLAYER, enum: UserRole })
+  role: UserRole;
+
   @Prop({ default: true })
   isActive: boolean;
 
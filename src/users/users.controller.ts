@@ -1,16 +1,29 @@
-import { Controller, Get, Post, Param, Patch, Body, Query } from '@nestjs/common';
+import { Controller, Get, Post, Param, Patch, Body, UseGuards } from '@nestjs/common';
 import { UsersService, LoginDto, RegisterDto } from './users.service';
-import { UpdateUserDto } from './dto/update-user.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { UserSelfGuard } from './guards/user-self.guard';
+import { AuthService } from '../auth/auth.service';
+import { Public } from '../auth/decorators/public.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RefreshTokenDto } from '../auth/dto/refresh-token.dto';
 
 /**
  * 用户管理控制器
  * 提供用户注册、登录、信息管理等RESTful API接口
  * 
  * 路径前缀: /users
+ * 
+ * 访问控制：
+ * - 注册、登录、刷新令牌接口无需认证
+ * - /users/:id 相关接口只允许用户访问自己的账户
+ * - 用户列表、数值修改等运营功能见 /admin/users
  */
 @Controller('users')
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly authService: AuthService,
+  ) {}
 
   /**
    * 用户注册接口
@@ -19,6 +32,7 @@ export class UsersController {
    * @param registerDto 用户注册信息，包含用户名、邮箱和密码
    * @returns 注册成功的用户信息（不包含密码）
    */
+  @Public()
   @Post('register')
   async register(@Body() registerDto: RegisterDto) {
     const user = await this.usersService.create(registerDto);
@@ -38,27 +52,50 @@ export class UsersController {
    * POST /users/login
    * 
    * @param loginDto 登录信息，包含邮箱和密码
-   * @returns 登录成功的用户信息（不包含密码）
+   * @returns 登录成功的用户信息（不包含密码）及访问令牌、刷新令牌
    */
+  @Public()
   @Post('login')
   async login(@Body() loginDto: LoginDto) {
     const user = await this.usersService.login(loginDto);
+    const userId = (user as unknown as { _id: { toString: () => string } })._id.toString();
+    const tokens = await this.authService.issueTokens(userId);
     
     return {
       success: true,
       user,
+      ...tokens,
+    };
+  }
+
+  /**
+   * 刷新令牌接口
+   * POST /users/refresh
+   * 
+   * @param refreshTokenDto 包含登录时签发的刷新令牌
+   * @returns 新的访问令牌和刷新令牌
+   */
+  @Public()
+  @Post('refresh')
+  async refresh(@Body() refreshTokenDto: RefreshTokenDto) {
+    const tokens = await this.authService.refresh(refreshTokenDto.refreshToken);
+
+    return {
+      success: true,
+      ...tokens,
     };
   }
 
   /**
-   * 获取所有用户列表
-   * GET /users
+   * 获取当前登录用户信息
+   * GET /users/me
    * 
-   * @returns 所有用户信息的数组（不包含密码）
+   * @param userId 当前认证用户ID
+   * @returns 当前用户信息（不包含密码）
    */
-  @Get()
-  findAll() {
-    return this.usersService.findAll();
+  @Get('me')
+  findMe(@CurrentUser('id') userId: string) {
+    return this.usersService.findById(userId);
   }
 
   /**
@@ -68,62 +105,23 @@ export class UsersController {
    * @param id 用户ID
    * @returns 指定ID的用户信息（不包含密码）
    */
+  @UseGuards(UserSelfGuard)
   @Get(':id')
   findOne(@Param('id') id: string) {
     return this.usersService.findById(id);
   }
 
   /**
-   * 根据邮箱获取用户信息
-   * GET /users/email/:email
-   * 
-   * @param email 用户邮箱
-   * @returns 匹配邮箱的用户信息（不包含密码）
-   */
-  @Get('email/:email')
-  findByEmail(@Param('email') email: string) {
-    return this.usersService.findByEmail(email);
-  }
-
-  /**
-   * 更新用户信息
+   * 更新个人资料
    * PATCH /users/:id
    * 
    * @param id 要更新的用户ID
-   * @param updateUserDto 更新的用户信息字段
+   * @param updateProfileDto 可修改的资料字段（用户名、头像）
    * @returns 更新后的用户信息（不包含密码）
    */
+  @UseGuards(UserSelfGuard)
   @Patch(':id')
-  update(@Param('id') id: string, @Body() updateUserDto: UpdateUserDto) {
-    return this.usersService.update(id, updateUserDto);
-  }
-
-  /**
-   * 增加用户经验值
-   * PATCH /users/:id/experience?experience=数值
-   * 
-   * @param id 用户ID
-   * @param experience 要增加的经验值数量
-   * @returns 更新后的用户信息（包含新的等级和经验值）
-   */
-  @Patch(':id/experience')
-  addExperience(
-    @Param('id') id: string,
-    @Query('experience') experience: number,
-  ) {
-    return this.usersService.addExperience(id, experience);
-  }
-
-  /**
-   * 增加用户金币
-   * PATCH /users/:id/coins?coins=数值
-   * 
-   * @param id 用户ID
-   * @param coins 要增加的金币数量（可为负数）
-   * @returns 更新后的用户信息（包含新的金币数量）
-   */
-  @Patch(':id/coins')
-  addCoins(@Param('id') id: string, @Query('coins') coins: number) {
-    return this.usersService.addCoins(id, coins);
+  update(@Param('id') id: string, @Body() updateProfileDto: UpdateProfileDto) {
+    return this.usersService.update(id, updateProfileDto);
   }
 }
\ No newline at end of file
@@ -3,6 +3,7 @@ import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { User, UserDocument } from './schemas/user.schema';
 import * as bcrypt from 'bcrypt';
+import { InventoryService } from '../items/inventory.service';
 
 /**
  * 用户注册数据传输对象
@@ -27,11 +28,16 @@ export interface RegisterDto {
  */
 @Injectable()
 export class UsersService {
-  constructor(@InjectModel(User.name) private userModel: Model<UserDocument>) {}
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly inventoryService: InventoryService,
+  ) {}
 
   /**
    * 创建新用户
    * 
+   * 注册成功后发放新手道具
+   * 
    * @param userData 用户注册信息
    * @returns 创建的用户对象
    * @throws UnauthorizedException 当邮箱或用户名已存在时
@@ -55,7 +61,9 @@ export class UsersService {
       ...userData,
       password: hashedPassword,
     });
-    return user.save();
+    const savedUser = await user.save();
+    await this.inventoryService.grantStarterItems(savedUser._id.toString());
+    return savedUser;
   }
 
   /**
@@ -92,10 +100,16 @@ export class UsersService {
    * 根据邮箱查找用户
    * 
    * @param email 用户邮箱
-   * @returns 用户对象或null
+   * @returns 用户对象（不包含密码）或null
    */
   async findByEmail(email: string): Promise<User | null> {
-    return this.userModel.findOne({ email }).exec();
+    const user = await this.userModel.findOne({ email }).exec();
+    if (user) {
+      const userObj = user.toObject();
+      delete userObj.password;
+      return userObj as User;
+    }
+    return null;
   }
 
   /**
@@ -188,19 +202,75 @@ export class UsersService {
   }
 
   /**
-   * 增加用户金币
+   * 增加宠物栏位
    * 
    * @param id 用户ID
-   * @param coins 增加的金币数量（可为负数，但不能低于0）
+   * @param slots 增加的栏位数量
    * @returns 更新后的用户信息或null
    */
-  async addCoins(id: string, coins: number): Promise<User | null> {
-    const user = await this.findById(id);
-    if (!user) return null;
+  async addPetSlots(id: string, slots: number): Promise<User | null> {
+    const user = await this.userModel
+      .findByIdAndUpdate(id, { $inc: { petSlots: slots } }, { new: true })
+      .exec();
+    if (user) {
+      const userObj = user.toObject();
+      delete userObj.password;
+      return userObj as User;
+    }
+    return null;
+  }
 
-    return this.update(id, {
-      coins: Math.max(0, user.coins + coins),
-    });
+  /**
+   * 占用一个宠物栏位
+   * 仅当已占用的栏位少于栏位上限时原子地增加占用数量，并发的占用不会超出上限
+   * 
+   * @param id 用户ID
+   * @returns 是否占用成功，用户不存在或栏位已满时为 false
+   */
+  async claimPetSlot(id: string): Promise<boolean> {
+    const result = await this.userModel
+      .updateOne(
+        { _id: id, $expr: { $lt: ['$activePets', '$petSlots'] } },
+        { $inc: { activePets: 1 } },
+      )
+      .exec();
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * 释放一个宠物栏位
+   * 
+   * @param id 用户ID
+   */
+  async releasePetSlot(id: string): Promise<void> {
+    await this.userModel
+      .updateOne({ _id: id, activePets: { $gt: 0 } }, { $inc: { activePets: -1 } })
+      .exec();
+  }
+
+  /**
+   * 为缺少栏位占用数量的用户补写活跃宠物数量，没有活跃宠物的用户补写为 0
+   * 
+   * @param counts 用户ID到活跃宠物数量的映射
+   * @returns 补写的用户数量
+   */
+  async backfillActivePets(counts: Map<string, number>): Promise<number> {
+    let modified = 0;
+    if (counts.size > 0) {
+      const result = await this.userModel.bulkWrite(
+        [...counts].map(([id, count]) => ({
+          updateOne: {
+            filter: { _id: id, activePets: { $exists: false } },
+            update: { $set: { activePets: count } },
+          },
+        })),
+      );
+      modified += result.modifiedCount;
+    }
+    const rest = await this.userModel
+      .updateMany({ activePets: { $exists: false } }, { $set: { activePets: 0 } })
+      .exec();
+    return modified + rest.modifiedCount;
   }
 
   /**
@@ -0,0 +1,109 @@
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { WorldEventScope } from '../schemas/world-event.schema';
+import { WORLD_EVENT_TEMPLATES } from '../world-event-templates';
+import { IsSpecies } from '../../species/validators/is-species.validator';
+
+export class WorldEventDecayMultipliersDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  hunger?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  happiness?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  energy?: number;
+}
+
+export class WorldEventItemGrantDto {
+  @IsString()
+  @IsNotEmpty()
+  itemKey: string;
+
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class WorldEventEffectsDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  experience?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => WorldEventDecayMultipliersDto)
+  decay?: WorldEventDecayMultipliersDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => WorldEventItemGrantDto)
+  item?: WorldEventItemGrantDto;
+}
+
+/**
+ * 安排世界事件
+ * - template: 事件模板，名称、说明、持续时间和效果默认取自模板
+ * - scope: 影响范围，species 范围需要 species，user 范围需要 userId
+ * - startsAt: 开始时间，默认立即开始
+ * - endsAt: 结束时间，默认按模板的持续时间计算
+ * - effects: 覆盖模板的效果
+ */
+export class CreateWorldEventDto {
+  @IsIn(Object.keys(WORLD_EVENT_TEMPLATES))
+  template: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsEnum(WorldEventScope)
+  scope: WorldEventScope;
+
+  @IsOptional()
+  @IsSpecies()
+  species?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  userId?: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startsAt?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  endsAt?: Date;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => WorldEventEffectsDto)
+  effects?: WorldEventEffectsDto;
+}
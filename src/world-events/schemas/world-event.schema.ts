@@ -0,0 +1,125 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type WorldEventDocument = WorldEvent & Document;
+
+/**
+ * 世界事件的影响范围
+ */
+export enum WorldEventScope {
+  ALL = 'all',
+  SPECIES = 'species',
+  USER = 'user',
+}
+
+/**
+ * 世界事件的来源
+ */
+export enum WorldEventOrigin {
+  SCHEDULED = 'scheduled',
+  RANDOM = 'random',
+}
+
+/**
+ * 每小时衰减量的倍率，未设置的数值不受影响
+ */
+@Schema({ _id: false })
+export class WorldEventDecayMultipliers {
+  @Prop()
+  hunger?: number;
+
+  @Prop()
+  happiness?: number;
+
+  @Prop()
+  energy?: number;
+}
+
+/**
+ * 事件开始时向范围内的玩家发放的道具
+ */
+@Schema({ _id: false })
+export class WorldEventItemGrant {
+  @Prop({ required: true })
+  itemKey: string;
+
+  @Prop({ required: true })
+  quantity: number;
+}
+
+/**
+ * 世界事件的效果
+ */
+@Schema({ _id: false })
+export class WorldEventEffects {
+  /** 交互获得经验的倍率 */
+  @Prop()
+  experience?: number;
+
+  @Prop({ type: WorldEventDecayMultipliers })
+  decay?: WorldEventDecayMultipliers;
+
+  @Prop({ type: WorldEventItemGrant })
+  item?: WorldEventItemGrant;
+}
+
+/**
+ * 世界事件
+ * 由管理员安排或定时任务随机触发，在开始和结束时间之间对范围内的宠物生效
+ */
+@Schema({ timestamps: true })
+export class WorldEvent {
+  /** 事件模板，对应 WORLD_EVENT_TEMPLATES 的 key */
+  @Prop({ required: true })
+  template: string;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  description?: string;
+
+  @Prop({ required: true, enum: WorldEventScope })
+  scope: WorldEventScope;
+
+  /** 范围为 species 时的物种标识 */
+  @Prop()
+  species?: string;
+
+  /** 范围为 user 时的用户ID */
+  @Prop()
+  userId?: string;
+
+  @Prop({ required: true })
+  startsAt: Date;
+
+  @Prop({ required: true })
+  endsAt: Date;
+
+  @Prop({ type: WorldEventEffects, required: true })
+  effects: WorldEventEffects;
+
+  @Prop({ required: true, enum: WorldEventOrigin })
+  origin: WorldEventOrigin;
+
+  /** 随机事件的触发时段，同一时段只会触发一次 */
+  @Prop()
+  slotKey?: string;
+
+  /** 安排事件的管理员 */
+  @Prop()
+  createdBy?: string;
+
+  /** 道具发放完成的时间，未发放时为空 */
+  @Prop()
+  itemsGrantedAt?: Date;
+
+  /** 被管理员提前结束的时间 */
+  @Prop()
+  cancelledAt?: Date;
+}
+
+export const WorldEventSchema = SchemaFactory.createForClass(WorldEvent);
+
+WorldEventSchema.index({ endsAt: 1 });
+WorldEventSchema.index({ slotKey: 1 }, { unique: true, sparse: true });
@@ -0,0 +1,115 @@
+import {
+  applyWorldEventDecay,
+  applyWorldEventEffects,
+  combineWorldEventModifiers,
+} from './world-event-effects';
+import { WorldEvent, WorldEventOrigin, WorldEventScope } from './schemas/world-event.schema';
+
+const HOUR = 60 * 60 * 1000;
+const start = new Date('2024-02-10T00:00:00Z');
+const at = (hours: number) => new Date(start.getTime() + hours * HOUR);
+const pet = { type: 'cat', userId: 'user-1' };
+
+const event = (overrides: Partial<WorldEvent> = {}): WorldEvent => ({
+  template: 'festival',
+  name: 'Festival',
+  scope: WorldEventScope.ALL,
+  startsAt: at(0),
+  endsAt: at(24),
+  effects: {},
+  origin: WorldEventOrigin.SCHEDULED,
+  ...overrides,
+});
+
+describe('combineWorldEventModifiers', () => {
+  it('returns neutral modifiers without events', () => {
+    expect(combineWorldEventModifiers([], pet, at(1), at(2))).toEqual({
+      experience: 1,
+      decay: { hunger: 1, happiness: 1, energy: 1 },
+    });
+  });
+
+  it('multiplies the experience of every event active at the end of the window', () => {
+    const modifiers = combineWorldEventModifiers(
+      [
+        event({ effects: { experience: 2 } }),
+        event({ effects: { experience: 1.5 } }),
+        event({ endsAt: at(1), effects: { experience: 10 } }),
+      ],
+      pet,
+      at(2),
+      at(2),
+    );
+
+    expect(modifiers.experience).toBe(3);
+  });
+
+  it('ignores events for other species or other users', () => {
+    const modifiers = combineWorldEventModifiers(
+      [
+        event({ scope: WorldEventScope.SPECIES, species: 'dog', effects: { experience: 2 } }),
+        event({ scope: WorldEventScope.USER, userId: 'user-2', effects: { experience: 2 } }),
+        event({ scope: WorldEventScope.SPECIES, species: 'cat', effects: { experience: 3 } }),
+      ],
+      pet,
+      at(2),
+      at(2),
+    );
+
+    expect(modifiers.experience).toBe(3);
+  });
+
+  it('weights decay multipliers by the share of the window the event covers', () => {
+    const modifiers = combineWorldEventModifiers(
+      [event({ startsAt: at(5), endsAt: at(20), effects: { decay: { hunger: 2, energy: 0.5 } } })],
+      pet,
+      at(0),
+      at(10),
+    );
+
+    expect(modifiers.decay).toEqual({ hunger: 1.5, happiness: 1, energy: 0.75 });
+  });
+
+  it('applies the full decay multiplier for an instant inside the event', () => {
+    const modifiers = combineWorldEventModifiers(
+      [event({ effects: { decay: { happiness: 0.5 } } })],
+      pet,
+      at(3),
+      at(3),
+    );
+
+    expect(modifiers.decay.happiness).toBe(0.5);
+  });
+
+  it('never lets decay multipliers go below zero', () => {
+    const modifiers = combineWorldEventModifiers(
+      [event({ effects: { decay: { hunger: 0 } } }), event({ effects: { decay: { hunger: 0 } } })],
+      pet,
+      at(1),
+      at(2),
+    );
+
+    expect(modifiers.decay.hunger).toBe(0);
+  });
+});
+
+describe('applyWorldEventEffects', () => {
+  const modifiers = { experience: 1.5, decay: { hunger: 1, happiness: 1, energy: 1 } };
+
+  it('scales and rounds positive experience only', () => {
+    expect(applyWorldEventEffects({ experience: 15, hunger: 10 }, modifiers)).toEqual({ experience: 23, hunger: 10 });
+    expect(applyWorldEventEffects({ experience: -5 }, modifiers)).toEqual({ experience: -5 });
+  });
+});
+
+describe('applyWorldEventDecay', () => {
+  it('multiplies each decay rate', () => {
+    const modifiers = { experience: 1, decay: { hunger: 2, happiness: 0.5, energy: 1 } };
+
+    expect(applyWorldEventDecay({ hunger: 2, happiness: 4, energy: 3 }, modifiers)).toEqual({
+      hunger: 4,
+      happiness: 2,
+      energy: 3,
+    });
+  });
+});
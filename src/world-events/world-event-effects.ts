@@ -0,0 +1,118 @@
+import { WorldEvent, WorldEventScope } from './schemas/world-event.schema';
+import { ItemEffects } from '../items/schemas/item.schema';
+import { SpeciesDecayRates } from '../species/schemas/species.schema';
+
+/**
+ * 世界事件对一只宠物的合并影响，均为倍率，1 表示不影响
+ */
+export interface WorldEventModifiers {
+  /** 交互获得经验的倍率 */
+  experience: number;
+  /** 每小时衰减量的倍率 */
+  decay: Record<keyof SpeciesDecayRates, number>;
+}
+
+const DECAY_FIELDS: (keyof SpeciesDecayRates)[] = ['hunger', 'happiness', 'energy'];
+
+/**
+ * 判断事件是否作用于该宠物
+ *
+ * @param event 世界事件
+ * @param pet 宠物的物种和主人
+ */
+export function isInScope(event: WorldEvent, pet: { type: string; userId: string }): boolean {
+  switch (event.scope) {
+    case WorldEventScope.SPECIES:
+      return event.species === pet.type;
+    case WorldEventScope.USER:
+      return event.userId === pet.userId;
+    default:
+      return true;
+  }
+}
+
+/**
+ * 判断事件在某一时刻是否生效
+ */
+export function isActiveAt(event: WorldEvent, at: Date): boolean {
+  return event.startsAt <= at && at < event.endsAt;
+}
+
+/**
+ * 合并作用于宠物的世界事件
+ *
+ * - 经验倍率取 to 时刻生效的事件，多个事件相乘
+ * - 衰减倍率按事件在 [from, to] 中生效的时长加权，只覆盖一部分时间的事件只影响这部分时间的衰减
+ *
+ * @param events 世界事件
+ * @param pet 宠物的物种和主人
+ * @param from 推算的起始时间，交互时与 to 相同
+ * @param to 推算到的时间点
+ * @returns 合并后的倍率，没有生效的事件时全部为 1
+ */
+export function combineWorldEventModifiers(
+  events: WorldEvent[],
+  pet: { type: string; userId: string },
+  from: Date,
+  to: Date,
+): WorldEventModifiers {
+  const modifiers: WorldEventModifiers = { experience: 1, decay: { hunger: 1, happiness: 1, energy: 1 } };
+  const span = to.getTime() - from.getTime();
+
+  for (const event of events) {
+    if (!isInScope(event, pet)) {
+      continue;
+    }
+    if (isActiveAt(event, to)) {
+      modifiers.experience *= event.effects.experience ?? 1;
+    }
+
+    const overlap =
+      span > 0
+        ? Math.max(0, Math.min(to.getTime(), event.endsAt.getTime()) - Math.max(from.getTime(), event.startsAt.getTime())) / span
+        : Number(isActiveAt(event, to));
+    for (const field of DECAY_FIELDS) {
+      const multiplier = event.effects.decay?.[field];
+      if (multiplier !== undefined && overlap > 0) {
+        modifiers.decay[field] += (multiplier - 1) * overlap;
+      }
+    }
+  }
+
+  for (const field of DECAY_FIELDS) {
+    modifiers.decay[field] = Math.max(0, Math.round(modifiers.decay[field] * 1000) / 1000);
+  }
+  return modifiers;
+}
+
+/**
+ * 按世界事件调整交互获得的经验，其他效果保持不变
+ *
+ * @param effects 交互的合并效果
+ * @param modifiers 世界事件倍率
+ * @returns 调整后的效果
+ */
+export function applyWorldEventEffects(effects: ItemEffects, modifiers: WorldEventModifiers): ItemEffects {
+  if (!effects.experience || effects.experience <= 0 || modifiers.experience === 1) {
+    return effects;
+  }
+  return { ...effects, experience: Math.round(effects.experience * modifiers.experience) };
+}
+
+/**
+ * 按世界事件调整每小时衰减量
+ *
+ * @param decayRates 每小时衰减量
+ * @param modifiers 世界事件倍率
+ * @returns 调整后的衰减量
+ */
+export function applyWorldEventDecay(
+  decayRates: SpeciesDecayRates,
+  modifiers: WorldEventModifiers,
+): SpeciesDecayRates {
+  return {
+    hunger: decayRates.hunger * modifiers.decay.hunger,
+    happiness: decayRates.happiness * modifiers.decay.happiness,
+    energy: decayRates.energy * modifiers.decay.energy,
+  };
+}
@@ -0,0 +1,46 @@
+import { WorldEventEffects, WorldEventScope } from './schemas/world-event.schema';
+
+/**
+ * 世界事件模板
+ */
+export interface WorldEventTemplate {
+  name: string;
+  description: string;
+  /** 默认持续时间（分钟） */
+  durationMinutes: number;
+  effects: WorldEventEffects;
+  /** 随机触发时的影响范围，范围内的物种或玩家从活跃宠物中随机选取 */
+  randomScope: WorldEventScope;
+  /** 随机触发时被选中的权重，为 0 时只能由管理员安排 */
+  weight: number;
+}
+
+/**
+ * 内置世界事件模板
+ */
+export const WORLD_EVENT_TEMPLATES: Record<string, WorldEventTemplate> = {
+  festival: {
+    name: '丰收节',
+    description: '节日期间喂食、玩耍、睡觉和治疗获得的经验翻倍',
+    durationMinutes: 360,
+    effects: { experience: 2 },
+    randomScope: WorldEventScope.ALL,
+    weight: 1,
+  },
+  cold_snap: {
+    name: '寒潮',
+    description: '天气骤冷，饥饿度下降速度提高 50%，能量下降速度提高 20%',
+    durationMinutes: 240,
+    effects: { decay: { hunger: 1.5, energy: 1.2 } },
+    randomScope: WorldEventScope.SPECIES,
+    weight: 2,
+  },
+  stray_item: {
+    name: '意外收获',
+    description: '宠物在路边捡到了一份小鱼干',
+    durationMinutes: 60,
+    effects: { item: { itemKey: 'fish_snack', quantity: 1 } },
+    randomScope: WorldEventScope.USER,
+    weight: 3,
+  },
+};
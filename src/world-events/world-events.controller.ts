@@ -0,0 +1,27 @@
+import { Controller, Get } from '@nestjs/common';
+import { WorldEventsService } from './world-events.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+/**
+ * 世界事件控制器
+ * 
+ * 路径前缀: /events
+ * 
+ * 访问控制：需要登录
+ */
+@Controller('events')
+export class WorldEventsController {
+  constructor(private readonly worldEventsService: WorldEventsService) {}
+
+  /**
+   * 获取当前生效的世界事件
+   * GET /events/active
+   * 
+   * @param userId 当前用户ID，只针对某个玩家的事件只返回给该玩家
+   * @returns 按结束时间升序排列的事件，包含范围、起止时间和效果
+   */
+  @Get('active')
+  findActive(@CurrentUser('id') userId: string) {
+    return this.worldEventsService.findActive(userId);
+  }
+}
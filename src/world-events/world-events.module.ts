@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { WorldEvent, WorldEventSchema } from './schemas/world-event.schema';
+import { Pet, PetSchema } from '../pets/schemas/pet.schema';
+import { ItemsModule } from '../items/items.module';
+import { WorldEventsService } from './world-events.service';
+import { WorldEventsScheduler } from './world-events.scheduler';
+import { WorldEventsController } from './world-events.controller';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: WorldEvent.name, schema: WorldEventSchema },
+      { name: Pet.name, schema: PetSchema },
+    ]),
+    ItemsModule,
+  ],
+  providers: [WorldEventsService, WorldEventsScheduler],
+  controllers: [WorldEventsController],
+  exports: [WorldEventsService],
+})
+export class WorldEventsModule {}
@@ -0,0 +1,48 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { WorldEventsService } from './world-events.service';
+import { gameConfig } from '../config';
+
+const CHECK_INTERVAL_NAME = 'world-event-check';
+
+/**
+ * 世界事件定时检查
+ *
+ * 按配置文件 game.worldEvents.checkMinutes 的间隔执行：以 randomChance 的概率触发随机事件，
+ * 为已开始的事件发放道具，并同步其他实例或管理员安排的事件
+ */
+@Injectable()
+export class WorldEventsScheduler implements OnApplicationBootstrap {
+  private readonly logger = new Logger(WorldEventsScheduler.name);
+  private running = false;
+
+  constructor(
+    private readonly worldEventsService: WorldEventsService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    const { checkMinutes } = gameConfig.worldEvents;
+    const interval = setInterval(() => void this.check(), checkMinutes * 60 * 1000);
+    this.schedulerRegistry.addInterval(CHECK_INTERVAL_NAME, interval);
+  }
+
+  /**
+   * 执行一次检查
+   * 上一次检查尚未完成时跳过本次执行
+   */
+  async check(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.worldEventsService.tick(new Date());
+    } catch (error) {
+      this.logger.error('World event check failed', error instanceof Error ? error.stack : error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,349 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import {
+  WorldEvent,
+  WorldEventDocument,
+  WorldEventOrigin,
+  WorldEventScope,
+} from './schemas/world-event.schema';
+import { CreateWorldEventDto } from './dto/create-world-event.dto';
+import { WORLD_EVENT_TEMPLATES, WorldEventTemplate } from './world-event-templates';
+import { WorldEventModifiers, combineWorldEventModifiers } from './world-event-effects';
+import { Pet, PetDocument } from '../pets/schemas/pet.schema';
+import { ItemsService } from '../items/items.service';
+import { InventoryService } from '../items/inventory.service';
+import { PaginatedResult } from '../common/dto/pagination-query.dto';
+import { chance, createRandom, randomInt } from '../common/utils/random';
+import { gameConfig } from '../config';
+
+/** 内存中缓存结束时间在该时长以内的事件，用于推算长时间未结算的宠物的衰减 */
+const CACHE_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * 世界事件服务类
+ *
+ * 维护管理员安排和随机触发的世界事件。近期的事件缓存在内存中，
+ * 宠物结算衰减和交互时按事件调整衰减速度和经验，与性格倍率在同一流程中生效
+ */
+@Injectable()
+export class WorldEventsService implements OnModuleInit {
+  private readonly logger = new Logger(WorldEventsService.name);
+  private recent: WorldEvent[] = [];
+
+  constructor(
+    @InjectModel(WorldEvent.name) private worldEventModel: Model<WorldEventDocument>,
+    @InjectModel(Pet.name) private petModel: Model<PetDocument>,
+    private readonly itemsService: ItemsService,
+    private readonly inventoryService: InventoryService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.refreshCache(new Date());
+  }
+
+  /**
+   * 计算作用于宠物的世界事件倍率
+   *
+   * @param pet 宠物的物种和主人
+   * @param from 推算的起始时间，交互时与 to 相同
+   * @param to 推算到的时间点
+   * @returns 合并后的倍率
+   */
+  getModifiers(pet: { type: string; userId: string }, from: Date, to: Date): WorldEventModifiers {
+    return combineWorldEventModifiers(this.recent, pet, from, to);
+  }
+
+  /**
+   * 获取当前生效的世界事件
+   * 只针对某个玩家的事件只返回给该玩家
+   *
+   * @param userId 当前用户ID
+   * @returns 按结束时间升序排列的事件
+   */
+  async findActive(userId: string): Promise<WorldEvent[]> {
+    const now = new Date();
+    return this.worldEventModel
+      .find({
+        startsAt: { $lte: now },
+        endsAt: { $gt: now },
+        $or: [{ scope: { $ne: WorldEventScope.USER } }, { userId }],
+      })
+      .sort({ endsAt: 1 })
+      .exec();
+  }
+
+  /**
+   * 获取全部世界事件
+   *
+   * @param page 页码，从1开始
+   * @param limit 每页条数
+   * @returns 按开始时间倒序排列的事件
+   */
+  async findAll(page = 1, limit = 20): Promise<PaginatedResult<WorldEvent>> {
+    const [items, total] = await Promise.all([
+      this.worldEventModel
+        .find()
+        .sort({ startsAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.worldEventModel.countDocuments().exec(),
+    ]);
+    return { items, total, page, limit };
+  }
+
+  /**
+   * 安排世界事件
+   *
+   * 名称、说明、持续时间和效果默认取自模板。已经开始的事件立即生效，
+   * 带有道具的事件在开始后由定时任务向范围内的玩家发放
+   *
+   * @param adminId 安排事件的管理员
+   * @param dto 事件定义
+   * @returns 创建的事件
+   * @throws BadRequestException 当范围缺少物种或用户、时间范围无效或效果为空时
+   * @throws NotFoundException 当发放的道具不存在时
+   */
+  async schedule(adminId: string, dto: CreateWorldEventDto): Promise<WorldEvent> {
+    const template = WORLD_EVENT_TEMPLATES[dto.template];
+    if (dto.scope === WorldEventScope.SPECIES && !dto.species) {
+      throw new BadRequestException('species is required for species-scoped events');
+    }
+    if (dto.scope === WorldEventScope.USER && !dto.userId) {
+      throw new BadRequestException('userId is required for user-scoped events');
+    }
+
+    const now = new Date();
+    const startsAt = dto.startsAt ?? now;
+    const endsAt = dto.endsAt ?? new Date(startsAt.getTime() + template.durationMinutes * 60 * 1000);
+    if (endsAt <= startsAt || endsAt <= now) {
+      throw new BadRequestException('endsAt must be after startsAt and in the future');
+    }
+
+    const effects = dto.effects ?? template.effects;
+    if (!effects.experience && !effects.decay && !effects.item) {
+      throw new BadRequestException('World event must have at least one effect');
+    }
+    if (effects.item) {
+      await this.itemsService.findByKey(effects.item.itemKey);
+    }
+
+    const event = await new this.worldEventModel({
+      template: dto.template,
+      name: dto.name ?? template.name,
+      description: dto.description ?? template.description,
+      scope: dto.scope,
+      species: dto.scope === WorldEventScope.SPECIES ? dto.species : undefined,
+      userId: dto.scope === WorldEventScope.USER ? dto.userId : undefined,
+      startsAt,
+      endsAt,
+      effects,
+      origin: WorldEventOrigin.SCHEDULED,
+      createdBy: adminId,
+    }).save();
+
+    await this.refreshCache(now);
+    return event;
+  }
+
+  /**
+   * 提前结束世界事件，已发放的道具不会收回
+   *
+   * @param id 事件ID
+   * @returns 结束后的事件
+   * @throws NotFoundException 当事件不存在或已经结束时
+   */
+  async cancel(id: string): Promise<WorldEvent> {
+    const now = new Date();
+    const event = await this.worldEventModel
+      .findOneAndUpdate(
+        { _id: id, endsAt: { $gt: now } },
+        { $set: { endsAt: now, cancelledAt: now } },
+        { new: true },
+      )
+      .exec();
+    if (!event) {
+      throw new NotFoundException('World event not found or already ended');
+    }
+
+    await this.refreshCache(now);
+    return event;
+  }
+
+  /**
+   * 定时任务的一次执行：按概率触发随机事件，为已开始的事件发放道具，并刷新内存中的事件缓存
+   *
+   * @param now 执行时间
+   * @returns 本次随机触发的事件，没有触发时为 null
+   */
+  async tick(now: Date): Promise<WorldEvent | null> {
+    const triggered = await this.triggerRandomEvent(now);
+    await this.grantDueItems(now);
+    await this.refreshCache(now);
+    return triggered;
+  }
+
+  /**
+   * 按概率触发随机事件
+   *
+   * 以检查时段作为随机种子，多个实例在同一时段得到相同的结果，
+   * slotKey 的唯一索引保证同一时段只会创建一个事件。
+   * 生效中的随机事件达到 game.worldEvents.maxActiveRandom 时不再触发
+   */
+  private async triggerRandomEvent(now: Date): Promise<WorldEvent | null> {
+    const { checkMinutes, randomChance, maxActiveRandom } = gameConfig.worldEvents;
+    const slotMs = checkMinutes * 60 * 1000;
+    const slotKey = new Date(Math.floor(now.getTime() / slotMs) * slotMs).toISOString();
+    const random = createRandom(`world-event:${slotKey}`);
+    if (!chance(random, randomChance)) {
+      return null;
+    }
+
+    const activeRandom = await this.worldEventModel
+      .countDocuments({ origin: WorldEventOrigin.RANDOM, startsAt: { $lte: now }, endsAt: { $gt: now } })
+      .exec();
+    if (activeRandom >= maxActiveRandom) {
+      return null;
+    }
+
+    const candidates = Object.entries(WORLD_EVENT_TEMPLATES).filter(([, template]) => template.weight > 0);
+    if (candidates.length === 0) {
+      return null;
+    }
+    const totalWeight = candidates.reduce((sum, [, template]) => sum + template.weight, 0);
+    let roll = random() * totalWeight;
+    let [key, template] = candidates[candidates.length - 1];
+    for (const [candidateKey, candidate] of candidates) {
+      roll -= candidate.weight;
+      if (roll < 0) {
+        [key, template] = [candidateKey, candidate];
+        break;
+      }
+    }
+
+    const target = await this.pickTarget(template, random);
+    if (target === undefined) {
+      return null;
+    }
+
+    try {
+      const event = await new this.worldEventModel({
+        template: key,
+        name: template.name,
+        description: template.description,
+        scope: template.randomScope,
+        ...target,
+        startsAt: now,
+        endsAt: new Date(now.getTime() + template.durationMinutes * 60 * 1000),
+        effects: template.effects,
+        origin: WorldEventOrigin.RANDOM,
+        slotKey,
+      }).save();
+      this.logger.log(`Random world event ${key} started (${template.randomScope})`);
+      return event;
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 为随机事件选取影响的物种或玩家：从活跃宠物中随机选一只，取它的物种或主人
+   *
+   * @returns 事件的范围字段，没有活跃宠物时为 undefined
+   */
+  private async pickTarget(
+    template: WorldEventTemplate,
+    random: () => number,
+  ): Promise<Pick<WorldEvent, 'species' | 'userId'> | undefined> {
+    if (template.randomScope === WorldEventScope.ALL) {
+      return {};
+    }
+
+    const count = await this.petModel.countDocuments({ is_active: true }).exec();
+    if (count === 0) {
+      return undefined;
+    }
+    const pet = await this.petModel
+      .findOne({ is_active: true })
+      .sort({ _id: 1 })
+      .skip(randomInt(random, 0, count - 1))
+      .select({ type: 1, userId: 1 })
+      .lean()
+      .exec();
+    if (!pet) {
+      return undefined;
+    }
+    return template.randomScope === WorldEventScope.SPECIES ? { species: pet.type } : { userId: pet.userId };
+  }
+
+  /**
+   * 为已开始且带有道具的事件发放道具
+   *
+   * 先原子地标记发放时间再发放，多个实例同时执行时只有一个会发放。
+   * 范围内的每位拥有活跃宠物的玩家获得一份
+   */
+  private async grantDueItems(now: Date): Promise<void> {
+    const due = await this.worldEventModel
+      .find({
+        startsAt: { $lte: now },
+        endsAt: { $gt: now },
+        'effects.item': { $exists: true },
+        itemsGrantedAt: null,
+      })
+      .exec();
+
+    for (const candidate of due) {
+      const event = await this.worldEventModel
+        .findOneAndUpdate({ _id: candidate._id, itemsGrantedAt: null }, { $set: { itemsGrantedAt: now } }, { new: true })
+        .exec();
+      if (!event) {
+        continue;
+      }
+
+      const { itemKey, quantity } = event.effects.item;
+      const recipients = await this.findRecipients(event);
+      for (const userId of recipients) {
+        try {
+          await this.inventoryService.grant(userId, itemKey, quantity);
+        } catch (error) {
+          this.logger.error(
+            `Failed to grant ${itemKey} to ${userId} for world event ${String(event._id)}`,
+            error instanceof Error ? error.stack : error,
+          );
+        }
+      }
+      this.logger.log(`World event ${String(event._id)} granted ${itemKey} to ${recipients.length} players`);
+    }
+  }
+
+  private async findRecipients(event: WorldEvent): Promise<string[]> {
+    if (event.scope === WorldEventScope.USER) {
+      return [event.userId];
+    }
+    const filter: FilterQuery<PetDocument> = { is_active: true };
+    if (event.scope === WorldEventScope.SPECIES) {
+      filter.type = event.species;
+    }
+    return this.petModel.distinct('userId', filter).exec();
+  }
+
+  /**
+   * 重新加载内存中的近期事件
+   */
+  private async refreshCache(now: Date): Promise<void> {
+    this.recent = await this.worldEventModel
+      .find({ endsAt: { $gt: new Date(now.getTime() - CACHE_LOOKBACK_MS) } })
+      .lean()
+      .exec();
+  }
+}